@@ -4,18 +4,32 @@
  * This component sets up the core structure of the React application:
  * - React Router: Manages navigation between different pages/routes.
  * - AuthProvider: Provides authentication state (user, token, login/logout) to the entire app via Context.
+ * - QueryCacheProvider: Provides the shared API response cache, cleared whenever the user changes.
  * - PrivateRoute: A helper component to protect routes, redirecting unauthenticated users to the login page.
- * It defines the main routes for the application (Login and Dashboard).
+ *   The requested location is kept in the redirect's state, so the user returns to it after logging in.
+ * It defines the main routes for the application: the login page, and the dashboard pages, which
+ * share the DashboardPage layout and each have their own URL.
  */
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext'; // Import AuthProvider and useAuth hook
+import { QueryCacheProvider } from './context/QueryCacheContext'; // Import the shared API response cache
 
 // Import the page components defined in the 'pages' directory
 import LoginPage from './pages/LoginPage';
-import DashboardPage from './pages/DashboardPage';
-// import CompanyTrackerPage from './pages/CompanyTrackerPage'; // Example for future protected routes
-// import ProjectTrackerPage from './pages/ProjectTrackerPage'; // Example for future protected routes
+import DashboardPage from './pages/DashboardPage'; // Layout route for every dashboard page
+import OverviewPage from './pages/OverviewPage';
+import CompaniesPage from './pages/CompaniesPage';
+import ClientsPage from './pages/ClientsPage';
+import ProjectsPage from './pages/ProjectsPage';
+import TimeEntriesPage from './pages/TimeEntriesPage';
+import ExpensesPage from './pages/ExpensesPage';
+import TeamMembersPage from './pages/TeamMembersPage';
+import ReportsPage from './pages/ReportsPage';
+import QueryResultPage from './pages/QueryResultPage';
+import NotFoundPage from './pages/NotFoundPage';
+import SessionDialog from './components/SessionDialog'; // Re-login dialog shown when the session expires
+import { RedirectState } from './utils/navigation';
 
 
 /**
@@ -23,13 +37,16 @@ import DashboardPage from './pages/DashboardPage';
  *
  * A wrapper component that checks if a user is authenticated using the AuthContext.
  * If the user is loading or not authenticated, it redirects them to the login page.
+ * The current location is passed along as `state.from`, so the login page can send the user back to it.
  * Otherwise, it renders the child components (the protected page).
  * @param {object} props - The component's props.
- * @param {JSX.Element} props.children - The protected component(s) to render if authenticated.
+ * @param {React.ReactElement} props.children - The protected component(s) to render if authenticated.
  */
-const PrivateRoute: React.FC<{ children: JSX.Element }> = ({ children }) => {
+const PrivateRoute: React.FC<{ children: React.ReactElement }> = ({ children }) => {
   // Use the useAuth hook to access the authentication state
   const { user, loadingUser } = useAuth();
+  // The location the user requested, e.g. a deep link to '/companies/12'
+  const location = useLocation();
 
   // If the authentication status is still being checked (e.g., reading token from storage)
   if (loadingUser) {
@@ -39,9 +56,10 @@ const PrivateRoute: React.FC<{ children: JSX.Element }> = ({ children }) => {
 
   // If the user is not logged in (user is null)
   if (!user) {
-    // Redirect the user to the login page
+    // Redirect the user to the login page, remembering where they wanted to go
     // 'replace' prop prevents going back to the protected page using the browser's back button
-    return <Navigate to="/login" replace />;
+    const state: RedirectState = { from: location };
+    return <Navigate to="/login" replace state={state} />;
   }
 
   // If the user is logged in, render the children components (the protected page)
@@ -59,44 +77,48 @@ function App() {
     <Router>
       {/* AuthProvider wraps the routes, making auth state available to all route components */}
       <AuthProvider>
-        {/* Routes component defines the different paths and the components to render */}
-        <Routes>
-          {/* Public route for the login page */}
-          {/* The 'element' prop specifies the component to render for this path */}
-          <Route path="/login" element={<LoginPage />} />
+        {/* QueryCacheProvider sits inside AuthProvider, so it can clear the cache when the user changes */}
+        <QueryCacheProvider>
+          {/* Routes component defines the different paths and the components to render */}
+          <Routes>
+            {/* Public route for the login page */}
+            {/* The 'element' prop specifies the component to render for this path */}
+            <Route path="/login" element={<LoginPage />} />
 
-          {/* Protected route for the dashboard */}
-          {/* This route uses the PrivateRoute wrapper */}
-          <Route
-            path="/dashboard"
-            element={
-              <PrivateRoute>
-                {/* If PrivateRoute allows access, render the DashboardPage */}
-                <DashboardPage />
-              </PrivateRoute>
-            }
-          />
+            {/* Protected dashboard routes */}
+            {/* DashboardPage is a layout route: it renders the header, sidebar and Nexus bar, */}
+            {/* and the matched child page through its <Outlet />. PrivateRoute guards all of them. */}
+            <Route
+              element={
+                <PrivateRoute>
+                  <DashboardPage />
+                </PrivateRoute>
+              }
+            >
+              <Route path="/dashboard" element={<OverviewPage />} />
+              {/* Entity pages define their own nested routes (list, new, detail, edit) */}
+              <Route path="/companies/*" element={<CompaniesPage />} />
+              <Route path="/clients/*" element={<ClientsPage />} />
+              <Route path="/projects/*" element={<ProjectsPage />} />
+              <Route path="/time-entries/*" element={<TimeEntriesPage />} />
+              <Route path="/expenses/*" element={<ExpensesPage />} />
+              <Route path="/team/*" element={<TeamMembersPage />} />
+              <Route path="/reports/*" element={<ReportsPage />} />
+              <Route path="/query" element={<QueryResultPage />} />
+            </Route>
 
-           {/* Example of another protected route using PrivateRoute */}
-           {/* <Route
-             path="/companies"
-             element={
-               <PrivateRoute>
-                 <CompanyTrackerPage /> // Component to view/manage companies
-               </PrivateRoute>
-             }
-           /> */}
-            {/* TODO: Add more protected routes for other entities (projects, expenses, etc.) */}
+            {/* Default route: Redirects the root path "/" to "/login" */}
+            {/* PrivateRoute on /dashboard will handle redirection if already logged in */}
+            <Route path="/" element={<Navigate to="/login" replace />} />
 
+            {/* Catch-all route for 404 Not Found pages */}
+            <Route path="*" element={<NotFoundPage />} />
 
-          {/* Default route: Redirects the root path "/" to "/login" */}
-          {/* PrivateRoute on /dashboard will handle redirection if already logged in */}
-          <Route path="/" element={<Navigate to="/login" replace />} />
+          </Routes>
 
-          {/* Optional: Catch-all route for 404 Not Found pages */}
-          {/* <Route path="*" element={<div>404 Not Found</div>} /> */}
-
-        </Routes>
+          {/* Rendered next to the routes, so the current page stays mounted while the user logs in again */}
+          <SessionDialog />
+        </QueryCacheProvider>
       </AuthProvider>
     </Router>
   );
@@ -0,0 +1,112 @@
+/**
+ * Action Registry.
+ *
+ * Every action of the dashboard, in the order the command palette lists them.
+ * The Quick Actions grid, the sidebar and the command palette all render from `ACTIONS`,
+ * and natural language answers suggest registry actions as follow-ups.
+ * To add an action, add an `ActionDefinition` to `ACTIONS`; give it a `sidebar` label to list it
+ * in the sidebar, and add its ID to `DEFAULT_QUICK_ACTIONS` to show it in the Quick Actions grid.
+ */
+import { QueryResource, QueryResponse, TeamRole } from '../api/types';
+import { REPORTS } from '../reports/definitions';
+import { ActionCapability, ActionCategory, ActionDefinition } from './types';
+
+// The headings of the categories, in the order the command palette lists them.
+export const ACTION_CATEGORIES: Record<ActionCategory, string> = {
+  navigate: 'Go to',
+  create: 'Create',
+  reports: 'Reports',
+  account: 'Account',
+};
+
+export const ACTIONS: ActionDefinition[] = [
+  // --- Go to ---
+  { id: 'go-overview', label: 'Go to Overview', icon: '🏠', category: 'navigate', keywords: ['dashboard', 'home'], route: '/dashboard', shortcut: 'shift+o', sidebar: { label: 'Overview', end: true } },
+  { id: 'view-companies', label: 'View All Companies', icon: '🏢', category: 'navigate', route: '/companies', shortcut: 'shift+c', sidebar: { label: 'Companies' } },
+  { id: 'view-clients', label: 'View All Clients', icon: '👤', category: 'navigate', keywords: ['contacts'], route: '/clients', shortcut: 'shift+l', sidebar: { label: 'Clients' } },
+  { id: 'view-projects', label: 'View All Projects', icon: '📁', category: 'navigate', route: '/projects', shortcut: 'shift+p', sidebar: { label: 'Projects' } },
+  { id: 'view-time-entries', label: 'View All Time Entries', icon: '⏱️', category: 'navigate', keywords: ['hours', 'timesheet'], route: '/time-entries', shortcut: 'shift+t', sidebar: { label: 'Time Entries' } },
+  { id: 'view-expenses', label: 'View All Expenses', icon: '🧾', category: 'navigate', keywords: ['costs', 'receipts'], route: '/expenses', shortcut: 'shift+e', sidebar: { label: 'Expenses' } },
+  { id: 'view-team', label: 'View Team Members', icon: '👥', category: 'navigate', keywords: ['people', 'users', 'rates'], route: '/team', shortcut: 'shift+m', sidebar: { label: 'Team Members' } },
+
+  // --- Create ---
+  { id: 'add-company', label: 'Add New Company', icon: '🏢', category: 'create', route: '/companies/new' },
+  { id: 'add-client', label: 'Add New Client', icon: '👤', category: 'create', keywords: ['contact'], route: '/clients/new' },
+  { id: 'add-project', label: 'Add New Project', icon: '📁', category: 'create', route: '/projects/new' },
+  { id: 'add-time-entry', label: 'Add Time Entry', icon: '⏱️', category: 'create', keywords: ['log hours', 'timesheet'], route: '/time-entries/new', shortcut: 'shift+n' },
+  { id: 'add-expense', label: 'Add Expense', icon: '🧾', category: 'create', keywords: ['receipt'], route: '/expenses/new' },
+  { id: 'import-companies', label: 'Import Companies', icon: '📥', category: 'create', keywords: ['csv', 'upload'], route: '/companies/import' },
+  { id: 'invite-team-member', label: 'Invite Team Member', icon: '✉️', category: 'create', keywords: ['user', 'people'], capability: 'manage_team', route: '/team/invite' },
+
+  // --- Reports ---
+  { id: 'view-reports', label: 'View Reports', icon: '📊', category: 'reports', route: '/reports', shortcut: 'shift+r', sidebar: { label: 'Reports' } },
+  ...REPORTS.map<ActionDefinition>((report) => ({
+    id: `report-${report.id}`,
+    label: report.title,
+    icon: '📈',
+    category: 'reports',
+    keywords: [report.description],
+    route: `/reports/${report.id}`,
+  })),
+
+  // --- Account ---
+  { id: 'logout', label: 'Log Out', icon: '🚪', category: 'account', keywords: ['sign out'], run: ({ logout }) => logout() },
+];
+
+// The Quick Actions shown until the user arranges their own, in display order.
+export const DEFAULT_QUICK_ACTIONS: string[] = [
+  'add-company',
+  'view-companies',
+  'add-project',
+  'view-projects',
+  'add-client',
+  'view-clients',
+  'add-time-entry',
+  'view-time-entries',
+  'add-expense',
+  'view-expenses',
+  'view-reports',
+];
+
+// The actions suggested after a record of each resource, when the backend suggests none.
+const RESOURCE_FOLLOW_UPS: Record<QueryResource, string[]> = {
+  companies: ['view-companies', 'add-company'],
+  clients: ['view-clients', 'add-client'],
+  projects: ['view-projects', 'add-project'],
+  'time-entries': ['view-time-entries', 'add-time-entry'],
+  expenses: ['view-expenses', 'add-expense'],
+  'team-members': ['view-team', 'invite-team-member'],
+};
+
+/**
+ * Returns the registry action with the given ID.
+ * @param {string} id - The action's ID.
+ */
+export const getAction = (id: string): ActionDefinition | undefined => ACTIONS.find((action) => action.id === id);
+
+/**
+ * Returns what a user is allowed to do, from their WordPress roles and their Nexus team role.
+ * @param {string[]} roles - The user's WordPress roles.
+ * @param {TeamRole | undefined} teamRole - The role of the user's team member record, if they have one.
+ */
+export const getCapabilities = (roles: string[], teamRole: TeamRole | undefined): ActionCapability[] =>
+  roles.includes('administrator') || teamRole === 'admin' ? ['manage_team'] : [];
+
+/**
+ * Returns the actions to suggest after a natural language answer: the ones the backend
+ * named in its `actions`, or else, after a record, the ones about the record's resource.
+ * An `actions` value that isn't a list is ignored; it comes straight from the response body.
+ * @param {QueryResponse} result - The answer.
+ */
+export const getFollowUpActions = (result: QueryResponse): ActionDefinition[] => {
+  const named: unknown = result.actions;
+  const ids = Array.isArray(named)
+    ? named.filter((id): id is string => typeof id === 'string')
+    : result.kind === 'record'
+      ? RESOURCE_FOLLOW_UPS[result.resource] ?? []
+      : [];
+  return ids.flatMap((id) => {
+    const action = getAction(id);
+    return action ? [action] : [];
+  });
+};
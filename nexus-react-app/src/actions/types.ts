@@ -0,0 +1,38 @@
+/**
+ * Action Types.
+ *
+ * Everything the user can do from the Quick Actions grid, the sidebar or the command palette
+ * is an `ActionDefinition` in the action registry (see ./registry.ts). Components render
+ * actions from the registry and run them by their definition, never by their label,
+ * so labels can change (or be translated) without breaking anything.
+ */
+import { NavigateFunction } from 'react-router-dom';
+
+// The groups actions are listed under in the command palette.
+export type ActionCategory = 'navigate' | 'create' | 'reports' | 'account';
+
+// What the current user must be allowed to do to see an action. Actions without one are
+// offered to every logged-in user. The backend enforces the same rules; here they only
+// decide which actions are shown.
+// 'manage_team': invite team members and change their roles and rates (Nexus admins and WordPress administrators).
+export type ActionCapability = 'manage_team';
+
+// What an action's handler can use.
+export interface ActionContext {
+  navigate: NavigateFunction;
+  logout: () => void;
+}
+
+// An action of the registry.
+export interface ActionDefinition {
+  id: string; // Stored in users' Quick Actions layouts, so it must not change
+  label: string;
+  icon: string; // A symbol shown before the label
+  category: ActionCategory;
+  keywords?: string[]; // Other words the command palette finds the action by
+  capability?: ActionCapability;
+  route?: string; // The route the action opens; actions without one have a `run` handler
+  run?: (context: ActionContext) => void;
+  shortcut?: string; // A key combination, as taken by useHotkey (e.g. 'shift+c')
+  sidebar?: { label: string; end?: boolean }; // Listed in the sidebar, with a shorter label; `end` highlights it on its exact route only
+}
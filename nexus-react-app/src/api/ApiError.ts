@@ -0,0 +1,73 @@
+/**
+ * API Error.
+ *
+ * Thrown by `apiFetch` (and therefore by every API client method) when the backend answers
+ * with an HTTP error. Besides the message, it carries what WordPress puts in a REST error:
+ * - `status`: the HTTP status code,
+ * - `code`: the WordPress error code, e.g. 'rest_invalid_param' or 'rest_forbidden',
+ * - `params`: field-level validation messages from `data.params`, keyed by field name.
+ * Components can show `params` next to the matching inputs instead of one generic message.
+ */
+
+// The JSON body of a WordPress REST error response.
+interface WpErrorBody {
+  code?: string;
+  message?: string;
+  data?: {
+    status?: number;
+    // 'rest_invalid_param' sends { field: message }; 'rest_missing_callback_param' sends [field, ...].
+    params?: Record<string, string> | string[];
+  } | null;
+}
+
+export class ApiError extends Error {
+  // The HTTP status code of the response.
+  readonly status: number;
+  // The WordPress error code, or null if the body was not a WordPress error.
+  readonly code: string | null;
+  // Field-level validation messages, keyed by field name (empty if there are none).
+  readonly params: Record<string, string>;
+  // The parsed error body, or the raw text if it was not JSON.
+  readonly body: unknown;
+
+  constructor(message: string, status: number, code: string | null = null, params: Record<string, string> = {}, body: unknown = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.params = params;
+    this.body = body;
+  }
+
+  /**
+   * Builds an ApiError from an error response's status and body text.
+   * @param {number} status - The HTTP status code.
+   * @param {string} statusText - The HTTP status text, used when the body has no message.
+   * @param {string} bodyText - The raw response body.
+   */
+  static fromResponse(status: number, statusText: string, bodyText: string): ApiError {
+    let body: WpErrorBody | null = null;
+    try {
+      body = JSON.parse(bodyText);
+    } catch {
+      // Not JSON (e.g., a PHP fatal error page); keep the raw text below.
+    }
+
+    if (!body || typeof body !== 'object') {
+      return new ApiError(statusText || 'API request failed (Non-JSON error)', status, null, {}, bodyText);
+    }
+
+    // Normalize both shapes of data.params into { field: message }.
+    const rawParams = body.data?.params;
+    const params: Record<string, string> = Array.isArray(rawParams)
+      ? Object.fromEntries(rawParams.map((field) => [field, 'This field is required.']))
+      : { ...(rawParams ?? {}) };
+
+    return new ApiError(body.message || statusText || 'API request failed', status, body.code ?? null, params, body);
+  }
+
+  // Whether the request was rejected because of invalid or missing fields.
+  get isValidationError(): boolean {
+    return this.code === 'rest_invalid_param' || this.code === 'rest_missing_callback_param';
+  }
+}
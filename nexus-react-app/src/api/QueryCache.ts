@@ -0,0 +1,197 @@
+/**
+ * Query Cache.
+ *
+ * A shared, in-memory cache of API responses, keyed by resource and parameters,
+ * e.g. ['companies'], ['companies', 12] or ['time-entries', { from, to }].
+ * - Requests for the same key that are in flight at the same time share one request.
+ * - Cached data is shown right away; stale entries are refetched in the background
+ *   (stale-while-revalidate).
+ * - Mutations invalidate a resource: every key starting with it is marked stale, and the
+ *   keys that are on screen are refetched. The API client does this after each mutation.
+ * Components read the cache through the `useQuery` hook.
+ */
+
+// A cache key: the resource name (the endpoint's first segment), followed by any parameters.
+export type QueryKey = readonly [resource: string, ...params: unknown[]];
+
+// The cached state of one key.
+export interface QueryState<T> {
+  data: T | undefined; // The last successful response, or undefined if there is none yet
+  error: Error | null; // The error of the last request, or null if it succeeded
+  updatedAt: number; // When data was last fetched (ms since epoch), or 0 if never
+  isFetching: boolean; // Whether a request for the key is in flight
+}
+
+// The state of a key that has not been fetched yet.
+export const EMPTY_QUERY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+// One cache entry and the components listening to it.
+interface CacheEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  stale: boolean; // Set by invalidate; the next read refetches regardless of age
+  promise: Promise<unknown> | null; // The request in flight, shared by concurrent readers
+  requestId: number; // Incremented per request, so an outdated response can be ignored
+  fetcher: (() => Promise<unknown>) | null; // How to fetch the key again after invalidation
+  listeners: Set<() => void>;
+}
+
+// Turns a key into the string the entries are stored under.
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Returns the entry for a key, creating an empty one if needed.
+   * @param {QueryKey} key - The cache key.
+   */
+  private getEntry(key: QueryKey): CacheEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: EMPTY_QUERY_STATE, stale: false, promise: null, requestId: 0, fetcher: null, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Replaces an entry's state and notifies its listeners.
+   * The state object is replaced, never mutated, so React sees the change.
+   */
+  private setState(entry: CacheEntry, changes: Partial<QueryState<unknown>>): void {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Returns the cached state of a key. The same object is returned until the state changes.
+   * @param {QueryKey} key - The cache key.
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashKey(key))?.state ?? EMPTY_QUERY_STATE) as QueryState<T>;
+  }
+
+  /**
+   * Registers a listener that is called whenever the key's state changes.
+   * @param {QueryKey} key - The cache key.
+   * @param {() => void} listener - The listener.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetches a key, sharing the request with any other caller while it is in flight.
+   * @param {QueryKey} key - The cache key.
+   * @param {() => Promise<T>} fetcher - Performs the request.
+   * @param {boolean} force - Start a new request even if one is in flight (used after invalidation).
+   */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>, force = false): Promise<T> {
+    const entry = this.getEntry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise && !force) {
+      return entry.promise as Promise<T>;
+    }
+
+    const requestId = ++entry.requestId;
+    // Only the latest request may write to the entry; a response to an older one is outdated.
+    const isCurrent = () => entry.requestId === requestId;
+
+    const promise = fetcher().then(
+      (data) => {
+        if (isCurrent()) {
+          entry.promise = null;
+          entry.stale = false;
+          this.setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        }
+        return data;
+      },
+      (err: unknown) => {
+        if (isCurrent()) {
+          entry.promise = null;
+          this.setState(entry, { error: err instanceof Error ? err : new Error(String(err)), isFetching: false });
+        }
+        throw err;
+      }
+    );
+
+    entry.promise = promise;
+    this.setState(entry, { isFetching: true });
+    return promise;
+  }
+
+  /**
+   * Fetches a key if it has no data yet, was invalidated, or is older than `staleTime`.
+   * Otherwise the cached data is kept and only the fetcher is registered for later invalidation.
+   * Errors end up in the key's state, so nothing is thrown.
+   * @param {QueryKey} key - The cache key.
+   * @param {() => Promise<T>} fetcher - Performs the request.
+   * @param {number} staleTime - How long (ms) fetched data counts as fresh.
+   */
+  revalidate<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime: number): void {
+    const entry = this.getEntry(key);
+    const isStale = entry.stale || entry.state.updatedAt === 0 || Date.now() - entry.state.updatedAt > staleTime;
+
+    if (isStale) {
+      this.fetch(key, fetcher).catch(() => {});
+    } else {
+      entry.fetcher = fetcher;
+    }
+  }
+
+  /**
+   * Replaces a key's cached data, e.g. with the record a mutation returned,
+   * so the change is shown before the refetch triggered by the mutation completes.
+   * @param {QueryKey} key - The cache key.
+   * @param {(data: T | undefined) => T | undefined} updater - Returns the new data from the cached data.
+   */
+  setData<T>(key: QueryKey, updater: (data: T | undefined) => T | undefined): void {
+    const entry = this.getEntry(key);
+    this.setState(entry, { data: updater(entry.state.data as T | undefined) });
+  }
+
+  /**
+   * Marks every key of a resource as stale, e.g. invalidate('companies') after a company was saved.
+   * Keys with listeners (data on screen) are refetched right away; the others on their next read.
+   * @param {string} resource - The resource name, the first element of its keys.
+   */
+  invalidate(resource: string): void {
+    this.entries.forEach((entry) => {
+      if (entry.key[0] !== resource) return;
+
+      entry.stale = true;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, true).catch(() => {});
+      }
+    });
+  }
+
+  /**
+   * Drops all cached data, e.g. when another user logs in.
+   * Entries still on screen are reset and refetched; the others are removed.
+   */
+  clear(): void {
+    this.entries.forEach((entry, hash) => {
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+        return;
+      }
+
+      entry.requestId++; // Ignore any response that is still in flight
+      entry.promise = null;
+      entry.stale = true;
+      this.setState(entry, EMPTY_QUERY_STATE);
+      if (entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher).catch(() => {});
+      }
+    });
+  }
+}
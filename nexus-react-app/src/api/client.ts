@@ -0,0 +1,203 @@
+/**
+ * Typed API Client for the 'nexus/v1' REST API.
+ *
+ * Wraps `apiFetch` with one typed method per backend operation, grouped by resource,
+ * so components no longer build endpoints, request bodies and response types themselves.
+ * - Every method resolves with the typed response from ./types.
+ * - Every method rejects with an `ApiError` (see ./ApiError) when the backend returns an error.
+ * Mutations also invalidate the cached reads of the resources they change (see ./QueryCache),
+ * so lists showing those resources refetch by themselves.
+ * Components get a client bound to the current session through the `useApiClient` hook.
+ */
+import {
+  Client,
+  ClientInput,
+  ClientListParams,
+  Company,
+  CompanyInput,
+  CompanyListParams,
+  Expense,
+  ExpenseInput,
+  ExpenseListParams,
+  OverviewLayout,
+  OverviewLayoutInput,
+  Page,
+  Project,
+  ProjectInput,
+  QueryConfirmRequest,
+  QueryRequest,
+  QueryResource,
+  QueryStreamEvent,
+  TableView,
+  TableViewInput,
+  TableViewListParams,
+  TeamMember,
+  TeamMemberInvite,
+  TeamMemberListParams,
+  TeamMemberUpdate,
+  TimeEntry,
+  TimeEntryInput,
+  TimeEntryListParams,
+  TranscriptionResponse,
+} from './types';
+import { toQueryResponse, toQueryStreamEvent } from '../utils/query';
+
+// The signature of `useApi().apiFetch`: the endpoint is relative to '/wp-json/nexus/v1/'.
+export type ApiFetch = <T = unknown>(endpoint: string, options?: RequestInit) => Promise<T>;
+
+// The signature of `useApi().apiFetchPage`: like ApiFetch, for paginated list endpoints.
+export type ApiFetchPage = <T>(endpoint: string, options?: RequestInit) => Promise<Page<T>>;
+
+// The signature of `useApi().apiFetchStream`: like ApiFetch, for streamed responses.
+// Yields each parsed message as it arrives (see src/utils/stream.ts).
+export type ApiFetchStream = (endpoint: string, options?: RequestInit) => AsyncGenerator<unknown>;
+
+/**
+ * Appends query parameters to an endpoint. Undefined, null and empty values are left out.
+ * @param {string} endpoint - The endpoint path.
+ * @param {object} params - The query parameters.
+ */
+const withParams = (endpoint: string, params: object = {}): string => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `${endpoint}?${query}` : endpoint;
+};
+
+// Request options for a JSON body.
+const jsonBody = (method: string, body: unknown): RequestInit => ({ method, body: JSON.stringify(body) });
+
+// Page size used to read every record of a paginated list; the most WordPress allows.
+const LIST_ALL_PAGE_SIZE = 100;
+
+/**
+ * Reads every page of a paginated list, one after the other.
+ * @param {(page: number) => Promise<Page<T>>} fetchPage - Fetches one page (1-based).
+ */
+const fetchAllPages = async <T,>(fetchPage: (page: number) => Promise<Page<T>>): Promise<T[]> => {
+  const all: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page);
+    all.push(...result.items);
+    if (page >= result.totalPages || result.items.length === 0) return all;
+  }
+};
+
+/**
+ * Creates the typed client on top of the `useApi` fetch functions.
+ * @param {object} fetchers - The authenticated `apiFetch`, `apiFetchPage` and `apiFetchStream` functions from `useApi`.
+ * @param {(resource: string) => void} invalidate - Called with each resource a successful mutation changed.
+ */
+export const createApiClient = (
+  { apiFetch, apiFetchPage, apiFetchStream }: { apiFetch: ApiFetch; apiFetchPage: ApiFetchPage; apiFetchStream: ApiFetchStream },
+  invalidate: (resource: string) => void = () => {}
+) => {
+  /**
+   * Waits for a mutation, then invalidates the resources it changed.
+   * @param {Promise<T>} request - The mutation request.
+   * @param {string[]} resources - The resource names to invalidate, e.g. 'companies'.
+   */
+  const mutate = async <T,>(request: Promise<T>, ...resources: string[]): Promise<T> => {
+    const result = await request;
+    resources.forEach(invalidate);
+    return result;
+  };
+
+  return {
+    companies: {
+      // Every company matching the filters, read page by page; for pickers, lookups and reports.
+      list: (params: Omit<CompanyListParams, 'page' | 'per_page'> = {}) =>
+        fetchAllPages((page) => apiFetchPage<Company>(withParams('companies', { ...params, page, per_page: LIST_ALL_PAGE_SIZE }))),
+      // One page of companies, filtered and sorted on the server.
+      page: (params: CompanyListParams) => apiFetchPage<Company>(withParams('companies', params)),
+      get: (id: number) => apiFetch<Company>(`companies/${id}`),
+      create: (input: CompanyInput) => mutate(apiFetch<Company>('companies', jsonBody('POST', input)), 'companies'),
+      update: (id: number, input: CompanyInput) => mutate(apiFetch<Company>(`companies/${id}`, jsonBody('PUT', input)), 'companies'),
+      setStatus: (id: number, status: number) => mutate(apiFetch<Company>(`companies/${id}`, jsonBody('PATCH', { status })), 'companies'),
+      // Deleting a company also changes the clients and projects that were linked to it.
+      remove: (id: number) => mutate(apiFetch<void>(`companies/${id}`, { method: 'DELETE' }), 'companies', 'clients', 'projects'),
+    },
+
+    clients: {
+      list: (params: ClientListParams = {}) => apiFetch<Client[]>(withParams('clients', params)),
+      get: (id: number) => apiFetch<Client>(`clients/${id}`),
+      create: (input: ClientInput) => mutate(apiFetch<Client>('clients', jsonBody('POST', input)), 'clients'),
+      update: (id: number, input: ClientInput) => mutate(apiFetch<Client>(`clients/${id}`, jsonBody('PUT', input)), 'clients'),
+    },
+
+    projects: {
+      list: () => apiFetch<Project[]>('projects'),
+      get: (id: number) => apiFetch<Project>(`projects/${id}`),
+      create: (input: ProjectInput) => mutate(apiFetch<Project>('projects', jsonBody('POST', input)), 'projects'),
+      update: (id: number, input: ProjectInput) => mutate(apiFetch<Project>(`projects/${id}`, jsonBody('PUT', input)), 'projects'),
+    },
+
+    timeEntries: {
+      list: (params: TimeEntryListParams = {}) => apiFetch<TimeEntry[]>(withParams('time-entries', params)),
+      create: (input: TimeEntryInput) => mutate(apiFetch<TimeEntry>('time-entries', jsonBody('POST', input)), 'time-entries'),
+    },
+
+    expenses: {
+      list: (params: ExpenseListParams = {}) => apiFetch<Expense[]>(withParams('expenses', params)),
+      // Sent as multipart FormData; apiFetch leaves the Content-Type to the browser.
+      create: (input: ExpenseInput) => mutate(apiFetch<Expense>('expenses', { method: 'POST', body: input }), 'expenses'),
+    },
+
+    teamMembers: {
+      list: (params: TeamMemberListParams = {}) => apiFetch<TeamMember[]>(withParams('team-members', params)),
+      update: (id: number, changes: TeamMemberUpdate) => mutate(apiFetch<TeamMember>(`team-members/${id}`, jsonBody('PATCH', changes)), 'team-members'),
+      invite: (input: TeamMemberInvite) => mutate(apiFetch<TeamMember>('team-members/invite', jsonBody('POST', input)), 'team-members'),
+    },
+
+    tableViews: {
+      list: (params: TableViewListParams = {}) => apiFetch<TableView[]>(withParams('table-views', params)),
+      create: (input: TableViewInput) => mutate(apiFetch<TableView>('table-views', jsonBody('POST', input)), 'table-views'),
+      update: (id: number, input: TableViewInput) => mutate(apiFetch<TableView>(`table-views/${id}`, jsonBody('PUT', input)), 'table-views'),
+      remove: (id: number) => mutate(apiFetch<void>(`table-views/${id}`, { method: 'DELETE' }), 'table-views'),
+    },
+
+    overviewLayout: {
+      get: () => apiFetch<OverviewLayout>('overview-layout'),
+      // Not a cache mutation: the layout changes in quick succession while cards are dragged,
+      // so useOverviewLayout keeps the cached layout up to date itself instead of refetching it.
+      save: (input: OverviewLayoutInput) => apiFetch<OverviewLayout>('overview-layout', jsonBody('PUT', input)),
+    },
+
+    query: {
+      // Answers without a known kind (e.g. a plain `{ message }`) are read as a 'message' answer.
+      run: (request: QueryRequest) => apiFetch<unknown>('query', jsonBody('POST', request)).then(toQueryResponse),
+      // Asks for the answer as a stream of status steps, partial text and finally the answer.
+      // Aborting the signal cancels the request; backends that don't stream yield the whole answer as one 'result'.
+      stream: async function* (request: QueryRequest, signal?: AbortSignal): AsyncGenerator<QueryStreamEvent> {
+        const options: RequestInit = {
+          ...jsonBody('POST', { ...request, stream: true }),
+          headers: { Accept: 'text/event-stream, application/x-ndjson, application/json' },
+          signal,
+        };
+        for await (const message of apiFetchStream('query', options)) {
+          yield toQueryStreamEvent(message);
+        }
+      },
+      // Carries out a change proposed by a 'mutation_preview' answer, then refetches its resource.
+      confirm: (request: QueryConfirmRequest, resource: QueryResource) =>
+        mutate(apiFetch<unknown>('query/confirm', jsonBody('POST', request)).then(toQueryResponse), resource),
+    },
+
+    speech: {
+      // Turns a voice recording into text, for browsers without speech recognition.
+      // Sent as multipart FormData with the audio in an 'audio' field.
+      transcribe: (audio: Blob) => {
+        const body = new FormData();
+        body.append('audio', audio, `recording.${audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'mp4' : 'webm'}`);
+        return apiFetch<TranscriptionResponse>('transcribe', { method: 'POST', body }).then((response) => response.text);
+      },
+    },
+  };
+};
+
+// The type of the client returned by createApiClient.
+export type ApiClient = ReturnType<typeof createApiClient>;
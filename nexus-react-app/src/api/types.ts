@@ -0,0 +1,484 @@
+/**
+ * Request and Response Types for the 'nexus/v1' REST API.
+ *
+ * The single source of truth for the shape of every resource the backend returns,
+ * and of the payloads the app sends. Components import these types from here.
+ * Notes on the backend's column types:
+ * - DECIMAL columns come back as strings in JSON, and are sent as strings.
+ * - smallint(1) flags (status, billable, ...) are numbers: 1 = yes, 0 = no.
+ * - DATE columns are 'YYYY-MM-DD' strings; DATETIME columns are 'YYYY-MM-DD HH:MM:SS' strings.
+ */
+
+// --- Lists ---
+
+// One page of a paginated list, with the totals from WordPress's X-WP-Total / X-WP-TotalPages headers.
+export interface Page<T> {
+  items: T[];
+  total: number; // Number of records matching the query, across all pages
+  totalPages: number;
+}
+
+// Sort direction of a list.
+export type SortOrder = 'asc' | 'desc';
+
+// --- Companies ---
+
+// A company, as returned by 'companies' and 'companies/{id}'.
+export interface Company {
+  ID: number;
+  name: string;
+  legal_name: string | null;
+  document_number: string | null;
+  default_flat_fee: string | null; // DECIMAL is typically returned as a string
+  contact_person: string | null;
+  email: string | null;
+  phone: string | null;
+  address_1: string | null;
+  address_2: string | null;
+  city: string | null;
+  state: string | null;
+  postal_code: string | null;
+  country: string | null;
+  website: string | null;
+  notes: string | null;
+  status: number; // smallint(1): 1 = active, 0 = inactive
+  created_at: string | null; // timestamp strings (ISO 8601 format often)
+  updated_at: string | null; // timestamp strings
+}
+
+// The fields sent when creating (POST) or replacing (PUT) a company.
+export type CompanyInput = Omit<Company, 'ID' | 'created_at' | 'updated_at'>;
+
+// The columns the company list can be sorted by.
+export type CompanySortField = 'ID' | 'name' | 'contact_person' | 'email' | 'city' | 'status' | 'created_at';
+
+// Query parameters of the paginated company list.
+export interface CompanyListParams {
+  page?: number; // 1-based page number
+  per_page?: number;
+  orderby?: CompanySortField;
+  order?: SortOrder;
+  search?: string; // Matched against the name, legal name, contact person and email
+  status?: 0 | 1;
+  city?: string;
+  country?: string;
+}
+
+// --- Clients ---
+
+// A contact person at a client.
+export interface ClientContact {
+  ID?: number; // Absent for contacts that have not been saved yet
+  name: string;
+  email: string | null;
+  phone: string | null;
+  role: string | null; // Job title or role, e.g. "Accounts Payable"
+  is_primary: number; // smallint(1): 1 = the client's main contact
+}
+
+// A client, as returned by 'clients' and 'clients/{id}'.
+export interface Client {
+  ID: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  status: number; // smallint(1): 1 = active, 0 = inactive
+  company_ids: number[]; // The companies this client is linked to
+  contacts: ClientContact[]; // The client's contact people
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// The fields sent when creating or replacing a client. Contacts without an ID are created,
+// and saved contacts missing from the list are removed.
+export type ClientInput = Omit<Client, 'ID' | 'created_at' | 'updated_at'>;
+
+// Query parameters of the client list.
+export interface ClientListParams {
+  company_id?: number; // Only clients linked to this company
+}
+
+// --- Projects ---
+
+// Lifecycle states a project can be in.
+export type ProjectStatus = 'planned' | 'active' | 'on_hold' | 'completed' | 'cancelled';
+
+// How a project is billed: a flat fee, by the hour, or not at all.
+export type ProjectBillingMode = 'flat_fee' | 'hourly' | 'non_billable';
+
+// A project, as returned by 'projects' and 'projects/{id}'.
+export interface Project {
+  ID: number;
+  company_id: number; // The company this project belongs to
+  name: string;
+  description: string | null;
+  status: ProjectStatus;
+  billing_mode: ProjectBillingMode;
+  flat_fee: string | null; // DECIMAL, used when billing_mode is 'flat_fee'
+  hourly_rate: string | null; // DECIMAL, used when billing_mode is 'hourly'
+  budget: string | null; // DECIMAL, total budget for the project
+  estimated_hours: string | null; // DECIMAL, estimated effort in hours
+  start_date: string | null; // DATE strings (YYYY-MM-DD)
+  end_date: string | null; // DATE strings (YYYY-MM-DD)
+  created_at: string | null; // timestamp strings
+  updated_at: string | null; // timestamp strings
+}
+
+// The fields sent when creating or replacing a project.
+export type ProjectInput = Omit<Project, 'ID' | 'created_at' | 'updated_at'>;
+
+// --- Time Entries ---
+
+// A time entry, as returned by 'time-entries'.
+export interface TimeEntry {
+  ID: number;
+  project_id: number;
+  user_id: number; // The WordPress user the time belongs to
+  user_name: string | null; // Display name of the user, joined in by the backend
+  entry_date: string; // DATE string (YYYY-MM-DD) the work was done on
+  start_time: string | null; // DATETIME string, null for duration-only entries
+  end_time: string | null; // DATETIME string, null for duration-only entries
+  duration_minutes: number;
+  description: string | null;
+  billable: number; // smallint(1): 1 = billable, 0 = non-billable
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// The fields sent when creating a time entry. Without user_id, the entry belongs to the current user.
+export type TimeEntryInput = Omit<TimeEntry, 'ID' | 'user_id' | 'user_name' | 'created_at' | 'updated_at'> & {
+  user_id?: number;
+};
+
+// Query parameters of the time entry list. Dates are 'YYYY-MM-DD' and inclusive.
+export interface TimeEntryListParams {
+  from?: string;
+  to?: string;
+  project_id?: number | string;
+  user_id?: number | string;
+}
+
+// --- Expenses ---
+
+// An expense, as returned by 'expenses'.
+export interface Expense {
+  ID: number;
+  user_id: number; // The WordPress user who recorded the expense
+  expense_date: string; // DATE string (YYYY-MM-DD)
+  amount: string; // DECIMAL
+  currency: string; // ISO 4217 code, e.g. 'USD'
+  category: string;
+  project_id: number | null;
+  company_id: number | null;
+  billable: number; // smallint(1): 1 = billable, 0 = non-billable
+  notes: string | null;
+  receipt_url: string | null; // URL of the uploaded receipt file
+  receipt_thumbnail_url: string | null; // URL of a resized image, if the receipt is an image
+  receipt_mime_type: string | null; // e.g. 'image/jpeg' or 'application/pdf'
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// Expenses are created with a multipart FormData body, because of the receipt upload.
+// Its fields: user_id, expense_date, amount, currency, category, company_id?, project_id?,
+// billable ('1' or '0'), notes, and the optional 'receipt' file.
+export type ExpenseInput = FormData;
+
+// Query parameters of the expense list. Dates are 'YYYY-MM-DD' and inclusive.
+export interface ExpenseListParams {
+  from?: string;
+  to?: string;
+  category?: string;
+}
+
+// --- Team Members ---
+
+// Roles a member can have within Nexus.
+export type TeamRole = 'admin' | 'manager' | 'member';
+
+// A team member, as returned by 'team-members'.
+export interface TeamMember {
+  ID: number; // The WordPress user ID
+  name: string;
+  email: string;
+  role: TeamRole;
+  hourly_cost_rate: string | null; // DECIMAL, what an hour of this member costs the agency
+  billable_rate: string | null; // DECIMAL, what an hour of this member is billed at
+  active: number; // smallint(1): 1 = active, 0 = deactivated
+  invitation_pending: number; // smallint(1): 1 = invited but not yet accepted
+}
+
+// The fields an admin can change on a member (PATCH 'team-members/{id}').
+export type TeamMemberUpdate = Partial<Pick<TeamMember, 'role' | 'hourly_cost_rate' | 'billable_rate' | 'active'>>;
+
+// The fields sent to invite a member (POST 'team-members/invite').
+export type TeamMemberInvite = Pick<TeamMember, 'name' | 'email' | 'role' | 'hourly_cost_rate' | 'billable_rate'>;
+
+// Query parameters of the team member list.
+export interface TeamMemberListParams {
+  active?: 0 | 1; // Only active (1) or deactivated (0) members
+}
+
+// --- Table Views ---
+
+// The layout of one column of a data table.
+export interface TableColumnState {
+  id: string; // The column's ID in the table's column definitions
+  hidden: boolean;
+  width: number | null; // In pixels; null = sized by the browser
+  pinned: boolean; // Pinned columns stay on the left while the table scrolls horizontally
+}
+
+// The sort of a data table: a column ID and a direction.
+export interface TableSort {
+  column: string;
+  order: SortOrder;
+}
+
+// A named view of a data table (columns, filters and sort), as returned by 'table-views'.
+// Views belong to the user who saved them; the backend only returns the logged-in user's views.
+export interface TableView {
+  ID: number;
+  table: string; // The table the view belongs to, e.g. 'companies'
+  name: string;
+  columns: TableColumnState[]; // In display order
+  filters: Record<string, string>; // The table's filter values, by filter name
+  sort: TableSort | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+// The fields sent when creating or replacing a table view.
+export type TableViewInput = Omit<TableView, 'ID' | 'created_at' | 'updated_at'>;
+
+// Query parameters of the table view list.
+export interface TableViewListParams {
+  table?: string; // Only the views of this table
+}
+
+// --- Overview Layout ---
+
+// The kinds of cards the overview page can show.
+export type OverviewWidgetType =
+  | 'hours-this-week' // The current user's hours since Monday
+  | 'running-timer' // The header timer, with pause and resume
+  | 'unbilled-amount' // The value of this month's billable time and expenses
+  | 'recent-companies' // The most recently added or changed companies
+  | 'top-projects' // The projects with the most hours this month
+  | 'pinned-query'; // The answer to a natural language query, run whenever the overview opens
+
+// A card of the overview page. Cards are laid out in a grid, in array order.
+export interface OverviewWidget {
+  id: string; // Unique within the layout
+  type: OverviewWidgetType;
+  width: 1 | 2 | 3; // The number of grid columns the card spans
+  height: 1 | 2; // The number of grid rows the card spans
+  query?: string; // The query of a 'pinned-query' card
+  history?: QueryHistoryTurn[]; // For a pinned follow-up query: the earlier turns it refers to, sent when it is asked again
+}
+
+// The place and visibility of an action in the Quick Actions grid.
+export interface QuickActionState {
+  id: string; // A built-in action's ID, or a custom action's
+  hidden: boolean;
+}
+
+// An action the user added to the Quick Actions grid, which runs a natural language query.
+export interface CustomQuickAction {
+  id: string;
+  label: string;
+  query: string;
+}
+
+// The current user's overview layout, as returned by 'overview-layout'.
+// Layouts belong to the user who saved them; the backend only returns the logged-in user's layout.
+export interface OverviewLayout {
+  widgets: OverviewWidget[] | null; // null until the user first saves a layout
+  actions: QuickActionState[] | null; // The Quick Actions in display order; null until first arranged
+  custom_actions: CustomQuickAction[] | null;
+  updated_at: string | null;
+}
+
+// The fields sent when saving the layout.
+export type OverviewLayoutInput = Pick<OverviewLayout, 'widgets' | 'actions' | 'custom_actions'>;
+
+// --- Natural Language Query ---
+
+// The body sent to 'query'.
+export interface QueryRequest {
+  query: string; // The natural language query as typed by the user
+  conversation_id?: string; // Groups the queries of one conversation, so follow-ups can refer to earlier answers
+  history?: QueryHistoryTurn[]; // The earlier turns of the conversation, oldest first
+  stream?: boolean; // Set by `api.query.stream`: answer as a stream of messages (see QueryStreamEvent)
+}
+
+// An earlier turn of a conversation, as sent with a follow-up query
+// (e.g. "only the active ones" after "list companies in Lisbon").
+export interface QueryHistoryTurn {
+  query: string; // What the user asked
+  kind: QueryResponse['kind']; // The kind of the answer
+  answer: string; // The answer in brief: its summary, title, question or message
+}
+
+// The kind of a value in a query answer, which decides how it is formatted.
+// 'duration' values are minutes; 'money' values are amounts in the column's (or row's) currency.
+export type QueryValueType = 'text' | 'number' | 'money' | 'date' | 'duration';
+
+// A value in a query answer.
+export type QueryCell = string | number | null;
+
+// A column of tabular query data.
+export interface QueryColumn {
+  key: string; // The key of the column's values in each row
+  label: string;
+  type?: QueryValueType; // 'text' if not set
+  currency?: string; // ISO 4217 code of 'money' columns; rows may carry their own in a 'currency' key
+}
+
+// Tabular data, shared by 'table' and 'chart' answers so either can be shown as the other.
+export interface QueryDataset {
+  columns: QueryColumn[];
+  rows: Record<string, QueryCell>[];
+}
+
+// A labelled value, e.g. a metric of an 'aggregate' answer or a field of a 'record' answer.
+export interface QueryField {
+  label: string;
+  value: QueryCell;
+  type?: QueryValueType;
+  currency?: string;
+}
+
+// The resources a query answer can refer to, named like their API endpoints.
+export type QueryResource = 'companies' | 'clients' | 'projects' | 'time-entries' | 'expenses' | 'team-members';
+
+// Fields every query answer has.
+interface QueryResponseBase {
+  query?: string; // The query as the backend understood it
+  conversation_id?: string; // The conversation the answer belongs to, if the backend assigns its own ids
+  summary?: string; // A one-sentence answer, e.g. 'You logged 42h across 5 projects this month.'
+  actions?: string[]; // IDs of actions to suggest as follow-ups, e.g. ['add-time-entry'] (see src/actions/registry.ts)
+}
+
+// A list of rows, e.g. "list companies in Lisbon".
+export interface QueryTableResponse extends QueryResponseBase, QueryDataset {
+  kind: 'table';
+  title: string;
+  chart?: QueryChartOptions; // Set when the rows can also be shown as a chart
+}
+
+// How 'chart' answers (and tables that can be charted) are plotted.
+export interface QueryChartOptions {
+  chart_type: 'bar' | 'line';
+  x: string; // The key of the column along the horizontal axis, e.g. 'project'
+  y: string[]; // The keys of the plotted numeric columns, e.g. ['hours']
+}
+
+// Rows plotted as a chart, e.g. "show my hours by project this month".
+export interface QueryChartResponse extends QueryResponseBase, QueryDataset, QueryChartOptions {
+  kind: 'chart';
+  title: string;
+}
+
+// One or more totals, e.g. "how much did we spend on travel this year".
+export interface QueryAggregateResponse extends QueryResponseBase {
+  kind: 'aggregate';
+  title: string;
+  metrics: QueryField[];
+}
+
+// A single record, e.g. "show company Acme".
+export interface QueryRecordResponse extends QueryResponseBase {
+  kind: 'record';
+  title: string;
+  resource: QueryResource;
+  id: number;
+  fields: QueryField[];
+}
+
+// One field a proposed change writes.
+export interface QueryChange {
+  field: string; // The API field name, e.g. 'name'
+  label: string;
+  from?: QueryCell; // The current value, for updates
+  to: QueryCell; // The new value
+}
+
+// A change the query asks for, e.g. "create a company called X". Nothing is written until
+// the user confirms it, which sends the `confirm_token` to 'query/confirm'.
+export interface QueryMutationPreviewResponse extends QueryResponseBase {
+  kind: 'mutation_preview';
+  title: string; // e.g. 'Create company'
+  action: 'create' | 'update' | 'delete';
+  resource: QueryResource;
+  id?: number; // The record changed by updates and deletes
+  changes: QueryChange[];
+  confirm_token: string; // Single-use token identifying the proposed change
+}
+
+// A follow-up question, when the query is ambiguous, e.g. "Which Acme did you mean?".
+export interface QueryClarificationResponse extends QueryResponseBase {
+  kind: 'clarification';
+  question: string;
+  options: { label: string; query: string }[]; // Suggested answers; picking one runs its query
+}
+
+// A plain text answer.
+export interface QueryMessageResponse extends QueryResponseBase {
+  kind: 'message';
+  message: string;
+}
+
+// The response of 'query': one of the answer kinds above, told apart by `kind`.
+export type QueryResponse =
+  | QueryTableResponse
+  | QueryChartResponse
+  | QueryAggregateResponse
+  | QueryRecordResponse
+  | QueryMutationPreviewResponse
+  | QueryClarificationResponse
+  | QueryMessageResponse;
+
+// --- Streamed query answers ---
+// With `stream: true`, 'query' answers as Server-Sent Events or newline-delimited JSON:
+// any number of 'status' and 'delta' messages, then one 'result' (or 'error') message.
+
+// A step the backend has started, e.g. 'interpreting', 'running_report' or 'formatting'.
+export interface QueryStreamStatus {
+  type: 'status';
+  step: string;
+  label?: string; // How to show the step; a label is derived from `step` if not set
+}
+
+// A piece of the answer's text, shown while the answer is being written.
+export interface QueryStreamDelta {
+  type: 'delta';
+  text: string;
+}
+
+// The complete answer; ends the stream.
+export interface QueryStreamResult {
+  type: 'result';
+  result: QueryResponse;
+}
+
+// The query failed; ends the stream.
+export interface QueryStreamError {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+// A message of a streamed 'query' answer, told apart by `type`.
+export type QueryStreamEvent = QueryStreamStatus | QueryStreamDelta | QueryStreamResult | QueryStreamError;
+
+// The response of 'transcribe': the text spoken in an audio recording.
+export interface TranscriptionResponse {
+  text: string;
+}
+
+// The body sent to 'query/confirm' to carry out a proposed change.
+export interface QueryConfirmRequest {
+  confirm_token: string;
+}
@@ -1,46 +1,168 @@
 /**
  * Action Grid Section Component.
  *
- * This component acts as a container for a group of draggable ActionItem components.
+ * This component acts as a container for the Quick Actions (see `QuickAction` in useOverviewLayout).
  * It displays a title for the section and lays out the ActionItems in a flex container
  * that allows wrapping, forming a grid-like appearance.
- * It receives the list of action names and the click handler to pass down to each ActionItem.
+ * - Tiles are reordered by dragging one onto another's place, or with Alt+Left / Alt+Right.
+ * - "Edit" shows the hidden actions (dimmed), the controls to move, hide, show and remove tiles,
+ *   and a form to add a custom action that runs a natural language query.
+ * While `locked` (the layout hasn't loaded, or failed to), the tiles can only be run, not arranged.
+ * Registry actions the user may not run (see `capability` in src/actions/types.ts) are left out.
+ * The order, the hidden actions and the custom actions are kept by useOverviewLayout;
+ * this component only reports the changes.
  */
-import React from 'react';
+import React, { useState } from 'react';
 import ActionItem from './ActionItem'; // Import the individual ActionItem component
+import { QuickAction } from '../hooks/useOverviewLayout';
+import { ActionDefinition } from '../actions/types';
+import { displayQuery } from '../utils/mentions';
 
 // Define the interface for the component's props
 interface ActionGridSectionProps {
-  title: string; // The title for this section (e.g., "Quick Actions", "Reporting Actions")
-  actions: string[]; // An array of strings, where each string is the name/label of an action
-  onActionClick?: (actionName: string) => void; // Optional callback function to pass to each ActionItem
+  title: string; // The title for this section (e.g., "Quick Actions")
+  actions: QuickAction[]; // The actions, in display order, hidden ones included
+  queries: string[]; // Past queries, offered for custom actions
+  canRun: (action: ActionDefinition) => boolean; // Whether the user may run a registry action
+  locked?: boolean; // Disables arranging the actions, e.g. while the layout loads
+  onActionClick?: (action: QuickAction) => void; // Optional callback function to pass to each ActionItem
+  onMove: (id: string, index: number) => void; // Moves an action to a position in `actions`
+  onToggleHidden: (id: string) => void;
+  onAddCustom: (label: string, query: string) => void;
+  onRemoveCustom: (id: string) => void;
+  onReset: () => void; // Restores the default order and shows every action
 }
 
 /**
  * Renders a section containing a grid of ActionItems.
  * @param {ActionGridSectionProps} props - The component's props.
  */
-const ActionGridSection: React.FC<ActionGridSectionProps> = ({ title, actions, onActionClick }) => {
+const ActionGridSection: React.FC<ActionGridSectionProps> = ({
+  title,
+  actions,
+  queries,
+  canRun,
+  locked = false,
+  onActionClick,
+  onMove,
+  onToggleHidden,
+  onAddCustom,
+  onRemoveCustom,
+  onReset,
+}) => {
+  // Whether the hidden actions and the controls are shown.
+  const [editingState, setEditing] = useState(false);
+  const editing = editingState && !locked;
+  // The tile being dragged, and the tile it is over.
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+  // The custom action being added.
+  const [label, setLabel] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Hidden actions are only shown while editing. Moves use positions in the full list, so a tile
+  // moved with the keyboard passes the next shown tile rather than a hidden one.
+  const shown = actions
+    .map((action, index) => ({ action, index }))
+    .filter(({ action }) => (editing || !action.hidden) && (!action.action || canRun(action.action)));
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setOverId(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!label.trim() || !query.trim()) return;
+    onAddCustom(label.trim(), query.trim());
+    setLabel('');
+    setQuery('');
+  };
+
   return (
     <div className="action-grid-section">
-      {/* Display the section title */}
-      <h2>{title}</h2>
+      <div className="data-table-toolbar">
+        {/* Display the section title */}
+        <h2>{title}</h2>
+        <div className="data-table-toolbar-actions">
+          {editing && (
+            <button type="button" onClick={() => window.confirm('Restore the default order and show every action?') && onReset()}>
+              Reset actions
+            </button>
+          )}
+          <button type="button" onClick={() => setEditing((prev) => !prev)} aria-pressed={editing} disabled={locked}>
+            {editing ? 'Done' : 'Edit'}
+          </button>
+        </div>
+      </div>
+      {editing && (
+        <form className="action-grid-form table-filters" onSubmit={handleSubmit}>
+          <label>
+            Label:
+            <input type="text" value={label} onChange={(event) => setLabel(event.target.value)} placeholder="e.g. My week" required />
+          </label>
+          <label>
+            Query:
+            <input
+              type="text"
+              list="action-grid-queries"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="e.g. show my hours this week"
+              required
+            />
+            <datalist id="action-grid-queries">
+              {queries.map((item) => (
+                <option key={item} value={item}>{displayQuery(item)}</option>
+              ))}
+            </datalist>
+          </label>
+          <button type="submit" disabled={!label.trim() || !query.trim()}>Add custom action</button>
+        </form>
+      )}
+      {shown.length === 0 && <p className="overview-empty">Every action is hidden. Edit the actions to show some.</p>}
       {/* Container for the ActionItem components - uses flexbox for layout */}
-      <div className="action-grid-container">
-        {/* Map over the 'actions' array */}
-        {actions.map((actionName, index) => (
-          // For each action name, render an ActionItem component
-          <ActionItem
-            // Use a unique key prop for each item when mapping over arrays.
-            // Using the index is acceptable here because the list of actions is static and its order doesn't change based on external data.
-            key={index}
-            actionName={actionName} // Pass the action name as a prop
-            onActionClick={onActionClick} // Pass the click handler down
-          />
-        ))}
+      <div className={`action-grid-container${editing ? ' editing' : ''}`}>
+        {shown.map(({ action, index }, position) => {
+          const previous = shown[position - 1];
+          const next = shown[position + 1];
+          return (
+            <ActionItem
+              key={action.id}
+              action={action}
+              editing={editing}
+              dragState={action.id === draggedId ? 'dragging' : action.id === overId ? 'drag-over' : null}
+              dragHandlers={locked ? {} : {
+                onDragStart: (event) => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  event.dataTransfer.setData('text/plain', action.id); // Firefox only drags with data set
+                  setDraggedId(action.id);
+                },
+                onDragOver: (event) => {
+                  if (!draggedId || draggedId === action.id) return;
+                  event.preventDefault(); // Allows dropping here
+                  event.dataTransfer.dropEffect = 'move';
+                  setOverId(action.id);
+                },
+                onDragLeave: () => setOverId((prev) => (prev === action.id ? null : prev)),
+                onDrop: (event) => {
+                  event.preventDefault();
+                  if (draggedId) onMove(draggedId, index);
+                  endDrag();
+                },
+                onDragEnd: endDrag,
+              }}
+              onActionClick={onActionClick}
+              onMoveEarlier={previous && !locked ? () => onMove(action.id, previous.index) : undefined}
+              onMoveLater={next && !locked ? () => onMove(action.id, next.index) : undefined}
+              onToggleHidden={() => onToggleHidden(action.id)}
+              onRemove={action.query !== undefined ? () => onRemoveCustom(action.id) : undefined}
+            />
+          );
+        })}
       </div>
     </div>
   );
 };
 
-export default ActionGridSection;
\ No newline at end of file
+export default ActionGridSection;
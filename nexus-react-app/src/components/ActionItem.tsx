@@ -1,81 +1,126 @@
 /**
  * Action Item Component.
  *
- * Represents a single, square, draggable button for a specific action on the dashboard overview.
- * Uses the `react-draggable` library to enable dragging.
- * When clicked, it triggers a callback function passed from the parent.
+ * Represents a single, square button for a Quick Action on the dashboard overview:
+ * a built-in action that opens a view, or a custom action that runs a saved query.
+ * - The tile can be dragged onto another tile's place to reorder the grid (HTML5 drag and drop;
+ *   the drag state is kept by ActionGridSection). Ending a drag never counts as a click.
+ * - Alt+Left / Alt+Right move the focused tile, the keyboard alternative to dragging.
+ * - While the grid is edited, the tile shows buttons to move it, hide or show it, and
+ *   to remove it if it is a custom action; clicking the tile itself does nothing then.
  */
-import React from 'react';
-import Draggable, { DraggableEvent, DraggableData } from 'react-draggable';
+import React, { useRef } from 'react';
+import { QuickAction } from '../hooks/useOverviewLayout';
+import { formatHotkey } from '../hooks/useHotkey';
+import { displayQuery } from '../utils/mentions';
+
+// The drag and drop handlers ActionGridSection attaches to each tile.
+type ActionItemDragHandlers = Pick<React.HTMLAttributes<HTMLDivElement>, 'onDragStart' | 'onDragOver' | 'onDragLeave' | 'onDrop' | 'onDragEnd'>;
 
 // Define the interface for the component's props
 interface ActionItemProps {
-  actionName: string; // The text label displayed on the action square (e.g., "Add New Company")
-  onActionClick?: (actionName: string) => void; // Optional callback function when the item is clicked
-  // You could add an icon prop here later, e.g., icon?: React.ReactNode;
+  action: QuickAction; // The action the tile runs
+  editing: boolean; // Shows the controls to move, hide and remove the tile
+  dragState?: 'dragging' | 'drag-over' | null; // Whether the tile is dragged, or another tile is over it
+  dragHandlers: ActionItemDragHandlers; // Empty while the tile can't be moved
+  onActionClick?: (action: QuickAction) => void; // Optional callback function when the item is clicked
+  onMoveEarlier?: () => void; // Undefined for the first tile
+  onMoveLater?: () => void; // Undefined for the last tile
+  onToggleHidden: () => void;
+  onRemove?: () => void; // Only for custom actions
 }
 
 /**
- * Renders a single draggable action item.
+ * Renders a single action tile.
  * @param {ActionItemProps} props - The component's props.
  */
-const ActionItem: React.FC<ActionItemProps> = ({ actionName, onActionClick }) => {
+const ActionItem: React.FC<ActionItemProps> = ({
+  action,
+  editing,
+  dragState,
+  dragHandlers,
+  onActionClick,
+  onMoveEarlier,
+  onMoveLater,
+  onToggleHidden,
+  onRemove,
+}) => {
+  // True from the start of a drag until just after it ends, so the click some browsers fire then is ignored.
+  const draggingRef = useRef(false);
 
   /**
    * Handles the click event on the action item.
-   * @param {React.MouseEvent} event - The click event object.
    */
-  const handleClick = (event: React.MouseEvent) => {
-     // Prevent the click event from propagating up the DOM tree if necessary,
-     // which can sometimes interfere with the draggable library.
-     // event.stopPropagation(); // Uncomment if clicks cause issues with dragging.
-
-      // If a click handler was provided via props, call it, passing the action name.
-      if (onActionClick) {
-          onActionClick(actionName);
-      }
-      console.log(`Action clicked: ${actionName}`);
-      // TODO: The actual logic triggered by clicking the action is handled in the parent component (DashboardPage).
-      // This component just signals that a click occurred.
+  const handleClick = () => {
+    if (draggingRef.current || editing) return;
+    onActionClick?.(action);
   };
 
-  // Optional: Event handlers for the start and stop of dragging.
-  // These are included if you want to log drag events or potentially save/load item positions.
-  const handleDragStart = (e: DraggableEvent, ui: DraggableData) => {
-    // console.log('Drag start:', ui);
+  /**
+   * Moves the tile with Alt+Left / Alt+Right.
+   * @param {React.KeyboardEvent} event - The key event.
+   */
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!event.altKey) return;
+    const move = event.key === 'ArrowLeft' ? onMoveEarlier : event.key === 'ArrowRight' ? onMoveLater : undefined;
+    if (!move) return;
+    event.preventDefault();
+    move();
   };
 
-  const handleDragStop = (e: DraggableEvent, ui: DraggableData) => {
-    // console.log('Drag stop:', ui);
-    // TODO: If you implement saving drag positions, this is where you would capture the final position (ui.x, ui.y).
-  };
+  const shortcut = action.action?.shortcut;
+  const classes = ['action-item', action.hidden ? 'hidden' : '', dragState ?? ''];
 
-  // The Draggable component requires a single child element that it will make draggable.
-  // We make the main div with class 'action-item' draggable.
   return (
-    // Draggable wrapper from react-draggable
-    <Draggable
-      axis="both" // Allow dragging horizontally and vertically
-      handle=".action-item-content" // Specify that dragging only starts when dragging the element with class 'action-item-content'
-      onStart={handleDragStart} // Optional callback for drag start
-      onStop={handleDragStop}   // Optional callback for drag stop
-      // Other useful props:
-      // bounds="parent" // Restrict dragging within the immediate parent element
-      // position={{x: 0, y: 0}} // Set initial position if loading from saved data
-      // grid={[25, 25]} // Make the item snap to a grid of 25x25 pixels
+    <div
+      className={classes.filter(Boolean).join(' ')}
+      draggable={dragHandlers.onDragStart !== undefined}
+      {...dragHandlers}
+      onDragStart={(event) => {
+        draggingRef.current = true;
+        dragHandlers.onDragStart?.(event);
+      }}
+      onDragEnd={(event) => {
+        // Cleared after the click that may follow the drop.
+        window.setTimeout(() => {
+          draggingRef.current = false;
+        }, 0);
+        dragHandlers.onDragEnd?.(event);
+      }}
     >
-      {/* The actual HTML element that is made draggable. */}
-      {/* The onClick handler is attached here to the draggable element. */}
-      <div className="action-item" onClick={handleClick}>
-         {/* The content inside the action item. */}
-         {/* This div is also specified as the drag handle. */}
-         <div className="action-item-content">
-             {/* A paragraph element to display the action name, allows text wrapping */}
-             <p className="action-item-text">{actionName}</p>
-         </div>
-      </div>
-    </Draggable>
+      <button
+        type="button"
+        className="action-item-content"
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        title={action.query ? `Runs "${displayQuery(action.query)}"` : shortcut ? `Shortcut: ${formatHotkey(shortcut)}` : undefined}
+        aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight"
+      >
+        <span className="action-item-icon" aria-hidden="true">{action.icon}</span>
+        <span className="action-item-text">{action.label}</span>
+        {action.query && <span className="action-item-badge">Query</span>}
+        {action.hidden && <span className="action-item-badge">Hidden</span>}
+      </button>
+      {editing && (
+        <div className="action-item-controls">
+          <button type="button" onClick={onMoveEarlier} disabled={!onMoveEarlier} aria-label={`Move "${action.label}" earlier`} title="Move earlier">
+            ←
+          </button>
+          <button type="button" onClick={onMoveLater} disabled={!onMoveLater} aria-label={`Move "${action.label}" later`} title="Move later">
+            →
+          </button>
+          <button type="button" onClick={onToggleHidden} aria-pressed={action.hidden} title={action.hidden ? 'Show this action' : 'Hide this action'}>
+            {action.hidden ? 'Show' : 'Hide'}
+          </button>
+          {onRemove && (
+            <button type="button" onClick={onRemove} aria-label={`Remove "${action.label}"`} title="Remove">
+              ×
+            </button>
+          )}
+        </div>
+      )}
+    </div>
   );
 };
 
-export default ActionItem;
\ No newline at end of file
+export default ActionItem;
@@ -0,0 +1,245 @@
+/**
+ * Client Form Component.
+ *
+ * This component provides a form for adding a new client, or for editing
+ * an existing one when a `client` prop is passed.
+ * - Its fields and validation are described in `clientSchema` (see src/forms/).
+ * - The client can be linked to one or more companies (checkbox list filled from the companies endpoint).
+ *   The list says so while the companies load, if there are none yet, and if they failed to load.
+ * - Contact people are edited as a repeating group of rows; one of them can be marked as primary.
+ * It sends the data to the custom '/wp-json/nexus/v1/clients' REST API endpoint
+ * using POST, or to '/wp-json/nexus/v1/clients/{ID}' using PUT when editing.
+ * Field-level validation messages returned by the backend are shown on their fields.
+ * It includes loading, error, and success states, and calls callbacks on success or cancel.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useSchemaForm from '../hooks/useSchemaForm'; // Import the schema-driven form state
+import SchemaFormFields from './SchemaFormFields'; // Import the schema-driven inputs
+import { Client, ClientContact } from '../api/types'; // Import the shared API types
+import { clientSchema } from '../forms/clientSchema';
+import { createFormValues } from '../forms/schema';
+
+// Define the interface for the component's props
+interface ClientFormProps {
+  // Optional existing client. When provided, the form is pre-filled and saves with PUT instead of POST.
+  client?: Client;
+  // Optional company to link new clients to by default (e.g., when adding from a company's detail view).
+  defaultCompanyId?: number;
+  // Optional callback function to be called after a client is successfully created or updated.
+  onClientSaved?: (client: Client) => void;
+  // Optional callback function to be called when the user cancels the form.
+  onCancel?: () => void;
+}
+
+// A contact row as edited in the form. Optional text columns are kept as strings.
+interface ContactRow {
+  ID?: number;
+  name: string;
+  email: string;
+  phone: string;
+  role: string;
+  is_primary: boolean;
+}
+
+// A blank contact row for the "Add Contact" button.
+const emptyContact = (isPrimary: boolean): ContactRow => ({ name: '', email: '', phone: '', role: '', is_primary: isPrimary });
+
+/**
+ * Maps a saved contact onto a form row.
+ * @param {ClientContact} contact - The saved contact.
+ */
+const contactToRow = (contact: ClientContact): ContactRow => ({
+  ID: contact.ID,
+  name: contact.name,
+  email: contact.email ?? '',
+  phone: contact.phone ?? '',
+  role: contact.role ?? '',
+  is_primary: contact.is_primary === 1,
+});
+
+/**
+ * Renders a form to add a new client or edit an existing one.
+ * @param {ClientFormProps} props - The component's props.
+ */
+const ClientForm: React.FC<ClientFormProps> = ({ client, defaultCompanyId, onClientSaved, onCancel }) => {
+  // Whether the form is editing an existing record rather than creating a new one.
+  const isEditing = client !== undefined;
+
+  // State to manage the client's own fields and linked companies, with their validation messages.
+  const form = useSchemaForm(clientSchema, () =>
+    createFormValues(clientSchema, client, client ? {} : { company_ids: defaultCompanyId !== undefined ? [String(defaultCompanyId)] : [] })
+  );
+  // State to hold the contact rows. New clients start with one (primary) row.
+  const [contacts, setContacts] = useState<ContactRow[]>(
+    () => (client && client.contacts.length > 0 ? client.contacts.map(contactToRow) : [emptyContact(true)])
+  );
+  // Read the companies available for linking through the shared query cache.
+  const { data: companies = [], loading: loadingCompanies, error: companiesError } = useQuery(['companies'], (client) => client.companies.list());
+  // What the company list shows when it has no companies.
+  const noCompanies = companiesError
+    ? 'The companies could not be loaded (see the error above).'
+    : loadingCompanies
+      ? 'Loading companies...'
+      : 'No companies yet. Add a company first to link this client to it.';
+
+  // State to indicate if the form submission is currently in progress.
+  const [loading, setLoading] = useState(false);
+  // State to hold any error message that occurs during submission.
+  const [error, setError] = useState<string | null>(null);
+  // State to hold a success message after successful submission.
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get the typed API client.
+  const api = useApiClient();
+
+  /**
+   * Updates one field of one contact row. Marking a contact as primary unmarks the others.
+   * @param {number} index - The row index.
+   * @param {keyof ContactRow} field - The field to change.
+   * @param {string | boolean} value - The new value.
+   */
+  const updateContact = (index: number, field: keyof ContactRow, value: string | boolean) => {
+    setContacts(prev =>
+      prev.map((row, i) => {
+        if (field === 'is_primary' && value === true) {
+          return { ...row, is_primary: i === index };
+        }
+        return i === index ? { ...row, [field]: value } : row;
+      })
+    );
+  };
+
+  /**
+   * Removes a contact row. If the primary contact is removed, the first remaining one becomes primary.
+   * @param {number} index - The row index.
+   */
+  const removeContact = (index: number) => {
+    setContacts(prev => {
+      const next = prev.filter((_, i) => i !== index);
+      if (next.length > 0 && !next.some((row) => row.is_primary)) {
+        next[0] = { ...next[0], is_primary: true };
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Handles the form submission event.
+   * Sends the client, its company links and its contacts to the backend API.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setSuccess(null);
+
+    if (!form.validate()) {
+      setError('Please correct the highlighted fields.');
+      return;
+    }
+
+    // Drop contact rows left completely empty, and send optional text columns as null.
+    const payloadContacts: ClientContact[] = contacts
+      .filter((row) => row.name.trim() !== '')
+      .map((row) => ({
+        ...(row.ID !== undefined ? { ID: row.ID } : {}),
+        name: row.name.trim(),
+        email: row.email || null,
+        phone: row.phone || null,
+        role: row.role || null,
+        is_primary: row.is_primary ? 1 : 0,
+      }));
+
+    setLoading(true);
+
+    try {
+      const { values } = form;
+      const input = {
+        name: values.name.trim(),
+        email: values.email || null,
+        phone: values.phone || null,
+        notes: values.notes || null,
+        status: Number(values.status),
+        company_ids: values.company_ids.map(Number),
+        contacts: payloadContacts,
+      };
+      const savedClient = client ? await api.clients.update(client.ID, input) : await api.clients.create(input);
+
+      console.log('Client saved successfully:', savedClient);
+      setSuccess(`Client "${savedClient.name}" ${isEditing ? 'updated' : 'created'} successfully!`);
+
+      if (onClientSaved) {
+        onClientSaved(savedClient);
+      }
+    } catch (err) {
+      console.error('Error saving client:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save client.');
+      // Show the backend's field messages (e.g. from a 'rest_invalid_param' error) on their fields.
+      form.applyApiError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Render the form UI. It reuses the company form styling.
+  return (
+    <div className="company-form-container">
+      <h2>{isEditing ? `Edit Client: ${client.name}` : 'Add New Client'}</h2>
+
+      {/* Display loading, error, or success messages conditionally */}
+      {loading && <p>Saving client...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {companiesError && <p style={{ color: 'red' }}>Error: {companiesError}</p>}
+      {success && <p style={{ color: 'green' }}>Success: {success}</p>}
+
+      {/* The schema validates the fields, so the browser's own checks are off. */}
+      <form onSubmit={handleSubmit} className="company-form" noValidate>
+        {/* The companies are loaded from the companies endpoint; the contact people are edited as repeating rows */}
+        <SchemaFormFields
+          form={form}
+          options={{ company_ids: companies.map((company) => ({ value: String(company.ID), label: company.name })) }}
+          emptyOptions={{ company_ids: noCompanies }}
+          slots={{
+            contacts: (
+              <>
+                {contacts.map((row, index) => (
+                  <div key={row.ID ?? `new-${index}`} className="contact-row">
+                    <input type="text" placeholder="Name" value={row.name} onChange={(e) => updateContact(index, 'name', e.target.value)} disabled={loading} aria-label="Contact name" />
+                    <input type="text" placeholder="Role" value={row.role} onChange={(e) => updateContact(index, 'role', e.target.value)} disabled={loading} aria-label="Contact role" />
+                    <input type="email" placeholder="Email" value={row.email} onChange={(e) => updateContact(index, 'email', e.target.value)} disabled={loading} aria-label="Contact email" />
+                    <input type="tel" placeholder="Phone" value={row.phone} onChange={(e) => updateContact(index, 'phone', e.target.value)} disabled={loading} aria-label="Contact phone" />
+                    <label className="checkbox-label">
+                      <input type="radio" name="primary_contact" checked={row.is_primary} onChange={() => updateContact(index, 'is_primary', true)} disabled={loading} /> Primary
+                    </label>
+                    <button type="button" onClick={() => removeContact(index)} disabled={loading}>Remove</button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setContacts(prev => [...prev, emptyContact(prev.length === 0)])} disabled={loading}>
+                  Add Contact
+                </button>
+              </>
+            ),
+          }}
+          disabled={loading}
+        />
+
+        {/* Action buttons for the form */}
+        <div className="form-actions">
+          <button type="submit" disabled={loading}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Client'}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} disabled={loading}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ClientForm;
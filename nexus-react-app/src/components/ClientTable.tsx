@@ -0,0 +1,134 @@
+/**
+ * Client Table Component.
+ *
+ * This component fetches and displays a list of clients from the
+ * custom '/wp-json/nexus/v1/clients' REST API endpoint in a table format.
+ * A client can be linked to one or more companies and has its own contact people.
+ * - It also fetches the companies list so linked companies can be shown by name.
+ * - When a `companyId` is passed, only that company's clients are requested
+ *   (query parameter `company_id`), e.g. for the company detail view.
+ * It reads both through the shared query cache (`useQuery`), so saved changes show up without a manual refresh.
+ * The list can be exported (ExportMenu); exports of one company's clients are named after the company.
+ */
+import React, { useMemo } from 'react'; // Import useMemo hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import ExportMenu from './ExportMenu'; // Import the export dropdown
+import { Client } from '../api/types'; // Import the shared Client type
+import { ExportColumn } from '../utils/export';
+
+// Define the interface for the component's props
+interface ClientTableProps {
+  companyId?: number; // Optional company to restrict the list to
+  title?: string; // Optional heading, defaults to "Clients"
+  onEditClient?: (client: Client) => void; // Optional callback when the user wants to edit a client
+}
+
+/**
+ * Fetches and displays a table of clients.
+ * @param {ClientTableProps} props - The component's props.
+ */
+const ClientTable: React.FC<ClientTableProps> = ({ companyId, title = 'Clients', onEditClient }) => {
+  // Read clients (filtered by company, if given) and companies through the shared query cache.
+  // Both are refetched automatically when a client or company is saved.
+  const params = { company_id: companyId };
+  const clientsQuery = useQuery(['clients', params], (api) => api.clients.list(params));
+  const companiesQuery = useQuery(['companies'], (api) => api.companies.list());
+
+  const clients = clientsQuery.data ?? [];
+  const loading = clientsQuery.loading || companiesQuery.loading;
+  const error = clientsQuery.error ?? companiesQuery.error;
+
+  // Map company IDs to names for display.
+  const companyNames = useMemo(
+    () => Object.fromEntries((companiesQuery.data ?? []).map((company) => [company.ID, company.name])) as Record<number, string>,
+    [companiesQuery.data]
+  );
+
+  /**
+   * Returns a client's primary contact: the one marked as primary, otherwise the first one.
+   * @param {Client} client - The client.
+   */
+  const getPrimaryContact = (client: Client) => client.contacts.find((contact) => contact.is_primary === 1) || client.contacts[0];
+
+  // The exported columns: the table's columns, with every contact's name.
+  const exportColumns: ExportColumn<Client>[] = [
+    { label: 'ID', type: 'number', value: (client) => client.ID },
+    { label: 'Name', value: (client) => client.name },
+    { label: 'Companies', value: (client) => client.company_ids.map((id) => companyNames[id] || `#${id}`).join(', ') },
+    { label: 'Primary Contact', value: (client) => getPrimaryContact(client)?.name },
+    { label: 'Contacts', value: (client) => client.contacts.map((contact) => contact.name).join(', ') },
+    { label: 'Email', value: (client) => client.email || getPrimaryContact(client)?.email },
+    { label: 'Phone', value: (client) => client.phone || getPrimaryContact(client)?.phone },
+    { label: 'Status', value: (client) => (client.status === 1 ? 'Active' : 'Inactive') },
+  ];
+
+  // --- Render Logic ---
+
+  if (loading) {
+    return <p>Loading clients...</p>;
+  }
+
+  if (error) {
+    return <p style={{ color: 'red' }}>Error: {error}</p>;
+  }
+
+  return (
+    <div className="company-table-container client-table-container">
+      <h2>{title}</h2>
+      <div className="list-toolbar">
+        <ExportMenu
+          title={title}
+          fileName={{ list: 'clients', company: companyId !== undefined ? companyNames[companyId] : undefined }}
+          columns={exportColumns}
+          rows={clients}
+        />
+      </div>
+      {clients.length === 0 ? (
+        <p>No clients found.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>ID</th>
+              <th>Name</th>
+              <th>Companies</th>
+              <th>Primary Contact</th>
+              <th>Email</th>
+              <th>Phone</th>
+              <th>Status</th>
+              {onEditClient && <th>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {clients.map((client) => {
+              const primaryContact = getPrimaryContact(client);
+              return (
+                <tr key={client.ID}>
+                  <td>{client.ID}</td>
+                  <td>{client.name}</td>
+                  <td>{client.company_ids.map((id) => companyNames[id] || `#${id}`).join(', ') || '-'}</td>
+                  <td>
+                    {primaryContact ? primaryContact.name : '-'}
+                    {client.contacts.length > 1 && ` (+${client.contacts.length - 1})`}
+                  </td>
+                  <td>{client.email || primaryContact?.email || '-'}</td>
+                  <td>{client.phone || primaryContact?.phone || '-'}</td>
+                  <td>{client.status === 1 ? 'Active' : 'Inactive'}</td>
+                  {onEditClient && (
+                    <td>
+                      <button type="button" className="table-action-button" onClick={() => onEditClient(client)}>
+                        Edit
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ClientTable;
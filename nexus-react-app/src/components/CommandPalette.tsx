@@ -0,0 +1,183 @@
+/**
+ * Command Palette Component.
+ *
+ * Finds and runs any action of the registry (see src/actions/registry.ts) from the keyboard.
+ * - Ctrl+K (⌘K on macOS), or the "Actions" button in the header, opens the palette.
+ * - Typing filters the actions by label, keywords and category; the arrow keys move the
+ *   highlighted action, Enter runs it and Escape closes the palette.
+ * - It also registers the keyboard shortcuts of the actions that have one (e.g. Shift+C
+ *   for the companies), which the palette lists next to them.
+ * Only the actions the current user may run are listed (see useActions).
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import useActions from '../hooks/useActions'; // Import the registry hook to list and run actions
+import useHotkey, { formatHotkey } from '../hooks/useHotkey'; // Import the global shortcut hook
+import QuerySuggestionList, { QuerySuggestion } from './QuerySuggestionList'; // Import the grouped option list of the query bar
+import { ACTION_CATEGORIES } from '../actions/registry';
+import { ActionCategory, ActionDefinition } from '../actions/types';
+
+// The listbox id, referenced by the input's aria-controls.
+const LIST_ID = 'command-palette-actions';
+
+// Define the interface for the props of ActionHotkey
+interface ActionHotkeyProps {
+  combo: string;
+  action: ActionDefinition;
+  onRun: (action: ActionDefinition) => void;
+  enabled: boolean;
+}
+
+/**
+ * Runs an action when its shortcut is pressed. Renders nothing; one is rendered per shortcut,
+ * since useHotkey takes a single combination.
+ * @param {ActionHotkeyProps} props - The component's props.
+ */
+const ActionHotkey: React.FC<ActionHotkeyProps> = ({ combo, action, onRun, enabled }) => {
+  useHotkey(combo, () => onRun(action), { enabled });
+  return null;
+};
+
+/**
+ * Whether an action matches every word of a search.
+ * @param {ActionDefinition} action - The action.
+ * @param {string[]} words - The lowercase words of the search.
+ */
+const matchesSearch = (action: ActionDefinition, words: string[]): boolean => {
+  const text = [action.label, ...(action.keywords ?? []), ACTION_CATEGORIES[action.category]].join(' ').toLowerCase();
+  return words.every((word) => text.includes(word));
+};
+
+/**
+ * Renders the command palette and its button.
+ */
+const CommandPalette: React.FC = () => {
+  const { actions, run } = useActions();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  // The action highlighted by the arrow keys.
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // The element focused before the palette opened, focused again when it closes.
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const openPalette = () => {
+    returnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setSearch('');
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  const closePalette = () => {
+    setOpen(false);
+    returnFocusRef.current?.focus();
+  };
+
+  useHotkey('mod+k', () => (open ? closePalette() : openPalette()));
+
+  // Focus the search when the palette opens.
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  const words = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  // Listed by category, so each heading comes once.
+  const categories = Object.keys(ACTION_CATEGORIES) as ActionCategory[];
+  const matches = categories.flatMap((category) => actions.filter((action) => action.category === category && matchesSearch(action, words)));
+  const suggestions: QuerySuggestion[] = matches.map((action) => ({
+    key: action.id,
+    group: ACTION_CATEGORIES[action.category],
+    label: `${action.icon} ${action.label}`,
+    detail: action.shortcut ? formatHotkey(action.shortcut) : undefined,
+  }));
+
+  /**
+   * Closes the palette and runs an action.
+   * @param {number} index - The index of the action in the list.
+   */
+  const runMatch = (index: number) => {
+    const action = matches[index];
+    if (!action) return;
+    closePalette();
+    run(action);
+  };
+
+  /**
+   * Handles the keyboard navigation of the list.
+   * @param {React.KeyboardEvent<HTMLInputElement>} event - The key event.
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        if (matches.length === 0) return;
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((prev) => (prev + step + matches.length) % matches.length);
+        return;
+      }
+      case 'Enter':
+        event.preventDefault();
+        runMatch(activeIndex);
+        return;
+      case 'Escape':
+        event.preventDefault();
+        closePalette();
+        return;
+    }
+  };
+
+  return (
+    <>
+      {actions
+        .filter((action) => action.shortcut)
+        .map((action) => (
+          <ActionHotkey key={action.id} combo={action.shortcut as string} action={action} onRun={run} enabled={!open} />
+        ))}
+
+      <button type="button" className="command-palette-button" onClick={openPalette} aria-haspopup="dialog">
+        Actions <kbd>{formatHotkey('mod+k')}</kbd>
+      </button>
+
+      {open && (
+        <div className="command-palette-backdrop" onMouseDown={closePalette}>
+          <div
+            className="command-palette"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Command palette"
+            // Clicks inside the palette don't close it.
+            onMouseDown={(event) => event.stopPropagation()}
+          >
+            <input
+              ref={inputRef}
+              type="text"
+              value={search}
+              onChange={(event) => {
+                setSearch(event.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Type an action, e.g. add expense"
+              aria-label="Search actions"
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={matches.length > 0}
+              aria-controls={LIST_ID}
+              // The option ids are built like in QuerySuggestionList.
+              aria-activedescendant={matches.length > 0 ? `${LIST_ID}-option-${activeIndex}` : undefined}
+              autoComplete="off"
+              className="command-palette-input"
+            />
+            {matches.length > 0 ? (
+              <QuerySuggestionList id={LIST_ID} suggestions={suggestions} activeIndex={activeIndex} onSelect={runMatch} onActivate={setActiveIndex} />
+            ) : (
+              <p className="command-palette-empty">No actions match "{search}".</p>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
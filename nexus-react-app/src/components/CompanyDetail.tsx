@@ -0,0 +1,188 @@
+/**
+ * Company Detail Component.
+ *
+ * This component fetches and displays a single company from the
+ * custom '/wp-json/nexus/v1/companies/{ID}' REST API endpoint.
+ * - It shows every field of the Company record.
+ * - It offers an Edit button (the parent switches to CompanyForm in edit mode).
+ * - It toggles the company's `status` between Active and Inactive with a PATCH request.
+ * - It deletes the company with a DELETE request after the user confirms.
+ * - It lists the clients linked to the company.
+ * It reads the record through the shared query cache (`useQuery`); saving the company elsewhere refetches it.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useQueryCache from '../hooks/useQueryCache'; // Import the cache to show saved changes right away
+import { Client, Company } from '../api/types'; // Import the shared API types
+import ClientTable from './ClientTable'; // Import the client list
+
+// Define the interface for the component's props
+interface CompanyDetailProps {
+  companyId: number; // The ID of the company to display
+  onEdit?: (company: Company) => void; // Optional callback when the user wants to edit the company
+  onDeleted?: () => void; // Optional callback after the company was deleted
+  onBack?: () => void; // Optional callback to return to the previous view
+  onEditClient?: (client: Client) => void; // Optional callback when the user wants to edit one of the company's clients
+}
+
+/**
+ * Formats a nullable timestamp string for display.
+ * @param {string | null} value - The timestamp returned by the API.
+ */
+const formatTimestamp = (value: string | null): string => (value ? new Date(value).toLocaleString() : '-');
+
+/**
+ * Fetches and displays a single company with its management actions.
+ * @param {CompanyDetailProps} props - The component's props.
+ */
+const CompanyDetail: React.FC<CompanyDetailProps> = ({ companyId, onEdit, onDeleted, onBack, onEditClient }) => {
+  // Read the company through the shared query cache. It is refetched automatically after an edit.
+  const { data: company, loading, error: fetchError } = useQuery(['companies', companyId], (client) => client.companies.get(companyId));
+  // State to indicate if a status toggle or delete request is in progress.
+  const [saving, setSaving] = useState(false);
+  // State to hold any error message that occurs during an action.
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Get the typed API client and the cache.
+  const api = useApiClient();
+  const cache = useQueryCache();
+
+  /**
+   * Toggles the company between Active (1) and Inactive (0).
+   * Only the status column is sent, so a PATCH request is used.
+   */
+  const handleToggleStatus = async () => {
+    if (!company) return;
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      const updatedCompany = await api.companies.setStatus(company.ID, company.status === 1 ? 0 : 1);
+      console.log('Company status updated:', updatedCompany);
+      // The update refetches every company view; show the new status until that completes.
+      cache.setData(['companies', company.ID], () => updatedCompany);
+    } catch (err) {
+      console.error('Error updating company status:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to update company status.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Deletes the company after asking the user for confirmation.
+   */
+  const handleDelete = async () => {
+    if (!company) return;
+
+    // Deleting cannot be undone, so always ask first.
+    if (!window.confirm(`Delete company "${company.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      await api.companies.remove(company.ID);
+      console.log('Company deleted:', company.ID);
+
+      if (onDeleted) {
+        onDeleted();
+      }
+    } catch (err) {
+      console.error('Error deleting company:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to delete company.');
+      setSaving(false);
+    }
+  };
+
+  // --- Render Logic ---
+
+  const error = actionError ?? fetchError;
+
+  // Show a loading message while the record is being fetched.
+  if (loading) {
+    return <p>Loading company...</p>;
+  }
+
+  // If the record could not be loaded, show the error and a way back.
+  if (!company) {
+    return (
+      <div className="company-detail-container">
+        <p style={{ color: 'red' }}>Error: {error || 'Company not found.'}</p>
+        {onBack && <button type="button" onClick={onBack}>Back to Companies</button>}
+      </div>
+    );
+  }
+
+  // Label/value pairs for every field of the Company record, in display order.
+  const fields: [string, React.ReactNode][] = [
+    ['ID', company.ID],
+    ['Name', company.name],
+    ['Legal Name', company.legal_name || '-'],
+    ['Document Number', company.document_number || '-'],
+    ['Contact Person', company.contact_person || '-'],
+    ['Email', company.email || '-'],
+    ['Phone', company.phone || '-'],
+    ['Address Line 1', company.address_1 || '-'],
+    ['Address Line 2', company.address_2 || '-'],
+    ['City', company.city || '-'],
+    ['State', company.state || '-'],
+    ['Postal Code', company.postal_code || '-'],
+    ['Country', company.country || '-'],
+    ['Website', company.website ? <a href={company.website} target="_blank" rel="noreferrer">{company.website}</a> : '-'],
+    ['Default Flat Fee', company.default_flat_fee || '-'],
+    ['Status', company.status === 1 ? 'Active' : 'Inactive'],
+    ['Notes', company.notes || '-'],
+    ['Created At', formatTimestamp(company.created_at)],
+    ['Updated At', formatTimestamp(company.updated_at)],
+  ];
+
+  return (
+    <div className="company-detail-container">
+      <h2>{company.name}</h2>
+
+      {/* Display action progress or errors conditionally */}
+      {saving && <p>Saving...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+      {/* Definition list with one row per field */}
+      <dl className="company-detail-fields">
+        {fields.map(([label, value]) => (
+          <div key={label} className="company-detail-field">
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Management actions */}
+      <div className="form-actions">
+        {onEdit && (
+          <button type="button" onClick={() => onEdit(company)} disabled={saving}>
+            Edit
+          </button>
+        )}
+        <button type="button" onClick={handleToggleStatus} disabled={saving}>
+          {company.status === 1 ? 'Deactivate' : 'Activate'}
+        </button>
+        <button type="button" className="danger-button" onClick={handleDelete} disabled={saving}>
+          Delete
+        </button>
+        {onBack && (
+          <button type="button" onClick={onBack} disabled={saving}>
+            Back to Companies
+          </button>
+        )}
+      </div>
+
+      {/* Clients linked to this company */}
+      <ClientTable companyId={company.ID} title="Clients" onEditClient={onEditClient} />
+    </div>
+  );
+};
+
+export default CompanyDetail;
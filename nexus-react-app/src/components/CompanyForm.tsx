@@ -1,49 +1,78 @@
 /**
  * Company Form Component.
  *
- * This component provides a form for adding a new company tracker entry.
- * It manages the state for all form input fields.
+ * This component provides a form for adding a new company tracker entry,
+ * or for editing an existing one when a `company` prop is passed.
+ * Its fields, sections and validation are described in `companySchema` (see src/forms/), and
+ * rendered by `SchemaFormFields`; invalid fields are flagged before anything is sent.
  * It handles form submission, sending the data to the custom
- * '/wp-json/nexus/v1/companies' REST API endpoint using the POST method.
- * It uses the `useApi` hook for authenticated API submission.
+ * '/wp-json/nexus/v1/companies' REST API endpoint using the POST method,
+ * or to '/wp-json/nexus/v1/companies/{ID}' using the PUT method when editing.
+ * It uses the typed API client from `useApiClient` for authenticated API submission.
+ * Field-level validation messages returned by the backend are shown on their fields.
  * It includes loading, error, and success states, and calls callbacks on success or cancel.
  */
 import React, { useState } from 'react'; // Import useState hook
-import useApi from '../hooks/useApi'; // Import the custom useApi hook
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQueryCache from '../hooks/useQueryCache'; // Import the cache to show saved changes right away
+import useSchemaForm from '../hooks/useSchemaForm'; // Import the schema-driven form state
+import SchemaFormFields from './SchemaFormFields'; // Import the schema-driven inputs
+import { Company, CompanyInput } from '../api/types'; // Import the shared Company types
+import { CompanyFormValues, companySchema } from '../forms/companySchema';
+import { createFormValues } from '../forms/schema';
 
 // Define the interface for the component's props
 interface CompanyFormProps {
+  // Optional existing company. When provided, the form is pre-filled and saves with PUT instead of POST.
+  company?: Company;
   // Optional callback function to be called after a company is successfully created.
   // This can be used by the parent component to refresh a list or change the view.
   onCompanyCreated?: () => void;
+  // Optional callback function to be called after an existing company is successfully updated.
+  onCompanyUpdated?: (company: Company) => void;
   // Optional callback function to be called when the user cancels the form.
   onCancel?: () => void;
 }
 
 /**
- * Renders a form to add a new company tracker entry.
+ * Turns the form values into the request payload.
+ * Empty optional columns are sent as null, and a website without a scheme gets 'https://'.
+ * @param {CompanyFormValues} values - The form values.
+ */
+const toCompanyInput = (values: CompanyFormValues): CompanyInput => {
+  const orNull = (value: string) => value.trim() || null;
+  const website = values.website.trim();
+  return {
+    name: values.name.trim(),
+    legal_name: orNull(values.legal_name),
+    document_number: orNull(values.document_number),
+    contact_person: orNull(values.contact_person),
+    email: orNull(values.email),
+    phone: orNull(values.phone),
+    address_1: orNull(values.address_1),
+    address_2: orNull(values.address_2),
+    city: orNull(values.city),
+    state: orNull(values.state),
+    postal_code: orNull(values.postal_code),
+    country: orNull(values.country),
+    website: website ? (/^https?:\/\//i.test(website) ? website : `https://${website}`) : null,
+    notes: orNull(values.notes),
+    status: Number(values.status),
+    default_flat_fee: values.default_flat_fee || '0.00',
+  };
+};
+
+/**
+ * Renders a form to add a new company tracker entry or edit an existing one.
  * @param {CompanyFormProps} props - The component's props.
  */
-const CompanyForm: React.FC<CompanyFormProps> = ({ onCompanyCreated, onCancel }) => {
-  // State to manage the values of the form input fields.
-  // Initialize with empty strings or default values based on your schema.
-  const [formData, setFormData] = useState({
-    name: '',
-    legal_name: '',
-    document_number: '',
-    email: '',
-    phone: '',
-    address_1: '',
-    address_2: '',
-    city: '',
-    state: '',
-    postal_code: '',
-    country: '',
-    website: '',
-    notes: '',
-    status: 1, // Default status to 'Active' (assuming 1 = active)
-    default_flat_fee: '0.00' // Default fee, using string for the number input value
-  });
+const CompanyForm: React.FC<CompanyFormProps> = ({ company, onCompanyCreated, onCompanyUpdated, onCancel }) => {
+  // Whether the form is editing an existing record rather than creating a new one.
+  const isEditing = company !== undefined;
+
+  // State to manage the values and validation messages of the form fields.
+  // Pre-filled from the company being edited, otherwise initialized with the schema's defaults.
+  const form = useSchemaForm(companySchema, () => createFormValues(companySchema, company));
 
   // State to indicate if the form submission is currently in progress.
   const [loading, setLoading] = useState(false);
@@ -52,34 +81,13 @@ const CompanyForm: React.FC<CompanyFormProps> = ({ onCompanyCreated, onCancel })
   // State to hold a success message after successful submission.
   const [success, setSuccess] = useState<string | null>(null);
 
-  // Get the apiFetch function from your custom useApi hook.
-  const { apiFetch } = useApi();
-
-  /**
-   * Handles changes to the form input fields.
-   * Updates the corresponding state property in formData.
-   * @param {React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>} event - The input change event.
-   */
-  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value, type } = event.target;
-
-    // Handle specific input types if necessary before updating state.
-    // For example, ensure number inputs store numeric values, or checkboxes store booleans.
-    // For the 'status' select element, value is a string ('0' or '1'), which is fine for sending to the API.
-    // For the 'default_flat_fee' number input, value is also a string. Ensure it's passed as string to state.
-     const finalValue = (type === 'number' || name === 'default_flat_fee') ? String(value) : value;
-
-    // Update the formData state. Use the spread operator (...) to copy existing data,
-    // then override the property corresponding to the input's 'name'.
-    setFormData(prevState => ({
-      ...prevState,
-      [name]: finalValue // [name] uses the input's 'name' attribute as the key
-    }));
-  };
+  // Get the typed API client and the cache.
+  const api = useApiClient();
+  const cache = useQueryCache();
 
   /**
    * Handles the form submission event.
-   * Sends the formData to the backend API to create a new company.
+   * Validates the fields, then sends them to the backend API to create or update the company.
    * @param {React.FormEvent} event - The form submission event.
    */
   const handleSubmit = async (event: React.FormEvent) => {
@@ -87,38 +95,55 @@ const CompanyForm: React.FC<CompanyFormProps> = ({ onCompanyCreated, onCancel })
 
     setError(null); // Clear previous error messages
     setSuccess(null); // Clear previous success messages
+
+    if (!form.validate()) {
+      setError('Please correct the highlighted fields.');
+      return;
+    }
+
     setLoading(true); // Set loading state to true
+    const input = toCompanyInput(form.values);
 
     try {
-      // Use apiFetch to call your custom backend endpoint for creating companies.
-      // The endpoint 'companies' is relative to '/wp-json/nexus/v1/'.
-      // Specify 'POST' method and include the form data as a JSON string in the body.
-      const createdCompany = await apiFetch('companies', {
-        method: 'POST',
-        body: JSON.stringify(formData), // Convert the formData object to a JSON string
-      });
+      if (company) {
+        // Editing: send the full record to 'companies/{ID}' with PUT.
+        const updatedCompany = await api.companies.update(company.ID, input);
+
+        console.log('Company updated successfully:', updatedCompany);
+        setSuccess(`Company "${updatedCompany.name}" updated successfully!`);
+        // The update refetches every company view; show the saved record until that completes.
+        cache.setData(['companies', updatedCompany.ID], () => updatedCompany);
+
+        // Signal the parent so it can change the view.
+        if (onCompanyUpdated) {
+          onCompanyUpdated(updatedCompany);
+        }
+        return;
+      }
+
+      // Call the backend endpoint for creating companies ('/wp-json/nexus/v1/companies').
+      // The client sends the form data as JSON with the POST method.
+      const createdCompany = await api.companies.create(input);
 
       console.log('Company created successfully:', createdCompany);
       // Set a success message to display to the user.
       setSuccess(`Company "${createdCompany.name}" created successfully!`);
 
       // Clear the form fields after successful submission.
-      setFormData({
-        name: '', legal_name: '', document_number: '', email: '', phone: '',
-        address_1: '', address_2: '', city: '', state: '', postal_code: '',
-        country: '', website: '', notes: '', status: 1, default_flat_fee: '0.00'
-      });
+      form.reset(createFormValues(companySchema));
 
       // Call the optional callback function provided by the parent component.
       if (onCompanyCreated) {
         onCompanyCreated(); // Signal the parent (e.g., DashboardPage) that data has changed.
       }
 
-    } catch (err: any) {
+    } catch (err) {
       // If an error occurs during submission, log it and set the error state.
-      console.error('Error creating company:', err);
-      setError(err.message || 'Failed to create company.');
-      // You might want to keep the form data on error so the user doesn't lose their input.
+      console.error('Error saving company:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save company.');
+      // Show the backend's field messages (e.g. from a 'rest_invalid_param' error) on their fields.
+      form.applyApiError(err);
+      // Keep the form data on error so the user doesn't lose their input.
     } finally {
       // This block runs after try or catch finishes.
       setLoading(false); // Set loading state to false.
@@ -128,93 +153,22 @@ const CompanyForm: React.FC<CompanyFormProps> = ({ onCompanyCreated, onCancel })
   // Render the form UI.
   return (
     <div className="company-form-container">
-      <h2>Add New Company</h2> {/* Heading for the form */}
+      <h2>{isEditing ? `Edit Company: ${company.name}` : 'Add New Company'}</h2> {/* Heading for the form */}
 
       {/* Display loading, error, or success messages conditionally */}
       {loading && <p>Saving company...</p>}
       {error && <p style={{ color: 'red' }}>Error: {error}</p>}
       {success && <p style={{ color: 'green' }}>Success: {success}</p>}
 
-      {/* The actual HTML form element */}
-      <form onSubmit={handleSubmit} className="company-form">
-        {/* Input field for 'name' */}
-        <div>
-          <label htmlFor="name">Name:</label>
-          <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required disabled={loading} />
-        </div>
-        {/* Input field for 'legal_name' */}
-         <div>
-          <label htmlFor="legal_name">Legal Name:</label>
-          <input type="text" id="legal_name" name="legal_name" value={formData.legal_name} onChange={handleInputChange} disabled={loading} />
-        </div>
-        {/* Input field for 'document_number' */}
-         <div>
-          <label htmlFor="document_number">Document Number:</label>
-          <input type="text" id="document_number" name="document_number" value={formData.document_number} onChange={handleInputChange} disabled={loading} />
-        </div>
-        {/* Input field for 'email' */}
-         <div>
-          <label htmlFor="email">Email:</label>
-          <input type="email" id="email" name="email" value={formData.email} onChange={handleInputChange} disabled={loading} />
-        </div>
-         {/* TODO: Add input fields for all other columns from your 'company_tracker' schema */}
-         {/* Input field for 'phone' */}
-         <div>
-           <label htmlFor="phone">Phone:</label>
-           <input type="text" id="phone" name="phone" value={formData.phone} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'city' */}
-         <div>
-           <label htmlFor="city">City:</label>
-           <input type="text" id="city" name="city" value={formData.city} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'state' */}
-         <div>
-           <label htmlFor="state">State:</label>
-           <input type="text" id="state" name="state" value={formData.state} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'postal_code' */}
-         <div>
-           <label htmlFor="postal_code">Postal Code:</label>
-           <input type="text" id="postal_code" name="postal_code" value={formData.postal_code} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'country' */}
-         <div>
-           <label htmlFor="country">Country:</label>
-           <input type="text" id="country" name="country" value={formData.country} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'website' */}
-         <div>
-           <label htmlFor="website">Website:</label>
-           <input type="text" id="website" name="website" value={formData.website} onChange={handleInputChange} disabled={loading} />
-         </div>
-         {/* Input field for 'default_flat_fee' */}
-         <div>
-           <label htmlFor="default_flat_fee">Default Flat Fee:</label>
-           {/* Use type="number" for numeric input, but value should be a string */}
-           <input type="number" id="default_flat_fee" name="default_flat_fee" value={formData.default_flat_fee} onChange={handleInputChange} step="0.01" disabled={loading} />
-         </div>
-         {/* Select field for 'status' */}
-         <div>
-           <label htmlFor="status">Status:</label>
-           {/* Select value is controlled by state, options match DB values */}
-           <select id="status" name="status" value={formData.status} onChange={handleInputChange} disabled={loading}>
-             <option value={1}>Active</option>
-             <option value={0}>Inactive</option>
-           </select>
-         </div>
-         {/* Textarea for 'notes' */}
-         <div>
-           <label htmlFor="notes">Notes:</label>
-           <textarea id="notes" name="notes" value={formData.notes} onChange={handleInputChange} disabled={loading}></textarea>
-         </div>
-
+      {/* The actual HTML form element. The schema validates the fields, so the browser's own checks are off. */}
+      <form onSubmit={handleSubmit} className="company-form" noValidate>
+        <SchemaFormFields form={form} disabled={loading} />
 
         {/* Action buttons for the form */}
         <div className="form-actions">
           {/* Submit button */}
           <button type="submit" disabled={loading}>
-            {loading ? 'Saving...' : 'Create Company'} {/* Button text changes based on loading state */}
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Company'} {/* Button text changes based on loading and editing state */}
           </button>
           {/* Cancel button (only render if an onCancel callback was provided) */}
           {onCancel && (
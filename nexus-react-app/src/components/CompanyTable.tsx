@@ -3,164 +3,378 @@
  *
  * This component fetches and displays a list of companies from the
  * custom '/wp-json/nexus/v1/companies' REST API endpoint in a table format.
- * It uses the `useApi` hook for authenticated data fetching.
- * It includes loading and error states.
- * It accepts a `refreshTrigger` prop to signal when the data should be refetched.
+ * Pagination, sorting, search and filtering happen on the server: the table sends
+ * page/per_page, orderby/order, search, status, city and country to 'companies', and reads
+ * the totals from WordPress's X-WP-Total / X-WP-TotalPages headers.
+ * The table state lives in the URL (e.g. '/companies?page=2&orderby=city&search=acme'),
+ * so it survives a reload, can be shared as a link, and is restored with the Back button.
+ * It reads the pages through the shared query cache (`useQuery`), so the previous page stays
+ * on screen while the next one loads, and the list is refetched whenever a company changes.
+ * The rows are rendered by DataTable, so users can choose which company fields to show
+ * (e.g. phone, website or the default flat fee), and save columns, filters and sort as views.
+ * The visible columns can be exported for the page on screen or for every matching company.
+ * It accepts an `onSelectCompany` prop so the parent can open a company's detail view,
+ * and an optional `onImport` prop that adds an "Import CSV" button.
  */
-import React, { useEffect, useState } from 'react'; // Import useState and useEffect hooks
-import useApi from '../hooks/useApi'; // Import the custom useApi hook
-
-// Define the interface for the structure of a Company Tracker entry,
-// based on the columns returned by your backend API.
-// Note: DECIMAL comes back as a string in JSON.
-interface Company {
-  ID: number;
-  name: string;
-  legal_name: string | null;
-  document_number: string | null;
-  default_flat_fee: string | null; // DECIMAL is typically returned as a string
-  contact_person: string | null;
-  email: string | null;
-  phone: string | null;
-  city: string | null;
-  state: string | null;
-  postal_code: string | null;
-  country: string | null;
-  website: string | null;
-  notes: string | null;
-  status: number; // smallint(1)
-  created_at: string | null; // timestamp strings (ISO 8601 format often)
-  updated_at: string | null; // timestamp strings
-}
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useDebouncedValue from '../hooks/useDebouncedValue'; // Import the debounce hook for the text filters
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook, to fetch every page for exports
+import DataTable, { DataTableColumn } from './DataTable'; // Import the configurable table
+import { Company, CompanyListParams, CompanySortField, SortOrder, TableView } from '../api/types';
 
 // Define the interface for the component's props
 interface CompanyTableProps {
-  refreshTrigger?: number; // Optional prop to trigger data refresh (e.g., incremented after data change)
-  // TODO: Add props for pagination, sorting, filtering parameters if needed
-  // page?: number;
-  // perPage?: number;
-  // sortBy?: string;
-  // sortOrder?: 'asc' | 'desc';
-  // filters?: { [key: string]: any };
+  onSelectCompany?: (companyId: number) => void; // Optional callback when a company row is selected
+  onImport?: () => void; // Optional callback for the "Import CSV" button, e.g. to open the import wizard
 }
 
+// The table state when the URL has no parameters. Only values that differ are written to the URL.
+const DEFAULT_PAGE = 1;
+const DEFAULT_PER_PAGE = 20;
+const DEFAULT_ORDERBY: CompanySortField = 'name';
+const DEFAULT_ORDER: SortOrder = 'asc';
+
+// Page sizes offered in the footer. Other values in the URL fall back to the default,
+// since WordPress rejects a per_page over 100.
+const PER_PAGE_OPTIONS = [10, 20, 50, 100];
+
+// How long (ms) the text filters wait after the last keystroke before querying the server.
+const FILTER_DEBOUNCE_MS = 300;
+
+// The columns the server can sort by.
+const SORT_FIELDS: CompanySortField[] = ['ID', 'name', 'contact_person', 'email', 'city', 'status', 'created_at'];
 
 /**
- * Fetches and displays a table of company tracker entries.
+ * Formats a timestamp string as a local date, or '-' if empty.
+ * @param {string | null} value - The timestamp string.
+ */
+const formatDate = (value: string | null): string => (value ? new Date(value).toLocaleDateString() : '-');
+
+// The table's columns, in default order. The columns after Created At are hidden until
+// the user shows them from the Columns menu. The columns in SORT_FIELDS are sortable on the server.
+const COLUMNS: DataTableColumn<Company>[] = [
+  { id: 'ID', label: 'ID', render: (company) => company.ID, defaultWidth: 70, sortable: true, exportType: 'number' },
+  { id: 'name', label: 'Name', render: (company) => company.name, sortable: true },
+  // Use logical OR (||) to display a default value like '-' for null/empty fields
+  { id: 'contact_person', label: 'Contact Person', render: (company) => company.contact_person || '-', sortable: true },
+  { id: 'email', label: 'Email', render: (company) => company.email || '-', sortable: true },
+  { id: 'city', label: 'City', render: (company) => company.city || '-', sortable: true },
+  // Display Status based on the number value
+  { id: 'status', label: 'Status', render: (company) => (company.status === 1 ? 'Active' : 'Inactive'), sortable: true },
+  {
+    id: 'created_at',
+    label: 'Created At',
+    render: (company) => formatDate(company.created_at),
+    sortable: true,
+    exportValue: (company) => company.created_at,
+    exportType: 'date',
+  },
+  { id: 'legal_name', label: 'Legal Name', render: (company) => company.legal_name || '-', defaultHidden: true },
+  { id: 'document_number', label: 'Document Number', render: (company) => company.document_number || '-', defaultHidden: true },
+  { id: 'phone', label: 'Phone', render: (company) => company.phone || '-', defaultHidden: true },
+  {
+    id: 'website',
+    label: 'Website',
+    render: (company) =>
+      company.website ? (
+        <a href={company.website} target="_blank" rel="noreferrer">
+          {company.website}
+        </a>
+      ) : (
+        '-'
+      ),
+    defaultHidden: true,
+    exportValue: (company) => company.website,
+  },
+  {
+    id: 'default_flat_fee',
+    label: 'Default Flat Fee',
+    render: (company) => company.default_flat_fee || '-',
+    className: 'money-cell',
+    defaultHidden: true,
+    exportValue: (company) => company.default_flat_fee,
+    exportType: 'money',
+  },
+  { id: 'state', label: 'State', render: (company) => company.state || '-', defaultHidden: true },
+  { id: 'country', label: 'Country', render: (company) => company.country || '-', defaultHidden: true },
+  {
+    id: 'updated_at',
+    label: 'Updated At',
+    render: (company) => formatDate(company.updated_at),
+    defaultHidden: true,
+    exportValue: (company) => company.updated_at,
+    exportType: 'date',
+  },
+];
+
+// The text filters, typed into the search and filter inputs.
+interface TextFilters {
+  search: string;
+  city: string;
+  country: string;
+}
+
+/**
+ * Reads a positive integer URL parameter, falling back to a default for missing or invalid values.
+ * @param {string | null} value - The parameter value.
+ * @param {number} fallback - The default.
+ */
+const parsePositiveInt = (value: string | null, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the table state from the URL's query parameters.
+ * Unknown or invalid values fall back to the defaults, so a hand-edited URL still works.
+ * @param {URLSearchParams} searchParams - The current query parameters.
+ * @returns The list parameters, with the defaults filled in.
+ */
+const readListParams = (searchParams: URLSearchParams) => {
+  const orderby = SORT_FIELDS.find((field) => field === searchParams.get('orderby')) ?? DEFAULT_ORDERBY;
+  const order: SortOrder = searchParams.get('order') === 'desc' ? 'desc' : DEFAULT_ORDER;
+  const status = searchParams.get('status');
+  const perPage = parsePositiveInt(searchParams.get('per_page'), DEFAULT_PER_PAGE);
+
+  return {
+    page: parsePositiveInt(searchParams.get('page'), DEFAULT_PAGE),
+    per_page: PER_PAGE_OPTIONS.includes(perPage) ? perPage : DEFAULT_PER_PAGE,
+    orderby,
+    order,
+    search: searchParams.get('search') ?? '',
+    status: status === '1' ? 1 : status === '0' ? 0 : undefined,
+    city: searchParams.get('city') ?? '',
+    country: searchParams.get('country') ?? '',
+  } satisfies CompanyListParams;
+};
+
+/**
+ * Fetches and displays a paginated, sortable and filterable table of companies.
  * @param {CompanyTableProps} props - The component's props.
  */
-const CompanyTable: React.FC<CompanyTableProps> = ({ refreshTrigger }) => {
-  // State to hold the array of company objects fetched from the API.
-  const [companies, setCompanies] = useState<Company[]>([]);
-  // State to indicate if data is currently being loaded from the API.
-  const [loading, setLoading] = useState(true);
-  // State to hold any error message that occurs during the fetch.
-  const [error, setError] = useState<string | null>(null);
-
-  // Get the apiFetch function from your custom useApi hook.
-  // This hook ensures the JWT token is included in the request.
-  const { apiFetch } = useApi();
-
-  // useEffect hook to perform the data fetching when the component mounts
-  // or when dependencies change.
-  useEffect(() => {
-    // Async function to perform the API call
-    const fetchCompanies = async () => {
-      setLoading(true); // Set loading state to true before fetching
-      setError(null); // Clear any previous errors
-
-      try {
-        // Use apiFetch to call your custom backend endpoint for listing companies.
-        // The endpoint 'companies' is relative to '/wp-json/nexus/v1/'.
-        // The type assertion `<Company[]>` tells TypeScript what structure to expect.
-        const data: Company[] = await apiFetch('companies'); // This makes a GET request by default
-
-        // If the fetch is successful, update the 'companies' state with the received data.
-        setCompanies(data);
-        console.log('Fetched companies:', data);
-
-      } catch (err: any) {
-        // If an error occurs during the fetch, log it and set the error state.
-        console.error('Error fetching companies:', err);
-        setError(err.message || 'Failed to fetch companies.');
-        // You might want to clear existing companies on error: setCompanies([]);
-      } finally {
-        // This block runs after the try or catch block finishes.
-        setLoading(false); // Set loading state to false.
-      }
-    };
-
-    // Call the fetch function when the component mounts or when 'apiFetch' or 'refreshTrigger' changes.
-    // Including 'apiFetch' is a dependency because useCallback makes it stable,
-    // but including 'refreshTrigger' is CRUCIAL for re-fetching when triggered by a parent component.
-    fetchCompanies();
-
-    // Optional: Cleanup function if you had subscriptions or timeouts
-    // return () => { /* cleanup */ };
-
-  }, [apiFetch, refreshTrigger]); // Dependencies: rerun effect if apiFetch or refreshTrigger changes.
+const CompanyTable: React.FC<CompanyTableProps> = ({ onSelectCompany, onImport }) => {
+  // The URL's query parameters hold the table state.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const params = readListParams(searchParams);
+
+  /**
+   * Writes changes of the table state to the URL. Default and empty values are removed,
+   * so the default table has a clean URL. The history entry is replaced, not added,
+   * so typing in the search box does not fill the Back button's history.
+   * @param {Partial<Record<keyof CompanyListParams, string | number | undefined>>} changes - The changed parameters.
+   */
+  const updateParams = useCallback(
+    (changes: Partial<Record<keyof CompanyListParams, string | number | undefined>>) => {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous);
+          Object.entries(changes).forEach(([name, value]) => {
+            const isDefault =
+              (name === 'page' && value === DEFAULT_PAGE) ||
+              (name === 'per_page' && value === DEFAULT_PER_PAGE) ||
+              (name === 'orderby' && value === DEFAULT_ORDERBY) ||
+              (name === 'order' && value === DEFAULT_ORDER);
+            if (value === undefined || value === '' || isDefault) {
+              next.delete(name);
+            } else {
+              next.set(name, String(value));
+            }
+          });
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
 
+  // --- Text Filters ---
 
-  // --- Render Logic ---
+  // The inputs are updated on every keystroke, but only written to the URL (and sent to the
+  // server) once the user paused typing.
+  const urlFilters: TextFilters = { search: params.search, city: params.city, country: params.country };
+  const [filterDraft, setFilterDraft] = useState<TextFilters>(urlFilters);
+  const debouncedFilters = useDebouncedValue(filterDraft, FILTER_DEBOUNCE_MS);
 
-  // Show a loading message while data is being fetched.
-  if (loading) {
-    return <p>Loading companies...</p>;
+  // When the URL changes from outside (e.g., the Back button or a link), show its filters in the inputs.
+  const urlFiltersHash = JSON.stringify(urlFilters);
+  const [syncedFiltersHash, setSyncedFiltersHash] = useState(urlFiltersHash);
+  if (urlFiltersHash !== syncedFiltersHash) {
+    setSyncedFiltersHash(urlFiltersHash);
+    setFilterDraft(urlFilters);
   }
 
-  // Display an error message if a fetch error occurred.
-  if (error) {
-    return <p style={{ color: 'red' }}>Error: {error}</p>;
-  }
+  // Write the debounced filters to the URL, starting again at the first page.
+  // Only a change of the debounced value is written, so a URL change from outside is not overwritten.
+  const appliedFiltersRef = useRef(debouncedFilters);
+  useEffect(() => {
+    if (debouncedFilters === appliedFiltersRef.current) return;
+    appliedFiltersRef.current = debouncedFilters;
 
-  // Display a message if no companies were found after loading.
-  if (companies.length === 0) {
-       return <p>No companies found.</p>;
-  }
+    if (JSON.stringify(debouncedFilters) !== urlFiltersHash) {
+      updateParams({ ...debouncedFilters, page: DEFAULT_PAGE });
+    }
+  }, [debouncedFilters, urlFiltersHash, updateParams]);
+
+  // Updates one text filter input.
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilterDraft((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // --- Sorting and Views ---
+
+  // Sorts by a column header clicked in the table, starting again at the first page.
+  const handleSortChange = ({ column, order }: { column: string; order: SortOrder }) => {
+    updateParams({ orderby: column, order, page: DEFAULT_PAGE });
+  };
+
+  // The filters saved with a view, as strings.
+  const viewFilters = { ...urlFilters, status: params.status === undefined ? '' : String(params.status) };
+
+  // Applies a saved view's filters and sort to the URL in one update.
+  const handleApplyView = (view: TableView) => {
+    updateParams({
+      search: view.filters.search ?? '',
+      status: view.filters.status ?? '',
+      city: view.filters.city ?? '',
+      country: view.filters.country ?? '',
+      orderby: view.sort?.column ?? DEFAULT_ORDERBY,
+      order: view.sort?.order ?? DEFAULT_ORDER,
+      page: DEFAULT_PAGE,
+    });
+  };
+
+  // --- Data ---
+
+  // Read the current page through the shared query cache.
+  // Each combination of parameters is its own cache key, so revisiting a page shows it right away.
+  // The previous page stays on screen while the next one loads, instead of a loading message.
+  const { data, loading, isValidating, error } = useQuery(
+    ['companies', 'page', params],
+    (api) => api.companies.page(params),
+    { keepPreviousData: true }
+  );
+  const companies = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(data?.totalPages ?? 1, 1);
+
+  // Fetches every page of the current filters and sort, for "All matching rows" exports.
+  // The pages are requested directly, not through the cache, since they are only needed once.
+  // `list` reads every page itself, so the table's page and page size are ignored.
+  const api = useApiClient();
+  const fetchAllCompanies = (): Promise<Company[]> => api.companies.list(params);
+
+
+  // --- Render Logic ---
 
-  // If data is loaded and there are companies, render the table.
   return (
     <div className="company-table-container">
       <h2>Companies</h2>
-      {/* HTML Table element */}
-      <table>
-        {/* Table Header */}
-        <thead>
-          <tr>
-            <th>ID</th>
-            <th>Name</th>
-            <th>Contact Person</th>
-            <th>Email</th>
-            <th>City</th>
-            <th>Status</th>
-            {/* Add more table headers corresponding to columns you want to display */}
-            <th>Created At</th>
-          </tr>
-        </thead>
-        {/* Table Body */}
-        <tbody>
-          {/* Map over the 'companies' array to create a table row for each company */}
-          {companies.map((company) => (
-            // Each row needs a unique 'key' prop for React to efficiently update the list.
-            <tr key={company.ID}>
-              <td>{company.ID}</td>
-              <td>{company.name}</td>
-              {/* Use logical OR (||) or ternary operator (?) to display a default value like '-' for null/empty fields */}
-              <td>{company.contact_person || '-'}</td>
-              <td>{company.email || '-'}</td>
-              <td>{company.city || '-'}</td>
-              {/* Display Status based on the number value */}
-               <td>{company.status === 1 ? 'Active' : 'Inactive'}</td>
-              {/* Add more table cells */}
-              {/* Format the timestamp strings for better display */}
-              <td>{company.created_at ? new Date(company.created_at).toLocaleDateString() : '-'}</td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-       {/* TODO: Add pagination controls here if your API supports it */}
+      {onImport && (
+        <div className="list-toolbar">
+          <button type="button" className="table-action-button" onClick={onImport}>
+            Import CSV
+          </button>
+        </div>
+      )}
+
+      {/* Search and filters; they stay on screen while a page loads, so typing is not interrupted */}
+      <div className="table-filters">
+        <label>
+          Search
+          <input type="search" name="search" value={filterDraft.search} onChange={handleFilterChange} placeholder="Name, contact or email" />
+        </label>
+        <label>
+          Status
+          <select
+            value={params.status ?? ''}
+            onChange={(e) => updateParams({ status: e.target.value, page: DEFAULT_PAGE })}
+          >
+            <option value="">All</option>
+            <option value="1">Active</option>
+            <option value="0">Inactive</option>
+          </select>
+        </label>
+        <label>
+          City
+          <input type="text" name="city" value={filterDraft.city} onChange={handleFilterChange} />
+        </label>
+        <label>
+          Country
+          <input type="text" name="country" value={filterDraft.country} onChange={handleFilterChange} />
+        </label>
+        {/* Shown while a page or filter change is being fetched in the background */}
+        {isValidating && !loading && <span className="table-status">Updating...</span>}
+      </div>
+
+      {/* A failed refetch keeps the previous rows on screen, with the error above them */}
+      {error && companies.length > 0 && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+      {/* The rows; a failed first load shows its error in place of the table */}
+      <DataTable
+        tableId="companies"
+        columns={COLUMNS}
+        rows={companies}
+        rowKey={(company) => company.ID}
+        loading={loading}
+        error={companies.length === 0 ? error : null}
+        loadingMessage="Loading companies..."
+        emptyMessage="No companies found."
+        sort={{ column: params.orderby, order: params.order }}
+        onSortChange={handleSortChange}
+        filters={viewFilters}
+        onApplyView={handleApplyView}
+        exportOptions={{ title: 'Companies', fetchAllRows: fetchAllCompanies, totalCount: total }}
+        rowActions={
+          onSelectCompany &&
+          ((company) => (
+            // Open the detail view, where the company can be edited, deactivated or deleted
+            <button type="button" className="table-action-button" onClick={() => onSelectCompany(company.ID)}>
+              View
+            </button>
+          ))
+        }
+      />
+
+      {/* Pagination controls */}
+      {!loading && total > 0 && (
+        <div className="pagination">
+          <button
+            type="button"
+            className="table-action-button"
+            onClick={() => updateParams({ page: params.page - 1 })}
+            disabled={params.page <= 1}
+          >
+            Previous
+          </button>
+          <span>
+            Page {params.page} of {totalPages} ({total} {total === 1 ? 'company' : 'companies'})
+          </span>
+          <button
+            type="button"
+            className="table-action-button"
+            onClick={() => updateParams({ page: params.page + 1 })}
+            disabled={params.page >= totalPages}
+          >
+            Next
+          </button>
+          <label>
+            Per page
+            <select value={params.per_page} onChange={(e) => updateParams({ per_page: Number(e.target.value), page: DEFAULT_PAGE })}>
+              {PER_PAGE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
     </div>
   );
 };
 
-export default CompanyTable;
\ No newline at end of file
+export default CompanyTable;
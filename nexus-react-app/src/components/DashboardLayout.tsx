@@ -2,15 +2,25 @@
  * Dashboard Layout Component.
  *
  * This component provides the overall structural layout for the protected dashboard pages.
- * - It includes a header with the app title and user info (Welcome message, Logout button).
- * - It includes a sidebar for navigation (placeholder for now, could use React Router Links).
+ * - It includes a header with the app title, the running time entry timer, the command palette (Ctrl+K) and user info (Welcome message, Logout button).
+ * - It includes a sidebar for navigation, with links to the route of each view; the link of the current route is highlighted.
+ *   The links are the registry actions with a `sidebar` label (see src/actions/registry.ts).
  * - It includes a main content area where child components (specific views like tables/forms) are rendered.
- * - It includes the NexusInputBar at the bottom for natural language queries.
- * It receives callbacks and state from the parent (DashboardPage) to handle navigation and query submission.
+ * - It includes the NexusInputBar at the bottom for natural language queries; '/' or Ctrl+/ focuses it from anywhere.
+ * It receives callbacks and state from the parent (DashboardPage) to handle query submission.
+ * In development, `VITE_MOCK_SPEECH` gives the input bar a scripted speech recognizer (see src/speech/mockRecognizer.ts).
  */
 import React from 'react';
+import { NavLink } from 'react-router-dom'; // Import NavLink for the sidebar links
 import { useAuth } from '../context/AuthContext'; // Import useAuth hook to get user info and logout function
+import useActions from '../hooks/useActions'; // Import the registry hook for the sidebar links
 import NexusInputBar from './NexusInputBar'; // Import the NexusInputBar component
+import TimerWidget from './TimerWidget'; // Import the persistent time entry timer
+import CommandPalette from './CommandPalette'; // Import the command palette
+import { getMockRecognizerFactory } from '../speech/mockRecognizer';
+
+// The scripted speech recognizer chosen with VITE_MOCK_SPEECH; never used in production builds.
+const mockRecognizer = import.meta.env.DEV ? getMockRecognizerFactory(import.meta.env.VITE_MOCK_SPEECH) : undefined;
 
 // Define the interface for the component's props
 interface DashboardLayoutProps {
@@ -20,30 +30,31 @@ interface DashboardLayoutProps {
   onQuerySubmit: (query: string) => void;
   // Boolean prop to indicate if a natural language query is currently being processed
   queryLoading?: boolean;
-  // Optional callback for sidebar navigation clicks if not using React Router Links directly
-  // onChangeView?: (view: string) => void;
+  // Callback function to cancel the natural language query being processed
+  onQueryCancel?: () => void;
+  // The user's recent natural language queries, suggested by the input bar
+  recentQueries?: string[];
 }
 
 /**
  * Renders the main layout for the dashboard.
  * @param {DashboardLayoutProps} props - The component's props.
  */
-const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, onQuerySubmit, queryLoading = false /*, onChangeView */ }) => {
+const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, onQuerySubmit, queryLoading = false, onQueryCancel, recentQueries }) => {
   // Access the authenticated user object and the logout function from the AuthContext
   const { user, logout } = useAuth();
-
-  // Simple handler for sidebar button clicks if not using React Router Links
-  // const handleSidebarClick = (view: string) => {
-  //     if (onChangeView) {
-  //          onChangeView(view); // Call the passed-down function to change the view state in DashboardPage
-  //     }
-  // }
+  // The actions the user may run, for the sidebar.
+  const { actions } = useActions();
 
   return (
     <div className="dashboard-layout">
       {/* Header Section */}
       <header className="dashboard-header">
         <h1>Nexus Dashboard</h1>
+        {/* Running timer, visible on every dashboard view */}
+        {user && <TimerWidget />}
+        {/* Command palette, with the keyboard shortcuts of the actions */}
+        {user && <CommandPalette />}
         {/* Display user info and logout button if a user is logged in */}
         {user && (
           <div className="user-info">
@@ -61,16 +72,16 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, onQuerySubm
         <aside className="dashboard-sidebar">
           <nav>
               <ul>
-                  {/* Navigation Links/Buttons */}
-                  {/* TODO: Replace placeholder text with actual navigation elements */}
-                  {/* You could use <button onClick={() => handleSidebarClick('overview')}>Overview</button> */}
-                  {/* Or use <Link to="/dashboard/companies">Companies</Link> with nested routes in App.tsx */}
-                  <li><button>Overview</button></li>
-                  <li><button>Companies</button></li>
-                  <li><button>Projects</button></li>
-                  <li><button>Expenses</button></li>
-                  <li><button>Team Members</button></li>
-                   {/* Add buttons/links for other entities */}
+                  {/* Navigation Links - NavLink adds the 'active' class to the link of the current route */}
+                  {actions.map((action) =>
+                    action.sidebar && action.route ? (
+                      <li key={action.id}>
+                        <NavLink to={action.route} end={action.sidebar.end}>
+                          <span className="sidebar-icon" aria-hidden="true">{action.icon}</span> {action.sidebar.label}
+                        </NavLink>
+                      </li>
+                    ) : null
+                  )}
               </ul>
           </nav>
         </aside>
@@ -82,8 +93,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, onQuerySubm
       </div>
 
       {/* Nexus Input Bar at the bottom - for natural language queries */}
-      {/* Pass the onQuerySubmit callback and queryLoading state down to the input bar */}
-      <NexusInputBar onQuerySubmit={onQuerySubmit} loading={queryLoading} />
+      {/* Pass the onQuerySubmit and onQueryCancel callbacks, queryLoading state and recent queries down to the input bar */}
+      <NexusInputBar onQuerySubmit={onQuerySubmit} loading={queryLoading} onCancel={onQueryCancel} recentQueries={recentQueries} createRecognizer={mockRecognizer} />
 
       {/* Optional Footer Section */}
       {/* <footer className="dashboard-footer">
@@ -0,0 +1,333 @@
+/**
+ * Data Table Component.
+ *
+ * A generic table for the app's lists, configured with column definitions
+ * (see `DataTableColumn`). On top of rendering the rows, it lets users:
+ * - show, hide, reorder and pin columns (the Columns menu), and resize them by dragging
+ *   the right edge of a header. The layout is remembered per user (`useTableLayout`).
+ * - sort by clicking a column header. When the parent passes `onSortChange`, the parent
+ *   sorts (e.g. on the server, as CompanyTable does); otherwise the table sorts the rows
+ *   itself with the columns' `sortValue`.
+ * - save the columns, filters and sort as named views (DataTableViewsMenu), stored per user
+ *   on the backend. The parent owns its filters and passes them in with `filters`, and
+ *   applies a view's filters (and its sort, if the parent sorts) in `onApplyView`.
+ * - export the visible columns of the rows, in display order, to CSV, Excel or PDF (ExportMenu),
+ *   when the parent passes `exportOptions`.
+ * Data fetching stays with the parent, which passes the rows and the loading/error state.
+ */
+import React, { ReactNode, useState } from 'react';
+import useTableLayout from '../hooks/useTableLayout'; // Import the persisted column layout hook
+import DataTableColumnsMenu from './DataTableColumnsMenu';
+import DataTableViewsMenu from './DataTableViewsMenu';
+import ExportMenu from './ExportMenu';
+import { TableColumnState, TableSort, TableView } from '../api/types';
+import { ExportCellType, ExportColumn, ExportFileNameParts, ExportValue } from '../utils/export';
+
+// The definition of one column.
+export interface DataTableColumn<T> {
+  id: string; // Unique within the table; stored in layouts and saved views
+  label: string; // Header text, also shown in the Columns menu
+  render: (row: T) => ReactNode; // Renders the column's cell for a row
+  sortValue?: (row: T) => string | number; // Makes the column sortable in the browser
+  sortable?: boolean; // Makes the column sortable by the parent (with `onSortChange`)
+  footer?: ReactNode; // Optional footer cell, e.g. a total
+  defaultHidden?: boolean; // Hidden until the user shows it
+  defaultWidth?: number; // Initial width in pixels; sized by the browser if not set
+  className?: string; // Added to the column's cells, e.g. 'money-cell'
+  exportValue?: (row: T) => ExportValue; // The raw value exported; defaults to the rendered text
+  exportType?: ExportCellType; // How the exported value is typed, e.g. 'date' or 'money'
+  exportCurrency?: (row: T) => string; // The currency of an exported 'money' value
+  exportLabel?: string; // Header in exports, if it differs from the label (e.g. 'Duration (hours)')
+}
+
+// Export settings of a table; the file is named after the table ID and these parts.
+interface DataTableExportOptions<T> {
+  title: string; // Heading of the PDF and name of the XLSX sheet
+  fileName?: Omit<ExportFileNameParts, 'list'>; // The company and date range the rows are filtered by
+  fetchAllRows?: () => Promise<T[]>; // Fetches every matching row, for paginated tables
+  totalCount?: number; // How many rows match the filters
+}
+
+// Define the interface for the component's props
+interface DataTableProps<T> {
+  tableId: string; // Identifies the table's layout and saved views, e.g. 'companies'
+  columns: DataTableColumn<T>[]; // Every column the table can show, in default order
+  rows: T[];
+  rowKey: (row: T) => string | number; // A unique key per row, e.g. its ID
+  loading?: boolean; // Shows `loadingMessage` instead of the rows
+  error?: string | null; // Shows the error instead of the rows
+  loadingMessage?: string;
+  emptyMessage?: string; // Shown when there are no rows
+  sort?: TableSort | null; // The parent's sort (with `onSortChange`)
+  onSortChange?: (sort: TableSort) => void; // Lets the parent sort, e.g. on the server
+  filters?: Record<string, string>; // The parent's current filters, saved with views
+  onApplyView?: (view: TableView) => void; // Applies a saved view's filters, and its sort if the parent sorts
+  rowActions?: (row: T) => ReactNode; // Renders an Actions cell at the end of each row
+  exportOptions?: DataTableExportOptions<T>; // Shows the Export menu
+}
+
+// Width (px) of pinned columns without a width, so the next pinned column knows where to stick.
+const DEFAULT_PINNED_WIDTH = 150;
+// Columns can't be resized narrower than this (px).
+const MIN_COLUMN_WIDTH = 60;
+
+/**
+ * Compares two sort values: numbers numerically, strings in natural order ('Item 2' before 'Item 10').
+ * @param {string | number} a - The first value.
+ * @param {string | number} b - The second value.
+ */
+const compareValues = (a: string | number, b: string | number): number =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+/**
+ * Renders a configurable table with saved views.
+ * @param {DataTableProps<T>} props - The component's props.
+ */
+const DataTable = <T,>({
+  tableId,
+  columns,
+  rows,
+  rowKey,
+  loading = false,
+  error = null,
+  loadingMessage = 'Loading...',
+  emptyMessage = 'No records found.',
+  sort,
+  onSortChange,
+  filters = {},
+  onApplyView,
+  rowActions,
+  exportOptions,
+}: DataTableProps<T>) => {
+  const { layout, setLayout, updateColumn, moveColumn, resetLayout } = useTableLayout(tableId, columns);
+
+  // The parent sorts if it handles sort changes; otherwise the table sorts in the browser.
+  const sortsInParent = onSortChange !== undefined;
+  const [localSort, setLocalSort] = useState<TableSort | null>(null);
+  const currentSort = sortsInParent ? sort ?? null : localSort;
+  const changeSort = (next: TableSort) => (sortsInParent ? onSortChange(next) : setLocalSort(next));
+
+  // The width of the column being resized, shown while dragging and stored once it is released.
+  const [resizing, setResizing] = useState<{ columnId: string; width: number } | null>(null);
+
+  const columnsById = Object.fromEntries(columns.map((column) => [column.id, column])) as Record<string, DataTableColumn<T>>;
+
+  // The visible columns in display order: pinned columns first, then the others.
+  const visible = layout
+    .map((state) => (state.id === resizing?.columnId ? { ...state, width: resizing.width } : state))
+    .filter((state) => !state.hidden);
+  const displayed = [...visible.filter((state) => state.pinned), ...visible.filter((state) => !state.pinned)].map((state) => ({
+    state,
+    column: columnsById[state.id],
+  }));
+
+  // The left offset of each pinned column: the total width of the pinned columns before it.
+  const pinnedOffsets: Record<string, number> = {};
+  let pinnedWidth = 0;
+  displayed.forEach(({ state }) => {
+    if (!state.pinned) return;
+    pinnedOffsets[state.id] = pinnedWidth;
+    pinnedWidth += state.width ?? DEFAULT_PINNED_WIDTH;
+  });
+
+  /**
+   * Returns the width and sticky position styles of a column's cells.
+   * @param {TableColumnState} state - The column's layout.
+   */
+  const cellStyle = (state: TableColumnState): React.CSSProperties => {
+    const width = state.width ?? (state.pinned ? DEFAULT_PINNED_WIDTH : undefined);
+    return {
+      ...(width !== undefined && { width, minWidth: width, maxWidth: width }),
+      ...(state.pinned && { left: pinnedOffsets[state.id] }),
+    };
+  };
+
+  // Sort the rows in the browser when the parent does not sort them.
+  const sortColumn = currentSort ? columnsById[currentSort.column] : undefined;
+  const sortedRows =
+    !sortsInParent && currentSort && sortColumn?.sortValue
+      ? [...rows].sort((a, b) => {
+          const result = compareValues(sortColumn.sortValue!(a), sortColumn.sortValue!(b));
+          return currentSort.order === 'asc' ? result : -result;
+        })
+      : rows;
+
+  // Sorts by a column; clicking the sorted column again reverses the order.
+  const handleSort = (columnId: string) => {
+    const order = currentSort?.column === columnId && currentSort.order === 'asc' ? 'desc' : 'asc';
+    changeSort({ column: columnId, order });
+  };
+
+  /**
+   * Starts resizing a column by dragging its header's right edge.
+   * @param {string} columnId - The column being resized.
+   * @param {React.PointerEvent<HTMLSpanElement>} e - The pointer down event on the resize handle.
+   */
+  const startResize = (columnId: string, e: React.PointerEvent<HTMLSpanElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const header = e.currentTarget.parentElement as HTMLElement;
+    const startX = e.clientX;
+    const startWidth = header.getBoundingClientRect().width;
+    // The width dragged to, or null if the pointer hasn't moved.
+    let width: number | null = null;
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + moveEvent.clientX - startX));
+      setResizing({ columnId, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      if (width !== null) updateColumn(columnId, { width });
+      setResizing(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+  };
+
+  // Applies a saved view: the table applies its columns (and its sort, when sorting in the browser),
+  // the parent its filters and parent-side sort, in one update.
+  const applyView = (view: TableView) => {
+    setLayout(view.columns);
+    if (!sortsInParent) {
+      setLocalSort(view.sort);
+    }
+    onApplyView?.(view);
+  };
+
+  const hasFooter = displayed.some(({ column }) => column.footer !== undefined);
+
+  // The visible columns, in display order, as export columns. Without an `exportValue`,
+  // a column exports the text it renders.
+  const exportColumns: ExportColumn<T>[] = displayed.map(({ column }) => ({
+    label: column.exportLabel ?? column.label,
+    type: column.exportType,
+    currency: column.exportCurrency,
+    value:
+      column.exportValue ??
+      ((row: T) => {
+        const rendered = column.render(row);
+        return typeof rendered === 'string' || typeof rendered === 'number' ? rendered : null;
+      }),
+  }));
+
+  // --- Render Logic ---
+
+  // Renders the table area: the loading, error and empty states, or the rows.
+  const renderTable = () => {
+    if (loading) {
+      return <p>{loadingMessage}</p>;
+    }
+    if (error) {
+      return <p style={{ color: 'red' }}>Error: {error}</p>;
+    }
+    if (rows.length === 0) {
+      return <p>{emptyMessage}</p>;
+    }
+
+    return (
+      // The wrapper scrolls horizontally when the columns are wider than the page.
+      <div className="data-table-scroll">
+        <table className="data-table">
+          <thead>
+            <tr>
+              {displayed.map(({ state, column }) => {
+                const isSortable = sortsInParent ? Boolean(column.sortable) : column.sortValue !== undefined;
+                const isSorted = currentSort?.column === column.id;
+                return (
+                  <th
+                    key={column.id}
+                    style={cellStyle(state)}
+                    className={state.pinned ? 'pinned-column' : undefined}
+                    aria-sort={isSorted ? (currentSort.order === 'asc' ? 'ascending' : 'descending') : undefined}
+                  >
+                    {isSortable ? (
+                      <button type="button" className="sort-button" onClick={() => handleSort(column.id)}>
+                        {column.label}
+                        {isSorted && <span className="sort-indicator">{currentSort.order === 'asc' ? ' ▲' : ' ▼'}</span>}
+                      </button>
+                    ) : (
+                      column.label
+                    )}
+                    {/* Drag to resize; double-click to size the column automatically again */}
+                    <span
+                      className="column-resize-handle"
+                      onPointerDown={(e) => startResize(column.id, e)}
+                      onDoubleClick={() => updateColumn(column.id, { width: null })}
+                      aria-hidden="true"
+                    />
+                  </th>
+                );
+              })}
+              {rowActions && <th>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row) => (
+              <tr key={rowKey(row)}>
+                {displayed.map(({ state, column }) => (
+                  <td
+                    key={column.id}
+                    style={cellStyle(state)}
+                    className={[column.className, state.pinned && 'pinned-column'].filter(Boolean).join(' ') || undefined}
+                  >
+                    {column.render(row)}
+                  </td>
+                ))}
+                {rowActions && <td className="row-actions">{rowActions(row)}</td>}
+              </tr>
+            ))}
+          </tbody>
+          {hasFooter && (
+            <tfoot>
+              <tr>
+                {displayed.map(({ state, column }) => (
+                  <th key={column.id} style={cellStyle(state)} className={state.pinned ? 'pinned-column' : undefined}>
+                    {column.footer}
+                  </th>
+                ))}
+                {rowActions && <th />}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="data-table-container">
+      {/* Saved views, column settings and export; shown in every state, so a view can be chosen while empty */}
+      <div className="data-table-toolbar">
+        <DataTableViewsMenu
+          tableId={tableId}
+          currentState={{ columns: layout, filters, sort: currentSort }}
+          onApply={applyView}
+        />
+        <div className="data-table-toolbar-actions">
+          <DataTableColumnsMenu
+            layout={layout}
+            labels={Object.fromEntries(columns.map((column) => [column.id, column.label]))}
+            onUpdateColumn={updateColumn}
+            onMoveColumn={moveColumn}
+            onReset={resetLayout}
+          />
+          {exportOptions && (
+            <ExportMenu
+              title={exportOptions.title}
+              fileName={{ list: tableId, ...exportOptions.fileName }}
+              columns={exportColumns}
+              rows={sortedRows}
+              fetchAllRows={exportOptions.fetchAllRows}
+              totalCount={exportOptions.totalCount}
+            />
+          )}
+        </div>
+      </div>
+      {renderTable()}
+    </div>
+  );
+};
+
+export default DataTable;
@@ -0,0 +1,76 @@
+/**
+ * Data Table Columns Menu Component.
+ *
+ * The "Columns" dropdown of a DataTable. For each column, the user can:
+ * - show or hide it,
+ * - pin it, so it stays on the left while the table scrolls horizontally,
+ * - move it up or down in the column order.
+ * Column widths are changed by dragging the header edges in the table itself;
+ * "Reset" restores the table's default layout, including the widths.
+ */
+import React from 'react';
+import { TableColumnState } from '../api/types';
+
+// Define the interface for the component's props
+interface DataTableColumnsMenuProps {
+  layout: TableColumnState[]; // Every column, in display order
+  labels: Record<string, string>; // The column labels, by column ID
+  onUpdateColumn: (columnId: string, changes: Partial<Omit<TableColumnState, 'id'>>) => void;
+  onMoveColumn: (columnId: string, offset: number) => void;
+  onReset: () => void;
+}
+
+/**
+ * Renders the column settings of a data table in a dropdown.
+ * @param {DataTableColumnsMenuProps} props - The component's props.
+ */
+const DataTableColumnsMenu: React.FC<DataTableColumnsMenuProps> = ({ layout, labels, onUpdateColumn, onMoveColumn, onReset }) => {
+  // At least one column must stay visible.
+  const visibleCount = layout.filter((state) => !state.hidden).length;
+
+  return (
+    // <details> opens and closes the dropdown without any state of its own.
+    <details className="table-menu">
+      <summary>Columns</summary>
+      <div className="table-menu-panel">
+        <ul className="table-columns-list">
+          {layout.map((state, index) => (
+            <li key={state.id}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={!state.hidden}
+                  onChange={(e) => onUpdateColumn(state.id, { hidden: !e.target.checked })}
+                  disabled={!state.hidden && visibleCount === 1}
+                />
+                {labels[state.id]}
+              </label>
+              <span className="table-columns-controls">
+                <label title="Keep this column on the left while scrolling">
+                  <input type="checkbox" checked={state.pinned} onChange={(e) => onUpdateColumn(state.id, { pinned: e.target.checked })} />
+                  Pin
+                </label>
+                <button type="button" onClick={() => onMoveColumn(state.id, -1)} disabled={index === 0} aria-label={`Move ${labels[state.id]} up`}>
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onMoveColumn(state.id, 1)}
+                  disabled={index === layout.length - 1}
+                  aria-label={`Move ${labels[state.id]} down`}
+                >
+                  ↓
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <button type="button" className="table-action-button" onClick={onReset}>
+          Reset
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default DataTableColumnsMenu;
@@ -0,0 +1,157 @@
+/**
+ * Data Table Views Menu Component.
+ *
+ * Lets the user save the current columns, filters and sort of a DataTable as a named view,
+ * and switch between saved views. Views are stored per user on the backend
+ * ('/wp-json/nexus/v1/table-views'), so they follow the user to other machines.
+ * - Choosing a view applies it to the table.
+ * - "Save" replaces the chosen view with the current state; "Save as..." creates a new view.
+ * - "Delete" removes the chosen view.
+ * The views are read through the shared query cache, so every table with the same ID
+ * sees a view as soon as it is saved.
+ */
+import React, { useState } from 'react';
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import { TableView, TableViewInput } from '../api/types';
+
+// Define the interface for the component's props
+interface DataTableViewsMenuProps {
+  tableId: string; // The table the views belong to, e.g. 'companies'
+  currentState: Omit<TableViewInput, 'table' | 'name'>; // The table's current columns, filters and sort
+  onApply: (view: TableView) => void; // Applies a saved view to the table
+}
+
+/**
+ * Renders the saved view picker and its Save / Save as / Delete actions.
+ * @param {DataTableViewsMenuProps} props - The component's props.
+ */
+const DataTableViewsMenu: React.FC<DataTableViewsMenuProps> = ({ tableId, currentState, onApply }) => {
+  const api = useApiClient();
+  const { data: views = [], error: fetchError } = useQuery(['table-views', { table: tableId }], (client) =>
+    client.tableViews.list({ table: tableId })
+  );
+
+  // The view last chosen or saved, which "Save" and "Delete" act on.
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  // The name typed for a new view; null while the name input is closed.
+  const [newName, setNewName] = useState<string | null>(null);
+  // State to indicate saving, and to hold any error message from saving.
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeView = views.find((view) => view.ID === activeViewId) ?? null;
+
+  // Applies the chosen view to the table.
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const view = views.find((candidate) => candidate.ID === Number(e.target.value));
+    setActiveViewId(view ? view.ID : null);
+    if (view) {
+      onApply(view);
+    }
+  };
+
+  /**
+   * Runs a save or delete request with the saving and error state.
+   * @param {() => Promise<void>} request - The request.
+   * @param {string} failureMessage - The message shown if the error has none.
+   */
+  const run = async (request: () => Promise<void>, failureMessage: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await request();
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Creates a new view from the current state.
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName?.trim();
+    if (!name) return;
+    run(async () => {
+      const created = await api.tableViews.create({ table: tableId, name, ...currentState });
+      setActiveViewId(created.ID);
+      setNewName(null);
+    }, 'Failed to save view.');
+  };
+
+  // Replaces the chosen view with the current state.
+  const handleUpdate = () => {
+    if (!activeView) return;
+    run(async () => {
+      await api.tableViews.update(activeView.ID, { table: tableId, name: activeView.name, ...currentState });
+    }, 'Failed to save view.');
+  };
+
+  // Deletes the chosen view after confirmation.
+  const handleDelete = () => {
+    if (!activeView || !window.confirm(`Delete the view "${activeView.name}"?`)) return;
+    run(async () => {
+      await api.tableViews.remove(activeView.ID);
+      setActiveViewId(null);
+    }, 'Failed to delete view.');
+  };
+
+  return (
+    <div className="table-views-menu">
+      <label>
+        View
+        <select value={activeView ? activeView.ID : ''} onChange={handleSelect}>
+          <option value="">{views.length > 0 ? 'Choose a saved view' : 'No saved views'}</option>
+          {views.map((view) => (
+            <option key={view.ID} value={view.ID}>
+              {view.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {newName === null ? (
+        <>
+          {activeView && (
+            <button type="button" className="table-action-button" onClick={handleUpdate} disabled={saving}>
+              Save
+            </button>
+          )}
+          <button type="button" className="table-action-button" onClick={() => setNewName('')} disabled={saving}>
+            Save as...
+          </button>
+          {activeView && (
+            <button type="button" className="table-action-button" onClick={handleDelete} disabled={saving}>
+              Delete
+            </button>
+          )}
+        </>
+      ) : (
+        // Name input for a new view
+        <form className="table-views-form" onSubmit={handleCreate}>
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+            maxLength={100}
+            autoFocus
+          />
+          <button type="submit" className="table-action-button" disabled={saving || !newName.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button type="button" className="table-action-button" onClick={() => setNewName(null)} disabled={saving}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {(error || fetchError) && <span className="table-views-error">{error ?? `Views could not be loaded: ${fetchError}`}</span>}
+    </div>
+  );
+};
+
+export default DataTableViewsMenu;
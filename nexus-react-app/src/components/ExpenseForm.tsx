@@ -0,0 +1,231 @@
+/**
+ * Expense Form Component.
+ *
+ * This component provides a form for adding an expense with an optional receipt.
+ * - Its fields and validation are described in `expenseSchema` (see src/forms/).
+ * - It fetches companies and projects so the expense can be assigned to either.
+ * - The expense can be attributed to any team member; it defaults to the logged-in user.
+ * - The receipt (an image or a PDF) is sent together with the expense fields as a
+ *   multipart FormData body, which `apiFetch` sends without a JSON Content-Type.
+ * It sends the data to the custom '/wp-json/nexus/v1/expenses' REST API endpoint using POST.
+ * Field-level validation messages returned by the backend are shown on their fields.
+ * It includes loading, error, and success states, and calls callbacks on success or cancel.
+ */
+import React, { useEffect, useState } from 'react'; // Import useState and useEffect hooks
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to default the member to the current user
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useSchemaForm from '../hooks/useSchemaForm'; // Import the schema-driven form state
+import SchemaFormFields from './SchemaFormFields'; // Import the schema-driven inputs
+import { Expense } from '../api/types'; // Import the shared API types
+import { toDateInputValue } from '../utils/format'; // Import date formatting helper
+import { RECEIPT_ACCEPT, RECEIPT_MAX_BYTES } from '../constants/expenses';
+import { ExpenseFormValues, expenseSchema } from '../forms/expenseSchema';
+import { createFormValues } from '../forms/schema';
+
+// Define the interface for the component's props
+interface ExpenseFormProps {
+  // Optional callback function to be called after an expense is successfully created.
+  onExpenseCreated?: (expense: Expense) => void;
+  // Optional callback function to be called when the user cancels the form.
+  onCancel?: () => void;
+}
+
+// The empty state of the form. The date defaults to today and the member to the given user.
+const createEmptyFormData = (userId: string): ExpenseFormValues =>
+  createFormValues(expenseSchema, undefined, { user_id: userId, expense_date: toDateInputValue(new Date()) });
+
+/**
+ * Renders a form to add an expense with a receipt upload.
+ * @param {ExpenseFormProps} props - The component's props.
+ */
+const ExpenseForm: React.FC<ExpenseFormProps> = ({ onExpenseCreated, onCancel }) => {
+  // The logged-in user, who the expense is attributed to by default.
+  const { user } = useAuth();
+  const defaultUserId = user ? String(user.id) : '';
+
+  // State to hold the selected receipt file, if any.
+  const [receipt, setReceipt] = useState<File | null>(null);
+  // State to hold a local preview URL for image receipts.
+  const [receiptPreview, setReceiptPreview] = useState<string | null>(null);
+  // Key used to reset the file input after submission (file inputs can't be controlled).
+  const [fileInputKey, setFileInputKey] = useState(0);
+  // Read the companies and projects available in the pickers through the shared query cache.
+  const companiesQuery = useQuery(['companies'], (client) => client.companies.list());
+  const projectsQuery = useQuery(['projects'], (client) => client.projects.list());
+  const companies = companiesQuery.data ?? [];
+  const projects = projectsQuery.data ?? [];
+  const pickerError = companiesQuery.error ?? projectsQuery.error;
+
+  /**
+   * Changing the company clears a project that belongs to another company.
+   * @param {ExpenseFormValues} next - The values with the changed field.
+   * @param {string} name - The changed field.
+   */
+  const clearOtherCompanyProject = (next: ExpenseFormValues, name: string): ExpenseFormValues => {
+    const project = projects.find((p) => String(p.ID) === next.project_id);
+    return name === 'company_id' && project && String(project.company_id) !== next.company_id
+      ? { ...next, project_id: '' }
+      : next;
+  };
+
+  // State to manage the values and validation messages of the form fields.
+  const form = useSchemaForm(expenseSchema, () => createEmptyFormData(defaultUserId), { onChange: clearOtherCompanyProject });
+  const formData = form.values; // The current values, read to filter the projects and build the request
+
+  // State to indicate if the form submission is currently in progress.
+  const [loading, setLoading] = useState(false);
+  // State to hold any error message that occurs during submission.
+  const [error, setError] = useState<string | null>(null);
+  // State to hold a success message after successful submission.
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get the typed API client.
+  const api = useApiClient();
+
+  // Release the preview URL when it changes or the form unmounts.
+  useEffect(() => {
+    return () => {
+      if (receiptPreview) URL.revokeObjectURL(receiptPreview);
+    };
+  }, [receiptPreview]);
+
+  /**
+   * Handles picking a receipt file. Validates its type and size and prepares an image preview.
+   * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+   */
+  const handleReceiptChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] ?? null;
+    setError(null);
+    setReceiptPreview(null);
+
+    if (file && !(file.type.startsWith('image/') || file.type === 'application/pdf')) {
+      setError('Receipts must be an image or a PDF.');
+      setReceipt(null);
+      return;
+    }
+    if (file && file.size > RECEIPT_MAX_BYTES) {
+      setError(`Receipts must be smaller than ${Math.round(RECEIPT_MAX_BYTES / 1024 / 1024)} MB.`);
+      setReceipt(null);
+      return;
+    }
+
+    setReceipt(file);
+    if (file && file.type.startsWith('image/')) {
+      setReceiptPreview(URL.createObjectURL(file));
+    }
+  };
+
+  // Projects shown in the picker: only those of the selected company, if one is selected.
+  const availableProjects = formData.company_id
+    ? projects.filter((project) => String(project.company_id) === formData.company_id)
+    : projects;
+
+  /**
+   * Handles the form submission event.
+   * Sends the fields and the receipt to the backend API as multipart FormData.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setSuccess(null);
+
+    if (!form.validate()) {
+      setError('Please correct the highlighted fields.');
+      return;
+    }
+
+    // A project implies its company, so fill the company in when only a project was picked.
+    const project = projects.find((p) => String(p.ID) === formData.project_id);
+    const companyId = formData.company_id || (project ? String(project.company_id) : '');
+
+    // Build the multipart body. Empty optional IDs are left out.
+    const body = new FormData();
+    body.append('user_id', formData.user_id);
+    body.append('expense_date', formData.expense_date);
+    body.append('amount', formData.amount);
+    body.append('currency', formData.currency);
+    body.append('category', formData.category);
+    if (companyId) body.append('company_id', companyId);
+    if (formData.project_id) body.append('project_id', formData.project_id);
+    body.append('billable', formData.billable ? '1' : '0');
+    body.append('notes', formData.notes);
+    if (receipt) body.append('receipt', receipt, receipt.name);
+
+    setLoading(true);
+
+    try {
+      const createdExpense = await api.expenses.create(body);
+
+      console.log('Expense created successfully:', createdExpense);
+      setSuccess('Expense saved successfully!');
+      form.reset(createEmptyFormData(defaultUserId));
+      setReceipt(null);
+      setReceiptPreview(null);
+      setFileInputKey(prev => prev + 1);
+
+      if (onExpenseCreated) {
+        onExpenseCreated(createdExpense);
+      }
+    } catch (err) {
+      console.error('Error creating expense:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save expense.');
+      // Show the backend's field messages (e.g. from a 'rest_invalid_param' error) on their fields.
+      form.applyApiError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Render the form UI. It reuses the company form styling.
+  return (
+    <div className="company-form-container">
+      <h2>Add Expense</h2>
+
+      {/* Display loading, error, or success messages conditionally */}
+      {loading && <p>Saving expense...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {pickerError && <p style={{ color: 'red' }}>Error: {pickerError}</p>}
+      {success && <p style={{ color: 'green' }}>Success: {success}</p>}
+
+      {/* The schema validates the fields, so the browser's own checks are off. */}
+      <form onSubmit={handleSubmit} className="company-form" noValidate>
+        {/* The pickers are filled from the companies and projects endpoints; the receipt upload is rendered here */}
+        <SchemaFormFields
+          form={form}
+          options={{
+            company_id: companies.map((company) => ({ value: String(company.ID), label: company.name })),
+            project_id: availableProjects.map((project) => ({ value: String(project.ID), label: project.name })),
+          }}
+          slots={{
+            receipt: (
+              <div>
+                <label htmlFor="receipt">Receipt (image or PDF):</label>
+                <input key={fileInputKey} type="file" id="receipt" name="receipt" accept={RECEIPT_ACCEPT} onChange={handleReceiptChange} disabled={loading} />
+                {receiptPreview && <img src={receiptPreview} alt="Receipt preview" className="receipt-preview" />}
+                {receipt && !receiptPreview && <p>{receipt.name}</p>}
+              </div>
+            ),
+          }}
+          disabled={loading}
+        />
+
+        {/* Action buttons for the form */}
+        <div className="form-actions">
+          <button type="submit" disabled={loading}>
+            {loading ? 'Saving...' : 'Save Expense'}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} disabled={loading}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ExpenseForm;
@@ -0,0 +1,153 @@
+/**
+ * Expense Table Component.
+ *
+ * This component fetches and displays expenses from the
+ * custom '/wp-json/nexus/v1/expenses' REST API endpoint in a table format.
+ * - It filters by date range and category on the server (query parameters `from`, `to`, `category`).
+ * - It shows a receipt thumbnail for each expense (images inline, PDFs as a link).
+ * - It shows totals per currency, since amounts in different currencies can't be summed.
+ * It reads the expenses through the shared query cache (`useQuery`), so new expenses show up without a manual refresh.
+ * The rows are rendered by DataTable, so columns can be configured and sorted, saved
+ * as views together with the filters, and exported. Export files are named after the date range.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import DataTable, { DataTableColumn } from './DataTable'; // Import the configurable table
+import { Expense, TableView } from '../api/types'; // Import the shared Expense type
+import { formatMoney, toDateInputValue } from '../utils/format'; // Import formatting helpers
+import { EXPENSE_CATEGORIES } from '../constants/expenses'; // Import the shared category list
+
+/**
+ * Renders the receipt cell: a thumbnail for images, a link for other files (e.g., PDFs).
+ * @param {Expense} expense - The expense whose receipt to show.
+ */
+const ReceiptCell: React.FC<{ expense: Expense }> = ({ expense }) => {
+  if (!expense.receipt_url) {
+    return <>-</>;
+  }
+  if (expense.receipt_mime_type?.startsWith('image/')) {
+    return (
+      <a href={expense.receipt_url} target="_blank" rel="noreferrer">
+        <img src={expense.receipt_thumbnail_url || expense.receipt_url} alt="Receipt" className="receipt-thumbnail" />
+      </a>
+    );
+  }
+  return (
+    <a href={expense.receipt_url} target="_blank" rel="noreferrer" className="receipt-file-link">
+      {expense.receipt_mime_type === 'application/pdf' ? 'PDF' : 'File'}
+    </a>
+  );
+};
+
+/**
+ * Fetches and displays a filterable table of expenses with totals.
+ */
+const ExpenseTable: React.FC = () => {
+  // Filter state. Dates default to the current month.
+  const [fromDate, setFromDate] = useState(() => {
+    const today = new Date();
+    return toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1));
+  });
+  const [toDate, setToDate] = useState(() => toDateInputValue(new Date()));
+  const [category, setCategory] = useState('');
+  // Read the expenses for the filters through the shared query cache; each filter combination is cached
+  // separately. Empty filters are left out of the query string. Saving an expense refetches them automatically.
+  const params = { from: fromDate, to: toDate, category };
+  const { data: expenses = [], loading, error } = useQuery(['expenses', params], (api) => api.expenses.list(params));
+
+  // Sum the amounts per currency, and the billable part of each.
+  const totals = expenses.reduce<Record<string, { total: number; billable: number }>>((acc, expense) => {
+    const entry = acc[expense.currency] || { total: 0, billable: 0 };
+    entry.total += Number(expense.amount);
+    if (expense.billable === 1) entry.billable += Number(expense.amount);
+    acc[expense.currency] = entry;
+    return acc;
+  }, {});
+  const currencies = Object.keys(totals);
+
+  // Applies a saved view's filters; filters the view does not have keep their current value.
+  const handleApplyView = (view: TableView) => {
+    setFromDate(view.filters.from ?? fromDate);
+    setToDate(view.filters.to ?? toDate);
+    setCategory(view.filters.category ?? category);
+  };
+
+  // The table's columns, in default order. The footer shows one total per currency.
+  const columns: DataTableColumn<Expense>[] = [
+    {
+      id: 'expense_date',
+      label: 'Date',
+      render: (expense) => expense.expense_date,
+      sortValue: (expense) => expense.expense_date,
+      exportType: 'date',
+      footer: currencies.map((currency) => <div key={currency}>Total ({currency})</div>),
+    },
+    { id: 'category', label: 'Category', render: (expense) => expense.category, sortValue: (expense) => expense.category },
+    {
+      id: 'amount',
+      label: 'Amount',
+      render: (expense) => formatMoney(expense.amount, expense.currency),
+      sortValue: (expense) => Number(expense.amount),
+      className: 'money-cell',
+      exportValue: (expense) => expense.amount,
+      exportType: 'money',
+      exportCurrency: (expense) => expense.currency,
+      footer: currencies.map((currency) => <div key={currency}>{formatMoney(totals[currency].total, currency)}</div>),
+    },
+    {
+      id: 'billable',
+      label: 'Billable',
+      render: (expense) => (expense.billable === 1 ? 'Yes' : 'No'),
+      sortValue: (expense) => expense.billable,
+      footer: currencies.map((currency) => <div key={currency}>Billable: {formatMoney(totals[currency].billable, currency)}</div>),
+    },
+    // The currency is part of the formatted amount; as a column, it is mostly useful in CSV exports.
+    { id: 'currency', label: 'Currency', render: (expense) => expense.currency, sortValue: (expense) => expense.currency, defaultHidden: true },
+    { id: 'notes', label: 'Notes', render: (expense) => expense.notes || '-' },
+    { id: 'receipt', label: 'Receipt', render: (expense) => <ReceiptCell expense={expense} />, exportValue: (expense) => expense.receipt_url },
+  ];
+
+  return (
+    <div className="company-table-container expense-table-container">
+      <h2>Expenses</h2>
+
+      {/* Filter controls */}
+      <div className="table-filters">
+        <label>
+          From:
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} max={toDate || undefined} />
+        </label>
+        <label>
+          To:
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} min={fromDate || undefined} />
+        </label>
+        <label>
+          Category:
+          <select value={category} onChange={(e) => setCategory(e.target.value)}>
+            <option value="">All categories</option>
+            {EXPENSE_CATEGORIES.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Loading, error, empty, or table states */}
+      <DataTable
+        tableId="expenses"
+        columns={columns}
+        rows={expenses}
+        rowKey={(expense) => expense.ID}
+        loading={loading}
+        error={error}
+        loadingMessage="Loading expenses..."
+        emptyMessage="No expenses found for these filters."
+        filters={{ from: fromDate, to: toDate, category }}
+        onApplyView={handleApplyView}
+        exportOptions={{ title: 'Expenses', fileName: { from: fromDate, to: toDate } }}
+      />
+    </div>
+  );
+};
+
+export default ExpenseTable;
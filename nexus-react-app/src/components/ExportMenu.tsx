@@ -0,0 +1,96 @@
+/**
+ * Export Menu Component.
+ *
+ * The "Export" dropdown of a list: downloads the list as CSV, Excel (XLSX) or a printable PDF
+ * (see src/utils/export.ts). Only the columns passed in are exported, so tables pass their
+ * visible columns in display order.
+ * - "Rows on screen" exports the rows as currently filtered and sorted.
+ * - For paginated lists, "All matching rows" fetches every page of the current filters first
+ *   (`fetchAllRows`), so the export is not limited to the page on screen.
+ */
+import { useId, useState } from 'react';
+import { ExportColumn, ExportFileNameParts, ExportFormat, exportRows } from '../utils/export';
+
+// Define the interface for the component's props
+interface ExportMenuProps<T> {
+  title: string; // Heading of the PDF and name of the XLSX sheet, e.g. 'Time Entries'
+  fileName: ExportFileNameParts; // What the file is named after (list, company, date range)
+  columns: ExportColumn<T>[]; // The columns to export, in order
+  rows: T[]; // The rows on screen, filtered and sorted
+  fetchAllRows?: () => Promise<T[]>; // Fetches every row matching the filters, for paginated lists
+  totalCount?: number; // How many rows match the filters, shown with "All matching rows"
+}
+
+// The formats offered, with their button labels.
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+/**
+ * Renders the export dropdown of a list.
+ * @param {ExportMenuProps<T>} props - The component's props.
+ */
+const ExportMenu = <T,>({ title, fileName, columns, rows, fetchAllRows, totalCount }: ExportMenuProps<T>) => {
+  // Whether to export every matching row (paginated lists only) or the rows on screen.
+  const [allRows, setAllRows] = useState(false);
+  // The format being exported, and any error message from exporting.
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Radio group name, unique per menu so two lists on one page don't share it.
+  const scopeName = useId();
+
+  // Fetches the rows if needed, then writes and downloads the file.
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      const exported = allRows && fetchAllRows ? await fetchAllRows() : rows;
+      await exportRows(format, { title, fileName, columns, rows: exported });
+    } catch (err) {
+      console.error('Error exporting list:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    // <details> opens and closes the dropdown without any state of its own.
+    <details className="table-menu export-menu">
+      <summary>Export</summary>
+      <div className="table-menu-panel">
+        {/* Which rows to export; only paginated lists can fetch the rows that are not on screen */}
+        {fetchAllRows && (
+          <fieldset className="export-scope">
+            <label>
+              <input type="radio" name={scopeName} checked={!allRows} onChange={() => setAllRows(false)} />
+              Rows on screen ({rows.length})
+            </label>
+            <label>
+              <input type="radio" name={scopeName} checked={allRows} onChange={() => setAllRows(true)} />
+              All matching rows{totalCount !== undefined ? ` (${totalCount})` : ''}
+            </label>
+          </fieldset>
+        )}
+        <div className="export-buttons">
+          {FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              type="button"
+              className="table-action-button"
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null || (rows.length === 0 && !allRows)}
+            >
+              {exporting === format ? 'Exporting...' : label}
+            </button>
+          ))}
+        </div>
+        {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,479 @@
+/**
+ * Import Wizard Component.
+ *
+ * Imports records from a CSV file in four steps:
+ * 1. Upload: the user picks a CSV file (comma or semicolon separated, first line = headers).
+ * 2. Map: each field is mapped to a CSV column. Columns whose header matches a field's name,
+ *    label or aliases are mapped automatically; required fields must be mapped.
+ * 3. Preview: every row is validated, and checked for duplicates against the existing records
+ *    and earlier rows of the file. Rows with problems are listed and skipped.
+ * 4. Import: the valid rows are created in small batches with a progress bar; the lists of the
+ *    resource are refreshed once, when the import finishes. Afterwards,
+ *    the rows that were skipped or rejected by the server can be downloaded as a CSV report,
+ *    fixed and imported again.
+ * The wizard is generic; what is imported comes from the `config` prop (see src/import/).
+ */
+import React, { useMemo, useRef, useState } from 'react';
+import useApi from '../hooks/useApi'; // Import the fetch functions, for a client that doesn't invalidate per row
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQueryCache from '../hooks/useQueryCache'; // Import the cache to refresh the imported resource once
+import { createApiClient } from '../api/client';
+import { ApiError } from '../api/ApiError'; // Import the structured API error to read field messages
+import { ImportConfig, ImportValues } from '../import/types';
+import { parseCsv, toCsv } from '../utils/csv';
+import { buildExportFileName, downloadBlob } from '../utils/export';
+
+// Define the interface for the component's props
+interface ImportWizardProps<TInput> {
+  config: ImportConfig<TInput>; // What to import, e.g. `companyImport`
+  onDone?: () => void; // Optional callback for the "Back to list" button after importing
+  onCancel?: () => void; // Optional callback for the "Cancel" button
+}
+
+// The steps of the wizard.
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+// A parsed CSV file.
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// A CSV row in the preview, with its mapped values and problems.
+interface PreviewRow {
+  line: number; // Line number in the file (the header is line 1)
+  cells: string[]; // The row as in the file, for the failed rows report
+  values: ImportValues;
+  problems: string[]; // Validation and duplicate messages; the row is skipped if there are any
+}
+
+// A row that was not imported, and why.
+interface FailedRow {
+  line: number;
+  cells: string[];
+  reason: string;
+}
+
+// Number of records created at the same time.
+const BATCH_SIZE = 5;
+// Number of rows listed in the preview table.
+const PREVIEW_LIMIT = 200;
+
+/**
+ * Normalizes a header or value for comparison: trimmed, lowercase, with runs of spaces,
+ * underscores and dashes collapsed, so 'Legal_Name' matches 'legal name'.
+ * @param {string} value - The text.
+ */
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+/**
+ * Maps each field to the first CSV column whose header matches the field's key, label or aliases.
+ * @param {ImportConfig<unknown>['fields']} fields - The fields.
+ * @param {string[]} headers - The CSV headers.
+ * @returns {Record<string, number | null>} The column index of each field, or null if unmapped.
+ */
+const autoMap = (fields: ImportConfig<unknown>['fields'], headers: string[]): Record<string, number | null> => {
+  const normalizedHeaders = headers.map(normalize);
+  return Object.fromEntries(
+    fields.map((field) => {
+      const names = [field.key, field.label, ...(field.aliases ?? [])].map(normalize);
+      const index = normalizedHeaders.findIndex((header) => names.includes(header));
+      return [field.key, index === -1 ? null : index];
+    })
+  );
+};
+
+/**
+ * Validates the rows of a file and finds duplicates.
+ * @param {ImportConfig<TInput>} config - The import config.
+ * @param {ParsedFile} file - The parsed file.
+ * @param {Record<string, number | null>} mapping - The column index of each field.
+ * @param {ImportValues[]} existing - The duplicate key values of the existing records.
+ */
+const buildPreview = <TInput,>(
+  config: ImportConfig<TInput>,
+  file: ParsedFile,
+  mapping: Record<string, number | null>,
+  existing: ImportValues[]
+): PreviewRow[] => {
+  const labels = Object.fromEntries(config.fields.map((field) => [field.key, field.label]));
+  // The normalized values of each duplicate key, in the existing records and in earlier rows.
+  const existingValues = Object.fromEntries(
+    config.duplicateKeys.map((key) => [key, new Set(existing.map((record) => normalize(record[key] ?? '')).filter(Boolean))])
+  );
+  const fileValues = Object.fromEntries(config.duplicateKeys.map((key) => [key, new Set<string>()]));
+
+  return file.rows.map((cells, index) => {
+    const values = Object.fromEntries(
+      config.fields.map((field) => {
+        const column = mapping[field.key];
+        return [field.key, column === null ? '' : (cells[column] ?? '')];
+      })
+    );
+
+    const problems = Object.entries(config.validate(values)).map(([key, message]) => `${labels[key] ?? key}: ${message}`);
+    config.duplicateKeys.forEach((key) => {
+      const value = normalize(values[key]);
+      if (!value) return;
+      if (existingValues[key].has(value)) {
+        problems.push(`${labels[key]} "${values[key].trim()}" already exists.`);
+      } else if (fileValues[key].has(value)) {
+        problems.push(`${labels[key]} "${values[key].trim()}" appears earlier in the file.`);
+      }
+      fileValues[key].add(value);
+    });
+
+    return { line: index + 2, cells, values, problems };
+  });
+};
+
+/**
+ * Describes why the server rejected a row, including field messages from a 'rest_invalid_param' error.
+ * @param {unknown} err - The rejection reason.
+ */
+const describeError = (err: unknown): string => {
+  if (err instanceof ApiError && Object.keys(err.params).length > 0) {
+    return Object.entries(err.params)
+      .map(([field, message]) => `${field}: ${message}`)
+      .join('; ');
+  }
+  return err instanceof Error ? err.message : 'Failed to import row.';
+};
+
+/**
+ * Renders the CSV import wizard.
+ * @param {ImportWizardProps<TInput>} props - The component's props.
+ */
+const ImportWizard = <TInput,>({ config, onDone, onCancel }: ImportWizardProps<TInput>) => {
+  const api = useApiClient();
+  const cache = useQueryCache();
+  // Creates the rows without invalidating the cache after each one; the resource is
+  // invalidated once when the import finishes, so open lists don't refetch per row.
+  const { apiFetch, apiFetchPage, apiFetchStream } = useApi();
+  const importApi = useMemo(() => createApiClient({ apiFetch, apiFetchPage, apiFetchStream }), [apiFetch, apiFetchPage, apiFetchStream]);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  // Progress of the import, and its outcome.
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<{ created: number; failed: FailedRow[] } | null>(null);
+  // Set by the "Stop" button; the batch in flight finishes, the remaining rows are not imported.
+  const stopRef = useRef(false);
+  // State to indicate loading (reading the file or the existing records), and to hold any error message.
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const missingRequired = config.fields.filter((field) => field.required && mapping[field.key] == null);
+  const mappedFields = config.fields.filter((field) => mapping[field.key] != null);
+  const validRows = preview.filter((row) => row.problems.length === 0);
+
+  // --- Step 1: Upload ---
+
+  // Reads and parses the chosen file, then maps its columns.
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    if (!chosen) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [headers, ...rows] = parseCsv(await chosen.text());
+      if (!headers || rows.length === 0) {
+        throw new Error('The file has no rows below its header line.');
+      }
+      setFile({ name: chosen.name, headers, rows });
+      setMapping(autoMap(config.fields, headers));
+      setStep('map');
+    } catch (err) {
+      console.error('Error reading CSV file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file.');
+    } finally {
+      setLoading(false);
+      e.target.value = ''; // Allow choosing the same file again after fixing it
+    }
+  };
+
+  // --- Step 2: Map ---
+
+  // Loads the existing records, then validates every row.
+  const handleContinueToPreview = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const existing = await config.fetchExisting(api);
+      setPreview(buildPreview(config, file, mapping, existing));
+      setOnlyProblems(false);
+      setStep('preview');
+    } catch (err) {
+      console.error('Error loading existing records:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check for duplicates.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // --- Step 3 and 4: Import ---
+
+  // Creates the valid rows in batches, then shows the outcome.
+  const handleImport = async () => {
+    const failed: FailedRow[] = preview
+      .filter((row) => row.problems.length > 0)
+      .map((row) => ({ line: row.line, cells: row.cells, reason: row.problems.join(' ') }));
+    let created = 0;
+
+    stopRef.current = false;
+    setProgress({ done: 0, total: validRows.length });
+    setStep('importing');
+
+    for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+      if (stopRef.current) {
+        failed.push(...validRows.slice(start).map((row) => ({ line: row.line, cells: row.cells, reason: 'Not imported: the import was stopped.' })));
+        break;
+      }
+
+      const batch = validRows.slice(start, start + BATCH_SIZE);
+      const results = await Promise.allSettled(batch.map((row) => config.create(importApi, config.toInput(row.values))));
+      results.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          created++;
+        } else {
+          console.error(`Error importing line ${batch[index].line}:`, outcome.reason);
+          failed.push({ line: batch[index].line, cells: batch[index].cells, reason: describeError(outcome.reason) });
+        }
+      });
+      setProgress({ done: start + batch.length, total: validRows.length });
+    }
+
+    if (created > 0) cache.invalidate(config.resource);
+    setResult({ created, failed: failed.sort((a, b) => a.line - b.line) });
+    setStep('done');
+  };
+
+  // Downloads the rows that were not imported, as in the file, with their line and reason.
+  const handleDownloadReport = () => {
+    if (!file || !result) return;
+    const csv = toCsv([
+      [...file.headers, 'Line', 'Error'],
+      ...result.failed.map((row) => [...file.headers.map((_, index) => row.cells[index] ?? ''), String(row.line), row.reason]),
+    ]);
+    downloadBlob(
+      new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }),
+      buildExportFileName({ list: `${config.resource}-import-failed-rows` }, 'csv')
+    );
+  };
+
+  // Starts over with a new file.
+  const handleRestart = () => {
+    setFile(null);
+    setMapping({});
+    setPreview([]);
+    setResult(null);
+    setError(null);
+    setStep('upload');
+  };
+
+  // --- Render Logic ---
+
+  const shownRows = (onlyProblems ? preview.filter((row) => row.problems.length > 0) : preview).slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="company-form-container import-wizard">
+      <h2>Import {config.title}</h2>
+
+      {/* Step indicator */}
+      <ol className="import-steps">
+        {(['Upload', 'Map columns', 'Preview', 'Import'] as const).map((label, index) => {
+          const current = { upload: 0, map: 1, preview: 2, importing: 3, done: 3 }[step];
+          return (
+            <li key={label} className={index === current ? 'active' : index < current ? 'complete' : undefined}>
+              {label}
+            </li>
+          );
+        })}
+      </ol>
+
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+      {step === 'upload' && (
+        <div className="import-step">
+          <p>
+            Choose a CSV file with column headers on the first line and one record per line. Files saved by Excel, Numbers or Google Sheets work as they are.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={loading} aria-label="CSV file" />
+          {loading && <p>Reading file...</p>}
+          <div className="form-actions">
+            {onCancel && (
+              <button type="button" onClick={onCancel}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {step === 'map' && file && (
+        <div className="import-step">
+          <p>
+            {file.name}: {file.rows.length} {file.rows.length === 1 ? 'row' : 'rows'}. Choose the CSV column for each field;
+            fields without a column are left empty.
+          </p>
+          <table className="import-mapping">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>CSV column</th>
+                <th>First row</th>
+              </tr>
+            </thead>
+            <tbody>
+              {config.fields.map((field) => {
+                const column = mapping[field.key];
+                return (
+                  <tr key={field.key}>
+                    <td>
+                      {field.label}
+                      {field.required && <span className="required-marker"> *</span>}
+                    </td>
+                    <td>
+                      <select
+                        value={column ?? ''}
+                        onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value === '' ? null : Number(e.target.value) }))}
+                        aria-label={`CSV column for ${field.label}`}
+                      >
+                        <option value="">Not imported</option>
+                        {file.headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>{column != null ? file.rows[0][column] || '-' : '-'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {missingRequired.length > 0 && (
+            <p style={{ color: 'red' }}>Choose a column for: {missingRequired.map((field) => field.label).join(', ')}.</p>
+          )}
+          <div className="form-actions">
+            <button type="button" onClick={handleContinueToPreview} disabled={loading || missingRequired.length > 0}>
+              {loading ? 'Checking...' : 'Preview'}
+            </button>
+            <button type="button" onClick={handleRestart} disabled={loading}>
+              Choose another file
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="import-step">
+          <p>
+            {validRows.length} of {preview.length} {preview.length === 1 ? 'row' : 'rows'} can be imported.
+            {preview.length > validRows.length && ` ${preview.length - validRows.length} will be skipped; they are listed in the report afterwards.`}
+          </p>
+          <label className="import-filter">
+            <input type="checkbox" checked={onlyProblems} onChange={(e) => setOnlyProblems(e.target.checked)} />
+            Only show rows with problems
+          </label>
+          <div className="data-table-scroll">
+            <table className="import-preview">
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  {mappedFields.map((field) => (
+                    <th key={field.key}>{field.label}</th>
+                  ))}
+                  <th>Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownRows.map((row) => (
+                  <tr key={row.line} className={row.problems.length > 0 ? 'import-row-invalid' : undefined}>
+                    <td>{row.line}</td>
+                    {mappedFields.map((field) => (
+                      <td key={field.key}>{row.values[field.key]}</td>
+                    ))}
+                    <td>{row.problems.length > 0 ? row.problems.join(' ') : 'OK'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {shownRows.length === PREVIEW_LIMIT && <p>Showing the first {PREVIEW_LIMIT} rows.</p>}
+          <div className="form-actions">
+            <button type="button" onClick={handleImport} disabled={validRows.length === 0}>
+              Import {validRows.length} {validRows.length === 1 ? 'row' : 'rows'}
+            </button>
+            <button type="button" onClick={() => setStep('map')}>
+              Back to mapping
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'importing' && (
+        <div className="import-step">
+          <p>
+            Importing... {progress.done} of {progress.total}
+          </p>
+          <progress value={progress.done} max={progress.total} className="import-progress" />
+          <div className="form-actions">
+            <button type="button" onClick={() => (stopRef.current = true)}>
+              Stop
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="import-step">
+          <p style={{ color: 'green' }}>
+            Imported {result.created} {result.created === 1 ? 'row' : 'rows'}.
+          </p>
+          {result.failed.length > 0 && (
+            <>
+              <p style={{ color: 'red' }}>
+                {result.failed.length} {result.failed.length === 1 ? 'row was' : 'rows were'} not imported. Download the report,
+                fix the rows and import it again.
+              </p>
+              <ul className="import-failures">
+                {result.failed.slice(0, 10).map((row) => (
+                  <li key={row.line}>
+                    Line {row.line}: {row.reason}
+                  </li>
+                ))}
+                {result.failed.length > 10 && <li>...and {result.failed.length - 10} more in the report.</li>}
+              </ul>
+            </>
+          )}
+          <div className="form-actions">
+            {result.failed.length > 0 && (
+              <button type="button" onClick={handleDownloadReport}>
+                Download failed rows
+              </button>
+            )}
+            <button type="button" onClick={handleRestart}>
+              Import another file
+            </button>
+            {onDone && (
+              <button type="button" onClick={onDone}>
+                Back to list
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
@@ -6,10 +6,14 @@
  * - It handles the form submission, sending credentials to the WordPress JWT endpoint.
  * - It uses the useAuth hook to call the `login` function from the AuthContext upon successful authentication.
  * - It uses react-router-dom's `useNavigate` to redirect the user after login or if already logged in.
+ * - If the runtime config lists several servers, it shows a selector to pick the WordPress site to log in to.
  */
 import React, { useState, useEffect } from 'react'; // Import useEffect
 import { useAuth } from '../context/AuthContext'; // Import useAuth hook to access login function and user state
-import { useNavigate } from 'react-router-dom'; // Import useNavigate for programmatic navigation
+import { useLocation, useNavigate } from 'react-router-dom'; // Import useNavigate and useLocation for programmatic navigation
+import { getPostLoginPath } from '../utils/navigation'; // Import helper to return to the requested page
+import { getApiBaseUrl, getConfig, setSelectedServer } from '../config'; // Import backend configuration
+import { requestToken } from '../utils/auth'; // Import helper to request a token with credentials
 
 function LoginForm() {
   // State hooks for managing the form inputs
@@ -19,12 +23,17 @@ function LoginForm() {
   const [error, setError] = useState<string | null>(null);
   // State hook for showing a loading indicator while the login request is in progress
   const [loading, setLoading] = useState(false);
+  // State hook for the WordPress site to log in to (only selectable when several servers are configured)
+  const [serverUrl, setServerUrl] = useState(getApiBaseUrl);
+  const servers = getConfig().servers;
 
   // Access the login function and the current user state from the AuthContext
   const { login, user, loadingUser } = useAuth(); // Also get user and loadingUser
 
   // Get the navigate function from react-router-dom for redirection
   const navigate = useNavigate();
+  // The location carries the page the user originally requested, if PrivateRoute redirected them here.
+  const location = useLocation();
 
   // useEffect hook to handle redirection if the user is already authenticated.
   // This runs when the component mounts or when user/loadingUser state changes.
@@ -32,13 +41,13 @@ function LoginForm() {
     // Only attempt to redirect if we are NOT currently checking auth status
     // and if the user object exists (meaning they are logged in).
     if (!loadingUser && user) {
-      console.log('User detected in LoginForm, redirecting to dashboard.');
-      // Redirect to the dashboard page.
+      console.log('User detected in LoginForm, redirecting to the requested page.');
+      // Redirect to the page the user originally requested, or the dashboard.
       // 'replace: true' replaces the current entry in the browser history.
-      navigate('/dashboard', { replace: true });
+      navigate(getPostLoginPath(location.state), { replace: true });
     }
      // Note: navigate is stable, but adding it as a dependency is standard practice in newer React/linters
-  }, [user, loadingUser, navigate]); // Dependencies: Rerun effect if user, loadingUser, or navigate changes.
+  }, [user, loadingUser, navigate, location.state]); // Dependencies: Rerun effect if user, loadingUser, navigate or the requested page changes.
 
   // If user is already logged in or loading auth state, the useEffect will handle redirection.
   // We return null here to prevent rendering the form while redirection is pending or user exists.
@@ -47,9 +56,15 @@ function LoginForm() {
   }
 
 
-  // --- IMPORTANT: Replace with your actual local WordPress site URL ---
-  const WP_API_URL = 'http://localhost:10003';
-  // ------------------------------------------------------------
+  /**
+   * Handles picking a server in the selector. The choice is remembered for later visits,
+   * and every API URL is built from it from now on.
+   */
+  const handleServerChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedServer(event.target.value);
+    setServerUrl(event.target.value);
+    setError(null);
+  };
 
   /**
    * Handles the form submission event.
@@ -63,41 +78,15 @@ function LoginForm() {
     setError(null); // Clear any previous error messages
     setLoading(true); // Set the loading state to true to show indicator and disable form
 
-    // The full URL for the JWT authentication endpoint provided by the plugin
-    const loginUrl = `${WP_API_URL}/wp-json/jwt-auth/v1/auth`;
-
     try {
-      // Use the browser's built-in fetch API to send a POST request
-      const response = await fetch(loginUrl, {
-        method: 'POST', // Specify the HTTP method
-        headers: {
-          'Content-Type': 'application/json', // Indicate that the request body is in JSON format
-        },
-        // Convert the JavaScript object containing credentials into a JSON string for the request body
-        body: JSON.stringify({ username, application_password }),
-      });
-
-      // Check if the HTTP status code of the response indicates success (status code 200-299)
-      if (!response.ok) {
-        // If the response is not OK, try to parse the error message from the response body
-        // This assumes the WordPress API returns error details in JSON format
-        const errorData = await response.json();
-        // Throw a new Error with a specific message from the API or a default one
-        throw new Error(errorData.message || 'Login failed. Please check your credentials.');
-      }
-
-  
-      // If the response is OK, parse the JSON body to extract the token
-      const data = await response.json();
-      const receivedToken = data.token; // The JWT token returned by the successful API call
+      // Send the credentials to the JWT authentication endpoint on the configured site.
+      // requestToken throws with the API's error message if the login is rejected.
+      const receivedToken = await requestToken(username, application_password);
 
       // Call the login function provided by the AuthContext.
       // This function will store the token and update the application's authentication state,
       // which will in turn trigger the redirection to the dashboard via the useEffect hook.
       login(receivedToken);
-      if (!receivedToken) {
-        throw new Error('Invalid token.');
-      }
 
       // Clear the form fields after a successful login attempt
       setUsername('');
@@ -107,10 +96,10 @@ function LoginForm() {
       console.log('Login request successful. Token received. AuthContext state updating...');
 
 
-    } catch (err: any) { // Catch any errors that occur during the fetch request or in the try block
+    } catch (err) { // Catch any errors that occur during the fetch request or in the try block
       console.error('Login error:', err);
       // Set the error state to display the error message to the user
-      setError(err.message || 'An unexpected error occurred.');
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
     } finally {
       // This block of code always runs after the try block finishes, regardless of whether an error occurred or not.
       setLoading(false); // Ensure the loading indicator is turned off
@@ -132,6 +121,18 @@ function LoginForm() {
           
           <p><img src="/src/assets/logo.png" alt="logo" className="logo"/>Introducing Nexus for TimeGrow, a time and expense tracking solution from Aragrow, LLC, that puts users in control. This prototype, starting in WordPress with an eye on broader compatibility, aims to revolutionize data interaction by enabling robust CRUD (Create, Read, Update, Delete) and insightful reporting, all generated effortlessly through the power of natural language commands.</p>
  
+           {/* Server selector, shown only for people who work across several installs */}
+           {servers.length > 1 && (
+             <>
+               <label htmlFor="server">Server:</label>
+               <select id="server" value={serverUrl} onChange={handleServerChange} disabled={loading}>
+                 {servers.map((server) => (
+                   <option key={server.url} value={server.url}>{server.label}</option>
+                 ))}
+               </select>
+             </>
+           )}
+
            {/* Label and input field for the username or email */}
            <label htmlFor="username">Username:</label>
            <input
@@ -3,28 +3,200 @@
  *
  * This component provides the user interface for typing and submitting
  * natural language queries to the Nexus backend.
- * It's a simple input field and a submit button.
- * It accepts a callback function to handle the submitted query text.
+ * It's an input field and a submit button, which becomes a Cancel button while a query is processed.
+ * It accepts callback functions to handle the submitted query text and the cancellation.
+ * While the user types, it suggests queries:
+ * - recent queries and templates of common commands ("log 2h to @...", "show expenses for @...");
+ * - after an '@', the companies, projects and clients matching the name typed so far. A picked
+ *   record is shown as '@Name' and submitted with its stable id (see src/utils/mentions.ts).
+ * The suggestions are navigated with the arrow keys, picked with Enter or Tab and closed with Escape.
+ * '/' (outside other fields) or Ctrl+/ (Cmd+/ on macOS) focuses the bar from anywhere on the dashboard.
+ * Where the browser allows it, a microphone button turns speech into text (see useVoiceInput):
+ * the transcript appears in the input as the user speaks, and can be edited before it is submitted.
  */
-import React, { useState } from 'react'; // Import useState hook
+import React, { useLayoutEffect, useRef, useState } from 'react'; // Import necessary hooks
+import QuerySuggestionList, { QuerySuggestion } from './QuerySuggestionList'; // Import the suggestion dropdown
+import useQuery from '../hooks/useQuery'; // Import the cached read hook, for the records to mention
+import useHotkey, { formatHotkey } from '../hooks/useHotkey'; // Import the global shortcut hook
+import useVoiceInput from '../hooks/useVoiceInput'; // Import the speech-to-text hook
+import { SpeechRecognizerFactory } from '../speech/types';
+import { QUERY_TEMPLATES } from '../constants/queryTemplates';
+import { MentionResource, QueryMention, decodeMentions, displayQuery, encodeMentions, findMentionTrigger } from '../utils/mentions';
 
 // Define the interface for the component's props
 interface NexusInputBarProps {
   // Callback function that is called when the user submits a query (e.g., presses Enter or clicks Ask).
-  // The submitted query string is passed as an argument to this function.
+  // The submitted query string is passed as an argument to this function, with mentions as id tokens.
   onQuerySubmit: (query: string) => void;
   // Optional boolean prop to indicate if a query is currently being processed.
   // This is used to disable the input and button and show a loading indicator.
   loading?: boolean;
+  // Optional callback to cancel the query being processed. Without it, no Cancel button is shown.
+  onCancel?: () => void;
+  // Optional list of the user's recent queries (most recent first), offered as suggestions.
+  recentQueries?: string[];
+  // Optional factory of the speech recognizer, e.g. a mocked one in tests; the browser's best option if not set.
+  createRecognizer?: SpeechRecognizerFactory;
 }
 
+// A suggestion, with what picking it does.
+interface BarSuggestion extends QuerySuggestion {
+  text?: string; // Replaces the query (recent queries and templates)
+  mention?: QueryMention; // Is inserted at the '@' (records)
+}
+
+// The id of the suggestion listbox.
+const LIST_ID = 'nexus-query-suggestions';
+
+// How many suggestions of each group are shown.
+const MAX_PER_GROUP = 5;
+
+// Headings of the mentionable records.
+const MENTION_GROUPS: Record<MentionResource, string> = {
+  company: 'Companies',
+  project: 'Projects',
+  client: 'Clients',
+};
+
 /**
  * Renders the natural language input bar at the bottom of the dashboard.
  * @param {NexusInputBarProps} props - The component's props.
  */
-const NexusInputBar: React.FC<NexusInputBarProps> = ({ onQuerySubmit, loading = false }) => {
+const NexusInputBar: React.FC<NexusInputBarProps> = ({ onQuerySubmit, loading = false, onCancel, recentQueries = [], createRecognizer }) => {
   // State to manage the current value of the input field.
   const [query, setQuery] = useState('');
+  // The records mentioned in the query so far.
+  const [mentions, setMentions] = useState<QueryMention[]>([]);
+  // The caret position, which decides whether an @-mention is being typed.
+  const [caret, setCaret] = useState(0);
+  // Whether the suggestions are shown, and which one the arrow keys highlighted (-1 for none).
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Whether the user has started a mention; the records are only loaded from then on.
+  const [mentionsUsed, setMentionsUsed] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Where to put the caret after the query was changed by picking a suggestion.
+  const pendingCaret = useRef<number | null>(null);
+
+  // The text in the input when voice input started; the transcript is added after it.
+  const textBeforeVoice = useRef('');
+
+  // Voice input: shows the transcript in the input as it arrives, and puts the caret
+  // at its end when it is complete, so the user can correct it before submitting.
+  const voice = useVoiceInput((transcript, isFinal) => {
+    const text = [textBeforeVoice.current.trimEnd(), transcript].filter(Boolean).join(' ');
+    setQuery(text);
+    setCaret(text.length);
+    if (isFinal) {
+      pendingCaret.current = text.length;
+      inputRef.current?.focus();
+    }
+  }, createRecognizer);
+  const voiceActive = voice.status !== 'idle';
+
+  // Starts listening, or stops and keeps the transcript.
+  const toggleVoice = () => {
+    if (voice.status === 'listening') {
+      voice.stop();
+    } else if (voice.status === 'idle') {
+      textBeforeVoice.current = query;
+      setOpen(false);
+      voice.start();
+    }
+  };
+
+  // Stops listening and restores the text from before.
+  const cancelVoice = () => {
+    voice.cancel();
+    setQuery(textBeforeVoice.current);
+  };
+
+  // Focus the bar with the global shortcuts.
+  const focusBar = () => inputRef.current?.focus();
+  useHotkey('/', focusBar);
+  useHotkey('mod+/', focusBar);
+
+  // The records that can be mentioned, shared with the rest of the app through the query cache.
+  const { data: companies = [] } = useQuery(mentionsUsed ? ['companies'] : null, (api) => api.companies.list());
+  const { data: projects = [] } = useQuery(mentionsUsed ? ['projects'] : null, (api) => api.projects.list());
+  const { data: clients = [] } = useQuery(mentionsUsed ? ['clients', {}] : null, (api) => api.clients.list({}));
+
+  // Restore the caret after picking a suggestion.
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [query]);
+
+  const trigger = findMentionTrigger(query, caret, mentions);
+
+  /**
+   * Builds the suggestions for the current text: the matching records while a mention is typed,
+   * otherwise the matching recent queries and templates.
+   */
+  const buildSuggestions = (): BarSuggestion[] => {
+    if (trigger) {
+      const term = trigger.term.trim().toLowerCase();
+      const records: { resource: MentionResource; id: number; name: string }[] = [
+        ...companies.map((company) => ({ resource: 'company' as const, id: company.ID, name: company.name })),
+        ...projects.map((project) => ({ resource: 'project' as const, id: project.ID, name: project.name })),
+        ...clients.map((client) => ({ resource: 'client' as const, id: client.ID, name: client.name })),
+      ];
+      return (Object.keys(MENTION_GROUPS) as MentionResource[]).flatMap((resource) =>
+        records
+          .filter((record) => record.resource === resource && record.name.toLowerCase().includes(term))
+          // Names starting with the term first.
+          .sort((a, b) => Number(!a.name.toLowerCase().startsWith(term)) - Number(!b.name.toLowerCase().startsWith(term)) || a.name.localeCompare(b.name))
+          .slice(0, MAX_PER_GROUP)
+          .map((record) => ({
+            key: `${record.resource}-${record.id}`,
+            group: MENTION_GROUPS[resource],
+            label: record.name,
+            mention: { resource, id: record.id, label: record.name },
+          }))
+      );
+    }
+
+    const term = query.trim().toLowerCase();
+    const recent = recentQueries
+      .filter((recentQuery) => {
+        const text = displayQuery(recentQuery).toLowerCase();
+        return text.includes(term) && text !== term;
+      })
+      .slice(0, MAX_PER_GROUP)
+      .map((recentQuery): BarSuggestion => ({ key: `recent-${recentQuery}`, group: 'Recent', label: displayQuery(recentQuery), text: recentQuery }));
+    const templates = QUERY_TEMPLATES
+      .filter((template) => template.text.includes(term) || template.description.toLowerCase().includes(term))
+      .slice(0, MAX_PER_GROUP)
+      .map((template): BarSuggestion => ({
+        key: `template-${template.text}`,
+        group: 'Try',
+        label: template.text.replace(/@$/, '@…'),
+        detail: template.description,
+        text: template.text,
+      }));
+    return [...recent, ...templates];
+  };
+
+  const suggestions = open && !loading && voice.status === 'idle' ? buildSuggestions() : [];
+  const showSuggestions = suggestions.length > 0;
+
+  /**
+   * Changes the query text and caret, e.g. while typing.
+   * @param {string} text - The new text.
+   * @param {number} position - The new caret position.
+   */
+  const changeQuery = (text: string, position: number) => {
+    setQuery(text);
+    setCaret(position);
+    setOpen(true);
+    // A mention is picked with Enter straight away; other suggestions must be chosen with the arrow keys.
+    const mentioning = findMentionTrigger(text, position, mentions) !== null;
+    setActiveIndex(mentioning ? 0 : -1);
+    if (mentioning) setMentionsUsed(true);
+  };
 
   /**
    * Handles changes to the input field.
@@ -32,7 +204,73 @@ const NexusInputBar: React.FC<NexusInputBarProps> = ({ onQuerySubmit, loading =
    * @param {React.ChangeEvent<HTMLInputElement>} event - The input change event.
    */
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setQuery(event.target.value);
+    voice.clearError();
+    changeQuery(event.target.value, event.target.selectionStart ?? event.target.value.length);
+  };
+
+  /**
+   * Applies a suggestion: inserts a record at the '@', or replaces the query with a recent one or a template.
+   * @param {number} index - The suggestion's index.
+   */
+  const selectSuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+
+    if (suggestion.mention && trigger) {
+      const inserted = `@${suggestion.mention.label} `;
+      const text = query.slice(0, trigger.start) + inserted + query.slice(caret);
+      const position = trigger.start + inserted.length;
+      setMentions((prev) => [...prev, suggestion.mention as QueryMention]);
+      pendingCaret.current = position;
+      setQuery(text);
+      setCaret(position);
+      setActiveIndex(-1);
+    } else if (suggestion.text !== undefined) {
+      // Recent queries keep the records they mentioned.
+      const decoded = decodeMentions(suggestion.text);
+      setMentions(decoded.mentions);
+      pendingCaret.current = decoded.text.length;
+      changeQuery(decoded.text, decoded.text.length);
+    }
+  };
+
+  /**
+   * Handles the keyboard navigation of the suggestions.
+   * @param {React.KeyboardEvent<HTMLInputElement>} event - The key event.
+   */
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        if (!open) {
+          setOpen(true);
+          return;
+        }
+        if (!showSuggestions) return;
+        // Cycles through the suggestions and back to none (-1), i.e. the text as typed.
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((prev) => ((prev + 1 + step + suggestions.length + 1) % (suggestions.length + 1)) - 1);
+        return;
+      }
+      case 'Enter':
+      case 'Tab':
+        // Enter and Tab pick the highlighted suggestion instead of submitting or leaving the bar.
+        if (showSuggestions && activeIndex >= 0 && !event.shiftKey) {
+          event.preventDefault();
+          selectSuggestion(activeIndex);
+        }
+        return;
+      case 'Escape':
+        if (voiceActive) {
+          event.preventDefault();
+          cancelVoice();
+        } else if (open) {
+          event.preventDefault();
+          setOpen(false);
+        }
+        return;
+    }
   };
 
   /**
@@ -47,10 +285,14 @@ const NexusInputBar: React.FC<NexusInputBarProps> = ({ onQuerySubmit, loading =
     const trimmedQuery = query.trim();
 
     // If the trimmed query is not empty and a submit handler was provided, call the handler.
-    if (trimmedQuery && onQuerySubmit) {
-      onQuerySubmit(trimmedQuery); // Call the callback function, passing the query text.
-      // Optionally clear the input field after submission:
-      // setQuery('');
+    // While voice input is active, the transcript isn't complete yet.
+    if (trimmedQuery && onQuerySubmit && !voiceActive) {
+      // Call the callback function, passing the query text with the picked records as id tokens.
+      onQuerySubmit(encodeMentions(trimmedQuery, mentions));
+      // Clear the input field for the next (follow-up) question; past queries are in the history.
+      setQuery('');
+      setMentions([]);
+      setOpen(false);
     }
   };
 
@@ -59,24 +301,80 @@ const NexusInputBar: React.FC<NexusInputBarProps> = ({ onQuerySubmit, loading =
     <div className="nexus-input-bar-container">
       {/* The form element wraps the input and button to handle submission via Enter key */}
       <form onSubmit={handleSubmit} className="nexus-input-form">
-        {/* The text input field for the natural language query */}
-        <input
-          type="text"
-          value={query} // Input value is controlled by the 'query' state.
-          onChange={handleInputChange} // Update 'query' state on input change.
-          // Placeholder text changes based on the loading state.
-          placeholder={loading ? "Processing..." : "Ask Nexus anything..."}
-          disabled={loading} // Disable input while loading.
-          aria-label="Natural language query input" // Accessibility label
-          className="nexus-input-field"
-        />
-        {/* The submit button */}
-        <button type="submit" disabled={loading} className="nexus-input-button">
-          {loading ? '...' : 'Ask'} {/* Button text changes based on loading state. */}
-        </button>
+        <div className="nexus-input-wrapper">
+          {/* The text input field for the natural language query; a combobox controlling the suggestions */}
+          <input
+            ref={inputRef}
+            type="text"
+            value={query} // Input value is controlled by the 'query' state.
+            onChange={handleInputChange} // Update 'query' state on input change.
+            onKeyDown={handleKeyDown}
+            onSelect={(event) => setCaret(event.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            // Placeholder text changes based on the loading state.
+            placeholder={loading ? "Processing..." : `Ask Nexus anything... (${formatHotkey('mod+/')} or / to focus, @ to mention)`}
+            disabled={loading} // Disable input while loading.
+            readOnly={voiceActive} // The transcript can be edited once it is complete
+            aria-label="Natural language query input" // Accessibility label
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls={LIST_ID}
+            // The option ids are built like in QuerySuggestionList.
+            aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${LIST_ID}-option-${activeIndex}` : undefined}
+            autoComplete="off"
+            className="nexus-input-field"
+          />
+          {showSuggestions && (
+            <QuerySuggestionList
+              id={LIST_ID}
+              suggestions={suggestions}
+              activeIndex={activeIndex}
+              onSelect={selectSuggestion}
+              onActivate={setActiveIndex}
+            />
+          )}
+          {/* What voice input is doing, or why it failed */}
+          {(voiceActive || voice.error) && (
+            <p className={`nexus-voice-status${voice.error ? ' error' : ''}`} role="status">
+              {voice.error
+                ? voice.error
+                : voice.status === 'transcribing'
+                  ? 'Transcribing...'
+                  : voice.mode === 'speech'
+                    ? 'Listening... click the microphone when you are done, or press Escape to cancel.'
+                    : 'Recording... click the microphone to stop and transcribe, or press Escape to cancel.'}
+            </p>
+          )}
+        </div>
+        {/* The microphone button, where the browser supports voice input */}
+        {voice.supported && (
+          <button
+            type="button"
+            onClick={toggleVoice}
+            disabled={loading || voice.status === 'transcribing'}
+            className={`nexus-voice-button${voice.status === 'listening' ? ' listening' : ''}`}
+            aria-pressed={voice.status === 'listening'}
+            aria-label={voice.status === 'listening' ? 'Stop voice input' : 'Start voice input'}
+            title={voice.status === 'listening' ? 'Stop voice input' : 'Speak your query'}
+          >
+            🎤
+          </button>
+        )}
+        {/* The submit button, or the Cancel button while a query is processed */}
+        {loading && onCancel ? (
+          <button type="button" onClick={onCancel} className="nexus-input-button nexus-cancel-button">
+            Cancel
+          </button>
+        ) : (
+          <button type="submit" disabled={loading || voiceActive} className="nexus-input-button">
+            {loading ? '...' : 'Ask'} {/* Button text changes based on loading state. */}
+          </button>
+        )}
       </form>
     </div>
   );
 };
 
-export default NexusInputBar;
\ No newline at end of file
+export default NexusInputBar;
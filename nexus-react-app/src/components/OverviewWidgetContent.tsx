@@ -0,0 +1,245 @@
+/**
+ * Overview Widget Content Component.
+ *
+ * Renders the body of an overview card, by the card's type (see `OverviewWidgetType`):
+ * - 'hours-this-week': the current user's hours since Monday, and the billable part.
+ * - 'running-timer': the header timer's clock and project, with start, pause and resume.
+ * - 'unbilled-amount': what this month's billable time earns (at the project and member rates,
+ *   like the revenue report) and the billable expenses per currency.
+ * - 'recent-companies': the companies added or changed most recently, linking to their pages.
+ * - 'top-projects': a bar chart of the projects with the most hours this month.
+ * - 'pinned-query': the answer to a pinned natural language query.
+ * Every card reads its data through the shared query cache, so cards showing the same lists share requests.
+ */
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom'; // Import Link and useNavigate to open the records behind a card
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook for the current user's hours and timer
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useQueryCache from '../hooks/useQueryCache'; // Import the cache to replace a pinned answer, e.g. after a confirmed change
+import useTimer from '../hooks/useTimer'; // Import the persistent timer hook
+import useDashboardContext from '../hooks/useDashboardContext'; // Import the dashboard's shared state, to run follow-up queries
+import QueryChart from './QueryChart'; // Import the SVG chart
+import QueryResultView from './QueryResultView'; // Import the renderer of query answers
+import { OverviewWidget, QueryHistoryTurn, QueryResponse } from '../api/types';
+import { formatClock, formatMinutes, formatMoney, toDateInputValue } from '../utils/format';
+import { startOfWeek, timeRevenue, toAmount } from '../reports/data';
+import { getReport } from '../reports/definitions';
+
+// Define the interface for the component's props
+interface OverviewWidgetContentProps {
+  widget: OverviewWidget; // The card to render the body of
+}
+
+// How long a pinned query's answer is shown before it is asked again.
+const PINNED_QUERY_STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Returns the date range of the current month so far, as the list endpoints take it.
+ */
+const thisMonth = () => {
+  const today = new Date();
+  return { from: toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1)), to: toDateInputValue(today) };
+};
+
+/**
+ * Shows the current user's hours since Monday.
+ */
+const HoursThisWeek: React.FC = () => {
+  const { user } = useAuth();
+  const today = toDateInputValue(new Date());
+  const params = { from: startOfWeek(today), to: today, user_id: user ? String(user.id) : '' };
+  const { data: entries, loading, error } = useQuery(user ? ['time-entries', params] : null, (api) => api.timeEntries.list(params));
+
+  if (loading) return <p>Loading...</p>;
+  if (error) return <p style={{ color: 'red' }}>Error: {error}</p>;
+
+  const total = (entries ?? []).reduce((sum, entry) => sum + Number(entry.duration_minutes), 0);
+  const billable = (entries ?? []).reduce((sum, entry) => sum + (entry.billable === 1 ? Number(entry.duration_minutes) : 0), 0);
+  return (
+    <>
+      <p className="overview-metric">{formatMinutes(total)}</p>
+      <p className="overview-detail">{formatMinutes(billable)} billable</p>
+      <Link to="/time-entries">View time entries</Link>
+    </>
+  );
+};
+
+/**
+ * Shows the running timer, the same one as in the header.
+ */
+const RunningTimer: React.FC = () => {
+  const { user } = useAuth();
+  const { timer, elapsedMs, start, pause, resume } = useTimer(user ? user.id : null);
+  const { data: projects = [] } = useQuery(['projects'], (api) => api.projects.list());
+
+  if (!timer) {
+    return (
+      <>
+        <p className="overview-detail">No timer is running.</p>
+        <button type="button" onClick={() => start(null)}>Start timer</button>
+      </>
+    );
+  }
+
+  const project = projects.find((item) => item.ID === timer.projectId);
+  return (
+    <>
+      <p className="overview-metric">{formatClock(elapsedMs)}</p>
+      <p className="overview-detail">
+        {project ? project.name : 'No project yet'}
+        {timer.status === 'paused' && ' (paused)'}
+      </p>
+      {timer.status === 'running' ? (
+        <button type="button" onClick={pause}>Pause</button>
+      ) : (
+        <button type="button" onClick={resume}>Resume</button>
+      )}
+      <p className="overview-hint">Stop the timer in the header to save it.</p>
+    </>
+  );
+};
+
+/**
+ * Shows the value of this month's billable time and expenses. Nexus doesn't track invoices,
+ * so everything billable this month counts as unbilled.
+ */
+const UnbilledAmount: React.FC = () => {
+  const params = thisMonth();
+  const { data: entries, loading: entriesLoading, error: entriesError } = useQuery(['time-entries', params], (api) => api.timeEntries.list(params));
+  const { data: expenses, loading: expensesLoading, error: expensesError } = useQuery(['expenses', params], (api) => api.expenses.list(params));
+  const { data: projects = [] } = useQuery(['projects'], (api) => api.projects.list());
+  const { data: companies = [] } = useQuery(['companies'], (api) => api.companies.list());
+  const { data: members = [] } = useQuery(['team-members'], (api) => api.teamMembers.list());
+
+  if (entriesLoading || expensesLoading) return <p>Loading...</p>;
+  if (entriesError || expensesError) return <p style={{ color: 'red' }}>Error: {entriesError || expensesError}</p>;
+
+  const time = timeRevenue(entries ?? [], { timeEntries: entries ?? [], expenses: [], projects, companies, members });
+  // Billable expenses per currency, since amounts in different currencies can't be summed.
+  const billableExpenses = (expenses ?? [])
+    .filter((expense) => expense.billable === 1)
+    .reduce<Record<string, number>>((acc, expense) => ({ ...acc, [expense.currency]: (acc[expense.currency] ?? 0) + toAmount(expense.amount) }), {});
+
+  return (
+    <>
+      <p className="overview-metric">{formatMoney(time)}</p>
+      <p className="overview-detail">billable time</p>
+      {Object.entries(billableExpenses).map(([currency, amount]) => (
+        <p key={currency} className="overview-detail">+ {formatMoney(amount, currency)} billable expenses</p>
+      ))}
+      <Link to="/reports/profitability">Revenue by company</Link>
+    </>
+  );
+};
+
+/**
+ * Lists the companies added or changed most recently.
+ * @param {{ limit: number }} props - How many companies to list.
+ */
+const RecentCompanies: React.FC<{ limit: number }> = ({ limit }) => {
+  const { data: companies, loading, error } = useQuery(['companies'], (api) => api.companies.list());
+
+  if (loading) return <p>Loading...</p>;
+  if (error) return <p style={{ color: 'red' }}>Error: {error}</p>;
+
+  const recent = [...(companies ?? [])]
+    .sort((a, b) => (b.updated_at ?? b.created_at ?? '').localeCompare(a.updated_at ?? a.created_at ?? ''))
+    .slice(0, limit);
+  if (recent.length === 0) return <p className="overview-detail">No companies yet.</p>;
+
+  return (
+    <ul className="overview-list">
+      {recent.map((company) => (
+        <li key={company.ID}>
+          <Link to={`/companies/${company.ID}`}>{company.name}</Link>
+          {company.city && <span className="overview-detail"> {company.city}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Charts the projects with the most hours this month. Clicking a bar opens the hours-by-project report.
+ * @param {{ limit: number }} props - How many projects to chart.
+ */
+const TopProjects: React.FC<{ limit: number }> = ({ limit }) => {
+  const navigate = useNavigate();
+  const params = thisMonth();
+  const { data: entries, loading, error } = useQuery(['time-entries', params], (api) => api.timeEntries.list(params));
+  const { data: projects = [] } = useQuery(['projects'], (api) => api.projects.list());
+  const { data: companies = [] } = useQuery(['companies'], (api) => api.companies.list());
+  const report = getReport('hours-by-project');
+
+  if (loading) return <p>Loading...</p>;
+  if (error) return <p style={{ color: 'red' }}>Error: {error}</p>;
+  if (!report) return null;
+
+  const result = report.build({ timeEntries: entries ?? [], expenses: [], projects, companies, members: [] }, { ...params, company: '', project: '', member: '' });
+  if (result.rows.length === 0) return <p className="overview-detail">No hours logged this month.</p>;
+
+  const rows = result.rows.slice(0, limit);
+  return (
+    <>
+      <QueryChart
+        dataset={{ columns: result.columns, rows }}
+        options={{ ...result.chart, y: ['hours'] }}
+        onSelect={(rowIndex) => navigate({ pathname: '/reports/hours-by-project', search: `?project=${rows[rowIndex].key}` })}
+      />
+      <Link to="/reports/hours-by-project">Hours by project</Link>
+    </>
+  );
+};
+
+/**
+ * Shows the answer to a pinned query. The answer is cached like any list, so it is asked again
+ * when the overview opens after a while. A pinned follow-up is asked with the earlier turns it
+ * was pinned with, so it gets the same answer ("only the active ones" of which list).
+ * @param {{ query: string; history?: QueryHistoryTurn[] }} props - The pinned query and its context.
+ */
+const PinnedQuery: React.FC<{ query: string; history?: QueryHistoryTurn[] }> = ({ query, history }) => {
+  const { runQuery } = useDashboardContext();
+  const cache = useQueryCache();
+  const key = ['query', history ? { query, history } : { query }] as const;
+  const { data: result, loading, error } = useQuery(key, (api) => api.query.run({ query, history }), {
+    staleTime: PINNED_QUERY_STALE_TIME_MS,
+  });
+
+  if (loading) return <p>Asking Nexus...</p>;
+  if (error) return <p style={{ color: 'red' }}>Error: {error}</p>;
+  if (!result) return null;
+
+  return (
+    <QueryResultView
+      result={result}
+      onQuery={runQuery}
+      onResult={(next) => cache.setData<QueryResponse>(key, () => next)}
+    />
+  );
+};
+
+/**
+ * Renders the body of an overview card.
+ * @param {OverviewWidgetContentProps} props - The component's props.
+ */
+const OverviewWidgetContent: React.FC<OverviewWidgetContentProps> = ({ widget }) => {
+  // Taller cards list more.
+  const limit = widget.height === 2 ? 8 : 4;
+
+  switch (widget.type) {
+    case 'hours-this-week':
+      return <HoursThisWeek />;
+    case 'running-timer':
+      return <RunningTimer />;
+    case 'unbilled-amount':
+      return <UnbilledAmount />;
+    case 'recent-companies':
+      return <RecentCompanies limit={limit} />;
+    case 'top-projects':
+      return <TopProjects limit={limit} />;
+    case 'pinned-query':
+      return widget.query ? <PinnedQuery query={widget.query} history={widget.history} /> : <p className="overview-detail">This card has no query.</p>;
+  }
+};
+
+export default OverviewWidgetContent;
@@ -0,0 +1,137 @@
+/**
+ * Overview Widget Grid Component.
+ *
+ * Lays out the overview cards in a three-column grid, in the order of the layout.
+ * Each card spans one to three columns and one or two rows.
+ * While the overview is customized (`editing`):
+ * - cards can be dragged onto another card's place;
+ * - each card has buttons to move it earlier or later (the keyboard alternative to dragging),
+ *   size pickers and a remove button.
+ * The layout itself is kept by useOverviewLayout; this component only reports the changes.
+ */
+import React, { useState } from 'react';
+import OverviewWidgetContent from './OverviewWidgetContent'; // Import the card bodies
+import { OverviewWidget } from '../api/types';
+import { OVERVIEW_WIDGETS } from '../constants/overviewWidgets';
+import { displayQuery } from '../utils/mentions';
+
+// Define the interface for the component's props
+interface OverviewWidgetGridProps {
+  widgets: OverviewWidget[]; // The cards, in display order
+  editing: boolean; // Shows the controls to move, resize and remove cards
+  onMove: (id: string, index: number) => void; // Moves a card to a position
+  onResize: (id: string, changes: Partial<Pick<OverviewWidget, 'width' | 'height'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Returns the title of a card: the query of a pinned query, else the name of its type.
+ * @param {OverviewWidget} widget - The card.
+ */
+const widgetTitle = (widget: OverviewWidget): string =>
+  widget.type === 'pinned-query' && widget.query ? displayQuery(widget.query) : OVERVIEW_WIDGETS[widget.type].title;
+
+/**
+ * Renders the overview cards.
+ * @param {OverviewWidgetGridProps} props - The component's props.
+ */
+const OverviewWidgetGrid: React.FC<OverviewWidgetGridProps> = ({ widgets, editing, onMove, onResize, onRemove }) => {
+  // The card being dragged, and the card it is over.
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setOverId(null);
+  };
+
+  if (widgets.length === 0) {
+    return <p className="overview-empty">There are no cards on your overview. Customize it to add some.</p>;
+  }
+
+  return (
+    <div className={`overview-grid${editing ? ' editing' : ''}`}>
+      {widgets.map((widget, index) => {
+        const title = widgetTitle(widget);
+        const classes = [
+          'overview-card',
+          `overview-card-w${widget.width}`,
+          `overview-card-h${widget.height}`,
+          widget.id === draggedId ? 'dragging' : '',
+          widget.id === overId ? 'drag-over' : '',
+        ];
+        return (
+          <section
+            key={widget.id}
+            className={classes.filter(Boolean).join(' ')}
+            aria-label={title}
+            draggable={editing}
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = 'move';
+              event.dataTransfer.setData('text/plain', widget.id); // Firefox only drags with data set
+              setDraggedId(widget.id);
+            }}
+            onDragOver={(event) => {
+              if (!draggedId || draggedId === widget.id) return;
+              event.preventDefault(); // Allows dropping here
+              event.dataTransfer.dropEffect = 'move';
+              setOverId(widget.id);
+            }}
+            onDragLeave={() => setOverId((prev) => (prev === widget.id ? null : prev))}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (draggedId) onMove(draggedId, index);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+          >
+            <header className="overview-card-header">
+              <h3 title={title}>{title}</h3>
+              {editing && (
+                <div className="overview-card-controls">
+                  <button type="button" onClick={() => onMove(widget.id, index - 1)} disabled={index === 0} aria-label={`Move "${title}" earlier`} title="Move earlier">
+                    ←
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(widget.id, index + 1)}
+                    disabled={index === widgets.length - 1}
+                    aria-label={`Move "${title}" later`}
+                    title="Move later"
+                  >
+                    →
+                  </button>
+                  <select
+                    value={widget.width}
+                    onChange={(event) => onResize(widget.id, { width: Number(event.target.value) as OverviewWidget['width'] })}
+                    aria-label={`Width of "${title}"`}
+                  >
+                    <option value={1}>Narrow</option>
+                    <option value={2}>Wide</option>
+                    <option value={3}>Full width</option>
+                  </select>
+                  <select
+                    value={widget.height}
+                    onChange={(event) => onResize(widget.id, { height: Number(event.target.value) as OverviewWidget['height'] })}
+                    aria-label={`Height of "${title}"`}
+                  >
+                    <option value={1}>Short</option>
+                    <option value={2}>Tall</option>
+                  </select>
+                  <button type="button" onClick={() => onRemove(widget.id)} aria-label={`Remove "${title}"`} title="Remove">
+                    ×
+                  </button>
+                </div>
+              )}
+            </header>
+            <div className="overview-card-body">
+              <OverviewWidgetContent widget={widget} />
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OverviewWidgetGrid;
@@ -0,0 +1,73 @@
+/**
+ * Overview Widget Picker Component.
+ *
+ * The "Add card" form shown while the overview is customized: pick a kind of card
+ * (see src/constants/overviewWidgets.ts) and add it at the end of the overview.
+ * A pinned query card also needs its query, which can be picked from the query history.
+ */
+import React, { useState } from 'react';
+import { OverviewWidgetType } from '../api/types';
+import { OVERVIEW_WIDGETS } from '../constants/overviewWidgets';
+import { displayQuery } from '../utils/mentions';
+
+// Define the interface for the component's props
+interface OverviewWidgetPickerProps {
+  onAdd: (type: OverviewWidgetType, query?: string) => void; // Adds a card
+  queries: string[]; // Past queries, offered for pinned query cards
+}
+
+/**
+ * Renders the form to add an overview card.
+ * @param {OverviewWidgetPickerProps} props - The component's props.
+ */
+const OverviewWidgetPicker: React.FC<OverviewWidgetPickerProps> = ({ onAdd, queries }) => {
+  const [type, setType] = useState<OverviewWidgetType>('hours-this-week');
+  // The query of a pinned query card.
+  const [query, setQuery] = useState('');
+
+  const needsQuery = type === 'pinned-query';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (needsQuery && !query.trim()) return;
+    onAdd(type, needsQuery ? query.trim() : undefined);
+    setQuery('');
+  };
+
+  return (
+    <form className="overview-widget-picker table-filters" onSubmit={handleSubmit}>
+      <label>
+        Card:
+        <select value={type} onChange={(event) => setType(event.target.value as OverviewWidgetType)}>
+          {(Object.keys(OVERVIEW_WIDGETS) as OverviewWidgetType[]).map((key) => (
+            <option key={key} value={key} title={OVERVIEW_WIDGETS[key].description}>
+              {OVERVIEW_WIDGETS[key].title}
+            </option>
+          ))}
+        </select>
+      </label>
+      {needsQuery && (
+        <label>
+          Query:
+          <input
+            type="text"
+            list="overview-widget-queries"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="e.g. show my hours by project this month"
+            required
+          />
+          <datalist id="overview-widget-queries">
+            {queries.map((item) => (
+              <option key={item} value={item}>{displayQuery(item)}</option>
+            ))}
+          </datalist>
+        </label>
+      )}
+      <button type="submit" disabled={needsQuery && !query.trim()}>Add card</button>
+      <span className="overview-detail">{OVERVIEW_WIDGETS[type].description}.</span>
+    </form>
+  );
+};
+
+export default OverviewWidgetPicker;
@@ -0,0 +1,176 @@
+/**
+ * Project Form Component.
+ *
+ * This component provides a form for adding a new project, or for editing
+ * an existing one when a `project` prop is passed.
+ * - It fetches the companies list to fill the company picker.
+ * - When a company is picked for a new project, the billing mode and flat fee
+ *   default to that company's `default_flat_fee`.
+ * Its fields and validation are described in `projectSchema` (see src/forms/); only the rate
+ * of the selected billing mode is shown.
+ * It sends the data to the custom '/wp-json/nexus/v1/projects' REST API endpoint
+ * using POST, or to '/wp-json/nexus/v1/projects/{ID}' using PUT when editing.
+ * Field-level validation messages returned by the backend are shown on their fields.
+ * It includes loading, error, and success states, and calls callbacks on success or cancel.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useSchemaForm from '../hooks/useSchemaForm'; // Import the schema-driven form state
+import SchemaFormFields from './SchemaFormFields'; // Import the schema-driven inputs
+import { Project, ProjectBillingMode, ProjectInput, ProjectStatus } from '../api/types'; // Import the shared API types
+import { ProjectFormValues, projectSchema } from '../forms/projectSchema';
+import { createFormValues } from '../forms/schema';
+
+// Define the interface for the component's props
+interface ProjectFormProps {
+  // Optional existing project. When provided, the form is pre-filled and saves with PUT instead of POST.
+  project?: Project;
+  // Optional callback function to be called after a project is successfully created or updated.
+  onProjectSaved?: (project: Project) => void;
+  // Optional callback function to be called when the user cancels the form.
+  onCancel?: () => void;
+}
+
+/**
+ * Turns the form values into the request payload.
+ * Converts the select value back to a number and sends empty optional fields as null.
+ * @param {ProjectFormValues} values - The form values.
+ */
+const toProjectInput = (values: ProjectFormValues): ProjectInput => ({
+  company_id: Number(values.company_id),
+  name: values.name.trim(),
+  description: values.description,
+  status: values.status as ProjectStatus,
+  billing_mode: values.billing_mode as ProjectBillingMode,
+  flat_fee: values.flat_fee || '0.00',
+  hourly_rate: values.hourly_rate || '0.00',
+  budget: values.budget || null,
+  estimated_hours: values.estimated_hours || null,
+  start_date: values.start_date || null,
+  end_date: values.end_date || null,
+});
+
+/**
+ * Renders a form to add a new project or edit an existing one.
+ * @param {ProjectFormProps} props - The component's props.
+ */
+const ProjectForm: React.FC<ProjectFormProps> = ({ project, onProjectSaved, onCancel }) => {
+  // Whether the form is editing an existing record rather than creating a new one.
+  const isEditing = project !== undefined;
+
+  // Read the companies available in the company picker through the shared query cache.
+  const { data: companies = [], loading: loadingCompanies, error: companiesError } = useQuery(['companies'], (client) => client.companies.list());
+
+  /**
+   * Handles picking a company.
+   * For new projects, the billing mode defaults to the company's `default_flat_fee`:
+   * a positive fee selects flat-fee billing with that amount, otherwise hourly billing.
+   * Existing projects keep their billing settings.
+   * @param {ProjectFormValues} next - The values with the changed field.
+   * @param {string} name - The changed field.
+   */
+  const applyCompanyDefaults = (next: ProjectFormValues, name: string): ProjectFormValues => {
+    const company = companies.find((c) => String(c.ID) === next.company_id);
+    if (name !== 'company_id' || isEditing || !company) {
+      return next;
+    }
+    const defaultFee = company.default_flat_fee ?? '0.00';
+    return { ...next, billing_mode: parseFloat(defaultFee) > 0 ? 'flat_fee' : 'hourly', flat_fee: defaultFee };
+  };
+
+  // State to manage the values and validation messages of the form fields.
+  const form = useSchemaForm(projectSchema, () => createFormValues(projectSchema, project), { onChange: applyCompanyDefaults });
+
+  // State to indicate if the form submission is currently in progress.
+  const [loading, setLoading] = useState(false);
+  // State to hold any error message that occurs during submission.
+  const [error, setError] = useState<string | null>(null);
+  // State to hold a success message after successful submission.
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get the typed API client.
+  const api = useApiClient();
+
+  // Options of the company picker; inactive companies are marked.
+  const companyOptions = companies.map((company) => ({
+    value: String(company.ID),
+    label: `${company.name}${company.status === 1 ? '' : ' (inactive)'}`,
+  }));
+
+  /**
+   * Handles the form submission event.
+   * Validates the fields, then sends them to the backend API to create or update the project.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setSuccess(null);
+
+    if (!form.validate()) {
+      setError('Please correct the highlighted fields.');
+      return;
+    }
+
+    setLoading(true);
+    const payload = toProjectInput(form.values);
+
+    try {
+      const savedProject = project ? await api.projects.update(project.ID, payload) : await api.projects.create(payload);
+
+      console.log('Project saved successfully:', savedProject);
+      setSuccess(`Project "${savedProject.name}" ${isEditing ? 'updated' : 'created'} successfully!`);
+
+      // Clear the form after creating, so another project can be entered.
+      if (!isEditing) {
+        form.reset(createFormValues(projectSchema));
+      }
+
+      if (onProjectSaved) {
+        onProjectSaved(savedProject); // Signal the parent (e.g., DashboardPage) that data has changed.
+      }
+    } catch (err) {
+      console.error('Error saving project:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save project.');
+      // Show the backend's field messages (e.g. from a 'rest_invalid_param' error) on their fields.
+      form.applyApiError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Render the form UI. It reuses the company form styling.
+  return (
+    <div className="company-form-container">
+      <h2>{isEditing ? `Edit Project: ${project.name}` : 'Add New Project'}</h2>
+
+      {/* Display loading, error, or success messages conditionally */}
+      {loading && <p>Saving project...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {companiesError && <p style={{ color: 'red' }}>Error: {companiesError}</p>}
+      {success && <p style={{ color: 'green' }}>Success: {success}</p>}
+
+      {/* The schema validates the fields, so the browser's own checks are off. */}
+      <form onSubmit={handleSubmit} className="company-form" noValidate>
+        {/* The company picker is filled from the companies endpoint */}
+        <SchemaFormFields form={form} options={{ company_id: companyOptions }} disabled={loading || loadingCompanies} />
+
+        {/* Action buttons for the form */}
+        <div className="form-actions">
+          <button type="submit" disabled={loading || loadingCompanies}>
+            {loading ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Project'}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} disabled={loading}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProjectForm;
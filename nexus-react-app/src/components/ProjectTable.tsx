@@ -0,0 +1,177 @@
+/**
+ * Project Table Component.
+ *
+ * This component fetches and displays a list of projects from the
+ * custom '/wp-json/nexus/v1/projects' REST API endpoint in a table format.
+ * It also fetches the companies list so each project can show its company's name.
+ * It reads both through the shared query cache (`useQuery`), so saved changes show up without a manual refresh.
+ * The rows are rendered by DataTable, so columns can be configured, sorted, saved as views and exported.
+ */
+import React, { useMemo } from 'react'; // Import useMemo hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import DataTable, { DataTableColumn } from './DataTable'; // Import the configurable table
+import { Project } from '../api/types'; // Import the shared Project type
+
+// Define the interface for the component's props
+interface ProjectTableProps {
+  onEditProject?: (project: Project) => void; // Optional callback when the user wants to edit a project
+}
+
+/**
+ * Turns a snake_case value such as 'on_hold' into a display label such as 'On Hold'.
+ * @param {string} value - The raw value returned by the API.
+ */
+const toLabel = (value: string): string =>
+  value
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * Fetches and displays a table of projects.
+ * @param {ProjectTableProps} props - The component's props.
+ */
+const ProjectTable: React.FC<ProjectTableProps> = ({ onEditProject }) => {
+  // Read projects and companies through the shared query cache; companies are only needed for their names.
+  // Both are refetched automatically when a project or company is saved.
+  const projectsQuery = useQuery(['projects'], (api) => api.projects.list());
+  const companiesQuery = useQuery(['companies'], (api) => api.companies.list());
+
+  const projects = projectsQuery.data ?? [];
+  const loading = projectsQuery.loading || companiesQuery.loading;
+  const error = projectsQuery.error ?? companiesQuery.error;
+
+  // Map company IDs to names for display.
+  const companyNames = useMemo(
+    () => Object.fromEntries((companiesQuery.data ?? []).map((company) => [company.ID, company.name])) as Record<number, string>,
+    [companiesQuery.data]
+  );
+
+  // The table's columns, in default order; the last ones are hidden until the user shows them.
+  const columns: DataTableColumn<Project>[] = [
+    { id: 'ID', label: 'ID', render: (project) => project.ID, sortValue: (project) => project.ID, defaultWidth: 70, exportType: 'number' },
+    { id: 'name', label: 'Name', render: (project) => project.name, sortValue: (project) => project.name },
+    {
+      id: 'company',
+      label: 'Company',
+      // Fall back to the raw ID if the company is not in the list (e.g., deleted)
+      render: (project) => companyNames[project.company_id] || `#${project.company_id}`,
+      sortValue: (project) => companyNames[project.company_id] || '',
+    },
+    { id: 'status', label: 'Status', render: (project) => toLabel(project.status), sortValue: (project) => project.status },
+    {
+      id: 'billing',
+      label: 'Billing',
+      // Show the rate that applies to the billing mode
+      render: (project) => (
+        <>
+          {toLabel(project.billing_mode)}
+          {project.billing_mode === 'flat_fee' && project.flat_fee ? ` (${project.flat_fee})` : ''}
+          {project.billing_mode === 'hourly' && project.hourly_rate ? ` (${project.hourly_rate}/h)` : ''}
+        </>
+      ),
+      sortValue: (project) => project.billing_mode,
+      exportValue: (project) => toLabel(project.billing_mode),
+    },
+    {
+      id: 'flat_fee',
+      label: 'Flat Fee',
+      render: (project) => project.flat_fee || '-',
+      sortValue: (project) => Number(project.flat_fee),
+      className: 'money-cell',
+      defaultHidden: true,
+      exportValue: (project) => project.flat_fee,
+      exportType: 'money',
+    },
+    {
+      id: 'hourly_rate',
+      label: 'Hourly Rate',
+      render: (project) => project.hourly_rate || '-',
+      sortValue: (project) => Number(project.hourly_rate),
+      className: 'money-cell',
+      defaultHidden: true,
+      exportValue: (project) => project.hourly_rate,
+      exportType: 'money',
+    },
+    {
+      id: 'budget',
+      label: 'Budget',
+      render: (project) => project.budget || '-',
+      sortValue: (project) => Number(project.budget),
+      exportValue: (project) => project.budget,
+      exportType: 'money',
+    },
+    {
+      id: 'estimated_hours',
+      label: 'Est. Hours',
+      render: (project) => project.estimated_hours || '-',
+      sortValue: (project) => Number(project.estimated_hours),
+      exportValue: (project) => project.estimated_hours,
+      exportType: 'number',
+    },
+    {
+      id: 'start_date',
+      label: 'Start',
+      render: (project) => project.start_date || '-',
+      sortValue: (project) => project.start_date ?? '',
+      exportValue: (project) => project.start_date,
+      exportType: 'date',
+    },
+    {
+      id: 'end_date',
+      label: 'End',
+      render: (project) => project.end_date || '-',
+      sortValue: (project) => project.end_date ?? '',
+      exportValue: (project) => project.end_date,
+      exportType: 'date',
+    },
+    { id: 'description', label: 'Description', render: (project) => project.description || '-', defaultHidden: true },
+    {
+      id: 'created_at',
+      label: 'Created At',
+      render: (project) => project.created_at || '-',
+      sortValue: (project) => project.created_at ?? '',
+      defaultHidden: true,
+      exportValue: (project) => project.created_at,
+      exportType: 'date',
+    },
+    {
+      id: 'updated_at',
+      label: 'Updated At',
+      render: (project) => project.updated_at || '-',
+      sortValue: (project) => project.updated_at ?? '',
+      defaultHidden: true,
+      exportValue: (project) => project.updated_at,
+      exportType: 'date',
+    },
+  ];
+
+  // --- Render Logic ---
+
+  return (
+    <div className="company-table-container project-table-container">
+      <h2>Projects</h2>
+      <DataTable
+        tableId="projects"
+        columns={columns}
+        rows={projects}
+        rowKey={(project) => project.ID}
+        loading={loading}
+        error={error}
+        loadingMessage="Loading projects..."
+        emptyMessage="No projects found."
+        exportOptions={{ title: 'Projects' }}
+        rowActions={
+          onEditProject &&
+          ((project) => (
+            <button type="button" className="table-action-button" onClick={() => onEditProject(project)}>
+              Edit
+            </button>
+          ))
+        }
+      />
+    </div>
+  );
+};
+
+export default ProjectTable;
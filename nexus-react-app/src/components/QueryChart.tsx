@@ -0,0 +1,174 @@
+/**
+ * Query Chart Component.
+ *
+ * Plots tabular query data (see `QueryDataset` in src/api/types.ts) as an SVG chart,
+ * without a charting library:
+ * - 'bar' draws one row of horizontal bars per category, which keeps long labels
+ *   (e.g. project names) readable.
+ * - 'line' draws one line per plotted column along the categories, e.g. hours per day.
+ * Each bar and point shows its formatted value on hover; a legend lists the plotted columns.
+ * With `onSelect`, each category's bars (or points) can be clicked or activated with the
+ * keyboard, e.g. for the reports' drill-down to the records behind them.
+ */
+import React from 'react';
+import { QueryChartOptions, QueryColumn, QueryDataset } from '../api/types';
+import { formatQueryCell } from '../utils/query';
+
+// Define the interface for the component's props
+interface QueryChartProps {
+  dataset: QueryDataset; // The rows and columns to plot
+  options: QueryChartOptions; // The chart type, and which columns are the categories and the values
+  onSelect?: (rowIndex: number) => void; // Makes the categories clickable; called with the row's index
+  selectedIndex?: number | null; // The index of the highlighted row, if any
+}
+
+// Colors of the plotted columns, in order.
+const SERIES_COLORS = ['#0073aa', '#27ae60', '#e67e22', '#8e44ad', '#c0392b'];
+
+// Chart geometry, in SVG units (the chart scales to the width of its container).
+const WIDTH = 600;
+const LABEL_WIDTH = 160; // Category labels left of the bars
+const BAR_HEIGHT = 18;
+const BAR_GAP = 10; // Between categories
+const LINE_HEIGHT = 260;
+const PADDING = 30;
+
+/**
+ * Shortens a label to fit next to the chart.
+ * @param {string} label - The label.
+ * @param {number} max - The maximum number of characters.
+ */
+const truncate = (label: string, max: number): string => (label.length > max ? `${label.slice(0, max - 1)}…` : label);
+
+/**
+ * Renders a bar or line chart of query data.
+ * @param {QueryChartProps} props - The component's props.
+ */
+const QueryChart: React.FC<QueryChartProps> = ({ dataset, options, onSelect, selectedIndex = null }) => {
+  const xColumn = dataset.columns.find((column) => column.key === options.x);
+  const series = options.y
+    .map((key) => dataset.columns.find((column) => column.key === key))
+    .filter((column): column is QueryColumn => column !== undefined);
+
+  if (!xColumn || series.length === 0 || dataset.rows.length === 0) {
+    return <p>There is nothing to plot.</p>;
+  }
+
+  // The largest value sets the scale; values are never plotted below zero.
+  const maxValue = Math.max(1e-9, ...dataset.rows.flatMap((row) => series.map((column) => Number(row[column.key]) || 0)));
+  const category = (index: number) => formatQueryCell(dataset.rows[index], xColumn);
+  const chartLabel = `${series.map((column) => column.label).join(', ')} by ${xColumn.label}`;
+
+  // The props that make a row's bars or points selectable, like a button.
+  const selectable = (rowIndex: number) =>
+    onSelect
+      ? {
+          role: 'button',
+          tabIndex: 0,
+          className: `query-chart-selectable${rowIndex === selectedIndex ? ' selected' : ''}`,
+          'aria-label': `Show details of ${category(rowIndex)}`,
+          'aria-pressed': rowIndex === selectedIndex,
+          onClick: () => onSelect(rowIndex),
+          onKeyDown: (event: React.KeyboardEvent) => {
+            if (event.key === 'Enter' || event.key === ' ') {
+              event.preventDefault();
+              onSelect(rowIndex);
+            }
+          },
+        }
+      : {};
+  // A chart with selectable parts is a group of buttons; otherwise it is one image.
+  const svgRole = onSelect ? 'group' : 'img';
+
+  const legend = series.length > 1 && (
+    <ul className="query-chart-legend">
+      {series.map((column, index) => (
+        <li key={column.key}>
+          <span className="query-chart-swatch" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }} /> {column.label}
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (options.chart_type === 'line') {
+    const plotWidth = WIDTH - PADDING * 2;
+    const plotHeight = LINE_HEIGHT - PADDING * 2;
+    const step = dataset.rows.length > 1 ? plotWidth / (dataset.rows.length - 1) : 0;
+    const point = (rowIndex: number, value: number) => ({
+      x: PADDING + rowIndex * step,
+      y: PADDING + plotHeight - (Math.max(0, value) / maxValue) * plotHeight,
+    });
+    // Label at most ~8 categories along the axis, so they don't overlap.
+    const labelEvery = Math.ceil(dataset.rows.length / 8);
+
+    return (
+      <figure className="query-chart">
+        <svg viewBox={`0 0 ${WIDTH} ${LINE_HEIGHT}`} role={svgRole} aria-label={`Line chart of ${chartLabel}`}>
+          <line x1={PADDING} y1={PADDING + plotHeight} x2={PADDING + plotWidth} y2={PADDING + plotHeight} className="query-chart-axis" />
+          {series.map((column, seriesIndex) => {
+            const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+            const points = dataset.rows.map((row, rowIndex) => point(rowIndex, Number(row[column.key]) || 0));
+            return (
+              <g key={column.key}>
+                <polyline points={points.map(({ x, y }) => `${x},${y}`).join(' ')} fill="none" stroke={color} strokeWidth={2} />
+                {points.map(({ x, y }, rowIndex) => (
+                  <circle key={rowIndex} cx={x} cy={y} r={rowIndex === selectedIndex ? 5.5 : 3.5} fill={color} {...selectable(rowIndex)}>
+                    <title>{`${category(rowIndex)}: ${formatQueryCell(dataset.rows[rowIndex], column)}`}</title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })}
+          {dataset.rows.map((_, rowIndex) =>
+            rowIndex % labelEvery === 0 ? (
+              <text key={rowIndex} x={PADDING + rowIndex * step} y={LINE_HEIGHT - 8} textAnchor="middle" className="query-chart-label">
+                {truncate(category(rowIndex), 12)}
+              </text>
+            ) : null
+          )}
+        </svg>
+        {legend}
+      </figure>
+    );
+  }
+
+  // Bar chart: one group of bars per row.
+  const groupHeight = series.length * BAR_HEIGHT + BAR_GAP;
+  const barArea = WIDTH - LABEL_WIDTH - 80; // Leaves room for the value after the longest bar
+  const height = dataset.rows.length * groupHeight;
+
+  return (
+    <figure className="query-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} role={svgRole} aria-label={`Bar chart of ${chartLabel}`}>
+        {dataset.rows.map((row, rowIndex) => {
+          const top = rowIndex * groupHeight;
+          return (
+            <g key={rowIndex} {...selectable(rowIndex)}>
+              <text x={LABEL_WIDTH - 8} y={top + (series.length * BAR_HEIGHT) / 2 + 4} textAnchor="end" className="query-chart-label">
+                <title>{category(rowIndex)}</title>
+                {truncate(category(rowIndex), 22)}
+              </text>
+              {series.map((column, seriesIndex) => {
+                const width = (Math.max(0, Number(row[column.key]) || 0) / maxValue) * barArea;
+                const y = top + seriesIndex * BAR_HEIGHT;
+                return (
+                  <g key={column.key}>
+                    <rect x={LABEL_WIDTH} y={y + 2} width={width} height={BAR_HEIGHT - 4} fill={SERIES_COLORS[seriesIndex % SERIES_COLORS.length]}>
+                      <title>{`${category(rowIndex)} - ${column.label}: ${formatQueryCell(row, column)}`}</title>
+                    </rect>
+                    <text x={LABEL_WIDTH + width + 6} y={y + BAR_HEIGHT / 2 + 4} className="query-chart-value">
+                      {formatQueryCell(row, column)}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      {legend}
+    </figure>
+  );
+};
+
+export default QueryChart;
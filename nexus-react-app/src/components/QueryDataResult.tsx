@@ -0,0 +1,178 @@
+/**
+ * Query Data Result Component.
+ *
+ * Renders the rows of a 'table' or 'chart' query answer. Both kinds carry the same tabular
+ * data, so the user can switch between the table and the chart whenever the answer says
+ * how to plot it (e.g. "show my hours by project this month").
+ * - The table sorts by any column header, and sums number, duration and single-currency
+ *   money columns in a "Total" row.
+ * - The rows can be exported to CSV, Excel or PDF like any list.
+ */
+import React, { useState } from 'react';
+import QueryChart from './QueryChart'; // Import the SVG chart
+import ExportMenu from './ExportMenu'; // Import the export dropdown
+import { QueryCell, QueryChartOptions, QueryColumn, QueryDataset, TableSort } from '../api/types';
+import { ExportColumn } from '../utils/export';
+import { formatQueryCell, formatQueryValue, isNumericColumn } from '../utils/query';
+
+// Define the interface for the component's props
+interface QueryDataResultProps {
+  title: string; // e.g. 'Hours by project, October 2026'
+  dataset: QueryDataset; // The rows and their columns
+  chart?: QueryChartOptions; // How to plot the rows; without it, only the table is offered
+  initialView?: 'table' | 'chart'; // What to show first; 'table' if not set
+}
+
+// A row of query data.
+type QueryRow = Record<string, QueryCell>;
+
+/**
+ * Compares two cells for sorting: numbers by value, everything else as text. Empty cells sort last.
+ * @param {QueryCell} a - The first cell.
+ * @param {QueryCell} b - The second cell.
+ */
+const compareCells = (a: QueryCell, b: QueryCell): number => {
+  if (a === null || a === '') return b === null || b === '' ? 0 : 1;
+  if (b === null || b === '') return -1;
+  const numberA = Number(a);
+  const numberB = Number(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return numberA - numberB;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/**
+ * Returns the total of a column, or null if it can't be summed
+ * (text and date columns, or money in more than one currency).
+ * @param {QueryDataset} dataset - The rows and columns.
+ * @param {QueryColumn} column - The column.
+ */
+const columnTotal = (dataset: QueryDataset, column: QueryColumn): number | null => {
+  if (!isNumericColumn(column)) return null;
+  if (column.type === 'money' && new Set(dataset.rows.map((row) => row.currency ?? column.currency)).size > 1) return null;
+  return dataset.rows.reduce((sum, row) => sum + (Number(row[column.key]) || 0), 0);
+};
+
+/**
+ * Builds the export columns of query data. Durations are exported as decimal hours.
+ * @param {QueryColumn[]} columns - The columns.
+ */
+const toExportColumns = (columns: QueryColumn[]): ExportColumn<QueryRow>[] =>
+  columns.map((column) => {
+    switch (column.type) {
+      case 'duration':
+        return {
+          label: `${column.label} (hours)`,
+          type: 'number',
+          value: (row) => (row[column.key] === null ? null : Math.round((Number(row[column.key]) / 60) * 100) / 100),
+        };
+      case 'money':
+        return {
+          label: column.label,
+          type: 'money',
+          value: (row) => row[column.key],
+          currency: (row) => String(row.currency ?? column.currency ?? ''),
+        };
+      default:
+        return { label: column.label, type: column.type ?? 'text', value: (row) => row[column.key] };
+    }
+  });
+
+/**
+ * Renders a query answer's rows as a sortable table or a chart.
+ * @param {QueryDataResultProps} props - The component's props.
+ */
+const QueryDataResult: React.FC<QueryDataResultProps> = ({ title, dataset, chart, initialView = 'table' }) => {
+  // Whether the table or the chart is shown. Without chart options, only the table can be.
+  const [view, setView] = useState<'table' | 'chart'>(chart ? initialView : 'table');
+  // The column the table is sorted by, if any; rows keep the backend's order until a header is clicked.
+  const [sort, setSort] = useState<TableSort | null>(null);
+
+  const sortColumn = sort ? dataset.columns.find((column) => column.key === sort.column) : undefined;
+  const rows = sortColumn
+    ? [...dataset.rows].sort((a, b) => {
+        const result = compareCells(a[sortColumn.key], b[sortColumn.key]);
+        return sort?.order === 'desc' ? -result : result;
+      })
+    : dataset.rows;
+  const totals = dataset.columns.map((column) => columnTotal(dataset, column));
+  const hasTotals = dataset.rows.length > 1 && totals.some((total) => total !== null);
+
+  // Sorts by a column; clicking the sorted column again reverses the order.
+  const handleSort = (key: string) => {
+    setSort((prev) => ({ column: key, order: prev?.column === key && prev.order === 'asc' ? 'desc' : 'asc' }));
+  };
+
+  return (
+    <div className="company-table-container query-data-result">
+      <div className="data-table-toolbar">
+        <h3>{title}</h3>
+        <div className="data-table-toolbar-actions">
+          {chart && (
+            <div className="query-view-toggle" role="group" aria-label="Show as">
+              <button type="button" className={view === 'table' ? 'active' : undefined} aria-pressed={view === 'table'} onClick={() => setView('table')}>
+                Table
+              </button>
+              <button type="button" className={view === 'chart' ? 'active' : undefined} aria-pressed={view === 'chart'} onClick={() => setView('chart')}>
+                Chart
+              </button>
+            </div>
+          )}
+          <ExportMenu title={title} fileName={{ list: title }} columns={toExportColumns(dataset.columns)} rows={rows} />
+        </div>
+      </div>
+
+      {dataset.rows.length === 0 ? (
+        <p>No matching rows.</p>
+      ) : view === 'chart' && chart ? (
+        <QueryChart dataset={{ columns: dataset.columns, rows }} options={chart} />
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              {dataset.columns.map((column) => (
+                <th
+                  key={column.key}
+                  className={isNumericColumn(column) ? 'numeric-cell' : undefined}
+                  aria-sort={sort?.column === column.key ? (sort.order === 'asc' ? 'ascending' : 'descending') : undefined}
+                >
+                  <button type="button" className="sort-button" onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    {sort?.column === column.key && <span className="sort-indicator">{sort.order === 'asc' ? ' ▲' : ' ▼'}</span>}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index}>
+                {dataset.columns.map((column) => (
+                  <td key={column.key} className={isNumericColumn(column) ? 'numeric-cell' : undefined}>
+                    {formatQueryCell(row, column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          {hasTotals && (
+            <tfoot>
+              <tr>
+                {dataset.columns.map((column, index) => (
+                  <td key={column.key} className={isNumericColumn(column) ? 'numeric-cell' : undefined}>
+                    {totals[index] !== null
+                      ? formatQueryValue(totals[index], column.type, typeof dataset.rows[0].currency === 'string' ? dataset.rows[0].currency : column.currency)
+                      : index === 0
+                        ? 'Total'
+                        : ''}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default QueryDataResult;
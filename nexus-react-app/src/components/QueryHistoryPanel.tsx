@@ -0,0 +1,96 @@
+/**
+ * Query History Panel Component.
+ *
+ * Lists the queries the user ran before (see useQueryHistory), pinned ones first.
+ * - A search box filters the list.
+ * - Clicking a query runs it again; each query can be pinned or removed.
+ * - "Clear" removes every query that is not pinned.
+ */
+import React, { useState } from 'react';
+import { QueryHistoryEntry } from '../hooks/useQueryHistory';
+import { displayQuery } from '../utils/mentions';
+
+// Define the interface for the component's props
+interface QueryHistoryPanelProps {
+  entries: QueryHistoryEntry[]; // Pinned queries first, then the most recent
+  onRun: (query: string) => void; // Runs a query again
+  onTogglePin: (query: string) => void;
+  onRemove: (query: string) => void;
+  onClear: () => void; // Removes the unpinned queries
+  disabled?: boolean; // Disables running queries, e.g. while an answer is pending
+}
+
+/**
+ * Renders the searchable query history.
+ * @param {QueryHistoryPanelProps} props - The component's props.
+ */
+const QueryHistoryPanel: React.FC<QueryHistoryPanelProps> = ({ entries, onRun, onTogglePin, onRemove, onClear, disabled = false }) => {
+  // The search text the list is filtered by.
+  const [search, setSearch] = useState('');
+
+  const term = search.trim().toLowerCase();
+  const matches = term ? entries.filter((entry) => displayQuery(entry.query).toLowerCase().includes(term)) : entries;
+
+  return (
+    <aside className="query-history">
+      <div className="query-history-header">
+        <h3>History</h3>
+        {entries.some((entry) => !entry.pinned) && (
+          <button type="button" className="query-history-clear" onClick={onClear}>
+            Clear
+          </button>
+        )}
+      </div>
+      <input
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Search past queries..."
+        aria-label="Search past queries"
+      />
+
+      {entries.length === 0 ? (
+        <p className="query-history-empty">Your queries will be listed here.</p>
+      ) : matches.length === 0 ? (
+        <p className="query-history-empty">No past queries match "{search.trim()}".</p>
+      ) : (
+        <ul>
+          {matches.map((entry) => (
+            <li key={entry.query} className={entry.pinned ? 'pinned' : undefined}>
+              <button
+                type="button"
+                className="query-history-run"
+                onClick={() => onRun(entry.query)}
+                disabled={disabled}
+                title={`Run again (last run ${new Date(entry.lastRunAt).toLocaleString()})`}
+              >
+                {displayQuery(entry.query)}
+              </button>
+              <button
+                type="button"
+                className="query-history-pin"
+                onClick={() => onTogglePin(entry.query)}
+                aria-pressed={entry.pinned}
+                aria-label={`${entry.pinned ? 'Unpin' : 'Pin'} "${displayQuery(entry.query)}"`}
+                title={entry.pinned ? 'Unpin' : 'Pin'}
+              >
+                {entry.pinned ? '★' : '☆'}
+              </button>
+              <button
+                type="button"
+                className="query-history-remove"
+                onClick={() => onRemove(entry.query)}
+                aria-label={`Remove "${displayQuery(entry.query)}" from the history`}
+                title="Remove"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default QueryHistoryPanel;
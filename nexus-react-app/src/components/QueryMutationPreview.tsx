@@ -0,0 +1,100 @@
+/**
+ * Query Mutation Preview Component.
+ *
+ * Renders a 'mutation_preview' query answer: a change the query asked for
+ * (e.g. "create a company called Acme") as a confirmation card listing every field
+ * it writes. Nothing is written until the user clicks "Confirm", which sends the
+ * answer's single-use token to '/wp-json/nexus/v1/query/confirm'; "Cancel" writes nothing.
+ * Either way the preview is replaced through `onResult`: by the backend's answer to the
+ * confirmation (e.g. the created record), or by a message saying nothing was changed.
+ * So a conversation kept across reloads never shows a settled preview's Confirm button again.
+ */
+import React, { useState } from 'react';
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import { QueryMutationPreviewResponse, QueryResponse } from '../api/types';
+import { formatQueryValue } from '../utils/query';
+
+// Define the interface for the component's props
+interface QueryMutationPreviewProps {
+  preview: QueryMutationPreviewResponse; // The proposed change
+  onResult: (result: QueryResponse) => void; // Called with the answer replacing the preview once it is confirmed or cancelled
+}
+
+// Button labels of each action.
+const CONFIRM_LABELS: Record<QueryMutationPreviewResponse['action'], string> = {
+  create: 'Confirm and create',
+  update: 'Confirm and save',
+  delete: 'Confirm and delete',
+};
+
+/**
+ * Renders a confirmation card for a change proposed by a query.
+ * @param {QueryMutationPreviewProps} props - The component's props.
+ */
+const QueryMutationPreview: React.FC<QueryMutationPreviewProps> = ({ preview, onResult }) => {
+  const api = useApiClient();
+  // Whether the change is being made, and any error message from making it.
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Updates show the current value next to the new one.
+  const showsCurrent = preview.action === 'update';
+
+  // Carries out the change, then shows the backend's answer.
+  const handleConfirm = async () => {
+    setConfirming(true);
+    setError(null);
+    try {
+      const result = await api.query.confirm({ confirm_token: preview.confirm_token }, preview.resource);
+      onResult(result);
+    } catch (err) {
+      console.error('Error confirming query change:', err);
+      setError(err instanceof Error ? err.message : 'Failed to make the change.');
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  // Dismisses the change; the message also tells the backend about it in follow-up queries.
+  const handleCancel = () => onResult({ kind: 'message', message: `Cancelled "${preview.title}". Nothing was changed.` });
+
+  return (
+    <div className={`query-mutation-preview query-mutation-${preview.action}`}>
+      <h3>{preview.title}</h3>
+      <p>Please check the details below. Nothing is saved until you confirm.</p>
+
+      {preview.changes.length > 0 && (
+        <table className="query-mutation-changes">
+          <thead>
+            <tr>
+              <th>Field</th>
+              {showsCurrent && <th>Current</th>}
+              <th>{preview.action === 'delete' ? 'Value' : 'New value'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.changes.map((change) => (
+              <tr key={change.field}>
+                <td>{change.label}</td>
+                {showsCurrent && <td>{formatQueryValue(change.from ?? null)}</td>}
+                <td>{formatQueryValue(change.to)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      <div className="form-actions">
+        <button type="button" className="query-confirm-button" onClick={handleConfirm} disabled={confirming}>
+          {confirming ? 'Saving...' : CONFIRM_LABELS[preview.action]}
+        </button>
+        <button type="button" onClick={handleCancel} disabled={confirming}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QueryMutationPreview;
@@ -0,0 +1,125 @@
+/**
+ * Query Result View Component.
+ *
+ * Renders one natural language query answer (see `QueryResponse` in src/api/types.ts)
+ * with the renderer of its kind:
+ * - 'table' and 'chart': the rows as a sortable table or a chart (QueryDataResult).
+ * - 'aggregate': the totals as metric cards.
+ * - 'record': the record's fields, with a link to its page.
+ * - 'mutation_preview': a confirmation card; nothing is written before the user confirms (QueryMutationPreview).
+ * - 'clarification': the follow-up question, with its suggested answers as buttons that run them.
+ * - 'message': the text of the answer.
+ * The answer's `summary`, if any, is shown above it. Below it, registry actions are suggested as
+ * follow-ups: the ones the backend named in `actions`, or else the ones about a record's resource
+ * (e.g. "Add New Company" after a company record).
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+import QueryDataResult from './QueryDataResult'; // Import the table/chart renderer
+import QueryMutationPreview from './QueryMutationPreview'; // Import the confirmation card
+import useActions from '../hooks/useActions'; // Import the registry hook to run follow-up actions
+import { QueryResponse } from '../api/types';
+import { formatQueryValue, recordPath } from '../utils/query';
+import { getFollowUpActions } from '../actions/registry';
+
+// Define the interface for the component's props
+interface QueryResultViewProps {
+  result: QueryResponse; // The answer to render
+  onQuery: (query: string) => void; // Runs a follow-up query, e.g. a suggested answer to a clarification
+  onResult: (result: QueryResponse) => void; // Replaces the answer, e.g. with the outcome of a confirmed or cancelled change
+}
+
+/**
+ * Renders a natural language query answer.
+ * @param {QueryResultViewProps} props - The component's props.
+ */
+const QueryResultView: React.FC<QueryResultViewProps> = ({ result, onQuery, onResult }) => {
+  const { can, run } = useActions();
+  const followUps = getFollowUpActions(result).filter(can);
+
+  // Renders the answer itself, by kind.
+  const renderAnswer = () => {
+    switch (result.kind) {
+      case 'table':
+        return <QueryDataResult title={result.title} dataset={result} chart={result.chart} />;
+
+      case 'chart':
+        return <QueryDataResult title={result.title} dataset={result} chart={result} initialView="chart" />;
+
+      case 'aggregate':
+        return (
+          <div className="query-aggregate">
+            <h3>{result.title}</h3>
+            <div className="query-metrics">
+              {result.metrics.map((metric) => (
+                <div key={metric.label} className="query-metric">
+                  <span className="query-metric-value">{formatQueryValue(metric.value, metric.type, metric.currency)}</span>
+                  <span className="query-metric-label">{metric.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+
+      case 'record': {
+        const path = recordPath(result.resource, result.id);
+        return (
+          <div className="query-record">
+            <h3>{result.title}</h3>
+            <dl>
+              {result.fields.map((field) => (
+                <React.Fragment key={field.label}>
+                  <dt>{field.label}</dt>
+                  <dd>{formatQueryValue(field.value, field.type, field.currency)}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+            {path && <Link to={path}>Open {result.title}</Link>}
+          </div>
+        );
+      }
+
+      case 'mutation_preview':
+        // Keyed by token, so a new preview starts unconfirmed.
+        return <QueryMutationPreview key={result.confirm_token} preview={result} onResult={onResult} />;
+
+      case 'clarification':
+        return (
+          <div className="query-clarification">
+            <p>{result.question}</p>
+            {result.options.length > 0 && (
+              <div className="query-clarification-options">
+                {result.options.map((option) => (
+                  <button key={option.query} type="button" onClick={() => onQuery(option.query)}>
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+
+      case 'message':
+        return <p className="query-message">{result.message}</p>;
+    }
+  };
+
+  return (
+    <div className={`query-answer query-answer-${result.kind}`}>
+      {result.summary && <p className="query-summary">{result.summary}</p>}
+      {renderAnswer()}
+      {followUps.length > 0 && (
+        <div className="query-follow-ups">
+          <span>Next:</span>
+          {followUps.map((action) => (
+            <button key={action.id} type="button" onClick={() => run(action)}>
+              <span aria-hidden="true">{action.icon}</span> {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryResultView;
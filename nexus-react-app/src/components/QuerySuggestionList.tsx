@@ -0,0 +1,67 @@
+/**
+ * Query Suggestion List Component.
+ *
+ * The dropdown of the NexusInputBar: suggested queries (recent ones and templates) or the
+ * records matching an @-mention, grouped under a heading per kind. It is an ARIA listbox
+ * controlled by the input, which keeps the focus and moves the active option with the arrow keys;
+ * options are picked with a click.
+ */
+import React from 'react';
+
+// A suggestion of the NexusInputBar.
+export interface QuerySuggestion {
+  key: string; // Unique within the list
+  group: string; // The heading it is listed under, e.g. 'Recent' or 'Companies'
+  label: string;
+  detail?: string; // Shown after the label, e.g. what a template does
+}
+
+// Define the interface for the component's props
+interface QuerySuggestionListProps {
+  id: string; // The listbox id, referenced by the input's aria-controls
+  suggestions: QuerySuggestion[];
+  activeIndex: number; // The option highlighted by the arrow keys, or -1
+  onSelect: (index: number) => void;
+  onActivate: (index: number) => void; // Highlights an option, e.g. on hover
+}
+
+/**
+ * Returns the DOM id of an option, for the input's aria-activedescendant.
+ * @param {string} listId - The listbox id.
+ * @param {number} index - The option's index.
+ */
+const optionId = (listId: string, index: number): string => `${listId}-option-${index}`;
+
+/**
+ * Renders the suggestions of the query bar.
+ * @param {QuerySuggestionListProps} props - The component's props.
+ */
+const QuerySuggestionList: React.FC<QuerySuggestionListProps> = ({ id, suggestions, activeIndex, onSelect, onActivate }) => (
+  <ul id={id} role="listbox" className="query-suggestions" aria-label="Suggestions">
+    {suggestions.map((suggestion, index) => (
+      <React.Fragment key={suggestion.key}>
+        {/* A heading before the first suggestion of each group */}
+        {(index === 0 || suggestions[index - 1].group !== suggestion.group) && (
+          <li role="presentation" className="query-suggestions-group">
+            {suggestion.group}
+          </li>
+        )}
+        <li
+          id={optionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={index === activeIndex ? 'active' : undefined}
+          // Keep the focus in the input when an option is clicked.
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => onSelect(index)}
+          onMouseEnter={() => onActivate(index)}
+        >
+          <span className="query-suggestion-label">{suggestion.label}</span>
+          {suggestion.detail && <span className="query-suggestion-detail">{suggestion.detail}</span>}
+        </li>
+      </React.Fragment>
+    ))}
+  </ul>
+);
+
+export default QuerySuggestionList;
@@ -0,0 +1,113 @@
+/**
+ * Query Thread Component.
+ *
+ * Renders the turns of a natural language query conversation like a chat: each question
+ * the user asked, followed by its answer (rendered by QueryResultView) or its error.
+ * While an answer is streamed, the steps the backend reported and the text received so far
+ * are shown, with a Cancel button. The newest turn is scrolled into view when it is added.
+ * Answered queries can be pinned to the overview, where their answer is shown on a card. A query
+ * is pinned with the earlier turns it was asked after, so a follow-up keeps its meaning there.
+ */
+import React, { useEffect, useRef } from 'react';
+import QueryResultView from './QueryResultView'; // Import the renderer of query answers
+import { QueryTurn } from '../hooks/useQueryConversation';
+import { QueryHistoryTurn, QueryResponse } from '../api/types';
+import { displayQuery } from '../utils/mentions';
+import { buildQueryHistory } from '../utils/query';
+
+// Define the interface for the component's props
+interface QueryThreadProps {
+  turns: QueryTurn[]; // The conversation, oldest first
+  onQuery: (query: string) => void; // Runs a follow-up query, e.g. a suggested answer to a clarification
+  onTurnResult: (turnId: string, result: QueryResponse) => void; // Replaces a turn's answer, e.g. with the outcome of a confirmed change
+  onCancel: () => void; // Cancels the pending queries
+  onPin?: (query: string, history: QueryHistoryTurn[]) => void; // Pins a query's answer to the overview; no pin buttons if not set
+  isPinned?: (query: string, history: QueryHistoryTurn[]) => boolean; // Whether a query is already pinned with this context
+  pinDisabled?: boolean; // Disables the pin buttons, e.g. while the overview layout loads
+}
+
+/**
+ * Renders a query conversation.
+ * @param {QueryThreadProps} props - The component's props.
+ */
+const QueryThread: React.FC<QueryThreadProps> = ({ turns, onQuery, onTurnResult, onCancel, onPin, isPinned = () => false, pinDisabled = false }) => {
+  // The element of the newest turn, scrolled into view when a turn is added.
+  const lastTurnRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    lastTurnRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [turns.length]);
+
+  if (turns.length === 0) {
+    return (
+      <p className="query-thread-empty">
+        Ask Nexus anything in the bar below, e.g. "show my hours by project this month". Follow-up questions
+        like "only the active ones" refer to the answers above them.
+      </p>
+    );
+  }
+
+  /**
+   * Renders the pin button of a turn. Only answers worth seeing again can be pinned, not
+   * confirmations or follow-up questions; each is pinned with the turns before it as context.
+   * @param {QueryTurn} turn - The turn.
+   * @param {number} index - Its position in the conversation.
+   */
+  const renderPin = (turn: QueryTurn, index: number) => {
+    if (!onPin || !turn.result || turn.result.kind === 'mutation_preview' || turn.result.kind === 'clarification') return null;
+    const history = buildQueryHistory(turns.slice(0, index));
+    const pinned = isPinned(turn.query, history);
+    return (
+      <button type="button" className="query-turn-pin" onClick={() => onPin(turn.query, history)} disabled={pinDisabled || pinned}>
+        {pinned ? 'Pinned to overview' : 'Pin to overview'}
+      </button>
+    );
+  };
+
+  return (
+    <ol className="query-thread">
+      {turns.map((turn, index) => (
+        <li key={turn.id} className="query-turn" ref={index === turns.length - 1 ? lastTurnRef : undefined}>
+          <div className="query-turn-question">
+            <span>{displayQuery(turn.query)}</span>
+            <time dateTime={turn.askedAt}>
+              {new Date(turn.askedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+            </time>
+            {renderPin(turn, index)}
+          </div>
+          <div className="query-turn-answer">
+            {turn.status === 'pending' || turn.status === 'cancelled' ? (
+              <div className="query-turn-progress" aria-live="polite">
+                {/* The steps so far; the last one is in progress until the answer arrives */}
+                <ol className="query-turn-steps">
+                  {(turn.steps.length > 0 ? turn.steps : ['Sending your question']).map((step, stepIndex, steps) => (
+                    <li key={stepIndex} className={stepIndex === steps.length - 1 && turn.status === 'pending' ? 'current' : 'done'}>
+                      {step}
+                    </li>
+                  ))}
+                </ol>
+                {turn.partialText && <p className="query-message">{turn.partialText}</p>}
+                {turn.status === 'pending' ? (
+                  <button type="button" className="query-cancel-button" onClick={onCancel}>
+                    Cancel
+                  </button>
+                ) : (
+                  <p className="query-turn-cancelled">Cancelled.</p>
+                )}
+              </div>
+            ) : turn.error ? (
+              <>
+                {turn.partialText && <p className="query-message">{turn.partialText}</p>}
+                <p style={{ color: 'red' }}>Error: {turn.error}</p>
+              </>
+            ) : turn.result ? (
+              <QueryResultView result={turn.result} onQuery={onQuery} onResult={(result) => onTurnResult(turn.id, result)} />
+            ) : null}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default QueryThread;
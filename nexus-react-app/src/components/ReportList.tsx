@@ -0,0 +1,37 @@
+/**
+ * Report List Component.
+ *
+ * The landing view of the reports section ('/reports'): one card per prebuilt report
+ * (see src/reports/definitions.ts), with its description. Clicking a card opens the report.
+ */
+import React from 'react';
+import { REPORTS } from '../reports/definitions';
+import { ReportDefinition } from '../reports/types';
+
+// Define the interface for the component's props
+interface ReportListProps {
+  onOpen: (report: ReportDefinition) => void; // Opens a report
+}
+
+/**
+ * Renders the cards of the prebuilt reports.
+ * @param {ReportListProps} props - The component's props.
+ */
+const ReportList: React.FC<ReportListProps> = ({ onOpen }) => (
+  <div className="report-list-container">
+    <h2>Reports</h2>
+    <p>Prebuilt reports of your team's time and expenses. Each one can be filtered, charted and exported.</p>
+    <ul className="report-list">
+      {REPORTS.map((report) => (
+        <li key={report.id}>
+          <button type="button" className="report-card" onClick={() => onOpen(report)}>
+            <span className="report-card-title">{report.title}</span>
+            <span className="report-card-description">{report.description}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ReportList;
@@ -0,0 +1,201 @@
+/**
+ * Report View Component.
+ *
+ * Renders one prebuilt report (see src/reports/definitions.ts):
+ * - The date range and the report's entity filters (company, project, team member) are kept
+ *   in the URL's query string, so a filtered report can be bookmarked, shared and reloaded.
+ * - It loads the time entries (and expenses) of the filters through the shared query cache,
+ *   and builds the report's rows in the browser.
+ * - The rows are shown as a chart above a sortable, exportable table.
+ * - Clicking a bar (or a point) of the chart lists the records behind it, between the chart and the table.
+ */
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom'; // Import useSearchParams to keep the filters in the URL
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import QueryChart from './QueryChart'; // Import the SVG chart
+import QueryDataResult from './QueryDataResult'; // Import the sortable, exportable table
+import TeamMemberSelect from './TeamMemberSelect'; // Import the team member picker
+import { ReportDefinition, ReportFilters } from '../reports/types';
+import { defaultReportFilters, narrowReportData } from '../reports/data';
+import { formatQueryValue } from '../utils/query';
+
+// Define the interface for the component's props
+interface ReportViewProps {
+  report: ReportDefinition; // The report to render
+  onBack: () => void; // Returns to the list of reports
+}
+
+/**
+ * Loads, filters and renders a report with its chart, table and drill-down.
+ * @param {ReportViewProps} props - The component's props.
+ */
+const ReportView: React.FC<ReportViewProps> = ({ report, onBack }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The defaults are computed once, so "this month" doesn't move while the report is open.
+  const [defaults] = useState(defaultReportFilters);
+  // The key of the row whose records are listed, if any.
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // The filters in the URL, with the defaults for the ones it doesn't have.
+  const filters = useMemo<ReportFilters>(
+    () => ({
+      from: searchParams.get('from') ?? defaults.from,
+      to: searchParams.get('to') ?? defaults.to,
+      company: searchParams.get('company') ?? '',
+      project: searchParams.get('project') ?? '',
+      member: searchParams.get('member') ?? '',
+    }),
+    [searchParams, defaults]
+  );
+
+  // Read the lists the reports take names and rates from; these are shared with the rest of the app.
+  const { data: projectData, error: projectsError } = useQuery(['projects'], (api) => api.projects.list());
+  const projects = useMemo(() => projectData ?? [], [projectData]);
+  const { data: companyData, error: companiesError } = useQuery(['companies'], (api) => api.companies.list());
+  // Deactivated members are included, since their past time still counts.
+  const { data: memberData, error: membersError } = useQuery(['team-members'], (api) => api.teamMembers.list());
+
+  // Changes a filter in the URL, leaving out values equal to the defaults. The drill-down is closed.
+  const handleFilterChange = (name: keyof ReportFilters, value: string) => {
+    const next = { ...filters, [name]: value };
+    // A project of another company can't stay selected.
+    if (name === 'company' && value && next.project && String(projects.find((project) => String(project.ID) === next.project)?.company_id) !== value) {
+      next.project = '';
+    }
+    const params = new URLSearchParams();
+    (Object.keys(next) as (keyof ReportFilters)[]).forEach((key) => {
+      if (next[key] !== defaults[key]) params.set(key, next[key]);
+    });
+    setSearchParams(params, { replace: true });
+    setSelectedKey(null);
+  };
+
+  // Read the time entries of the filters; the backend filters them by date, project and member.
+  const timeEntryParams = { from: filters.from, to: filters.to, project_id: filters.project, user_id: filters.member };
+  const { data: timeEntryData, loading: timeEntriesLoading, error: timeEntriesError } = useQuery(
+    ['time-entries', timeEntryParams],
+    (api) => api.timeEntries.list(timeEntryParams)
+  );
+  // Read the expenses of the date range, only for reports that need them.
+  const expenseParams = { from: filters.from, to: filters.to };
+  const { data: expenseData, loading: expensesLoading, error: expensesError } = useQuery(
+    report.needsExpenses ? ['expenses', expenseParams] : null,
+    (api) => api.expenses.list(expenseParams)
+  );
+
+  // Narrow the records to the filters, and build the report's rows.
+  const data = useMemo(
+    () =>
+      narrowReportData(
+        {
+          timeEntries: timeEntryData ?? [],
+          expenses: expenseData ?? [],
+          projects,
+          companies: companyData ?? [],
+          members: memberData ?? [],
+        },
+        filters
+      ),
+    [timeEntryData, expenseData, projects, companyData, memberData, filters]
+  );
+  const result = useMemo(() => report.build(data, filters), [report, data, filters]);
+
+  const loading = timeEntriesLoading || (report.needsExpenses && expensesLoading);
+  const error = timeEntriesError || expensesError || projectsError || companiesError || membersError;
+
+  // The selected row and the records behind it.
+  const selectedIndex = result.rows.findIndex((row) => String(row.key) === selectedKey);
+  const drillDown = selectedIndex === -1 ? null : report.drillDown(result.rows[selectedIndex], data);
+
+  // Selects a row of the chart; selecting it again closes its drill-down.
+  const handleSelect = (rowIndex: number) => {
+    const key = String(result.rows[rowIndex].key);
+    setSelectedKey((prev) => (prev === key ? null : key));
+  };
+
+  // The date range as text, for the table's title and export file names.
+  const range = `${formatQueryValue(filters.from || null, 'date')} – ${formatQueryValue(filters.to || null, 'date')}`;
+  // The projects offered, narrowed to the selected company.
+  const projectOptions = filters.company ? projects.filter((project) => String(project.company_id) === filters.company) : projects;
+  const records = report.needsExpenses ? 'expenses' : 'time entries';
+
+  return (
+    <div className="report-view">
+      <div className="data-table-toolbar">
+        <h2>{report.title}</h2>
+        <button type="button" onClick={onBack}>All reports</button>
+      </div>
+      <p className="report-description">{report.description}</p>
+
+      {/* Filter controls */}
+      <div className="table-filters">
+        <label>
+          From:
+          <input type="date" value={filters.from} onChange={(e) => handleFilterChange('from', e.target.value)} max={filters.to || undefined} />
+        </label>
+        <label>
+          To:
+          <input type="date" value={filters.to} onChange={(e) => handleFilterChange('to', e.target.value)} min={filters.from || undefined} />
+        </label>
+        {report.filters.includes('company') && (
+          <label>
+            Company:
+            <select value={filters.company} onChange={(e) => handleFilterChange('company', e.target.value)}>
+              <option value="">All companies</option>
+              {(companyData ?? []).map((company) => (
+                <option key={company.ID} value={company.ID}>{company.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {report.filters.includes('project') && (
+          <label>
+            Project:
+            <select value={filters.project} onChange={(e) => handleFilterChange('project', e.target.value)}>
+              <option value="">All projects</option>
+              {projectOptions.map((project) => (
+                <option key={project.ID} value={project.ID}>{project.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {report.filters.includes('member') && (
+          <label>
+            Team Member:
+            <TeamMemberSelect value={filters.member} onChange={(value) => handleFilterChange('member', value)} emptyLabel="All members" />
+          </label>
+        )}
+      </div>
+
+      {/* Loading, error, empty, or report states */}
+      {loading ? (
+        <p>Loading report...</p>
+      ) : error ? (
+        <p style={{ color: 'red' }}>Error: {error}</p>
+      ) : result.rows.length === 0 ? (
+        <p>There are no {records} for these filters.</p>
+      ) : (
+        <>
+          <div className="report-chart">
+            <QueryChart dataset={result} options={result.chart} onSelect={handleSelect} selectedIndex={selectedIndex === -1 ? null : selectedIndex} />
+            <p className="report-hint">
+              Click a {result.chart.chart_type === 'line' ? 'point' : 'bar'} to list the {records} behind it.
+            </p>
+          </div>
+
+          {drillDown && (
+            <div className="report-drill-down">
+              <QueryDataResult key={selectedKey} title={drillDown.title} dataset={drillDown.dataset} />
+              <button type="button" onClick={() => setSelectedKey(null)}>Close</button>
+            </div>
+          )}
+
+          <QueryDataResult title={`${report.title}, ${range}`} dataset={result} />
+          {result.note && <p className="report-note">{result.note}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportView;
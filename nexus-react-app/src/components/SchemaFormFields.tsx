@@ -0,0 +1,189 @@
+/**
+ * Schema Form Fields Component.
+ *
+ * Renders the inputs of a form described by a `FormSchema` (see src/forms/types.ts),
+ * section by section, with each field's validation message below its input.
+ * It renders no <form> element or buttons of its own: the form component keeps its heading,
+ * submit handler and actions, and places these fields inside its <form>.
+ * - Fields whose `visible` check fails are not rendered.
+ * - Options loaded from the API (e.g. the company picker) are passed in `options`. A checkbox list
+ *   without options shows its `emptyOptions` text instead, e.g. that they are loading or failed to load.
+ * - Inputs the schema can't describe (e.g. the contact rows of a client) are passed in `slots`,
+ *   and shown after the fields of the section with the same id.
+ * - Backend messages for parameters that have no field in the form are listed above the fields.
+ */
+import React from 'react';
+import TeamMemberSelect from './TeamMemberSelect'; // Import the team member picker for 'teamMember' fields
+import { UseSchemaForm } from '../hooks/useSchemaForm';
+import { isFieldVisible } from '../forms/schema';
+import { FormField, FormOption, FormSlots, FormValues } from '../forms/types';
+
+// Define the interface for the component's props
+interface SchemaFormFieldsProps<V extends FormValues> {
+  form: UseSchemaForm<V>; // The form state from `useSchemaForm`
+  options?: Partial<Record<Extract<keyof V, string>, FormOption[]>>; // Options of select, radio and checkbox list fields, by field name
+  emptyOptions?: Partial<Record<Extract<keyof V, string>, string>>; // Shown by a checkbox list without options, by field name
+  slots?: FormSlots; // Content shown after a section's fields, by section id
+  disabled?: boolean; // Disables every input, e.g. while saving
+}
+
+/**
+ * Renders the inputs of a schema-driven form.
+ * @param {SchemaFormFieldsProps<V>} props - The component's props.
+ */
+const SchemaFormFields = <V extends FormValues>({ form, options, emptyOptions, slots, disabled }: SchemaFormFieldsProps<V>) => {
+  const { schema, values, errors, otherErrors, setValue, handleBlur } = form;
+
+  // Renders the input of one field.
+  const renderInput = (field: FormField<V>) => {
+    const value = values[field.name];
+    const fieldOptions = options?.[field.name] ?? field.options ?? [];
+    // Attributes shared by every input: state, validation and accessibility.
+    const common = {
+      id: field.name,
+      name: field.name,
+      disabled,
+      onBlur: () => handleBlur(field.name),
+      'aria-invalid': errors[field.name] ? true : undefined,
+      'aria-describedby': errors[field.name] ? `${field.name}-error` : undefined,
+    };
+
+    switch (field.type) {
+      case 'textarea':
+        return <textarea {...common} value={String(value)} placeholder={field.placeholder} onChange={(e) => setValue(field.name, e.target.value)} />;
+
+      case 'select':
+        return (
+          <select {...common} value={String(value)} onChange={(e) => setValue(field.name, e.target.value)}>
+            {field.emptyOption !== undefined && <option value="">{field.emptyOption}</option>}
+            {fieldOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        );
+
+      case 'radio':
+        return (
+          <div className="form-radio-group" role="radiogroup" aria-labelledby={`${field.name}-label`}>
+            {fieldOptions.map((option) => (
+              <label key={option.value} className="checkbox-label">
+                <input
+                  type="radio"
+                  name={field.name}
+                  checked={value === option.value}
+                  onChange={() => setValue(field.name, option.value)}
+                  disabled={disabled}
+                />{' '}
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'checkbox':
+        return (
+          <label className="checkbox-label">
+            <input {...common} type="checkbox" checked={value === true} onChange={(e) => setValue(field.name, e.target.checked)} /> {field.label}
+          </label>
+        );
+
+      case 'checkboxes': {
+        const checked: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="form-checkbox-list" role="group" aria-labelledby={`${field.name}-label`}>
+            {fieldOptions.length === 0 && <p className="form-options-empty">{emptyOptions?.[field.name] ?? 'No options available.'}</p>}
+            {fieldOptions.map((option) => (
+              <label key={option.value} className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={checked.includes(option.value)}
+                  onChange={() =>
+                    setValue(field.name, checked.includes(option.value) ? checked.filter((item) => item !== option.value) : [...checked, option.value])
+                  }
+                  disabled={disabled}
+                />{' '}
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      case 'teamMember':
+        return <TeamMemberSelect id={field.name} value={String(value)} onChange={(member) => setValue(field.name, member)} disabled={disabled} />;
+
+      default: {
+        // Text-like inputs. Money is a number input with cents that can't go below zero.
+        const isMoney = field.type === 'money';
+        const min = typeof field.min === 'function' ? field.min(values) : field.min;
+        return (
+          <input
+            {...common}
+            type={isMoney ? 'number' : field.type === 'url' ? 'text' : field.type}
+            inputMode={field.type === 'url' ? 'url' : undefined}
+            value={String(value)}
+            placeholder={field.placeholder}
+            min={min ?? (isMoney ? '0' : undefined)}
+            max={field.max}
+            step={field.step ?? (isMoney ? '0.01' : undefined)}
+            onChange={(e) => setValue(field.name, e.target.value)}
+          />
+        );
+      }
+    }
+  };
+
+  // Renders a field with its label, hint and validation message.
+  const renderField = (field: FormField<V>) => (
+    <div key={field.name} className={errors[field.name] ? 'form-field has-error' : 'form-field'}>
+      {/* Checkboxes carry their label next to the box */}
+      {field.type !== 'checkbox' && (
+        <label htmlFor={field.name} id={`${field.name}-label`}>
+          {field.label}:{field.required && <span className="required-marker"> *</span>}
+        </label>
+      )}
+      {renderInput(field)}
+      {field.help && <small className="field-help">{field.help}</small>}
+      {errors[field.name] && (
+        <p id={`${field.name}-error`} className="field-error">
+          {errors[field.name]}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {/* Backend validation messages for parameters that have no field in the form */}
+      {Object.keys(otherErrors).length > 0 && (
+        <ul style={{ color: 'red' }}>
+          {Object.entries(otherErrors).map(([param, message]) => (
+            <li key={param}>{param}: {message}</li>
+          ))}
+        </ul>
+      )}
+      {schema.sections.map((section) => {
+        const fields = section.fields.filter((field) => isFieldVisible(field, values)).map(renderField);
+        const content = (
+          <>
+            {fields.length > 0 && (
+              <div className={section.columns === 2 ? 'form-section-fields form-section-columns' : 'form-section-fields'}>{fields}</div>
+            )}
+            {slots?.[section.id]}
+          </>
+        );
+        // Titled sections are grouped in a fieldset; untitled ones just list their fields.
+        return section.title ? (
+          <fieldset key={section.id} className="form-fieldset">
+            <legend>{section.title}</legend>
+            {content}
+          </fieldset>
+        ) : (
+          <React.Fragment key={section.id}>{content}</React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export default SchemaFormFields;
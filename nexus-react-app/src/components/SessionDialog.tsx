@@ -0,0 +1,105 @@
+/**
+ * Session Dialog Component.
+ *
+ * A modal re-login dialog shown over the current page when the session needs attention:
+ * - 'expiring': the token expires soon and could not be refreshed. The user can log in
+ *   again now, or dismiss the warning until the token actually expires.
+ * - 'expired': the token expired or was rejected by the API. The user must log in again
+ *   (or log out).
+ * The page underneath stays mounted, so unsaved form input survives the re-login.
+ * The new token is stored through `login`, which also updates every other open tab.
+ */
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to read the session status
+import { requestToken } from '../utils/auth'; // Import helper to request a token with credentials
+
+/**
+ * Renders the re-login dialog, or nothing while the session is active.
+ */
+const SessionDialog: React.FC = () => {
+  const { user, sessionStatus, expiresAt, login, logout } = useAuth();
+
+  // State hooks for the credentials
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  // State hook to hide the 'expiring' warning until the session actually expires.
+  // It holds the expiry of the token the warning was dismissed for, so a later token warns again.
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+  // State hooks for the re-login request
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Nothing to show for an active session or a logged-out user.
+  if (!user || sessionStatus === 'active' || (sessionStatus === 'expiring' && dismissedFor === expiresAt)) {
+    return null;
+  }
+
+  /**
+   * Handles the re-login form submission.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setLoading(true);
+
+    try {
+      const newToken = await requestToken(username, password);
+      login(newToken); // Resets the session status, which closes the dialog
+      setUsername('');
+      setPassword('');
+    } catch (err) {
+      console.error('Re-login error:', err);
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isExpired = sessionStatus === 'expired';
+  const expiryTime = expiresAt ? new Date(expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : null;
+
+  return (
+    <div className="session-dialog-backdrop">
+      <div className="session-dialog" role="dialog" aria-modal="true" aria-labelledby="session-dialog-title">
+        <h2 id="session-dialog-title">{isExpired ? 'Session Expired' : 'Session Expiring'}</h2>
+        <p>
+          {isExpired
+            ? `Your session has expired, ${user.name}. Log in again to continue where you left off; unsaved changes on this page are kept.`
+            : `Your session expires${expiryTime ? ` at ${expiryTime}` : ' soon'}. Log in again to stay signed in.`}
+        </p>
+
+        {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+        <form onSubmit={handleSubmit} className="company-form">
+          <div>
+            <label htmlFor="session-username">Username:</label>
+            <input type="text" id="session-username" value={username} onChange={(e) => setUsername(e.target.value)} required autoFocus disabled={loading} />
+          </div>
+          <div>
+            <label htmlFor="session-password">Password:</label>
+            <input type="password" id="session-password" value={password} onChange={(e) => setPassword(e.target.value)} required disabled={loading} />
+          </div>
+
+          <div className="form-actions">
+            <button type="submit" disabled={loading}>
+              {loading ? 'Logging In...' : 'Log In Again'}
+            </button>
+            {isExpired ? (
+              <button type="button" onClick={logout} disabled={loading}>
+                Log Out
+              </button>
+            ) : (
+              <button type="button" onClick={() => setDismissedFor(expiresAt)} disabled={loading}>
+                Later
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionDialog;
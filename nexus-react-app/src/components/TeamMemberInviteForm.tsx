@@ -0,0 +1,142 @@
+/**
+ * Team Member Invite Form Component.
+ *
+ * This component provides a form for admins to invite a new team member.
+ * The backend creates (or reuses) the WordPress user for the email address,
+ * grants Nexus access with the chosen role and rates, and emails the invitation.
+ * It sends the data to the custom '/wp-json/nexus/v1/team-members/invite' REST API endpoint using POST.
+ * It includes loading, error, and success states, and calls callbacks on success or cancel.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import { TeamMember, TeamRole } from '../api/types'; // Import the shared TeamMember types
+
+// Define the interface for the component's props
+interface TeamMemberInviteFormProps {
+  // Optional callback function to be called after the invitation was sent.
+  onInvited?: (member: TeamMember) => void;
+  // Optional callback function to be called when the user cancels the form.
+  onCancel?: () => void;
+}
+
+// The empty state of the form.
+const emptyFormData = {
+  name: '',
+  email: '',
+  role: 'member' as TeamRole,
+  hourly_cost_rate: '',
+  billable_rate: '',
+};
+
+/**
+ * Renders a form to invite a team member.
+ * @param {TeamMemberInviteFormProps} props - The component's props.
+ */
+const TeamMemberInviteForm: React.FC<TeamMemberInviteFormProps> = ({ onInvited, onCancel }) => {
+  // State to manage the values of the form input fields.
+  const [formData, setFormData] = useState(emptyFormData);
+  // State to indicate if the form submission is currently in progress.
+  const [loading, setLoading] = useState(false);
+  // State to hold any error message that occurs during submission.
+  const [error, setError] = useState<string | null>(null);
+  // State to hold a success message after successful submission.
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get the typed API client.
+  const api = useApiClient();
+
+  /**
+   * Handles changes to the form input fields.
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement>} event - The input change event.
+   */
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = event.target;
+    setFormData(prevState => ({ ...prevState, [name]: value }));
+  };
+
+  /**
+   * Handles the form submission event. Empty rates are sent as null.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+
+    try {
+      const member = await api.teamMembers.invite({
+        ...formData,
+        hourly_cost_rate: formData.hourly_cost_rate || null,
+        billable_rate: formData.billable_rate || null,
+      });
+
+      console.log('Team member invited:', member);
+      setSuccess(`Invitation sent to ${member.email}.`);
+      setFormData(emptyFormData);
+
+      if (onInvited) {
+        onInvited(member);
+      }
+    } catch (err) {
+      console.error('Error inviting team member:', err);
+      setError(err instanceof Error ? err.message : 'Failed to invite team member.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Render the form UI. It reuses the company form styling.
+  return (
+    <div className="company-form-container">
+      <h2>Invite Team Member</h2>
+
+      {/* Display loading, error, or success messages conditionally */}
+      {loading && <p>Sending invitation...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {success && <p style={{ color: 'green' }}>Success: {success}</p>}
+
+      <form onSubmit={handleSubmit} className="company-form">
+        <div>
+          <label htmlFor="name">Name:</label>
+          <input type="text" id="name" name="name" value={formData.name} onChange={handleInputChange} required disabled={loading} />
+        </div>
+        <div>
+          <label htmlFor="email">Email:</label>
+          <input type="email" id="email" name="email" value={formData.email} onChange={handleInputChange} required disabled={loading} />
+        </div>
+        <div>
+          <label htmlFor="role">Role:</label>
+          <select id="role" name="role" value={formData.role} onChange={handleInputChange} disabled={loading}>
+            <option value="member">Member</option>
+            <option value="manager">Manager</option>
+            <option value="admin">Admin</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="hourly_cost_rate">Hourly Cost Rate:</label>
+          <input type="number" id="hourly_cost_rate" name="hourly_cost_rate" value={formData.hourly_cost_rate} onChange={handleInputChange} step="0.01" min="0" disabled={loading} />
+        </div>
+        <div>
+          <label htmlFor="billable_rate">Billable Rate:</label>
+          <input type="number" id="billable_rate" name="billable_rate" value={formData.billable_rate} onChange={handleInputChange} step="0.01" min="0" disabled={loading} />
+        </div>
+
+        {/* Action buttons for the form */}
+        <div className="form-actions">
+          <button type="submit" disabled={loading}>
+            {loading ? 'Sending...' : 'Send Invitation'}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} disabled={loading}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TeamMemberInviteForm;
@@ -0,0 +1,44 @@
+/**
+ * Team Member Select Component.
+ *
+ * A select element filled with the active team members from the custom
+ * '/wp-json/nexus/v1/team-members' REST API endpoint.
+ * Used by the time entry and expense screens to attribute work to a specific member,
+ * and by the time entry list to filter by member.
+ */
+import React from 'react';
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+
+// Define the interface for the component's props
+interface TeamMemberSelectProps {
+  value: string; // The selected member ID as a string ('' for none)
+  onChange: (value: string) => void; // Called with the newly selected member ID
+  id?: string; // Optional id, so a <label htmlFor> can point at the select
+  emptyLabel?: string; // Optional label for an empty option (e.g., "All members"); omitted if not set
+  required?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Renders a select element listing the active team members.
+ * @param {TeamMemberSelectProps} props - The component's props.
+ */
+const TeamMemberSelect: React.FC<TeamMemberSelectProps> = ({ value, onChange, id, emptyLabel, required, disabled }) => {
+  // Read the active members through the shared query cache; every picker on the page shares one request.
+  const { data: members = [] } = useQuery(['team-members', { active: 1 }], (api) => api.teamMembers.list({ active: 1 }));
+
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} required={required} disabled={disabled}>
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {/* Keep the current value selectable while the list loads, or if the member is no longer active */}
+      {value && !members.some((member) => String(member.ID) === value) && (
+        <option value={value}>{members.length === 0 ? 'Loading...' : `User #${value}`}</option>
+      )}
+      {members.map((member) => (
+        <option key={member.ID} value={member.ID}>{member.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default TeamMemberSelect;
@@ -0,0 +1,230 @@
+/**
+ * Team Member Table Component.
+ *
+ * This component fetches and displays the WordPress users who have Nexus access
+ * from the custom '/wp-json/nexus/v1/team-members' REST API endpoint.
+ * - It shows each member's role, hourly cost rate, billable rate and active status.
+ * - Admins (WordPress administrators or members with the Nexus 'admin' role) can edit
+ *   a member's role and rates inline, and activate or deactivate members.
+ *   Changes are sent to '/wp-json/nexus/v1/team-members/{ID}' with PATCH.
+ * It reads the members through the shared query cache (`useQuery`), so invited members show up without a manual refresh.
+ * The list, including the rates, can be exported (ExportMenu).
+ */
+import React, { useState } from 'react'; // Import useState hook
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to check the current user's permissions
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useQueryCache from '../hooks/useQueryCache'; // Import the cache to show saved changes right away
+import { TeamMember, TeamMemberUpdate, TeamRole } from '../api/types'; // Import the shared TeamMember types
+import { formatMoney } from '../utils/format'; // Import money formatting helper
+import ExportMenu from './ExportMenu'; // Import the export dropdown
+import { ExportColumn } from '../utils/export';
+import { getCapabilities } from '../actions/registry'; // Import the permission rules shared with the action registry
+
+// The exported columns.
+const EXPORT_COLUMNS: ExportColumn<TeamMember>[] = [
+  { label: 'Name', value: (member) => member.name },
+  { label: 'Email', value: (member) => member.email },
+  { label: 'Role', value: (member) => member.role.charAt(0).toUpperCase() + member.role.slice(1) },
+  { label: 'Hourly Cost Rate', type: 'money', value: (member) => member.hourly_cost_rate },
+  { label: 'Billable Rate', type: 'money', value: (member) => member.billable_rate },
+  { label: 'Status', value: (member) => (member.invitation_pending === 1 ? 'Invited' : member.active === 1 ? 'Active' : 'Inactive') },
+];
+
+// Define the interface for the component's props
+interface TeamMemberTableProps {
+  onInvite?: () => void; // Optional callback for the "Invite Member" button (shown to admins only)
+}
+
+// The fields that can be edited inline.
+type EditableFields = Pick<TeamMember, 'role' | 'hourly_cost_rate' | 'billable_rate'>;
+
+/**
+ * Fetches and displays a table of team members with admin controls.
+ * @param {TeamMemberTableProps} props - The component's props.
+ */
+const TeamMemberTable: React.FC<TeamMemberTableProps> = ({ onInvite }) => {
+  const { user } = useAuth();
+  const api = useApiClient();
+  const cache = useQueryCache();
+
+  // Read the members through the shared query cache.
+  const { data: members = [], loading, error: fetchError } = useQuery(['team-members'], (client) => client.teamMembers.list());
+
+  // State for the row being edited inline: its ID and the draft values.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<EditableFields | null>(null);
+  // State to indicate saving, and to hold any error message from saving.
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Admins are WordPress administrators or members with the Nexus 'admin' role.
+  // The backend enforces this too; here it only decides which controls to show.
+  const currentMember = members.find((member) => member.ID === user?.id);
+  const isAdmin = user ? getCapabilities(user.roles, currentMember?.role).includes('manage_team') : false;
+
+  /**
+   * Sends a partial update for one member and replaces it in the list.
+   * @param {number} memberId - The member to update.
+   * @param {TeamMemberUpdate} changes - The fields to change.
+   */
+  const saveMember = async (memberId: number, changes: TeamMemberUpdate): Promise<boolean> => {
+    setSavingId(memberId);
+    setSaveError(null);
+    try {
+      const updated = await api.teamMembers.update(memberId, changes);
+      // The update refetches the list; show the saved member until the refetch completes.
+      cache.setData<TeamMember[]>(['team-members'], (prev) => prev?.map((member) => (member.ID === memberId ? updated : member)));
+      return true;
+    } catch (err) {
+      console.error('Error updating team member:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to update team member.');
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  /**
+   * Starts editing a row inline.
+   * @param {TeamMember} member - The member to edit.
+   */
+  const startEditing = (member: TeamMember) => {
+    setEditingId(member.ID);
+    setDraft({ role: member.role, hourly_cost_rate: member.hourly_cost_rate, billable_rate: member.billable_rate });
+  };
+
+  /**
+   * Saves the inline edit. Empty rates are sent as null.
+   */
+  const handleSaveEdit = async () => {
+    if (editingId === null || !draft) return;
+    const saved = await saveMember(editingId, {
+      role: draft.role,
+      hourly_cost_rate: draft.hourly_cost_rate || null,
+      billable_rate: draft.billable_rate || null,
+    });
+    if (saved) {
+      setEditingId(null);
+      setDraft(null);
+    }
+  };
+
+  /**
+   * Activates or deactivates a member. Deactivating asks for confirmation first.
+   * @param {TeamMember} member - The member to toggle.
+   */
+  const handleToggleActive = (member: TeamMember) => {
+    if (member.active === 1 && !window.confirm(`Deactivate ${member.name}? They will lose access to Nexus.`)) {
+      return;
+    }
+    saveMember(member.ID, { active: member.active === 1 ? 0 : 1 });
+  };
+
+  // --- Render Logic ---
+
+  const error = saveError ?? fetchError;
+
+  if (loading) {
+    return <p>Loading team members...</p>;
+  }
+
+  return (
+    <div className="company-table-container team-member-table-container">
+      <h2>Team Members</h2>
+      <div className="list-toolbar">
+        {isAdmin && onInvite && (
+          <button type="button" className="table-action-button" onClick={onInvite}>
+            Invite Member
+          </button>
+        )}
+        <ExportMenu title="Team Members" fileName={{ list: 'team-members' }} columns={EXPORT_COLUMNS} rows={members} />
+      </div>
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+
+      {members.length === 0 ? (
+        <p>No team members found.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Email</th>
+              <th>Role</th>
+              <th>Hourly Cost Rate</th>
+              <th>Billable Rate</th>
+              <th>Status</th>
+              {isAdmin && <th>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => {
+              const isEditingRow = editingId === member.ID && draft !== null;
+              const isSaving = savingId === member.ID;
+              return (
+                <tr key={member.ID}>
+                  <td>{member.name}</td>
+                  <td>{member.email}</td>
+                  <td>
+                    {isEditingRow ? (
+                      <select value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as TeamRole })} disabled={isSaving} aria-label="Role">
+                        <option value="member">Member</option>
+                        <option value="manager">Manager</option>
+                        <option value="admin">Admin</option>
+                      </select>
+                    ) : (
+                      member.role.charAt(0).toUpperCase() + member.role.slice(1)
+                    )}
+                  </td>
+                  <td className="money-cell">
+                    {isEditingRow ? (
+                      <input type="number" step="0.01" min="0" value={draft.hourly_cost_rate ?? ''} onChange={(e) => setDraft({ ...draft, hourly_cost_rate: e.target.value })} disabled={isSaving} aria-label="Hourly cost rate" />
+                    ) : (
+                      member.hourly_cost_rate ? formatMoney(member.hourly_cost_rate) : '-'
+                    )}
+                  </td>
+                  <td className="money-cell">
+                    {isEditingRow ? (
+                      <input type="number" step="0.01" min="0" value={draft.billable_rate ?? ''} onChange={(e) => setDraft({ ...draft, billable_rate: e.target.value })} disabled={isSaving} aria-label="Billable rate" />
+                    ) : (
+                      member.billable_rate ? formatMoney(member.billable_rate) : '-'
+                    )}
+                  </td>
+                  <td>{member.invitation_pending === 1 ? 'Invited' : member.active === 1 ? 'Active' : 'Inactive'}</td>
+                  {isAdmin && (
+                    <td className="row-actions">
+                      {isEditingRow ? (
+                        <>
+                          <button type="button" className="table-action-button" onClick={handleSaveEdit} disabled={isSaving}>
+                            {isSaving ? 'Saving...' : 'Save'}
+                          </button>
+                          <button type="button" className="table-action-button" onClick={() => { setEditingId(null); setDraft(null); }} disabled={isSaving}>
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button type="button" className="table-action-button" onClick={() => startEditing(member)} disabled={isSaving}>
+                            Edit
+                          </button>
+                          {/* Admins can't deactivate themselves, to avoid locking everyone out */}
+                          {member.ID !== user?.id && (
+                            <button type="button" className={`table-action-button${member.active === 1 ? ' danger-button' : ''}`} onClick={() => handleToggleActive(member)} disabled={isSaving}>
+                              {member.active === 1 ? 'Deactivate' : 'Activate'}
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TeamMemberTable;
@@ -0,0 +1,165 @@
+/**
+ * Time Entry Form Component.
+ *
+ * This component provides a form for manually adding a time entry.
+ * - Its fields and validation are described in `timeEntrySchema` (see src/forms/).
+ * - Time can be entered either as a start and end time, or as a duration.
+ * - It fetches the projects list to fill the project picker.
+ * - The entry can be attributed to any team member; it defaults to the logged-in user.
+ * It sends the data to the custom '/wp-json/nexus/v1/time-entries' REST API endpoint using POST.
+ * Field-level validation messages returned by the backend are shown on their fields.
+ * It includes loading, error, and success states, and calls callbacks on success or cancel.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to default the member to the current user
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useSchemaForm from '../hooks/useSchemaForm'; // Import the schema-driven form state
+import SchemaFormFields from './SchemaFormFields'; // Import the schema-driven inputs
+import { TimeEntry, TimeEntryInput } from '../api/types'; // Import the shared API types
+import { toDateInputValue } from '../utils/format'; // Import date formatting helper
+import { TimeEntryFormValues, timeEntrySchema } from '../forms/timeEntrySchema';
+import { createFormValues } from '../forms/schema';
+
+// Define the interface for the component's props
+interface TimeEntryFormProps {
+  // Optional callback function to be called after a time entry is successfully created.
+  onTimeEntryCreated?: (entry: TimeEntry) => void;
+  // Optional callback function to be called when the user cancels the form.
+  onCancel?: () => void;
+}
+
+// The empty state of the form. The date defaults to today and the member to the given user.
+const createEmptyFormData = (userId: string): TimeEntryFormValues =>
+  createFormValues(timeEntrySchema, undefined, { user_id: userId, entry_date: toDateInputValue(new Date()) });
+
+/**
+ * Converts an 'HH:MM' string into minutes since midnight.
+ * @param {string} value - The time input value.
+ */
+const toMinutes = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Renders a form to add a time entry manually.
+ * @param {TimeEntryFormProps} props - The component's props.
+ */
+const TimeEntryForm: React.FC<TimeEntryFormProps> = ({ onTimeEntryCreated, onCancel }) => {
+  // The logged-in user, who the entry is attributed to by default.
+  const { user } = useAuth();
+  const defaultUserId = user ? String(user.id) : '';
+
+  // State to manage the values and validation messages of the form fields, including how the time is entered.
+  const form = useSchemaForm(timeEntrySchema, () => createEmptyFormData(defaultUserId));
+  const formData = form.values; // The current values, read to compute the duration and build the request
+  // Read the projects available in the project picker through the shared query cache.
+  const { data: projects = [], error: projectsError } = useQuery(['projects'], (client) => client.projects.list());
+
+  // State to indicate if the form submission is currently in progress.
+  const [loading, setLoading] = useState(false);
+  // State to hold any error message that occurs during submission.
+  const [error, setError] = useState<string | null>(null);
+  // State to hold a success message after successful submission.
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get the typed API client.
+  const api = useApiClient();
+
+  // The duration in minutes described by the current inputs (0 if incomplete or invalid).
+  const durationMinutes = formData.mode === 'range'
+    ? (formData.start && formData.end ? toMinutes(formData.end) - toMinutes(formData.start) : 0)
+    : Number(formData.hours || 0) * 60 + Number(formData.minutes || 0);
+
+  /**
+   * Handles the form submission event.
+   * Validates the duration and sends the time entry to the backend API.
+   * @param {React.FormEvent} event - The form submission event.
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault(); // Prevent the default browser form submission (page reload)
+
+    setError(null);
+    setSuccess(null);
+
+    if (!form.validate()) {
+      setError('Please correct the highlighted fields.');
+      return;
+    }
+    if (durationMinutes <= 0) {
+      setError(formData.mode === 'range' ? 'End time must be after start time.' : 'Duration must be greater than zero.');
+      return;
+    }
+
+    setLoading(true);
+
+    const payload: TimeEntryInput = {
+      user_id: Number(formData.user_id),
+      project_id: Number(formData.project_id),
+      entry_date: formData.entry_date,
+      // Start and end are only sent for range entries, as DATETIME strings.
+      start_time: formData.mode === 'range' ? `${formData.entry_date} ${formData.start}:00` : null,
+      end_time: formData.mode === 'range' ? `${formData.entry_date} ${formData.end}:00` : null,
+      duration_minutes: durationMinutes,
+      description: formData.description,
+      billable: formData.billable ? 1 : 0,
+    };
+
+    try {
+      const createdEntry = await api.timeEntries.create(payload);
+
+      console.log('Time entry created successfully:', createdEntry);
+      setSuccess('Time entry saved successfully!');
+      form.reset(createEmptyFormData(defaultUserId));
+
+      if (onTimeEntryCreated) {
+        onTimeEntryCreated(createdEntry);
+      }
+    } catch (err) {
+      console.error('Error creating time entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save time entry.');
+      // Show the backend's field messages (e.g. from a 'rest_invalid_param' error) on their fields.
+      form.applyApiError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Render the form UI. It reuses the company form styling.
+  return (
+    <div className="company-form-container">
+      <h2>Add Time Entry</h2>
+
+      {/* Display loading, error, or success messages conditionally */}
+      {loading && <p>Saving time entry...</p>}
+      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      {projectsError && <p style={{ color: 'red' }}>Error: {projectsError}</p>}
+      {success && <p style={{ color: 'green' }}>Success: {success}</p>}
+
+      {/* The schema validates the fields, so the browser's own checks are off. */}
+      <form onSubmit={handleSubmit} className="company-form" noValidate>
+        {/* The project picker is filled from the projects endpoint */}
+        <SchemaFormFields
+          form={form}
+          options={{ project_id: projects.map((project) => ({ value: String(project.ID), label: project.name })) }}
+          disabled={loading}
+        />
+
+        {/* Action buttons for the form */}
+        <div className="form-actions">
+          <button type="submit" disabled={loading}>
+            {loading ? 'Saving...' : 'Save Time Entry'}
+          </button>
+          {onCancel && (
+            <button type="button" onClick={onCancel} disabled={loading}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TimeEntryForm;
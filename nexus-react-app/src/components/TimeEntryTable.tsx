@@ -0,0 +1,166 @@
+/**
+ * Time Entry Table Component.
+ *
+ * This component fetches and displays time entries from the
+ * custom '/wp-json/nexus/v1/time-entries' REST API endpoint in a table format.
+ * - It filters by date range, project and team member on the server
+ *   (query parameters `from`, `to`, `project_id`, `user_id`).
+ * - It shows the total duration of the listed entries.
+ * It reads the entries through the shared query cache (`useQuery`), so new entries show up without a manual refresh.
+ * The rows are rendered by DataTable, so columns can be configured and sorted, saved
+ * as views together with the filters, and exported. Export files are named after the date range,
+ * and after the company of the selected project.
+ */
+import React, { useMemo, useState } from 'react'; // Import React hooks
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import TeamMemberSelect from './TeamMemberSelect'; // Import the team member picker
+import DataTable, { DataTableColumn } from './DataTable'; // Import the configurable table
+import { formatMinutes, toDateInputValue } from '../utils/format'; // Import formatting helpers
+import { TableView, TimeEntry } from '../api/types';
+
+/**
+ * Returns the first day of the current week (Monday) as a 'YYYY-MM-DD' string.
+ */
+const startOfWeek = (): string => {
+  const date = new Date();
+  const day = (date.getDay() + 6) % 7; // Monday = 0
+  date.setDate(date.getDate() - day);
+  return toDateInputValue(date);
+};
+
+/**
+ * Formats the time of a DATETIME string as 'HH:MM', or '-' if empty.
+ * @param {string | null} value - The DATETIME string.
+ */
+const formatTime = (value: string | null): string => (value ? value.slice(11, 16) : '-');
+
+/**
+ * Fetches and displays a filterable table of time entries.
+ */
+const TimeEntryTable: React.FC = () => {
+  // Filter state. Dates default to the current week.
+  const [fromDate, setFromDate] = useState(startOfWeek);
+  const [toDate, setToDate] = useState(() => toDateInputValue(new Date()));
+  const [projectId, setProjectId] = useState('');
+  const [memberId, setMemberId] = useState('');
+
+  // Read the projects through the shared query cache, for the filter and the project column.
+  const { data: projectData } = useQuery(['projects'], (api) => api.projects.list());
+  const projects = useMemo(() => projectData ?? [], [projectData]);
+  // Read the companies too, to name export files after the selected project's company.
+  const { data: companies } = useQuery(['companies'], (api) => api.companies.list());
+
+  // Read the time entries for the server-side filters; each filter combination is cached separately.
+  // Empty filters are left out of the query string. Saving a time entry (e.g., from the header timer)
+  // refetches them automatically.
+  const params = { from: fromDate, to: toDate, project_id: projectId, user_id: memberId };
+  const { data: entries = [], loading, error } = useQuery(['time-entries', params], (api) => api.timeEntries.list(params));
+
+  // Map project IDs to names for display.
+  const projectNames = useMemo(
+    () => Object.fromEntries(projects.map((project) => [project.ID, project.name])) as Record<number, string>,
+    [projects]
+  );
+
+  // Total duration of the listed entries.
+  const totalMinutes = entries.reduce((sum, entry) => sum + Number(entry.duration_minutes), 0);
+
+  // The company of the selected project, if any.
+  const selectedProject = projects.find((project) => String(project.ID) === projectId);
+  const companyName = selectedProject ? companies?.find((company) => company.ID === selectedProject.company_id)?.name : undefined;
+
+  // Applies a saved view's filters; filters the view does not have keep their current value.
+  const handleApplyView = (view: TableView) => {
+    setFromDate(view.filters.from ?? fromDate);
+    setToDate(view.filters.to ?? toDate);
+    setProjectId(view.filters.project_id ?? projectId);
+    setMemberId(view.filters.user_id ?? memberId);
+  };
+
+  // The table's columns, in default order. The totals are shown in the footer.
+  const columns: DataTableColumn<TimeEntry>[] = [
+    {
+      id: 'entry_date',
+      label: 'Date',
+      render: (entry) => entry.entry_date,
+      sortValue: (entry) => entry.entry_date,
+      footer: 'Total',
+      exportType: 'date',
+    },
+    {
+      id: 'project',
+      label: 'Project',
+      render: (entry) => projectNames[entry.project_id] || `#${entry.project_id}`,
+      sortValue: (entry) => projectNames[entry.project_id] || '',
+    },
+    {
+      id: 'user',
+      label: 'Team Member',
+      render: (entry) => entry.user_name || `User #${entry.user_id}`,
+      sortValue: (entry) => entry.user_name ?? '',
+    },
+    { id: 'start_time', label: 'Start', render: (entry) => formatTime(entry.start_time), sortValue: (entry) => entry.start_time ?? '' },
+    { id: 'end_time', label: 'End', render: (entry) => formatTime(entry.end_time), sortValue: (entry) => entry.end_time ?? '' },
+    {
+      id: 'duration',
+      label: 'Duration',
+      render: (entry) => formatMinutes(Number(entry.duration_minutes)),
+      sortValue: (entry) => Number(entry.duration_minutes),
+      footer: formatMinutes(totalMinutes),
+      // Exported as decimal hours, so spreadsheets can sum them.
+      exportValue: (entry) => Math.round((Number(entry.duration_minutes) / 60) * 100) / 100,
+      exportType: 'number',
+      exportLabel: 'Duration (hours)',
+    },
+    { id: 'billable', label: 'Billable', render: (entry) => (entry.billable === 1 ? 'Yes' : 'No'), sortValue: (entry) => entry.billable },
+    { id: 'description', label: 'Description', render: (entry) => entry.description || '-' },
+  ];
+
+  return (
+    <div className="company-table-container time-entry-table-container">
+      <h2>Time Entries</h2>
+
+      {/* Filter controls */}
+      <div className="table-filters">
+        <label>
+          From:
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} max={toDate || undefined} />
+        </label>
+        <label>
+          To:
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} min={fromDate || undefined} />
+        </label>
+        <label>
+          Project:
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)}>
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.ID} value={project.ID}>{project.name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Team Member:
+          <TeamMemberSelect value={memberId} onChange={setMemberId} emptyLabel="All members" />
+        </label>
+      </div>
+
+      {/* Loading, error, empty, or table states */}
+      <DataTable
+        tableId="time-entries"
+        columns={columns}
+        rows={entries}
+        rowKey={(entry) => entry.ID}
+        loading={loading}
+        error={error}
+        loadingMessage="Loading time entries..."
+        emptyMessage="No time entries found for these filters."
+        filters={{ from: fromDate, to: toDate, project_id: projectId, user_id: memberId }}
+        onApplyView={handleApplyView}
+        exportOptions={{ title: 'Time Entries', fileName: { company: companyName, from: fromDate, to: toDate } }}
+      />
+    </div>
+  );
+};
+
+export default TimeEntryTable;
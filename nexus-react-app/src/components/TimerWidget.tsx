@@ -0,0 +1,144 @@
+/**
+ * Timer Widget Component.
+ *
+ * Renders the running time entry timer in the dashboard header.
+ * - Start, pause/resume and stop the timer, and assign it to a project.
+ * - The timer state lives in the `useTimer` hook, which persists it in Local Storage,
+ *   so it survives page reloads and an expired session.
+ * - Stopping saves a time entry to '/wp-json/nexus/v1/time-entries'. It is saved like a
+ *   duration-only entry (no start and end time): the running time leaves out pauses, so no single
+ *   start and end would match it, and a retried save would end at the retry time. If saving fails
+ *   (e.g., the session expired), the timer stays paused so no hours are lost and
+ *   the user can stop it again after logging back in. Saving refetches the time entry lists
+ *   through the shared query cache.
+ */
+import React, { useState } from 'react'; // Import useState hook
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to get the current user
+import useApiClient from '../hooks/useApiClient'; // Import the typed API client hook
+import useQuery from '../hooks/useQuery'; // Import the cached read hook
+import useTimer from '../hooks/useTimer'; // Import the persistent timer hook
+import { formatClock, toDateInputValue } from '../utils/format'; // Import formatting helpers
+
+/**
+ * Renders the start/pause/stop timer.
+ */
+const TimerWidget: React.FC = () => {
+  const { user } = useAuth();
+  const api = useApiClient();
+  const { timer, elapsedMs, start, pause, resume, update, discard } = useTimer(user ? user.id : null);
+
+  // Read the projects the timer can be assigned to through the shared query cache.
+  const { data: projects = [] } = useQuery(['projects'], (client) => client.projects.list());
+  // The project picked before the timer is started, passed to it on start.
+  const [nextProjectId, setNextProjectId] = useState<number | null>(null);
+  // State to indicate if the time entry is being saved.
+  const [saving, setSaving] = useState(false);
+  // State to hold any error message from saving.
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Stops the timer and saves it as a time entry.
+   * The timer is paused first, so the elapsed time is frozen while saving.
+   */
+  const handleStop = async () => {
+    if (!timer) return;
+
+    if (timer.projectId === null) {
+      setError('Assign a project before stopping the timer.');
+      return;
+    }
+
+    pause();
+    setSaving(true);
+    setError(null);
+
+    try {
+      await api.timeEntries.create({
+        project_id: timer.projectId,
+        entry_date: toDateInputValue(new Date(timer.startedAt)),
+        start_time: null,
+        end_time: null,
+        // Round to whole minutes, but never save a zero-length entry.
+        duration_minutes: Math.max(1, Math.round(elapsedMs / 60000)),
+        description: timer.description,
+        billable: 1,
+      });
+
+      console.log('Timer saved as time entry.');
+      discard();
+    } catch (err) {
+      // Keep the paused timer so the hours can be saved later.
+      console.error('Error saving timer:', err);
+      setError(err instanceof Error ? `${err.message} The timer was kept.` : 'Failed to save the timer. It was kept.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Throws the timer away after asking the user for confirmation.
+   */
+  const handleDiscard = () => {
+    if (window.confirm('Discard this timer? The tracked time will not be saved.')) {
+      discard();
+      setError(null);
+    }
+  };
+
+  return (
+    <div className={`timer-widget${timer?.status === 'running' ? ' timer-running' : ''}`}>
+      {/* Running clock */}
+      <span className="timer-clock" aria-live="off">{formatClock(elapsedMs)}</span>
+
+      {/* Project assignment, possible before starting or while the timer runs */}
+      <select
+        value={(timer ? timer.projectId : nextProjectId) ?? ''}
+        onChange={(e) => {
+          const projectId = e.target.value ? Number(e.target.value) : null;
+          if (timer) {
+            update({ projectId });
+          } else {
+            setNextProjectId(projectId);
+          }
+        }}
+        disabled={saving}
+        aria-label="Timer project"
+      >
+        <option value="">No project</option>
+        {projects.map((project) => (
+          <option key={project.ID} value={project.ID}>{project.name}</option>
+        ))}
+      </select>
+
+      {timer && (
+        <input
+          type="text"
+          value={timer.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="What are you working on?"
+          disabled={saving}
+          aria-label="Timer description"
+        />
+      )}
+
+      {/* Controls */}
+      {!timer && <button type="button" onClick={() => start(nextProjectId)}>Start</button>}
+      {timer?.status === 'running' && <button type="button" onClick={pause} disabled={saving}>Pause</button>}
+      {timer?.status === 'paused' && <button type="button" onClick={resume} disabled={saving}>Resume</button>}
+      {timer && (
+        <button type="button" onClick={handleStop} disabled={saving}>
+          {saving ? 'Saving...' : 'Stop'}
+        </button>
+      )}
+      {timer && (
+        <button type="button" className="timer-discard" onClick={handleDiscard} disabled={saving} aria-label="Discard timer">
+          ×
+        </button>
+      )}
+
+      {error && <span className="timer-error">{error}</span>}
+    </div>
+  );
+};
+
+export default TimerWidget;
@@ -0,0 +1,136 @@
+/**
+ * Application Configuration.
+ *
+ * The single source of truth for where the WordPress backend lives.
+ * - Build-time defaults come from Vite env variables (see `.env.example`):
+ *   `VITE_WP_API_URL`, `VITE_NEXUS_NAMESPACE`, `VITE_JWT_NAMESPACE` and `VITE_CONFIG_URL`.
+ * - At startup, `loadRuntimeConfig()` fetches a served config JSON (default '/config.json')
+ *   whose values override the build-time ones, so one build can point at any WordPress site.
+ * - The runtime config may list several `servers`; the login screen then offers a selector,
+ *   and the chosen server is remembered in Local Storage.
+ * Code that talks to WordPress builds its URLs with `nexusUrl`, `jwtUrl` and `wpUrl`.
+ */
+
+// A WordPress install the app can connect to.
+export interface ServerOption {
+  label: string; // Name shown in the login screen's server selector
+  url: string; // Base URL of the WordPress site, e.g. 'https://timegrow.example.com'
+}
+
+// The resolved configuration.
+export interface AppConfig {
+  wpApiUrl: string; // Base URL of the default WordPress site
+  nexusNamespace: string; // REST namespace of the Nexus endpoints
+  jwtNamespace: string; // REST namespace of the JWT authentication plugin
+  servers: ServerOption[]; // Optional list of sites to choose from on the login screen
+}
+
+// Local Storage key for the server selected on the login screen.
+const SELECTED_SERVER_KEY = 'nexus_server_url';
+
+// Removes trailing slashes, so URLs can be joined with '/'.
+const trimSlashes = (value: string): string => value.replace(/\/+$/, '');
+
+// The build-time configuration, read from the Vite env variables.
+let config: AppConfig = {
+  wpApiUrl: trimSlashes(import.meta.env.VITE_WP_API_URL || 'http://localhost:10003'),
+  nexusNamespace: import.meta.env.VITE_NEXUS_NAMESPACE || 'nexus/v1',
+  jwtNamespace: import.meta.env.VITE_JWT_NAMESPACE || 'jwt-auth/v1',
+  servers: [],
+};
+
+/**
+ * Returns the string value of a runtime config field, or undefined if it is missing or empty.
+ * @param {unknown} value - The field from the config JSON.
+ */
+const readString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/**
+ * Fetches the runtime config JSON and merges it over the build-time configuration.
+ * A missing or invalid file is not an error: the build-time configuration is kept.
+ * Call this once before rendering the app.
+ */
+export const loadRuntimeConfig = async (): Promise<void> => {
+  const configUrl = import.meta.env.VITE_CONFIG_URL || '/config.json';
+
+  try {
+    const response = await fetch(configUrl, { cache: 'no-store' });
+    // The dev server answers unknown paths with index.html, so check the content type too.
+    if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+      console.log(`No runtime config found at ${configUrl}, using build-time configuration.`);
+      return;
+    }
+
+    const data = await response.json();
+    const servers: ServerOption[] = Array.isArray(data.servers)
+      ? data.servers
+          .filter((server: unknown): server is ServerOption =>
+            !!server && !!readString((server as ServerOption).url))
+          .map((server: ServerOption) => ({
+            label: readString(server.label) ?? server.url,
+            url: trimSlashes(server.url.trim()),
+          }))
+      : [];
+
+    config = {
+      wpApiUrl: trimSlashes(readString(data.wpApiUrl) ?? servers[0]?.url ?? config.wpApiUrl),
+      nexusNamespace: readString(data.nexusNamespace) ?? config.nexusNamespace,
+      jwtNamespace: readString(data.jwtNamespace) ?? config.jwtNamespace,
+      servers,
+    };
+    console.log('Runtime config loaded:', config);
+  } catch (err) {
+    console.warn(`Failed to load runtime config from ${configUrl}, using build-time configuration.`, err);
+  }
+};
+
+/**
+ * Returns the resolved configuration.
+ */
+export const getConfig = (): AppConfig => config;
+
+/**
+ * Returns the base URL of the WordPress site the app currently talks to:
+ * the server selected on the login screen if it is still configured, otherwise the default.
+ */
+export const getApiBaseUrl = (): string => {
+  try {
+    const selected = localStorage.getItem(SELECTED_SERVER_KEY);
+    if (selected && config.servers.some((server) => server.url === selected)) {
+      return selected;
+    }
+  } catch (error) {
+    console.error('Failed to read the selected server from localStorage:', error);
+  }
+  return config.wpApiUrl;
+};
+
+/**
+ * Remembers the server chosen on the login screen.
+ * @param {string} url - The base URL of one of the configured servers.
+ */
+export const setSelectedServer = (url: string): void => {
+  try {
+    localStorage.setItem(SELECTED_SERVER_KEY, url);
+  } catch (error) {
+    console.error('Failed to store the selected server in localStorage:', error);
+  }
+};
+
+/**
+ * Builds the URL of a REST route, e.g. restUrl('wp/v2', 'users/me').
+ * @param {string} namespace - The REST namespace.
+ * @param {string} path - The route path (may include a query string).
+ */
+export const restUrl = (namespace: string, path: string): string =>
+  `${getApiBaseUrl()}/wp-json/${namespace}/${path.replace(/^\/+/, '')}`;
+
+// URL of an endpoint in the Nexus namespace, e.g. nexusUrl('companies').
+export const nexusUrl = (endpoint: string): string => restUrl(config.nexusNamespace, endpoint);
+
+// URL of an endpoint of the JWT authentication plugin, e.g. jwtUrl('auth').
+export const jwtUrl = (path: string): string => restUrl(config.jwtNamespace, path);
+
+// URL of a WordPress core endpoint, e.g. wpUrl('users/me').
+export const wpUrl = (path: string): string => restUrl('wp/v2', path);
@@ -0,0 +1,15 @@
+/**
+ * Expense Constants.
+ *
+ * Values shared by the expense form and the expense list.
+ */
+
+// Categories offered for expenses.
+export const EXPENSE_CATEGORIES = ['Travel', 'Meals', 'Lodging', 'Software', 'Equipment', 'Supplies', 'Other'];
+
+// Currencies offered for expenses, as ISO 4217 codes. The first one is the default.
+export const EXPENSE_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'MXN'];
+
+// Receipt uploads: accepted file types and the maximum size in bytes.
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
@@ -0,0 +1,33 @@
+/**
+ * Overview Widgets.
+ *
+ * The cards the overview page offers (see `OverviewWidget` in src/api/types.ts),
+ * and the layout shown until the user arranges their own.
+ */
+import { OverviewWidget, OverviewWidgetType } from '../api/types';
+
+// A kind of card, as offered in the overview's "Add card" menu.
+export interface OverviewWidgetInfo {
+  title: string;
+  description: string;
+  width: OverviewWidget['width']; // The size a new card starts with
+  height: OverviewWidget['height'];
+}
+
+export const OVERVIEW_WIDGETS: Record<OverviewWidgetType, OverviewWidgetInfo> = {
+  'hours-this-week': { title: 'Hours this week', description: 'Your hours since Monday, and how many are billable', width: 1, height: 1 },
+  'running-timer': { title: 'Timer', description: 'The running timer, with pause and resume', width: 1, height: 1 },
+  'unbilled-amount': { title: 'Unbilled this month', description: "The value of this month's billable time and expenses", width: 1, height: 1 },
+  'recent-companies': { title: 'Recent companies', description: 'The companies added or changed most recently', width: 1, height: 2 },
+  'top-projects': { title: 'Top projects', description: 'The projects with the most hours this month', width: 2, height: 2 },
+  'pinned-query': { title: 'Pinned query', description: 'The answer to a query, refreshed whenever the overview opens', width: 2, height: 2 },
+};
+
+// The layout shown until the user changes it.
+export const DEFAULT_OVERVIEW_WIDGETS: OverviewWidget[] = [
+  { id: 'default-hours', type: 'hours-this-week', width: 1, height: 1 },
+  { id: 'default-timer', type: 'running-timer', width: 1, height: 1 },
+  { id: 'default-unbilled', type: 'unbilled-amount', width: 1, height: 1 },
+  { id: 'default-projects', type: 'top-projects', width: 2, height: 2 },
+  { id: 'default-companies', type: 'recent-companies', width: 1, height: 2 },
+];
@@ -0,0 +1,23 @@
+/**
+ * Query Templates.
+ *
+ * Phrasings the natural language query backend understands, suggested by the NexusInputBar
+ * as the user types. A template ending in '@' continues with a mention of a record.
+ */
+
+// A suggested query.
+export interface QueryTemplate {
+  text: string; // Inserted into the bar when picked
+  description: string; // What the query does
+}
+
+export const QUERY_TEMPLATES: QueryTemplate[] = [
+  { text: 'log 2h to @', description: 'Log time to a project' },
+  { text: 'show expenses for @', description: 'Expenses of a company, project or client' },
+  { text: 'show my hours by project this month', description: 'Your time, as a table or chart' },
+  { text: 'show company @', description: "Open a company's details" },
+  { text: 'list companies in ', description: 'Companies in a city or country' },
+  { text: 'list active projects for @', description: 'Projects of a company' },
+  { text: 'how much did we spend on travel this year', description: 'Expense totals by category' },
+  { text: 'create a company called ', description: 'Add a company, after you confirm' },
+];
@@ -5,6 +5,12 @@
  * It manages the application's authentication state (JWT token, user data, loading status).
  * - It reads the token from Local Storage on initialization for persistence.
  * - It includes functions to log in (set token, fetch user) and log out (clear token, clear user).
+ * - It decodes the token's expiry and tracks the session status:
+ *   shortly before expiry it refreshes the token silently if the backend supports it,
+ *   otherwise the status becomes 'expiring' so the SessionDialog can ask the user to log in again.
+ *   An expired token (or a 401 from the API) makes the status 'expired' without logging out,
+ *   so the current page and any unsaved form input survive the re-login.
+ * - It keeps all browser tabs on the same login through `storage` events on the token key.
  * - It provides a custom hook `useAuth` for easily accessing the context value in components.
  */
 import React, {
@@ -13,17 +19,30 @@ import React, {
   useContext,
   useEffect,
   useCallback,
+  useRef,
 } from 'react';
+import { wpUrl } from '../config'; // Import URL builder for the configured backend
+import { TOKEN_STORAGE_KEY, TokenRefreshUnsupportedError, getTokenExpiry, refreshToken } from '../utils/auth';
 
 // Define a basic interface for the user object fetched from the /users/me endpoint
 interface User {
   id: number;
   name: string;
+  roles: string[]; // WordPress roles, e.g. ['administrator']
   // Future expansions:
   // email?: string;
-  // roles?: string[];
 }
 
+// The outcome of loading the user for a token: the user, or why there is none.
+// 'rejected': the backend refused the token (401/403), so it is no longer valid.
+// 'unavailable': the request failed otherwise (network error, server error); the token may still be fine.
+type FetchUserResult = { user: User } | { error: 'rejected' | 'unavailable' };
+
+// The state of the current session.
+// 'active': the token is valid. 'expiring': it expires soon and could not be refreshed.
+// 'expired': it expired or was rejected by the API; the user must log in again.
+export type SessionStatus = 'active' | 'expiring' | 'expired';
+
 // Define the shape of the context value that will be provided
 interface AuthContextType {
   token: string | null;
@@ -32,64 +51,151 @@ interface AuthContextType {
   login: (newToken: string) => void;
   logout: () => void;
   loginError: string | null; // Added to track login or token validation errors
+  getToken: () => string | null; // Returns the current token; stable, so API helpers don't change when it is refreshed
+  expiresAt: number | null; // When the token expires (timestamp in ms), if it has an expiry
+  sessionStatus: SessionStatus;
+  markSessionExpired: () => void; // Called by the API layer when the backend rejects the token
 }
 
 // Create the Context with a default null value
 const AuthContext = createContext<AuthContextType | null>(null);
 
-// Environment config (you could later pull this from a .env file if needed)
-const WP_API_URL = 'http://localhost:10003';
+// How long before expiry the token is refreshed, or the user is warned.
+const SESSION_REFRESH_LEAD_MS = 5 * 60 * 1000;
+// How often the token's expiry is checked. An interval (rather than one long timeout)
+// also catches up correctly after the computer wakes from sleep.
+const SESSION_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Reads the token from Local Storage.
+ */
+const readStoredToken = (): string | null => {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to read token from localStorage:', error);
+    return null;
+  }
+};
 
 // AuthProvider Component
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [token, setToken] = useState<string | null>(() => localStorage.getItem('wp_jwt_token'));
+  const [token, setToken] = useState<string | null>(readStoredToken);
   const [user, setUser] = useState<User | null>(null);
   const [loadingUser, setLoadingUser] = useState(true);
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>('active');
+
+  // The current token, readable without re-rendering. It is updated together with the state,
+  // so API calls made right after a login or refresh already use the new token.
+  const tokenRef = useRef(token);
+
+  // Updates the token in state and in the ref, and resets the session status for a new token.
+  const applyToken = useCallback((newToken: string | null) => {
+    tokenRef.current = newToken;
+    setToken(newToken);
+    setSessionStatus('active');
+  }, []);
+
+  const getToken = useCallback(() => tokenRef.current, []);
 
   // Fetch user based on token
-  const fetchUser = useCallback(async (currentToken: string): Promise<User | null> => {
-    setLoadingUser(true);
+  const fetchUser = useCallback(async (currentToken: string): Promise<FetchUserResult> => {
     try {
-      const response = await fetch(`${WP_API_URL}/wp-json/wp/v2/users/me`, {
+      // 'context=edit' is needed for WordPress to include the user's roles.
+      const response = await fetch(wpUrl('users/me?context=edit'), {
         headers: {
           Authorization: `Bearer ${currentToken}`,
           'Content-Type': 'application/json',
         },
       });
 
+      if (response.status === 401 || response.status === 403) {
+        console.error('Failed to fetch user data. Token is invalid or expired.', response.status);
+        return { error: 'rejected' };
+      }
       if (!response.ok) {
-        console.error('Failed to fetch user data. Token might be invalid or expired.', response.status);
-        return null;
+        console.error('Failed to fetch user data.', response.status);
+        return { error: 'unavailable' };
       }
 
       const userData = await response.json();
       const mappedUser: User = {
         id: userData.id,
         name: userData.name || userData.slug,
+        roles: Array.isArray(userData.roles) ? userData.roles : [],
         // Add fields as needed (e.g., email: userData.email)
       };
 
       console.log('User data fetched successfully:', mappedUser);
-      return mappedUser;
+      return { user: mappedUser };
     } catch (err) {
       console.error('Error fetching user data:', err);
-      return null;
+      return { error: 'unavailable' };
+    }
+  }, []);
+
+  // Logout function
+  const logout = useCallback(() => {
+    console.log('Logout function called.');
+    try {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to remove token from localStorage:', error);
+    }
+    applyToken(null);
+    setUser(null);
+  }, [applyToken]);
+
+  // Login function. Also used after a re-login or a token refresh.
+  const login = useCallback((newToken: string) => {
+    console.log('Login function called with new token.');
+    try {
+      localStorage.setItem(TOKEN_STORAGE_KEY, newToken);
+      applyToken(newToken);
+      setLoginError(null);
+    } catch (error) {
+      console.error('Failed to store token in localStorage:', error);
+      setLoginError('Unable to store authentication data.');
+    }
+  }, [applyToken]);
+
+  // Marks the session as expired, e.g. after the API rejected the token.
+  // The user stays "logged in" so the page keeps its state while the SessionDialog asks for a re-login.
+  const markSessionExpired = useCallback(() => {
+    if (tokenRef.current) {
+      setSessionStatus('expired');
     }
   }, []);
 
+  // Load the user whenever the token changes.
+  // Only the first load shows the full-page loading state; later changes (login, refresh,
+  // another tab) update the user in the background so the current page stays mounted.
+  // Only a token the backend rejects logs the user out. If the request fails otherwise, e.g. the
+  // network drops right after a silent refresh, the user already loaded is kept; without one (the
+  // first load) the login page is shown, and the stored token is tried again on the next load.
   useEffect(() => {
-    console.log('Auth effect running. Current token:', token);
+    let cancelled = false;
 
     const initializeAuth = async () => {
       if (token) {
-        const fetchedUser = await fetchUser(token);
-        if (fetchedUser) {
-          setUser(fetchedUser);
+        const result = await fetchUser(token);
+        if (cancelled) return;
+        if ('user' in result) {
+          const fetchedUser = result.user;
+          // Keep the existing object when nothing changed, so consumers don't re-render.
+          setUser(prev => (
+            prev && prev.id === fetchedUser.id && prev.name === fetchedUser.name && prev.roles.join() === fetchedUser.roles.join()
+              ? prev
+              : fetchedUser
+          ));
           setLoginError(null);
-        } else {
+        } else if (result.error === 'rejected') {
           logout();
           setLoginError('Session expired. Please log in again.');
+        } else {
+          // The user (if any) is left as it is.
+          setLoginError('Could not load your account. Please check your connection and try again.');
         }
       } else {
         setUser(null);
@@ -98,32 +204,71 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
 
     initializeAuth();
-  }, [token, fetchUser]);
 
-  // Login function
-  const login = (newToken: string) => {
-    console.log('Login function called with new token:', newToken);
-    try {
-      localStorage.setItem('wp_jwt_token', newToken);
-      setToken(newToken);
-      setLoginError(null);
-    } catch (error) {
-      console.error('Failed to store token in localStorage:', error);
-      setLoginError('Unable to store authentication data.');
-    }
-  };
+    return () => {
+      cancelled = true;
+    };
+  }, [token, fetchUser, logout]);
 
-  // Logout function
-  const logout = () => {
-    console.log('Logout function called.');
-    try {
-      localStorage.removeItem('wp_jwt_token');
-    } catch (error) {
-      console.error('Failed to remove token from localStorage:', error);
-    }
-    setToken(null);
-    setUser(null);
-  };
+  // Track the token's expiry: refresh it shortly before it expires, or warn the user.
+  const expiresAt = token ? getTokenExpiry(token) : null;
+  useEffect(() => {
+    if (!token || !user || expiresAt === null) return;
+
+    // Only one refresh attempt per token.
+    let refreshAttempted = false;
+
+    const checkExpiry = async () => {
+      const remaining = expiresAt - Date.now();
+
+      if (remaining <= 0) {
+        setSessionStatus('expired');
+        return;
+      }
+      if (remaining > SESSION_REFRESH_LEAD_MS || refreshAttempted) return;
+
+      refreshAttempted = true;
+      try {
+        const newToken = await refreshToken(token);
+        console.log('Token refreshed before expiry.');
+        login(newToken);
+      } catch (err) {
+        if (err instanceof TokenRefreshUnsupportedError) {
+          console.log('Token refresh not supported by the backend; warning the user instead.');
+        } else {
+          console.error('Token refresh failed:', err);
+        }
+        setSessionStatus(prev => (prev === 'active' ? 'expiring' : prev));
+      }
+    };
+
+    checkExpiry();
+    const interval = setInterval(checkExpiry, SESSION_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, user, expiresAt, login]);
+
+  // Share login and logout between browser tabs.
+  // The 'storage' event fires in every other tab when the token key changes.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== TOKEN_STORAGE_KEY && event.key !== null) return;
+
+      const storedToken = readStoredToken();
+      if (storedToken === tokenRef.current) return;
+
+      if (storedToken) {
+        console.log('Token changed in another tab, updating session.');
+        applyToken(storedToken);
+      } else {
+        console.log('Logged out in another tab.');
+        applyToken(null);
+        setUser(null);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [applyToken]);
 
   const contextValue: AuthContextType = {
     token,
@@ -132,6 +277,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     login,
     logout,
     loginError,
+    getToken,
+    expiresAt,
+    sessionStatus,
+    markSessionExpired,
   };
 
   return (
@@ -0,0 +1,34 @@
+// src/context/QueryCacheContext.tsx
+/**
+ * Query Cache Provider.
+ *
+ * Creates the QueryCache shared by the whole app (see src/api/QueryCache.ts) and
+ * provides it to `useQuery` and `useApiClient`.
+ * Cached responses belong to the logged-in user, so the cache is cleared whenever
+ * the user changes (logout, or another user logging in, possibly in another tab).
+ * Silent user reloads after a token refresh keep the same user and the cache.
+ */
+import React, { ReactNode, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext'; // Import useAuth hook to follow the logged-in user
+import { QueryCache } from '../api/QueryCache';
+import { QueryCacheContext } from '../hooks/useQueryCache';
+
+/**
+ * Provides the shared query cache to its children.
+ * @param {object} props - The component's props.
+ * @param {ReactNode} props.children - The part of the app that can use the cache.
+ */
+export const QueryCacheProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  // One cache for the lifetime of the app.
+  const [cache] = useState(() => new QueryCache());
+
+  const userId = user?.id ?? null;
+
+  // The cleanup runs whenever the user changes, before the new user's pages fetch anything.
+  useEffect(() => {
+    return () => cache.clear();
+  }, [cache, userId]);
+
+  return <QueryCacheContext.Provider value={cache}>{children}</QueryCacheContext.Provider>;
+};
@@ -0,0 +1,53 @@
+/**
+ * Client Form Schema.
+ *
+ * The fields of `ClientForm`: the client's own details, the companies it is linked to
+ * (at least one) and its notes. The contact people are a repeating group of rows, which the
+ * form renders itself in the 'contacts' section (see `slots` in SchemaFormFields).
+ */
+import { FormSchema } from './types';
+import { email } from './validators';
+
+// The form values of a client. The linked companies are the IDs of the checked companies, as strings.
+export type ClientFormValues = {
+  name: string;
+  email: string;
+  phone: string;
+  status: string;
+  company_ids: string[];
+  notes: string;
+};
+
+export const clientSchema: FormSchema<ClientFormValues> = {
+  sections: [
+    {
+      id: 'client',
+      fields: [
+        { name: 'name', label: 'Name', type: 'text', required: true },
+        { name: 'email', label: 'Email', type: 'email', validators: [email()] },
+        { name: 'phone', label: 'Phone', type: 'tel' },
+        {
+          name: 'status',
+          label: 'Status',
+          type: 'select',
+          defaultValue: '1',
+          options: [
+            { value: '1', label: 'Active' },
+            { value: '0', label: 'Inactive' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'companies',
+      title: 'Companies',
+      // A client can belong to several companies; the options are loaded by the form.
+      fields: [{ name: 'company_ids', label: 'Linked Companies', type: 'checkboxes', required: 'Link the client to at least one company.' }],
+    },
+    { id: 'contacts', title: 'Contact People', fields: [] },
+    {
+      id: 'notes',
+      fields: [{ name: 'notes', label: 'Notes', type: 'textarea' }],
+    },
+  ],
+};
@@ -0,0 +1,85 @@
+/**
+ * Company Form Schema.
+ *
+ * The fields of `CompanyForm`, as stored in the `company_tracker` table, in four sections.
+ * Email, website and postal code (for the chosen country) are checked in the browser,
+ * and the default flat fee must be an amount of 0 or more.
+ */
+import { FormSchema } from './types';
+import { email, positiveMoney, postalCode, url } from './validators';
+
+// The form values of a company. Every column is edited as text; the status is '1' or '0'.
+export type CompanyFormValues = {
+  name: string;
+  legal_name: string;
+  document_number: string;
+  status: string;
+  contact_person: string;
+  email: string;
+  phone: string;
+  website: string;
+  address_1: string;
+  address_2: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  country: string;
+  default_flat_fee: string;
+  notes: string;
+};
+
+export const companySchema: FormSchema<CompanyFormValues> = {
+  sections: [
+    {
+      id: 'company',
+      fields: [
+        { name: 'name', label: 'Name', type: 'text', required: true },
+        { name: 'legal_name', label: 'Legal Name', type: 'text' },
+        { name: 'document_number', label: 'Document Number', type: 'text', help: 'Tax or registration number, e.g. VAT or EIN.' },
+        {
+          name: 'status',
+          label: 'Status',
+          type: 'select',
+          defaultValue: '1',
+          options: [
+            { value: '1', label: 'Active' },
+            { value: '0', label: 'Inactive' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'contact',
+      title: 'Contact',
+      columns: 2,
+      fields: [
+        // The company's own main contact; client contacts live on each client.
+        { name: 'contact_person', label: 'Contact Person', type: 'text' },
+        { name: 'email', label: 'Email', type: 'email', validators: [email()] },
+        { name: 'phone', label: 'Phone', type: 'tel' },
+        { name: 'website', label: 'Website', type: 'url', placeholder: 'https://example.com', validators: [url()] },
+      ],
+    },
+    {
+      id: 'address',
+      title: 'Address',
+      columns: 2,
+      fields: [
+        { name: 'address_1', label: 'Address Line 1', type: 'text' },
+        { name: 'address_2', label: 'Address Line 2', type: 'text' },
+        { name: 'city', label: 'City', type: 'text' },
+        { name: 'state', label: 'State', type: 'text' },
+        { name: 'postal_code', label: 'Postal Code', type: 'text', validators: [postalCode('country')] },
+        { name: 'country', label: 'Country', type: 'text', help: 'Name or code, e.g. United States or US.' },
+      ],
+    },
+    {
+      id: 'billing',
+      title: 'Billing',
+      fields: [
+        { name: 'default_flat_fee', label: 'Default Flat Fee', type: 'money', defaultValue: '0.00', validators: [positiveMoney({ allowZero: true })] },
+        { name: 'notes', label: 'Notes', type: 'textarea' },
+      ],
+    },
+  ],
+};
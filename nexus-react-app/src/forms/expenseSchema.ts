@@ -0,0 +1,60 @@
+/**
+ * Expense Form Schema.
+ *
+ * The fields of `ExpenseForm`. The amount must be greater than zero. The company and project
+ * pickers' options are loaded by the form; the receipt upload is rendered by the form itself
+ * in the 'receipt' section (see `slots` in SchemaFormFields).
+ */
+import { FormSchema } from './types';
+import { positiveMoney } from './validators';
+import { EXPENSE_CATEGORIES, EXPENSE_CURRENCIES } from '../constants/expenses';
+
+// The form values of an expense. The member, company and project are select values, as strings.
+export type ExpenseFormValues = {
+  user_id: string;
+  expense_date: string;
+  amount: string;
+  currency: string;
+  category: string;
+  company_id: string;
+  project_id: string;
+  billable: boolean;
+  notes: string;
+};
+
+export const expenseSchema: FormSchema<ExpenseFormValues> = {
+  sections: [
+    {
+      id: 'expense',
+      fields: [
+        { name: 'user_id', label: 'Team Member', type: 'teamMember', required: 'Select a team member.' },
+        { name: 'expense_date', label: 'Date', type: 'date', required: true },
+        { name: 'amount', label: 'Amount', type: 'money', required: true, validators: [positiveMoney()] },
+        {
+          name: 'currency',
+          label: 'Currency',
+          type: 'select',
+          defaultValue: EXPENSE_CURRENCIES[0],
+          options: EXPENSE_CURRENCIES.map((code) => ({ value: code, label: code })),
+        },
+        {
+          name: 'category',
+          label: 'Category',
+          type: 'select',
+          defaultValue: EXPENSE_CATEGORIES[0],
+          options: EXPENSE_CATEGORIES.map((name) => ({ value: name, label: name })),
+        },
+      ],
+    },
+    {
+      id: 'assignment',
+      fields: [
+        { name: 'company_id', label: 'Company', type: 'select', emptyOption: 'No company' },
+        { name: 'project_id', label: 'Project', type: 'select', emptyOption: 'No project' },
+        { name: 'billable', label: 'Billable', type: 'checkbox', defaultValue: true },
+        { name: 'notes', label: 'Notes', type: 'textarea' },
+      ],
+    },
+    { id: 'receipt', fields: [] },
+  ],
+};
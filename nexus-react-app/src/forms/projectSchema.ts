@@ -0,0 +1,101 @@
+/**
+ * Project Form Schema.
+ *
+ * The fields of `ProjectForm`. Only the rate of the chosen billing mode is shown
+ * (a flat fee or an hourly rate), and the end date can't be before the start date.
+ * The company picker's options are loaded by the form and passed to `SchemaFormFields`.
+ */
+import { FormSchema } from './types';
+import { nonNegativeNumber, notBefore, positiveMoney } from './validators';
+
+// The form values of a project. The company is the select value, kept as a string until submission.
+export type ProjectFormValues = {
+  company_id: string;
+  name: string;
+  description: string;
+  status: string;
+  billing_mode: string;
+  flat_fee: string;
+  hourly_rate: string;
+  budget: string;
+  estimated_hours: string;
+  start_date: string;
+  end_date: string;
+};
+
+export const projectSchema: FormSchema<ProjectFormValues> = {
+  sections: [
+    {
+      id: 'project',
+      fields: [
+        { name: 'company_id', label: 'Company', type: 'select', required: 'Select a company.', emptyOption: 'Select a company' },
+        { name: 'name', label: 'Name', type: 'text', required: true },
+        { name: 'description', label: 'Description', type: 'textarea' },
+        {
+          name: 'status',
+          label: 'Status',
+          type: 'select',
+          defaultValue: 'planned',
+          // In lifecycle order.
+          options: [
+            { value: 'planned', label: 'Planned' },
+            { value: 'active', label: 'Active' },
+            { value: 'on_hold', label: 'On Hold' },
+            { value: 'completed', label: 'Completed' },
+            { value: 'cancelled', label: 'Cancelled' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'billing',
+      title: 'Billing',
+      fields: [
+        {
+          name: 'billing_mode',
+          label: 'Billing Mode',
+          type: 'select',
+          defaultValue: 'hourly',
+          options: [
+            { value: 'flat_fee', label: 'Flat Fee' },
+            { value: 'hourly', label: 'Hourly' },
+            { value: 'non_billable', label: 'Non-billable' },
+          ],
+        },
+        {
+          name: 'flat_fee',
+          label: 'Flat Fee',
+          type: 'money',
+          defaultValue: '0.00',
+          validators: [positiveMoney({ allowZero: true })],
+          visible: (values) => values.billing_mode === 'flat_fee',
+        },
+        {
+          name: 'hourly_rate',
+          label: 'Hourly Rate',
+          type: 'money',
+          defaultValue: '0.00',
+          validators: [positiveMoney({ allowZero: true })],
+          visible: (values) => values.billing_mode === 'hourly',
+        },
+        { name: 'budget', label: 'Budget', type: 'money', validators: [positiveMoney({ allowZero: true })] },
+      ],
+    },
+    {
+      id: 'schedule',
+      title: 'Schedule',
+      columns: 2,
+      fields: [
+        { name: 'estimated_hours', label: 'Estimated Hours', type: 'number', min: '0', step: '0.25', validators: [nonNegativeNumber()] },
+        { name: 'start_date', label: 'Start Date', type: 'date' },
+        {
+          name: 'end_date',
+          label: 'End Date',
+          type: 'date',
+          min: (values) => values.start_date || undefined,
+          validators: [notBefore('start_date', 'the start date')],
+        },
+      ],
+    },
+  ],
+};
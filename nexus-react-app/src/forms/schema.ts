@@ -0,0 +1,104 @@
+/**
+ * Form Schema Helpers.
+ *
+ * Functions that read a `FormSchema` (see ./types.ts): the values of a new or existing record,
+ * which fields are shown, and validation. Used by `useSchemaForm`.
+ */
+import { FormField, FormSchema, FormValue, FormValues } from './types';
+
+/**
+ * Lists the fields of every section, in order.
+ * @param {FormSchema<V>} schema - The form schema.
+ */
+export const schemaFields = <V extends FormValues>(schema: FormSchema<V>): FormField<V>[] =>
+  schema.sections.flatMap((section) => section.fields);
+
+/**
+ * Whether a field is shown for the given values.
+ * @param {FormField<V>} field - The field.
+ * @param {V} values - The form values.
+ */
+export const isFieldVisible = <V extends FormValues>(field: FormField<V>, values: V): boolean =>
+  field.visible ? field.visible(values) : true;
+
+/**
+ * Returns a field's value for a new record: its default, or an empty value of its type.
+ * @param {FormField<V>} field - The field.
+ */
+const emptyValue = <V extends FormValues>(field: FormField<V>): FormValue => {
+  if (field.defaultValue !== undefined) return field.defaultValue;
+  if (field.type === 'checkbox') return false;
+  if (field.type === 'checkboxes') return [];
+  return '';
+};
+
+/**
+ * Converts a record's column onto a field value: null becomes the empty value, smallint
+ * flags (1/0) become checkbox booleans, IDs become strings.
+ * @param {FormField<V>} field - The field.
+ * @param {unknown} value - The record's value.
+ */
+const toFieldValue = <V extends FormValues>(field: FormField<V>, value: unknown): FormValue => {
+  if (value === null || value === undefined) return emptyValue(field);
+  if (field.type === 'checkbox') return Boolean(Number(value));
+  if (field.type === 'checkboxes') return Array.isArray(value) ? value.map(String) : [];
+  return String(value);
+};
+
+/**
+ * Builds the form values of a new record, or of an existing one to edit.
+ * Fields the record does not have (e.g. a time entry's start and end time inputs) get their default.
+ * @param {FormSchema<V>} schema - The form schema.
+ * @param {object} record - Optional record to edit, e.g. a `Company`.
+ * @param {Partial<V>} overrides - Optional values that replace the defaults, e.g. the current user's ID.
+ * @returns {V} The form values.
+ */
+export const createFormValues = <V extends FormValues>(schema: FormSchema<V>, record?: object, overrides: Partial<V> = {}): V => {
+  const columns = (record ?? {}) as Record<string, unknown>;
+  const values = Object.fromEntries(
+    schemaFields(schema).map((field) => [field.name, field.name in columns ? toFieldValue(field, columns[field.name]) : emptyValue(field)])
+  );
+  return { ...values, ...overrides } as V;
+};
+
+/**
+ * Whether a value is empty: blank text, an unchecked checkbox or an empty list.
+ * @param {FormValue} value - The field value.
+ */
+const isEmpty = (value: FormValue): boolean =>
+  typeof value === 'string' ? value.trim() === '' : Array.isArray(value) ? value.length === 0 : !value;
+
+/**
+ * Validates one field. Empty values are only checked against `required`.
+ * @param {FormField<V>} field - The field.
+ * @param {V} values - The form values.
+ * @returns {string | null} The first validation message, or null if the value is valid.
+ */
+export const validateField = <V extends FormValues>(field: FormField<V>, values: V): string | null => {
+  const value = values[field.name];
+  if (isEmpty(value)) {
+    if (!field.required) return null;
+    return typeof field.required === 'string' ? field.required : `${field.label} is required.`;
+  }
+  for (const validator of field.validators ?? []) {
+    const message = validator(value, values);
+    if (message) return message;
+  }
+  return null;
+};
+
+/**
+ * Validates every field that is shown.
+ * @param {FormSchema<V>} schema - The form schema.
+ * @param {V} values - The form values.
+ * @returns {Record<string, string>} The validation messages by field name; empty if the form is valid.
+ */
+export const validateForm = <V extends FormValues>(schema: FormSchema<V>, values: V): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  schemaFields(schema).forEach((field) => {
+    if (!isFieldVisible(field, values)) return;
+    const message = validateField(field, values);
+    if (message) errors[field.name] = message;
+  });
+  return errors;
+};
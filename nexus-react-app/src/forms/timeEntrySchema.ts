@@ -0,0 +1,93 @@
+/**
+ * Time Entry Form Schema.
+ *
+ * The fields of `TimeEntryForm`. Time is entered either as a start and end time or as a
+ * duration, so the `mode` radio decides which of those inputs are shown (and validated).
+ * That the resulting duration is greater than zero is checked by the form on submit.
+ * The backend names the times 'start_time'/'end_time' and the duration 'duration_minutes',
+ * so their 'rest_invalid_param' messages are mapped onto these inputs.
+ */
+import { FormSchema } from './types';
+import { nonNegativeNumber, notBefore } from './validators';
+
+// The form values of a time entry. Times are 'HH:MM', the duration is hours and minutes.
+export type TimeEntryFormValues = {
+  user_id: string;
+  project_id: string;
+  entry_date: string;
+  mode: string; // 'range' (start and end time) or 'duration'
+  start: string;
+  end: string;
+  hours: string;
+  minutes: string;
+  description: string;
+  billable: boolean;
+};
+
+// Whether time is entered as a start/end range.
+const isRange = (values: TimeEntryFormValues) => values.mode === 'range';
+
+export const timeEntrySchema: FormSchema<TimeEntryFormValues> = {
+  sections: [
+    {
+      id: 'entry',
+      fields: [
+        { name: 'user_id', label: 'Team Member', type: 'teamMember', required: 'Select a team member.' },
+        { name: 'project_id', label: 'Project', type: 'select', required: 'Select a project.', emptyOption: 'Select a project' },
+        { name: 'entry_date', label: 'Date', type: 'date', required: true },
+        {
+          name: 'mode',
+          label: 'Time',
+          type: 'radio',
+          defaultValue: 'range',
+          options: [
+            { value: 'range', label: 'Start / End' },
+            { value: 'duration', label: 'Duration' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'time',
+      columns: 2,
+      fields: [
+        { name: 'start', label: 'Start Time', type: 'time', required: true, visible: isRange },
+        {
+          name: 'end',
+          label: 'End Time',
+          type: 'time',
+          required: true,
+          visible: isRange,
+          validators: [notBefore('start', 'the start time', { allowEqual: false })],
+        },
+        {
+          name: 'hours',
+          label: 'Hours',
+          type: 'number',
+          min: '0',
+          step: '1',
+          visible: (values) => !isRange(values),
+          validators: [nonNegativeNumber()],
+        },
+        {
+          name: 'minutes',
+          label: 'Minutes',
+          type: 'number',
+          min: '0',
+          max: '59',
+          step: '1',
+          visible: (values) => !isRange(values),
+          validators: [nonNegativeNumber(), (value) => (Number(value) <= 59 ? null : 'Must be 59 or less.')],
+        },
+      ],
+    },
+    {
+      id: 'details',
+      fields: [
+        { name: 'description', label: 'Description', type: 'textarea' },
+        { name: 'billable', label: 'Billable', type: 'checkbox', defaultValue: true },
+      ],
+    },
+  ],
+  paramFields: { start_time: 'start', end_time: 'end', duration_minutes: 'hours' },
+};
@@ -0,0 +1,82 @@
+/**
+ * Form Schema Types.
+ *
+ * Forms are described by a `FormSchema`: their fields, grouped in layout sections, with each
+ * field's input type, validators and visibility. The schema is described once per entity
+ * (see e.g. ./companySchema.ts) and used by `useSchemaForm` for the state and validation,
+ * and by `SchemaFormFields` to render the inputs.
+ */
+import { ReactNode } from 'react';
+
+// The value of one field. Inputs are controlled, so text, number, date and select values are
+// strings; checkboxes are booleans, and checkbox lists are arrays of the checked option values.
+export type FormValue = string | boolean | string[];
+
+// The values of a form, by field name.
+export type FormValues = Record<string, FormValue>;
+
+// The input rendered for a field.
+export type FormFieldType =
+  | 'text'
+  | 'email'
+  | 'url'
+  | 'tel'
+  | 'textarea'
+  | 'number'
+  | 'money' // A number input with cents, e.g. '1500.00'
+  | 'date'
+  | 'time'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'checkboxes' // A list of checkboxes, one per option
+  | 'teamMember'; // The team member picker (TeamMemberSelect)
+
+// An option of a select, radio or checkbox list field.
+export interface FormOption {
+  value: string;
+  label: string;
+}
+
+// Checks a field's value; returns a message if it is invalid, otherwise null.
+// Empty values are only checked by `required`, so validators can assume a value is present.
+export type Validator<V extends FormValues> = (value: FormValue, values: V) => string | null;
+
+// A field of a form.
+export interface FormField<V extends FormValues> {
+  name: Extract<keyof V, string>; // The field's name, also its name in the API, e.g. 'legal_name'
+  label: string; // e.g. 'Legal Name'
+  type: FormFieldType;
+  // Whether the field needs a value. A string replaces the default "<Label> is required." message.
+  required?: boolean | string;
+  validators?: Validator<V>[];
+  // Whether the field is shown; hidden fields are not validated. Shown if not set.
+  visible?: (values: V) => boolean;
+  defaultValue?: FormValue; // The value of a new record; '' (false for checkboxes, [] for checkbox lists) if not set
+  options?: FormOption[]; // The options of select, radio and checkbox list fields, unless passed to SchemaFormFields
+  emptyOption?: string; // Label of the empty first option of a select, e.g. 'Select a company'
+  placeholder?: string;
+  help?: string; // A hint shown below the input
+  min?: string | ((values: V) => string | undefined); // For number, money, date and time inputs
+  max?: string;
+  step?: string;
+}
+
+// A group of fields, shown under an optional title.
+export interface FormSection<V extends FormValues> {
+  id: string; // Identifies the section, e.g. for content passed to SchemaFormFields' `slots`
+  title?: string;
+  fields: FormField<V>[];
+  columns?: 1 | 2; // Lays the fields out in two columns, e.g. for an address. One column if not set.
+}
+
+// A form: its sections, in order.
+export interface FormSchema<V extends FormValues> {
+  sections: FormSection<V>[];
+  // Backend parameter names that differ from a field's name, e.g. { start_time: 'start' },
+  // so their 'rest_invalid_param' messages are shown on that field.
+  paramFields?: Record<string, Extract<keyof V, string>>;
+}
+
+// Content shown after a section's fields, by section id (e.g. the contact rows of the client form).
+export type FormSlots = Record<string, ReactNode>;
@@ -0,0 +1,108 @@
+/**
+ * Form Validators.
+ *
+ * Reusable field checks for form schemas (see ./types.ts). Each function returns a `Validator`,
+ * so a schema lists them as e.g. `validators: [email()]`. Validators only run on fields that
+ * have a value; whether a value is needed at all is the field's `required` setting.
+ */
+import { FormValue, FormValues, Validator } from './types';
+
+// A loose email check; the backend validates the address itself too.
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Postal code formats of common countries, with an example for the message. The country field
+// is free text, so each format is found by its ISO code or its English name (lowercase).
+const POSTAL_CODE_FORMATS: { names: string[]; pattern: RegExp; example: string }[] = [
+  { names: ['us', 'usa', 'united states', 'united states of america'], pattern: /^\d{5}(-\d{4})?$/, example: '94105 or 94105-1234' },
+  { names: ['ca', 'canada'], pattern: /^[A-Za-z]\d[A-Za-z] ?\d[A-Za-z]\d$/, example: 'K1A 0B1' },
+  { names: ['gb', 'uk', 'united kingdom', 'great britain'], pattern: /^[A-Za-z]{1,2}\d[A-Za-z\d]? ?\d[A-Za-z]{2}$/, example: 'SW1A 1AA' },
+  { names: ['br', 'brazil', 'brasil'], pattern: /^\d{5}-?\d{3}$/, example: '01310-100' },
+  { names: ['pt', 'portugal'], pattern: /^\d{4}-\d{3}$/, example: '1100-148' },
+  { names: ['de', 'germany', 'deutschland'], pattern: /^\d{5}$/, example: '10115' },
+  { names: ['fr', 'france'], pattern: /^\d{5}$/, example: '75001' },
+  { names: ['es', 'spain', 'españa'], pattern: /^\d{5}$/, example: '28001' },
+  { names: ['it', 'italy', 'italia'], pattern: /^\d{5}$/, example: '00118' },
+  { names: ['nl', 'netherlands', 'the netherlands'], pattern: /^\d{4} ?[A-Za-z]{2}$/, example: '1012 AB' },
+  { names: ['au', 'australia'], pattern: /^\d{4}$/, example: '2000' },
+  { names: ['jp', 'japan'], pattern: /^\d{3}-?\d{4}$/, example: '100-0001' },
+  { names: ['in', 'india'], pattern: /^\d{6}$/, example: '110001' },
+];
+
+/**
+ * Returns a value as trimmed text; booleans and lists have no text.
+ * @param {FormValue} value - The field value.
+ */
+const asText = (value: FormValue): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Checks that a value is an email address.
+ */
+export const email = <V extends FormValues>(): Validator<V> => (value) =>
+  EMAIL_PATTERN.test(asText(value)) ? null : 'Enter a valid email address, e.g. name@example.com.';
+
+/**
+ * Checks that a value is a web address. The scheme may be left out ('example.com').
+ */
+export const url = <V extends FormValues>(): Validator<V> => (value) => {
+  const text = asText(value);
+  try {
+    const parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+    return ['http:', 'https:'].includes(parsed.protocol) && parsed.hostname.includes('.') ? null : 'Enter a valid web address, e.g. https://example.com.';
+  } catch {
+    return 'Enter a valid web address, e.g. https://example.com.';
+  }
+};
+
+/**
+ * Checks that a value is a postal code in the format of the country in another field.
+ * Codes of countries without a known format are not checked.
+ * @param {string} countryField - The name of the country field.
+ */
+export const postalCode = <V extends FormValues>(countryField: Extract<keyof V, string>): Validator<V> => (value, values) => {
+  const country = asText(values[countryField]).toLowerCase();
+  const format = POSTAL_CODE_FORMATS.find((candidate) => candidate.names.includes(country));
+  if (!format || format.pattern.test(asText(value))) return null;
+  return `Not a valid postal code for ${values[countryField]}, e.g. ${format.example}.`;
+};
+
+/**
+ * Checks that a value is an amount of money: a positive number with at most two decimals.
+ * @param {{ allowZero?: boolean }} options - Whether 0 is allowed (e.g. for a default fee).
+ */
+export const positiveMoney = <V extends FormValues>({ allowZero = false }: { allowZero?: boolean } = {}): Validator<V> => (value) => {
+  const text = asText(value);
+  const amount = Number(text);
+  if (!/^\d+(\.\d{1,2})?$/.test(text) || !Number.isFinite(amount)) {
+    return 'Enter an amount with up to two decimals, e.g. 1500.00.';
+  }
+  if (allowZero ? amount < 0 : amount <= 0) {
+    return allowZero ? 'Must be 0 or more.' : 'Must be greater than zero.';
+  }
+  return null;
+};
+
+/**
+ * Checks that a value is a number of 0 or more.
+ */
+export const nonNegativeNumber = <V extends FormValues>(): Validator<V> => (value) => {
+  const amount = Number(asText(value));
+  return Number.isFinite(amount) && amount >= 0 ? null : 'Must be a number of 0 or more.';
+};
+
+/**
+ * Checks that a date or time is not before the one in another field.
+ * Values are compared as text, which orders 'YYYY-MM-DD' dates and 'HH:MM' times correctly.
+ * @param {string} otherField - The name of the other field.
+ * @param {string} otherLabel - The other field's label, for the message, e.g. 'the start date'.
+ * @param {{ allowEqual?: boolean }} options - Whether the same date or time is allowed (true if not set).
+ */
+export const notBefore = <V extends FormValues>(
+  otherField: Extract<keyof V, string>,
+  otherLabel: string,
+  { allowEqual = true }: { allowEqual?: boolean } = {}
+): Validator<V> => (value, values) => {
+  const other = asText(values[otherField]);
+  const text = asText(value);
+  if (!other || text > other || (allowEqual && text === other)) return null;
+  return allowEqual ? `Cannot be before ${otherLabel}.` : `Must be after ${otherLabel}.`;
+};
@@ -0,0 +1,58 @@
+// src/hooks/useActions.ts
+/**
+ * Custom Hook for the Action Registry.
+ *
+ * Returns the registry actions the current user may run (see src/actions/registry.ts),
+ * and runs an action: actions with a `route` open it, others call their `run` handler.
+ * Actions needing a capability are left out for users without it.
+ */
+import { useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom'; // Import useNavigate to open the actions' routes
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook for the user's roles and logout
+import useQuery from './useQuery'; // Import the cached read hook, for the user's team role
+import { ACTIONS, getCapabilities } from '../actions/registry';
+import { ActionDefinition } from '../actions/types';
+
+// Define the interface for the return value of the hook
+interface UseActions {
+  actions: ActionDefinition[]; // The actions the user may run, in registry order
+  can: (action: ActionDefinition) => boolean; // Whether the user may run an action
+  run: (action: ActionDefinition) => void;
+}
+
+/**
+ * Custom hook to list and run the actions of the registry.
+ * @returns {UseActions} The available actions and the functions to check and run them.
+ */
+const useActions = (): UseActions => {
+  const navigate = useNavigate();
+  const { user, logout } = useAuth();
+  // WordPress administrators may do everything; others' Nexus role is on their team member record.
+  const needsTeamRole = Boolean(user) && !user?.roles.includes('administrator');
+  const { data: members } = useQuery(needsTeamRole ? ['team-members'] : null, (api) => api.teamMembers.list());
+
+  const teamRole = members?.find((member) => member.ID === user?.id)?.role;
+  const capabilities = useMemo(() => (user ? getCapabilities(user.roles, teamRole) : []), [user, teamRole]);
+
+  const can = useCallback(
+    (action: ActionDefinition) => !action.capability || capabilities.includes(action.capability),
+    [capabilities],
+  );
+
+  const actions = useMemo(() => ACTIONS.filter(can), [can]);
+
+  const run = useCallback(
+    (action: ActionDefinition) => {
+      if (action.route) {
+        navigate(action.route);
+      } else if (action.run) {
+        action.run({ navigate, logout });
+      }
+    },
+    [navigate, logout],
+  );
+
+  return { actions, can, run };
+};
+
+export default useActions;
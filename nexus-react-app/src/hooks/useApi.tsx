@@ -6,41 +6,57 @@
  * to the custom WordPress REST API endpoints.
  * - It correctly handles Header management using the browser's Headers API.
  * - It automatically includes the JWT token from the AuthContext in the Authorization header.
- * - It handles basic error checking, including logging out the user if a 401/403 error occurs.
- * - It ensures the correct Content-Type header is sent for JSON bodies.
+ * - It handles basic error checking. If the backend rejects the token (401, or 403 with a 'jwt_auth_*' code),
+ *   it marks the session as expired instead of logging out, so the SessionDialog can ask for a re-login
+ *   while the current page keeps its state.
+ * - It ensures the correct Content-Type header is sent for JSON bodies, and leaves it to the
+ *   browser for FormData (multipart) bodies such as file uploads.
+ * - It throws an `ApiError` carrying the HTTP status, WordPress error code and field-level
+ *   validation messages for error responses.
+ * - `apiFetchPage` does the same for paginated lists, and also returns the totals WordPress
+ *   sends in the `X-WP-Total` and `X-WP-TotalPages` headers.
+ * - `apiFetchStream` does the same for streamed responses (Server-Sent Events or NDJSON),
+ *   and yields each message as it arrives.
+ * - Requests can be cancelled by passing an AbortController's `signal` in the options;
+ *   the call then rejects with an 'AbortError', which is not logged as a failure.
+ * Components usually call the typed client from `useApiClient` instead of `apiFetch` directly.
  */
 import { useCallback } from 'react';
 import { useAuth } from '../context/AuthContext'; // Import useAuth hook
+import { nexusUrl } from '../config'; // Import URL builder for the configured backend
+import { ApiError } from '../api/ApiError'; // Import the structured API error
+import { Page } from '../api/types'; // Import the paginated list type
+import { ApiFetch, ApiFetchPage, ApiFetchStream } from '../api/client'; // Import the apiFetch signatures
+import { readStream } from '../utils/stream'; // Import the streamed response reader
 
 // Define a basic interface for the return value of the hook
 interface UseApi {
-  // apiFetch function signature: takes endpoint string and optional fetch options, returns a Promise
-  // Promise<any> is used for flexibility, but ideally you'd type the response based on the endpoint
-  apiFetch: (endpoint: string, options?: RequestInit) => Promise<any>;
-  // You could add more specific functions here later, e.g.:
-  // getCompanies: () => Promise<Company[]>;
-  // createCompany: (data: CompanyFormData) => Promise<Company>;
+  // apiFetch function signature: takes endpoint string and optional fetch options,
+  // returns a Promise of the response type given as the type argument.
+  // Typed per-endpoint functions (getCompanies, createCompany, ...) live in the API client (src/api/client.ts).
+  apiFetch: ApiFetch;
+  // Like apiFetch, for list endpoints: resolves with the items and the pagination totals.
+  apiFetchPage: ApiFetchPage;
+  // Like apiFetch, for streamed responses: yields each parsed message as it arrives.
+  apiFetchStream: ApiFetchStream;
 }
 
-// --- IMPORTANT: Replace with your actual local WordPress site URL ---
-const WP_API_URL = 'http://localhost:10003'; // Ensure this is correct
-// ------------------------------------------------------------
-
 /**
  * Custom hook to facilitate making authenticated requests to custom WordPress REST API endpoints.
- * @returns {UseApi} An object containing the apiFetch function.
+ * @returns {UseApi} An object containing the apiFetch, apiFetchPage and apiFetchStream functions.
  */
 const useApi = (): UseApi => {
-  // Get the JWT token and the logout function from the AuthContext
-  const { token, logout } = useAuth();
+  // Get the token getter and the session-expired callback from the AuthContext.
+  // Both are stable, so apiFetch doesn't change (and trigger refetches) when the token is refreshed.
+  const { getToken, markSessionExpired } = useAuth();
 
-  // Use useCallback to memoize the apiFetch function.
+  // Use useCallback to memoize the request function shared by apiFetch and apiFetchPage.
   // This prevents unnecessary re-creations of the function unless its dependencies change.
-  const apiFetch = useCallback(
-    async (endpoint: string, options: RequestInit = {}): Promise<any> => {
-      // Construct the full API URL.
-      // Assumes your custom endpoints are under the 'nexus/v1' namespace.
-      const url = `${WP_API_URL}/wp-json/nexus/v1/${endpoint}`;
+  // It resolves with the successful Response, so the callers can read its body and headers.
+  const request = useCallback(
+    async (endpoint: string, options: RequestInit = {}): Promise<Response> => {
+      // Construct the full API URL from the configured site and Nexus namespace (see src/config.ts).
+      const url = nexusUrl(endpoint);
 
       // --- Use the Headers API for robust header management ---
       // Initialize a new Headers object, potentially populating it with headers from the options.
@@ -48,13 +64,17 @@ const useApi = (): UseApi => {
 
       // Automatically add the Authorization header if a token exists.
       // Use the .set() method of the Headers object.
+      const token = getToken();
       if (token) {
         headers.set('Authorization', `Bearer ${token}`);
       }
 
       // Set Content-Type for requests that typically have a body (POST, PUT, PATCH, DELETE).
       // Check if the Content-Type header is already set (case-insensitive) before setting it.
-      if (options.method && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method.toUpperCase())) {
+      // FormData bodies (multipart uploads) are skipped: the browser must set the
+      // Content-Type itself so it can include the multipart boundary.
+      const isFormData = options.body instanceof FormData;
+      if (!isFormData && options.method && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(options.method.toUpperCase())) {
           if (!headers.has('Content-Type') && !headers.has('content-type')) {
             headers.set('Content-Type', 'application/json');
           }
@@ -68,50 +88,86 @@ const useApi = (): UseApi => {
           headers: headers, // Pass the Headers object here
         });
 
-        // Check for authentication/permissions errors (401 Unauthorized, 403 Forbidden).
-        // If these status codes are received, it likely means the token is invalid or insufficient permissions.
-        if (response.status === 401 || response.status === 403) {
-          console.error('API call failed due to authentication/permissions error. Status:', response.status);
-          // Automatically log out the user, as their authentication is no longer valid for this action.
-          logout();
-          // Throw an error to stop further processing and let calling components handle the failure.
-          throw new Error(`Authentication failed (${response.status}).`);
-        }
-
-        // Check for other HTTP errors (status codes outside 200-299 range).
+        // Check for HTTP errors (status codes outside 200-299 range).
         if (!response.ok) {
-             // Attempt to parse the response body to get a detailed error message from the API.
-             // Use response.text() and JSON.parse for better error handling than just response.json()
-             // in case the server returns non-JSON error messages.
-            const errorBody = await response.text();
-            try {
-                const errorData = JSON.parse(errorBody);
-                console.error(`API Error (${response.status}):`, errorData);
-                // Throw an error using the API's message or status text.
-                throw new Error(errorData.message || response.statusText || 'API request failed');
-            } catch (jsonError) {
-                // If the body wasn't JSON, just throw a generic error with status text.
-                console.error(`API Error (${response.status}):`, errorBody);
-                throw new Error(response.statusText || 'API request failed (Non-JSON error)');
+            // Read the body as text and let ApiError parse it, since the server
+            // may return non-JSON error messages.
+            const apiError = ApiError.fromResponse(response.status, response.statusText, await response.text());
+
+            // Check for authentication errors: 401 Unauthorized, or 403 Forbidden caused by an invalid token.
+            // Other 403s are plain permission errors and are handled like any other API error.
+            const isAuthError = response.status === 401
+                || (response.status === 403 && (apiError.code ?? '').startsWith('jwt_auth'));
+            if (isAuthError) {
+                console.error('API call failed due to an authentication error. Status:', response.status);
+                // Ask the user to log in again, without discarding the current page.
+                markSessionExpired();
             }
+
+            console.error(`API Error (${response.status}):`, apiError.body);
+            // Throw the structured error so callers can read the status, code and field messages.
+            throw apiError;
         }
 
-        // If the response is OK, parse the JSON body and return the data.
-        const data = await response.json();
-        return data;
+        return response;
 
       } catch (error) {
+        // A request cancelled by the caller (through its AbortSignal) is not a failure.
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          throw error;
+        }
         // Catch any network errors (e.g., server unreachable) or errors thrown above.
         console.error('Error during API fetch:', error);
         // Re-throw the error so the component that called apiFetch can handle it (e.g., display an error message to the user).
         throw error;
       }
     },
-    [token, logout, WP_API_URL] // Dependencies: apiFetch depends on the token, logout function, and base API URL.
+    [getToken, markSessionExpired] // Dependencies: both are stable. The token and base URL are read on each call.
+  );
+
+  // Makes a request and resolves with its parsed JSON body.
+  const apiFetch = useCallback(
+    async <T,>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+      const response = await request(endpoint, options);
+
+      // Responses without content (e.g., 204 after a DELETE) have no JSON body to parse.
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
+      // If the response is OK, parse the JSON body and return the data.
+      const data: T = await response.json();
+      return data;
+    },
+    [request]
+  );
+
+  // Makes a request to a list endpoint and resolves with the items and the pagination totals.
+  // Endpoints that don't paginate send no totals; the whole list then counts as one page.
+  const apiFetchPage = useCallback(
+    async <T,>(endpoint: string, options: RequestInit = {}): Promise<Page<T>> => {
+      const response = await request(endpoint, options);
+      const items: T[] = await response.json();
+
+      const total = Number(response.headers.get('X-WP-Total') ?? items.length);
+      const totalPages = Number(response.headers.get('X-WP-TotalPages') ?? 1);
+      return { items, total, totalPages };
+    },
+    [request]
+  );
+
+  // Makes a request to a streaming endpoint and yields each message of the response as it arrives.
+  // Aborting the request's signal also stops reading the stream.
+  const apiFetchStream = useCallback(
+    async function* (endpoint: string, options: RequestInit = {}): AsyncGenerator<unknown> {
+      const response = await request(endpoint, options);
+      yield* readStream(response);
+    },
+    [request]
   );
 
-  // Return the apiFetch function and any other helpers provided by this hook.
-  return { apiFetch };
+  // Return the fetch functions provided by this hook.
+  return { apiFetch, apiFetchPage, apiFetchStream };
 };
 
 export default useApi;
\ No newline at end of file
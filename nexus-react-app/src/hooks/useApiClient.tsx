@@ -0,0 +1,27 @@
+// src/hooks/useApiClient.ts
+/**
+ * Custom Hook for the Typed API Client.
+ *
+ * Returns the typed 'nexus/v1' client (see src/api/client.ts) bound to the current session.
+ * Its mutations invalidate the shared query cache, so `useQuery` reads refetch after a change.
+ * The client is memoized on the stable fetch functions and cache, so it can be used in effect dependencies.
+ */
+import { useMemo } from 'react';
+import useApi from './useApi';
+import useQueryCache from './useQueryCache';
+import { ApiClient, createApiClient } from '../api/client';
+
+/**
+ * Custom hook to get the typed API client.
+ * @returns {ApiClient} The client, e.g. `api.companies.list()`.
+ */
+const useApiClient = (): ApiClient => {
+  const { apiFetch, apiFetchPage, apiFetchStream } = useApi();
+  const cache = useQueryCache();
+  return useMemo(
+    () => createApiClient({ apiFetch, apiFetchPage, apiFetchStream }, (resource) => cache.invalidate(resource)),
+    [apiFetch, apiFetchPage, apiFetchStream, cache]
+  );
+};
+
+export default useApiClient;
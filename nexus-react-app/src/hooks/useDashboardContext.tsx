@@ -0,0 +1,29 @@
+// src/hooks/useDashboardContext.ts
+/**
+ * Dashboard Outlet Context.
+ *
+ * DashboardPage is the layout route for every protected view. It shares a little
+ * state with the nested route pages through react-router's `<Outlet context>`:
+ * the natural language query conversation and query history (for the /query page),
+ * and the function to run a query.
+ * Data changes don't need to be passed around: mutations through the API client
+ * refetch the affected lists via the shared query cache.
+ */
+import { useOutletContext } from 'react-router-dom';
+import { UseQueryConversation } from './useQueryConversation';
+import { UseQueryHistory } from './useQueryHistory';
+
+// The shape of the context DashboardPage passes to its <Outlet />.
+export interface DashboardOutletContext {
+  conversation: UseQueryConversation; // The thread of the current query conversation
+  queryHistory: UseQueryHistory; // The queries the user ran before
+  runQuery: (query: string) => void; // Runs a query as the next turn of the conversation, and records it in the history
+}
+
+/**
+ * Custom hook for route pages to read the dashboard's shared state.
+ * @returns {DashboardOutletContext} The context passed by DashboardPage.
+ */
+const useDashboardContext = (): DashboardOutletContext => useOutletContext<DashboardOutletContext>();
+
+export default useDashboardContext;
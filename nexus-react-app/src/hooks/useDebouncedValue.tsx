@@ -0,0 +1,27 @@
+// src/hooks/useDebouncedValue.ts
+/**
+ * Custom Hook for Debouncing a Value.
+ *
+ * Returns the given value once it has stopped changing for `delay` milliseconds,
+ * e.g. so a search box only queries the backend after the user paused typing.
+ */
+import { useEffect, useState } from 'react';
+
+/**
+ * Custom hook to debounce a value.
+ * @param {T} value - The value that changes, e.g. the text of a search box.
+ * @param {number} delay - How long (ms) the value must stay unchanged.
+ * @returns {T} The last value that stayed unchanged for `delay` ms.
+ */
+const useDebouncedValue = <T,>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => setDebouncedValue(value), delay);
+    return () => window.clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
+
+export default useDebouncedValue;
@@ -0,0 +1,93 @@
+// src/hooks/useHotkey.ts
+/**
+ * Custom Hook for Global Keyboard Shortcuts.
+ *
+ * Calls a handler when a key combination is pressed anywhere on the page.
+ * Combinations are written like 'mod+k' or '/': 'mod' is Cmd on macOS and Ctrl elsewhere,
+ * and 'shift' and 'alt' can be added. The last part is the key (`KeyboardEvent.key`, case-insensitive).
+ * Shortcuts without a modifier are ignored while the user types in a field, so typing
+ * a '/' in a form doesn't trigger the shortcut for '/'.
+ */
+import { useEffect, useRef } from 'react';
+
+// Define the interface for the options of the hook
+interface UseHotkeyOptions {
+  enabled?: boolean; // Whether the shortcut is active; true if not set
+}
+
+// Whether the Mac modifier key (Cmd) is used instead of Ctrl.
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Returns how to show a combination to the user, e.g. 'Ctrl+K' or '⌘K'.
+ * @param {string} combo - The combination, e.g. 'mod+k'.
+ */
+export const formatHotkey = (combo: string): string => {
+  const parts = combo.split('+').map((part) => {
+    switch (part) {
+      case 'mod':
+        return IS_MAC ? '⌘' : 'Ctrl';
+      case 'shift':
+        return IS_MAC ? '⇧' : 'Shift';
+      case 'alt':
+        return IS_MAC ? '⌥' : 'Alt';
+      default:
+        return part.length === 1 ? part.toUpperCase() : part;
+    }
+  });
+  return parts.join(IS_MAC ? '' : '+');
+};
+
+/**
+ * Whether an element is a field the user types in.
+ * @param {EventTarget | null} target - The element that has the focus.
+ */
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Whether a key event matches a combination.
+ * @param {KeyboardEvent} event - The key event.
+ * @param {string} combo - The combination, e.g. 'mod+k'.
+ */
+const matchesHotkey = (event: KeyboardEvent, combo: string): boolean => {
+  const parts = combo.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const mod = parts.includes('mod');
+  return (
+    event.key.toLowerCase() === key &&
+    (IS_MAC ? event.metaKey : event.ctrlKey) === mod &&
+    event.shiftKey === parts.includes('shift') &&
+    event.altKey === parts.includes('alt')
+  );
+};
+
+/**
+ * Custom hook to run a handler when a key combination is pressed.
+ * @param {string} combo - The combination, e.g. 'mod+k' or '/'.
+ * @param {(event: KeyboardEvent) => void} handler - Called with the key event; the browser's default action is prevented.
+ * @param {UseHotkeyOptions} options - Whether the shortcut is enabled.
+ */
+const useHotkey = (combo: string, handler: (event: KeyboardEvent) => void, { enabled = true }: UseHotkeyOptions = {}) => {
+  // The latest handler, so the listener doesn't have to be re-added when it changes.
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const hasModifier = /(^|\+)(mod|alt)\+/.test(combo.toLowerCase());
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!matchesHotkey(event, combo)) return;
+      if (!hasModifier && isEditable(event.target)) return;
+      event.preventDefault();
+      handlerRef.current(event);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [combo, enabled]);
+};
+
+export default useHotkey;
@@ -0,0 +1,235 @@
+// src/hooks/useOverviewLayout.ts
+/**
+ * Custom Hook for the Overview Layout.
+ *
+ * Keeps the layout of the overview page (see `OverviewLayout` in src/api/types.ts):
+ * - the cards: which are shown, in which order and at which size;
+ * - the Quick Actions: their order, which are hidden, and the custom actions that run a query.
+ * The layout is stored per user on the backend ('overview-layout'), so it follows the user to other browsers.
+ * - Until the user changes them, the default cards and actions are shown.
+ * - The stored actions are merged with the built-in ones: actions that no longer exist are
+ *   dropped, and actions added to Nexus later are appended.
+ * - Changes are shown right away through the shared query cache, and saved after a short pause,
+ *   so dragging a card past several others sends one request.
+ * - Until the stored layout has loaded (or if it failed to load), changes are ignored: the parts
+ *   a change leaves alone are saved as stored, so saving them unread would reset them.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import useApiClient from './useApiClient'; // Import the typed API client hook, to save the layout
+import useQuery from './useQuery'; // Import the cached read hook
+import useQueryCache from './useQueryCache'; // Import the cache to show changes before they are saved
+import { CustomQuickAction, OverviewLayout, OverviewLayoutInput, OverviewWidget, OverviewWidgetType, QueryHistoryTurn, QuickActionState } from '../api/types';
+import { DEFAULT_OVERVIEW_WIDGETS, OVERVIEW_WIDGETS } from '../constants/overviewWidgets';
+import { DEFAULT_QUICK_ACTIONS, getAction } from '../actions/registry';
+import { ActionDefinition } from '../actions/types';
+
+// How long (ms) to wait after a change before saving, so a burst of changes is saved once.
+const SAVE_DELAY_MS = 800;
+
+// The layout rarely changes elsewhere; don't refetch it on every visit of the overview.
+const LAYOUT_STALE_TIME_MS = 5 * 60 * 1000;
+
+// An action of the Quick Actions grid: a registry action, or a custom one that runs a query.
+export interface QuickAction {
+  id: string;
+  label: string;
+  icon: string;
+  action?: ActionDefinition; // Registry actions: the action to run
+  query?: string; // Custom actions: the query they run
+  hidden: boolean;
+}
+
+// The icon of custom actions.
+const CUSTOM_ACTION_ICON = '💬';
+
+// Define the interface for the return value of the hook
+interface UseOverviewLayout {
+  widgets: OverviewWidget[]; // In display order
+  quickActions: QuickAction[]; // In display order, hidden ones included
+  loading: boolean;
+  ready: boolean; // Whether the stored layout has loaded; changes are ignored until then
+  saving: boolean; // True while changes wait to be saved or are being saved
+  error: string | null; // Why loading or saving the layout failed
+  addWidget: (type: OverviewWidgetType, query?: string, history?: QueryHistoryTurn[]) => void; // Adds a card at the end
+  updateWidget: (id: string, changes: Partial<Pick<OverviewWidget, 'width' | 'height'>>) => void; // Resizes a card
+  moveWidget: (id: string, index: number) => void; // Moves a card to a position
+  removeWidget: (id: string) => void;
+  resetLayout: () => void; // Restores the default cards
+  moveAction: (id: string, index: number) => void; // Moves a Quick Action to a position
+  toggleActionHidden: (id: string) => void;
+  addCustomAction: (label: string, query: string) => void; // Adds an action that runs a query, at the end
+  removeCustomAction: (id: string) => void;
+  resetActions: () => void; // Restores the built-in actions in their default order, keeping custom ones
+}
+
+/**
+ * Creates a unique card ID.
+ */
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Merges the stored Quick Actions state with the default registry actions and the custom actions.
+ * @param {QuickActionState[] | null} stored - The stored order and visibility, or null for the default.
+ * @param {CustomQuickAction[]} custom - The user's custom actions.
+ */
+const mergeActions = (stored: QuickActionState[] | null, custom: CustomQuickAction[]): QuickAction[] => {
+  const all: Omit<QuickAction, 'hidden'>[] = [
+    ...DEFAULT_QUICK_ACTIONS.flatMap((id) => {
+      const action = getAction(id);
+      return action ? [{ id, label: action.label, icon: action.icon, action }] : [];
+    }),
+    ...custom.map((item) => ({ ...item, icon: CUSTOM_ACTION_ICON })),
+  ];
+  const known = (stored ?? []).flatMap((state) => {
+    const action = all.find((item) => item.id === state.id);
+    return action ? [{ ...action, hidden: state.hidden }] : [];
+  });
+  const added = all.filter((action) => !known.some((item) => item.id === action.id)).map((action) => ({ ...action, hidden: false }));
+  return [...known, ...added];
+};
+
+/**
+ * Moves an item of a list to a position, or returns null if it can't be moved there.
+ * @param {T[]} items - The list.
+ * @param {string} id - The ID of the item to move.
+ * @param {number} index - The new position.
+ */
+const moveItem = <T extends { id: string }>(items: T[], id: string, index: number): T[] | null => {
+  const from = items.findIndex((item) => item.id === id);
+  if (from === -1 || index < 0 || index >= items.length || index === from) return null;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(index, 0, moved);
+  return next;
+};
+
+/**
+ * Custom hook to read, change and save the current user's overview layout.
+ * @returns {UseOverviewLayout} The cards and the functions to change them.
+ */
+const useOverviewLayout = (): UseOverviewLayout => {
+  const api = useApiClient();
+  const cache = useQueryCache();
+  const { data, loading, error: loadError } = useQuery(['overview-layout'], (client) => client.overviewLayout.get(), {
+    staleTime: LAYOUT_STALE_TIME_MS,
+  });
+  const widgets = data?.widgets ?? DEFAULT_OVERVIEW_WIDGETS;
+  // Layouts saved before Quick Actions could be arranged don't have these fields.
+  const customActions = data?.custom_actions ?? [];
+  const quickActions = mergeActions(data?.actions ?? null, customActions);
+
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // The layout waiting to be saved, and the timer that saves it.
+  const pendingRef = useRef<{ layout: OverviewLayoutInput; timer: number } | null>(null);
+
+  /**
+   * Saves the pending layout right away.
+   */
+  const flush = useCallback(async () => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingRef.current = null;
+    try {
+      await api.overviewLayout.save(pending.layout);
+      setSaveError(null);
+    } catch (err) {
+      console.error('Error saving overview layout:', err);
+      setSaveError(err instanceof Error ? err.message : 'Failed to save the overview layout.');
+    } finally {
+      // Still saving if another change came in meanwhile.
+      if (!pendingRef.current) setSaving(false);
+    }
+  }, [api]);
+
+  // Save pending changes when the overview is left before the pause is over.
+  useEffect(() => () => void flush(), [flush]);
+
+  /**
+   * Shows a changed layout and schedules saving it. Parts that aren't changed keep their stored
+   * value, so a default that was never changed stays the default.
+   * @param {Partial<OverviewLayoutInput>} changes - The changed parts of the layout.
+   */
+  const change = (changes: Partial<OverviewLayoutInput>) => {
+    if (!data) {
+      console.warn('Overview layout change ignored: the stored layout has not loaded.');
+      return;
+    }
+    const next: OverviewLayoutInput = {
+      widgets: data.widgets,
+      actions: data.actions ?? null,
+      custom_actions: data.custom_actions ?? null,
+      ...changes,
+    };
+    cache.setData<OverviewLayout>(['overview-layout'], (prev) => ({ ...next, updated_at: prev?.updated_at ?? null }));
+    if (pendingRef.current) window.clearTimeout(pendingRef.current.timer);
+    pendingRef.current = { layout: next, timer: window.setTimeout(() => void flush(), SAVE_DELAY_MS) };
+    setSaving(true);
+  };
+
+  // Stores the order and visibility of the Quick Actions.
+  const changeActions = (next: QuickAction[]) => change({ actions: next.map(({ id, hidden }) => ({ id, hidden })) });
+
+  const addWidget = (type: OverviewWidgetType, query?: string, history?: QueryHistoryTurn[]) => {
+    const { width, height } = OVERVIEW_WIDGETS[type];
+    const pinned = { ...(query ? { query } : {}), ...(history && history.length > 0 ? { history } : {}) };
+    change({ widgets: [...widgets, { id: createId(), type, width, height, ...pinned }] });
+  };
+
+  const updateWidget = (id: string, changes: Partial<Pick<OverviewWidget, 'width' | 'height'>>) => {
+    change({ widgets: widgets.map((widget) => (widget.id === id ? { ...widget, ...changes } : widget)) });
+  };
+
+  const moveWidget = (id: string, index: number) => {
+    const next = moveItem(widgets, id, index);
+    if (next) change({ widgets: next });
+  };
+
+  const removeWidget = (id: string) => change({ widgets: widgets.filter((widget) => widget.id !== id) });
+
+  const moveAction = (id: string, index: number) => {
+    const next = moveItem(quickActions, id, index);
+    if (next) changeActions(next);
+  };
+
+  const toggleActionHidden = (id: string) =>
+    changeActions(quickActions.map((action) => (action.id === id ? { ...action, hidden: !action.hidden } : action)));
+
+  const addCustomAction = (label: string, query: string) => {
+    const action = { id: `custom-${createId()}`, label, query };
+    change({
+      custom_actions: [...customActions, action],
+      actions: [...quickActions, { id: action.id, hidden: false }].map(({ id, hidden }) => ({ id, hidden })),
+    });
+  };
+
+  const removeCustomAction = (id: string) =>
+    change({
+      custom_actions: customActions.filter((action) => action.id !== id),
+      actions: quickActions.filter((action) => action.id !== id).map((action) => ({ id: action.id, hidden: action.hidden })),
+    });
+
+  return {
+    widgets,
+    quickActions,
+    loading,
+    ready: data !== undefined,
+    saving,
+    // A layout that failed to load is shown as the default one, which can't be changed.
+    error: saveError ?? (data ? null : loadError),
+    addWidget,
+    updateWidget,
+    moveWidget,
+    removeWidget,
+    resetLayout: () => change({ widgets: DEFAULT_OVERVIEW_WIDGETS }),
+    moveAction,
+    toggleActionHidden,
+    addCustomAction,
+    removeCustomAction,
+    // Custom actions stay, after the built-in ones.
+    resetActions: () => change({ actions: null }),
+  };
+};
+
+export default useOverviewLayout;
@@ -0,0 +1,103 @@
+// src/hooks/useQuery.ts
+/**
+ * Custom Hook for Cached API Reads.
+ *
+ * Reads a resource through the shared QueryCache (see src/api/QueryCache.ts):
+ * - Cached data is returned right away, and refetched in the background when it is stale.
+ * - Components reading the same key at the same time share one request.
+ * - The data is refetched automatically when a mutation through the API client
+ *   invalidates the key's resource, so no refresh props are needed.
+ * Example: `useQuery(['companies', id], (api) => api.companies.get(id))`.
+ */
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { ApiClient } from '../api/client';
+import { EMPTY_QUERY_STATE, QueryKey, QueryState } from '../api/QueryCache';
+import useApiClient from './useApiClient';
+import useQueryCache from './useQueryCache';
+
+// How long fetched data counts as fresh by default. Within this time, remounting a
+// component shows the cached data without a new request.
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+// Define the interface for the options of the hook
+interface UseQueryOptions {
+  staleTime?: number; // How long (ms) fetched data counts as fresh
+  keepPreviousData?: boolean; // Keep showing the previous key's data while a new key loads (e.g., the next page)
+}
+
+// Define the interface for the return value of the hook
+interface UseQuery<T> {
+  data: T | undefined; // The cached or fetched data, undefined until the first response
+  loading: boolean; // True while there is no data yet and it is being fetched
+  isValidating: boolean; // True while any request for the key is in flight, including background ones
+  error: string | null; // The message of the last failed request
+  refetch: () => void; // Fetches the key again, ignoring its age
+}
+
+/**
+ * Custom hook to read a resource through the shared query cache.
+ * @param {QueryKey | null} key - The cache key, e.g. ['clients', { company_id: 3 }], or null to skip fetching.
+ * @param {(api: ApiClient) => Promise<T>} fetcher - Fetches the data for the key with the typed API client.
+ * @param {UseQueryOptions} options - Optional settings.
+ * @returns {UseQuery<T>} The data with loading and error state.
+ */
+const useQuery = <T,>(key: QueryKey | null, fetcher: (api: ApiClient) => Promise<T>, options: UseQueryOptions = {}): UseQuery<T> => {
+  const { staleTime = DEFAULT_STALE_TIME_MS, keepPreviousData = false } = options;
+  const cache = useQueryCache();
+  const api = useApiClient();
+
+  // Callers pass a new key array on every render; compare keys by value instead.
+  const hash = key === null ? null : JSON.stringify(key);
+  const stableKey = useMemo(() => (hash === null ? null : (JSON.parse(hash) as QueryKey)), [hash]);
+
+  // Keep the latest fetcher without refetching whenever the caller passes a new function.
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+  const runFetcher = useCallback(() => fetcherRef.current(api), [api]);
+
+  // Subscribe to the key's cached state.
+  const subscribe = useCallback(
+    (listener: () => void) => (stableKey === null ? () => {} : cache.subscribe(stableKey, listener)),
+    [cache, stableKey]
+  );
+  const getSnapshot = useCallback(
+    (): QueryState<T> => (stableKey === null ? EMPTY_QUERY_STATE : cache.getState<T>(stableKey)),
+    [cache, stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Remember the last data received for any key, to show while a new key loads.
+  const previousDataRef = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) {
+      previousDataRef.current = state.data;
+    }
+  }, [state.data]);
+  const data = state.data ?? (keepPreviousData && stableKey !== null ? previousDataRef.current : undefined);
+
+  // Fetch the key when it is first read, or refetch it if the cached data is stale.
+  useEffect(() => {
+    if (stableKey !== null) {
+      cache.revalidate(stableKey, runFetcher, staleTime);
+    }
+  }, [cache, stableKey, runFetcher, staleTime]);
+
+  const refetch = useCallback(() => {
+    if (stableKey !== null) {
+      cache.fetch(stableKey, runFetcher, true).catch(() => {});
+    }
+  }, [cache, stableKey, runFetcher]);
+
+  return {
+    data,
+    // Without data, the key is loading until a request fails (before the first fetch starts, too).
+    loading: stableKey !== null && data === undefined && (state.isFetching || state.error === null),
+    isValidating: state.isFetching,
+    error: state.error ? state.error.message : null,
+    refetch,
+  };
+};
+
+export default useQuery;
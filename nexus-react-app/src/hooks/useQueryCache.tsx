@@ -0,0 +1,27 @@
+// src/hooks/useQueryCache.ts
+/**
+ * Query Cache Context.
+ *
+ * Holds the QueryCache shared by every `useQuery` call and by the API client,
+ * which invalidates it after mutations. It is provided by QueryCacheProvider
+ * (src/context/QueryCacheContext.tsx).
+ */
+import { createContext, useContext } from 'react';
+import { QueryCache } from '../api/QueryCache';
+
+// The context holding the shared cache. Null outside a QueryCacheProvider.
+export const QueryCacheContext = createContext<QueryCache | null>(null);
+
+/**
+ * Custom hook to get the shared query cache.
+ * @returns {QueryCache} The cache, e.g. to call `invalidate('companies')`.
+ */
+const useQueryCache = (): QueryCache => {
+  const cache = useContext(QueryCacheContext);
+  if (cache === null) {
+    throw new Error('useQueryCache must be used within a QueryCacheProvider');
+  }
+  return cache;
+};
+
+export default useQueryCache;
@@ -0,0 +1,222 @@
+// src/hooks/useQueryConversation.ts
+/**
+ * Custom Hook for the Natural Language Query Conversation.
+ *
+ * Keeps the thread of questions and answers of the current conversation, so the
+ * query panel can show it like a chat and the backend can answer follow-ups
+ * ("only the active ones", "now export that") in the context of the earlier answers.
+ * - Every query is sent with the conversation's id and a brief account of its earlier turns.
+ * - Answers are streamed: the steps the backend reports ("Interpreting your question",
+ *   "Running report", ...) and the partial text are shown as they arrive, and a pending
+ *   query can be cancelled, which aborts its request.
+ * - The thread is kept in Session Storage, per user: it survives reloads, but each
+ *   browser tab (session) has its own conversation. Starting a new conversation clears it.
+ * The searchable, persistent list of past queries is kept by useQueryHistory.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to keep the conversation per user
+import useApiClient from './useApiClient'; // Import the typed API client hook
+import { QueryResponse } from '../api/types';
+import { buildQueryHistory, queryStepLabel } from '../utils/query';
+
+// A question of the conversation and its answer.
+export interface QueryTurn {
+  id: string;
+  query: string; // What the user asked
+  askedAt: string; // ISO timestamp
+  status: 'pending' | 'done' | 'error' | 'cancelled';
+  steps: string[]; // The steps the backend reported so far, e.g. 'Running report'; the last one is in progress
+  partialText: string; // The answer's text received so far
+  result: QueryResponse | null; // The answer, once it arrived
+  error: string | null; // The message of a query that failed
+}
+
+// The persisted state of a conversation.
+interface QueryConversation {
+  id: string; // Sent as `conversation_id`; replaced by the backend's id if it assigns one
+  turns: QueryTurn[]; // Oldest first
+}
+
+// Define the interface for the return value of the hook
+export interface UseQueryConversation {
+  conversationId: string;
+  turns: QueryTurn[]; // The thread, oldest first
+  loading: boolean; // Whether an answer is still pending
+  ask: (query: string) => Promise<void>; // Sends a query as the next turn of the conversation
+  cancel: () => void; // Cancels the pending queries
+  setTurnResult: (turnId: string, result: QueryResponse) => void; // Replaces an answer, e.g. with the outcome of a confirmed or cancelled change
+  reset: () => void; // Starts a new conversation
+}
+
+/**
+ * Creates a random id for a conversation or turn.
+ */
+const createId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// A conversation without turns.
+const newConversation = (): QueryConversation => ({ id: createId(), turns: [] });
+
+/**
+ * Reads a stored conversation from Session Storage. Turns that were still waiting for
+ * their answer when the page was left are marked as failed.
+ * @param {string | null} key - The storage key, or null if nobody is logged in.
+ */
+const readConversation = (key: string | null): QueryConversation => {
+  if (!key) return newConversation();
+  try {
+    const stored = sessionStorage.getItem(key);
+    if (!stored) return newConversation();
+    const conversation = JSON.parse(stored) as QueryConversation;
+    return {
+      ...conversation,
+      turns: conversation.turns.map((turn) =>
+        turn.status === 'pending' ? { ...turn, status: 'error', error: 'The page was reloaded before the answer arrived.' } : turn
+      ),
+    };
+  } catch (error) {
+    console.error('Failed to read query conversation from sessionStorage:', error);
+    return newConversation();
+  }
+};
+
+/**
+ * Stores a conversation in Session Storage.
+ * @param {string | null} key - The storage key, or null if nobody is logged in.
+ * @param {QueryConversation} conversation - The conversation.
+ */
+const writeConversation = (key: string | null, conversation: QueryConversation) => {
+  if (!key) return;
+  try {
+    sessionStorage.setItem(key, JSON.stringify(conversation));
+  } catch (error) {
+    console.error('Failed to store query conversation in sessionStorage:', error);
+  }
+};
+
+/**
+ * Custom hook to hold a natural language query conversation.
+ * @returns {UseQueryConversation} The thread and the functions to continue it.
+ */
+const useQueryConversation = (): UseQueryConversation => {
+  const api = useApiClient();
+  const { user } = useAuth();
+  // The Session Storage key for this user's conversation.
+  const storageKey = user ? `nexus_query_conversation_${user.id}` : null;
+
+  const [conversation, setConversation] = useState<QueryConversation>(() => readConversation(storageKey));
+  // The AbortControllers of the pending queries, by turn id.
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Reload the conversation if the user changes.
+  useEffect(() => {
+    setConversation(readConversation(storageKey));
+  }, [storageKey]);
+
+  // Abort the pending queries when the dashboard is left (e.g. on logout).
+  useEffect(() => {
+    const pending = controllers.current;
+    return () => pending.forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * Changes the conversation in React state and Session Storage.
+   * Takes an updater, because answers arrive after other turns may have been added.
+   * @param {(prev: QueryConversation) => QueryConversation} change - Returns the changed conversation.
+   * @param {boolean} persist - Whether to store the change; the progress of a pending answer isn't,
+   *   since a reload marks the turn as failed anyway.
+   */
+  const update = useCallback((change: (prev: QueryConversation) => QueryConversation, persist = true) => {
+    setConversation((prev) => {
+      const next = change(prev);
+      if (persist) {
+        writeConversation(storageKey, next);
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  /**
+   * Changes one turn of the conversation.
+   * @param {string} turnId - The turn's id.
+   * @param {Partial<QueryTurn>} changes - The changed fields.
+   * @param {boolean} persist - Whether to store the change.
+   */
+  const updateTurn = useCallback((turnId: string, changes: Partial<QueryTurn>, persist = true) => {
+    update((prev) => ({ ...prev, turns: prev.turns.map((turn) => (turn.id === turnId ? { ...turn, ...changes } : turn)) }), persist);
+  }, [update]);
+
+  const ask = async (query: string) => {
+    const turn: QueryTurn = {
+      id: createId(),
+      query,
+      askedAt: new Date().toISOString(),
+      status: 'pending',
+      steps: [],
+      partialText: '',
+      result: null,
+      error: null,
+    };
+    // The earlier answers, as context for the backend.
+    const history = buildQueryHistory(conversation.turns);
+    update((prev) => ({ ...prev, turns: [...prev.turns, turn] }));
+
+    const controller = new AbortController();
+    controllers.current.set(turn.id, controller);
+    const steps: string[] = [];
+    let partialText = '';
+    try {
+      let result: QueryResponse | null = null;
+      for await (const event of api.query.stream({ query, conversation_id: conversation.id, history }, controller.signal)) {
+        if (event.type === 'status') {
+          steps.push(queryStepLabel(event.step, event.label));
+          updateTurn(turn.id, { steps: [...steps] }, false);
+        } else if (event.type === 'delta') {
+          partialText += event.text;
+          updateTurn(turn.id, { partialText }, false);
+        } else if (event.type === 'error') {
+          throw new Error(event.message);
+        } else {
+          result = event.result;
+          break;
+        }
+      }
+      // A stream that ends with text but no answer is taken as a plain text answer.
+      if (!result && partialText) {
+        result = { kind: 'message', message: partialText };
+      }
+      if (!result) {
+        throw new Error('The answer ended before it was complete.');
+      }
+
+      console.log('Query result received:', result);
+      const answer = result;
+      // Keep using the backend's id for the conversation, if it assigned one.
+      update((prev) => ({
+        id: answer.conversation_id ?? prev.id,
+        turns: prev.turns.map((previous) => (previous.id === turn.id ? { ...previous, status: 'done', steps, partialText, result: answer } : previous)),
+      }));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Cancelled by the user: keep what arrived so far.
+        updateTurn(turn.id, { status: 'cancelled', steps, partialText });
+        return;
+      }
+      console.error('Error during query submission:', err);
+      updateTurn(turn.id, { status: 'error', steps, partialText, error: err instanceof Error ? err.message : 'Failed to process query.' });
+    } finally {
+      controllers.current.delete(turn.id);
+    }
+  };
+
+  return {
+    conversationId: conversation.id,
+    turns: conversation.turns,
+    loading: conversation.turns.some((turn) => turn.status === 'pending'),
+    ask,
+    cancel: () => controllers.current.forEach((controller) => controller.abort()),
+    setTurnResult: (turnId, result) => updateTurn(turnId, { result }),
+    reset: () => update(() => newConversation()),
+  };
+};
+
+export default useQueryConversation;
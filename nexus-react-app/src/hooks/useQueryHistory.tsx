@@ -0,0 +1,145 @@
+// src/hooks/useQueryHistory.ts
+/**
+ * Custom Hook for the History of Natural Language Queries.
+ *
+ * Remembers the queries the user ran, so the query panel can list, search, re-run
+ * and pin them. The history is stored in Local Storage, per user, so it survives
+ * reloads and logging out.
+ * - Running a query again moves it to the top instead of adding it twice
+ *   (queries are compared ignoring case and surrounding spaces).
+ * - Pinned queries are listed first and are never dropped; only the most recent
+ *   MAX_HISTORY unpinned queries are kept.
+ * The thread of the current conversation is kept by useQueryConversation.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to store the history per user
+
+// A query in the history.
+export interface QueryHistoryEntry {
+  query: string;
+  lastRunAt: string; // ISO timestamp of the last time it ran
+  runCount: number;
+  pinned: boolean;
+}
+
+// Define the interface for the return value of the hook
+export interface UseQueryHistory {
+  entries: QueryHistoryEntry[]; // Pinned queries first, then the most recent
+  record: (query: string) => void; // Adds a query that is being run, or moves it to the top
+  togglePin: (query: string) => void;
+  remove: (query: string) => void;
+  clear: () => void; // Removes every query that is not pinned
+}
+
+// How many unpinned queries are kept.
+const MAX_HISTORY = 100;
+
+/**
+ * Returns the key queries are compared by.
+ * @param {string} query - The query.
+ */
+const normalizeQuery = (query: string): string => query.trim().toLowerCase();
+
+/**
+ * Reads the stored history from Local Storage.
+ * @param {string | null} key - The storage key, or null if nobody is logged in.
+ */
+const readHistory = (key: string | null): QueryHistoryEntry[] => {
+  if (!key) return [];
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as QueryHistoryEntry[]) : [];
+  } catch (error) {
+    console.error('Failed to read query history from localStorage:', error);
+    return [];
+  }
+};
+
+/**
+ * Sorts the history (pinned first, then the most recent) and drops the oldest unpinned queries.
+ * @param {QueryHistoryEntry[]} entries - The entries.
+ */
+const arrangeHistory = (entries: QueryHistoryEntry[]): QueryHistoryEntry[] => {
+  const sorted = [...entries].sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.lastRunAt.localeCompare(a.lastRunAt)
+  );
+  const pinned = sorted.filter((entry) => entry.pinned);
+  return [...pinned, ...sorted.filter((entry) => !entry.pinned).slice(0, MAX_HISTORY)];
+};
+
+/**
+ * Custom hook to keep the logged-in user's query history.
+ * @returns {UseQueryHistory} The history and the functions to change it.
+ */
+const useQueryHistory = (): UseQueryHistory => {
+  const { user } = useAuth();
+  // The Local Storage key for this user's history.
+  const storageKey = user ? `nexus_query_history_${user.id}` : null;
+
+  const [entries, setEntries] = useState<QueryHistoryEntry[]>(() => readHistory(storageKey));
+
+  // Reload the history if the user changes.
+  useEffect(() => {
+    setEntries(readHistory(storageKey));
+  }, [storageKey]);
+
+  // Keep the history in sync with queries run in other tabs.
+  useEffect(() => {
+    if (!storageKey) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) {
+        setEntries(readHistory(storageKey));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [storageKey]);
+
+  /**
+   * Changes the history in React state and Local Storage.
+   * @param {(prev: QueryHistoryEntry[]) => QueryHistoryEntry[]} change - Returns the changed entries.
+   */
+  const update = useCallback((change: (prev: QueryHistoryEntry[]) => QueryHistoryEntry[]) => {
+    setEntries((prev) => {
+      const next = arrangeHistory(change(prev));
+      if (storageKey) {
+        try {
+          localStorage.setItem(storageKey, JSON.stringify(next));
+        } catch (error) {
+          console.error('Failed to store query history in localStorage:', error);
+        }
+      }
+      return next;
+    });
+  }, [storageKey]);
+
+  const record = useCallback((query: string) => {
+    const key = normalizeQuery(query);
+    update((prev) => {
+      const existing = prev.find((entry) => normalizeQuery(entry.query) === key);
+      const entry: QueryHistoryEntry = {
+        query: query.trim(),
+        lastRunAt: new Date().toISOString(),
+        runCount: (existing?.runCount ?? 0) + 1,
+        pinned: existing?.pinned ?? false,
+      };
+      return [entry, ...prev.filter((other) => other !== existing)];
+    });
+  }, [update]);
+
+  const togglePin = useCallback((query: string) => {
+    update((prev) => prev.map((entry) => (entry.query === query ? { ...entry, pinned: !entry.pinned } : entry)));
+  }, [update]);
+
+  const remove = useCallback((query: string) => {
+    update((prev) => prev.filter((entry) => entry.query !== query));
+  }, [update]);
+
+  const clear = useCallback(() => {
+    update((prev) => prev.filter((entry) => entry.pinned));
+  }, [update]);
+
+  return { entries, record, togglePin, remove, clear };
+};
+
+export default useQueryHistory;
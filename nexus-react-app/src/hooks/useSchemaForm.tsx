@@ -0,0 +1,123 @@
+// src/hooks/useSchemaForm.ts
+/**
+ * Custom Hook for Schema-Driven Forms.
+ *
+ * Keeps the values and validation messages of a form described by a `FormSchema`
+ * (see src/forms/types.ts); render its inputs with `SchemaFormFields`.
+ * - A field is validated when it loses focus, and again on every change once it shows a message.
+ * - `validate()` checks every shown field before submitting.
+ * - `applyApiError()` shows the messages of a WordPress 'rest_invalid_param' error on their
+ *   fields; messages for parameters without a field are returned in `otherErrors`.
+ * Example: `const form = useSchemaForm(companySchema, () => createFormValues(companySchema, company))`.
+ */
+import { useState } from 'react';
+import { ApiError } from '../api/ApiError';
+import { isFieldVisible, schemaFields, validateField, validateForm } from '../forms/schema';
+import { FormSchema, FormValue, FormValues } from '../forms/types';
+
+// Define the interface for the options of the hook
+interface UseSchemaFormOptions<V extends FormValues> {
+  // Adjusts the values after a field changes, e.g. to clear a project that belongs to another company.
+  onChange?: (next: V, name: Extract<keyof V, string>) => V;
+}
+
+// Define the interface for the return value of the hook
+export interface UseSchemaForm<V extends FormValues> {
+  schema: FormSchema<V>;
+  values: V;
+  errors: Record<string, string>; // Validation messages by field name
+  otherErrors: Record<string, string>; // Backend messages for parameters that have no field in the form
+  setValue: (name: Extract<keyof V, string>, value: FormValue) => void;
+  handleBlur: (name: Extract<keyof V, string>) => void; // Validates a field when it loses focus
+  validate: () => boolean; // Validates every shown field; returns whether the form is valid
+  applyApiError: (err: unknown) => void; // Shows an error's field messages on the fields
+  reset: (values: V) => void; // Replaces the values and clears every message, e.g. after creating a record
+}
+
+/**
+ * Custom hook to manage the state and validation of a schema-driven form.
+ * @param {FormSchema<V>} schema - The form schema.
+ * @param {V | (() => V)} initialValues - The initial values, e.g. from `createFormValues`.
+ * @param {UseSchemaFormOptions<V>} options - Optional settings.
+ * @returns {UseSchemaForm<V>} The form state and its handlers.
+ */
+const useSchemaForm = <V extends FormValues>(
+  schema: FormSchema<V>,
+  initialValues: V | (() => V),
+  options: UseSchemaFormOptions<V> = {}
+): UseSchemaForm<V> => {
+  // The values and their messages change together, so a change can re-check the messages
+  // against the values it produced, even when several changes come in one event.
+  const [{ values, errors }, setForm] = useState<{ values: V; errors: Record<string, string> }>(() => ({
+    values: typeof initialValues === 'function' ? initialValues() : initialValues,
+    errors: {},
+  }));
+  const [otherErrors, setOtherErrors] = useState<Record<string, string>>({});
+
+  // Re-checks the fields that show a message, and drops the messages of fields that were hidden.
+  const revalidateShown = (next: V, current: Record<string, string>): Record<string, string> => {
+    const updated: Record<string, string> = {};
+    schemaFields(schema).forEach((field) => {
+      if (!(field.name in current) || !isFieldVisible(field, next)) return;
+      const message = validateField(field, next);
+      if (message) updated[field.name] = message;
+    });
+    return updated;
+  };
+
+  // Changes a field's value. Built on the latest values, so earlier changes of the same event are kept.
+  const setValue = (name: Extract<keyof V, string>, value: FormValue) => {
+    setForm((prev) => {
+      let next = { ...prev.values, [name]: value } as V;
+      if (options.onChange) next = options.onChange(next, name);
+      return { values: next, errors: revalidateShown(next, prev.errors) };
+    });
+  };
+
+  // Validates a field that lost focus, so its message shows before submitting.
+  const handleBlur = (name: Extract<keyof V, string>) => {
+    const field = schemaFields(schema).find((candidate) => candidate.name === name);
+    if (!field) return;
+    setForm((prev) => {
+      const message = validateField(field, prev.values);
+      const rest = Object.fromEntries(Object.entries(prev.errors).filter(([key]) => key !== name));
+      return { ...prev, errors: message ? { ...rest, [name]: message } : rest };
+    });
+  };
+
+  // Validates every shown field, e.g. before submitting.
+  const validate = (): boolean => {
+    const found = validateForm(schema, values);
+    setForm((prev) => ({ ...prev, errors: found }));
+    setOtherErrors({});
+    return Object.keys(found).length === 0;
+  };
+
+  // Shows the field messages of a 'rest_invalid_param' error; other errors are shown by the form itself.
+  const applyApiError = (err: unknown) => {
+    if (!(err instanceof ApiError)) return;
+    const fieldErrors: Record<string, string> = {};
+    const unmatched: Record<string, string> = {};
+    Object.entries(err.params).forEach(([param, message]) => {
+      const name = schema.paramFields?.[param] ?? param;
+      const field = schemaFields(schema).find((candidate) => candidate.name === name);
+      if (field && isFieldVisible(field, values)) {
+        fieldErrors[field.name] = message;
+      } else {
+        unmatched[param] = message;
+      }
+    });
+    setForm((prev) => ({ ...prev, errors: fieldErrors }));
+    setOtherErrors(unmatched);
+  };
+
+  // Replaces the values, e.g. with empty ones after creating a record.
+  const reset = (next: V) => {
+    setForm({ values: next, errors: {} });
+    setOtherErrors({});
+  };
+
+  return { schema, values, errors, otherErrors, setValue, handleBlur, validate, applyApiError, reset };
+};
+
+export default useSchemaForm;
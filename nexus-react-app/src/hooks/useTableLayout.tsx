@@ -0,0 +1,128 @@
+// src/hooks/useTableLayout.ts
+/**
+ * Custom Hook for the Column Layout of a Data Table.
+ *
+ * Keeps the order, visibility, width and pinning of a table's columns, and remembers
+ * them in Local Storage, so the layout survives leaving the page and reloads.
+ * - The layout is stored per user and table, so another user on the same browser starts fresh.
+ * - It is merged with the current column definitions: columns that no longer exist are
+ *   dropped, and columns added to the table later are appended with their defaults.
+ * Saving layouts as named views on the backend is handled by DataTableViewsMenu.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to store the layout per user
+import { TableColumnState } from '../api/types';
+
+// The parts of a column definition the layout depends on.
+export interface LayoutColumn {
+  id: string;
+  defaultHidden?: boolean;
+  defaultWidth?: number;
+}
+
+// Define the interface for the return value of the hook
+interface UseTableLayout {
+  layout: TableColumnState[]; // Every column, in display order
+  setLayout: (layout: TableColumnState[]) => void; // Replaces the layout, e.g. with a saved view's columns
+  updateColumn: (columnId: string, changes: Partial<Omit<TableColumnState, 'id'>>) => void;
+  moveColumn: (columnId: string, offset: number) => void; // Moves a column by `offset` places
+  resetLayout: () => void; // Restores the default layout
+}
+
+/**
+ * Reads a stored layout from Local Storage.
+ * @param {string | null} key - The storage key, or null if nobody is logged in.
+ */
+const readLayout = (key: string | null): TableColumnState[] | null => {
+  if (!key) return null;
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as TableColumnState[]) : null;
+  } catch (error) {
+    console.error('Failed to read table layout from localStorage:', error);
+    return null;
+  }
+};
+
+/**
+ * Merges a stored layout with the current column definitions.
+ * @param {LayoutColumn[]} columns - The table's column definitions.
+ * @param {TableColumnState[] | null} stored - The stored layout, or null for the default layout.
+ */
+const mergeLayout = (columns: LayoutColumn[], stored: TableColumnState[] | null): TableColumnState[] => {
+  const defaults = columns.map((column) => ({
+    id: column.id,
+    hidden: Boolean(column.defaultHidden),
+    width: column.defaultWidth ?? null,
+    pinned: false,
+  }));
+  if (!stored) return defaults;
+
+  const known = stored.filter((state) => columns.some((column) => column.id === state.id));
+  const added = defaults.filter((state) => !stored.some((storedState) => storedState.id === state.id));
+  return [...known, ...added];
+};
+
+/**
+ * Custom hook to manage and persist the column layout of a table.
+ * @param {string} tableId - Identifies the table, e.g. 'companies'.
+ * @param {LayoutColumn[]} columns - The table's column definitions.
+ * @returns {UseTableLayout} The layout and the functions to change it.
+ */
+const useTableLayout = (tableId: string, columns: LayoutColumn[]): UseTableLayout => {
+  const { user } = useAuth();
+  // The Local Storage key for this user's layout of the table.
+  const storageKey = user ? `nexus_table_layout_${user.id}_${tableId}` : null;
+
+  const [stored, setStored] = useState<TableColumnState[] | null>(() => readLayout(storageKey));
+
+  // Reload the layout if the user or table changes.
+  useEffect(() => {
+    setStored(readLayout(storageKey));
+  }, [storageKey]);
+
+  const layout = mergeLayout(columns, stored);
+
+  /**
+   * Stores the new layout in React state and Local Storage.
+   * @param {TableColumnState[] | null} next - The new layout, or null for the default layout.
+   */
+  const persist = useCallback((next: TableColumnState[] | null) => {
+    setStored(next);
+    if (!storageKey) return;
+    try {
+      if (next) {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+    } catch (error) {
+      console.error('Failed to store table layout in localStorage:', error);
+    }
+  }, [storageKey]);
+
+  const updateColumn = (columnId: string, changes: Partial<Omit<TableColumnState, 'id'>>) => {
+    persist(layout.map((state) => (state.id === columnId ? { ...state, ...changes } : state)));
+  };
+
+  const moveColumn = (columnId: string, offset: number) => {
+    const index = layout.findIndex((state) => state.id === columnId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= layout.length) return;
+
+    const next = [...layout];
+    const [moved] = next.splice(index, 1);
+    next.splice(target, 0, moved);
+    persist(next);
+  };
+
+  return {
+    layout,
+    setLayout: persist,
+    updateColumn,
+    moveColumn,
+    resetLayout: () => persist(null),
+  };
+};
+
+export default useTableLayout;
@@ -0,0 +1,165 @@
+// src/hooks/useTimer.ts
+/**
+ * Custom Hook for the Running Time Entry Timer.
+ *
+ * This hook manages a start/pause/stop timer whose state is persisted in Local Storage,
+ * so a running timer survives page reloads and an expired session (logout does not clear it).
+ * - The state is stored per user, so another user logging in on the same browser
+ *   neither sees nor overwrites it.
+ * - Elapsed time is derived from timestamps rather than counted, so it stays accurate
+ *   while the tab is closed or in the background.
+ * - Every component using the hook shows the same timer, e.g. the header timer and the
+ *   overview's timer card, in this tab and in others.
+ * Saving the finished timer as a time entry is left to the caller.
+ */
+import { useCallback, useEffect, useState } from 'react';
+
+// The persisted state of a timer that has been started and not yet saved.
+export interface TimerState {
+  status: 'running' | 'paused';
+  projectId: number | null; // The project the time is assigned to, if chosen yet
+  description: string;
+  startedAt: string; // ISO timestamp when the timer was first started
+  segmentStartedAt: string | null; // ISO timestamp when the current running segment began
+  accumulatedMs: number; // Time from previous running segments (before pauses)
+}
+
+// Define the interface for the return value of the hook
+interface UseTimer {
+  timer: TimerState | null; // The current timer, or null if none is active
+  elapsedMs: number; // Total elapsed running time, updated every second while running
+  start: (projectId: number | null, description?: string) => void;
+  pause: () => void;
+  resume: () => void;
+  update: (changes: Partial<Pick<TimerState, 'projectId' | 'description'>>) => void;
+  discard: () => void; // Clears the timer (after saving it, or to throw it away)
+}
+
+// Window event telling the other timers of this tab that the timer with the key in `detail` changed.
+// (The 'storage' event only reaches other tabs.)
+const TIMER_CHANGE_EVENT = 'nexus-timer-change';
+
+/**
+ * Returns the total running time of a timer at the given moment.
+ * @param {TimerState} timer - The timer state.
+ * @param {number} now - The current time in milliseconds.
+ */
+export const getElapsedMs = (timer: TimerState, now: number = Date.now()): number =>
+  timer.accumulatedMs +
+  (timer.status === 'running' && timer.segmentStartedAt ? now - new Date(timer.segmentStartedAt).getTime() : 0);
+
+/**
+ * Reads a persisted timer from Local Storage.
+ * @param {string} key - The storage key.
+ */
+const readTimer = (key: string): TimerState | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as TimerState) : null;
+  } catch (error) {
+    console.error('Failed to read timer from localStorage:', error);
+    return null;
+  }
+};
+
+/**
+ * Custom hook to run a persistent time entry timer for the given user.
+ * @param {number | null} userId - The ID of the logged-in user, or null if nobody is logged in.
+ * @returns {UseTimer} The timer state and the functions to control it.
+ */
+const useTimer = (userId: number | null): UseTimer => {
+  // The Local Storage key for this user's timer.
+  const storageKey = userId !== null ? `nexus_timer_${userId}` : null;
+
+  const [timer, setTimer] = useState<TimerState | null>(() => (storageKey ? readTimer(storageKey) : null));
+  // The current time, refreshed every second while the timer runs to re-render the clock.
+  const [now, setNow] = useState(() => Date.now());
+
+  // Reload the timer if the user changes (e.g., a different user logs in).
+  useEffect(() => {
+    setTimer(storageKey ? readTimer(storageKey) : null);
+  }, [storageKey]);
+
+  // Tick once per second while running.
+  useEffect(() => {
+    if (timer?.status !== 'running') return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [timer?.status]);
+
+  // Keep the timer in sync when another tab, or another component of this tab, starts, pauses or saves it.
+  useEffect(() => {
+    if (!storageKey) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) {
+        setTimer(readTimer(storageKey));
+      }
+    };
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<string>).detail === storageKey) {
+        setTimer(readTimer(storageKey));
+        setNow(Date.now());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener(TIMER_CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(TIMER_CHANGE_EVENT, handleChange);
+    };
+  }, [storageKey]);
+
+  /**
+   * Stores the new timer state in React state and Local Storage.
+   * @param {TimerState | null} next - The new state, or null to clear the timer.
+   */
+  const persist = useCallback((next: TimerState | null) => {
+    setTimer(next);
+    setNow(Date.now());
+    if (!storageKey) return;
+    try {
+      if (next) {
+        localStorage.setItem(storageKey, JSON.stringify(next));
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+      window.dispatchEvent(new CustomEvent(TIMER_CHANGE_EVENT, { detail: storageKey }));
+    } catch (error) {
+      console.error('Failed to store timer in localStorage:', error);
+    }
+  }, [storageKey]);
+
+  const start = useCallback((projectId: number | null, description = '') => {
+    const startedAt = new Date().toISOString();
+    persist({ status: 'running', projectId, description, startedAt, segmentStartedAt: startedAt, accumulatedMs: 0 });
+  }, [persist]);
+
+  const pause = useCallback(() => {
+    if (!timer || timer.status !== 'running') return;
+    persist({ ...timer, status: 'paused', segmentStartedAt: null, accumulatedMs: getElapsedMs(timer) });
+  }, [timer, persist]);
+
+  const resume = useCallback(() => {
+    if (!timer || timer.status !== 'paused') return;
+    persist({ ...timer, status: 'running', segmentStartedAt: new Date().toISOString() });
+  }, [timer, persist]);
+
+  const update = useCallback((changes: Partial<Pick<TimerState, 'projectId' | 'description'>>) => {
+    if (!timer) return;
+    persist({ ...timer, ...changes });
+  }, [timer, persist]);
+
+  const discard = useCallback(() => persist(null), [persist]);
+
+  return {
+    timer,
+    elapsedMs: timer ? getElapsedMs(timer, now) : 0,
+    start,
+    pause,
+    resume,
+    update,
+    discard,
+  };
+};
+
+export default useTimer;
@@ -0,0 +1,82 @@
+// src/hooks/useVoiceInput.ts
+/**
+ * Custom Hook for Voice Input.
+ *
+ * Drives a `SpeechRecognizer` (see src/speech/types.ts) for the NexusInputBar's microphone mode:
+ * starting and stopping it, tracking whether it listens or transcribes, and reporting the
+ * transcript through `onTranscript` as it arrives. Nothing is submitted: the caller puts the
+ * transcript in the input, where the user can edit it first.
+ * The recognizer comes from a factory, so a mocked one can be passed (see src/speech/mockRecognizer.ts). The default factory
+ * uses the browser's speech recognition, or records audio for the backend's 'transcribe' endpoint.
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import useApiClient from './useApiClient'; // Import the typed API client hook, for the transcription endpoint
+import { SpeechRecognizer, SpeechRecognizerFactory } from '../speech/types';
+import { createDefaultRecognizer } from '../speech/recognizers';
+
+// Define the interface for the return value of the hook
+interface UseVoiceInput {
+  supported: boolean; // Whether speech input is possible in this browser
+  mode: SpeechRecognizer['mode'] | null; // Whether a live transcript is shown while listening
+  status: 'idle' | 'listening' | 'transcribing';
+  error: string | null; // Why listening or transcribing failed
+  start: () => void;
+  stop: () => void; // Stops listening; the final transcript follows
+  cancel: () => void; // Stops listening and discards the transcript
+  clearError: () => void; // Hides the error, e.g. once the user types instead
+}
+
+/**
+ * Custom hook to turn speech into text.
+ * @param {(text: string, isFinal: boolean) => void} onTranscript - Called with the transcript so far, and with the final one.
+ * @param {SpeechRecognizerFactory} createRecognizer - Creates the recognizer; the browser's best option if not set.
+ * @returns {UseVoiceInput} The state and the functions to control it.
+ */
+const useVoiceInput = (
+  onTranscript: (text: string, isFinal: boolean) => void,
+  createRecognizer?: SpeechRecognizerFactory
+): UseVoiceInput => {
+  const api = useApiClient();
+  // The recognizer is created once; a factory that returns null means voice input isn't supported.
+  const [recognizer] = useState<SpeechRecognizer | null>(() =>
+    (createRecognizer ?? createDefaultRecognizer((audio) => api.speech.transcribe(audio)))()
+  );
+
+  const [status, setStatus] = useState<UseVoiceInput['status']>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // The latest callback, so a recognizer that is listening always reports to the current one.
+  const onTranscriptRef = useRef(onTranscript);
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  }, [onTranscript]);
+
+  // Stop listening when the component unmounts.
+  useEffect(() => () => recognizer?.abort(), [recognizer]);
+
+  const start = useCallback(() => {
+    if (!recognizer) return;
+    setError(null);
+    setStatus('listening');
+    recognizer.start({
+      onTranscript: (text, isFinal) => onTranscriptRef.current(text, isFinal),
+      onError: (message) => setError(message),
+      onEnd: () => setStatus('idle'),
+    });
+  }, [recognizer]);
+
+  const stop = useCallback(() => {
+    if (!recognizer) return;
+    // A recording is transcribed after it stops; speech recognition only finishes its last words.
+    setStatus('transcribing');
+    recognizer.stop();
+  }, [recognizer]);
+
+  const cancel = useCallback(() => recognizer?.abort(), [recognizer]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { supported: recognizer !== null, mode: recognizer?.mode ?? null, status, error, start, stop, cancel, clearError };
+};
+
+export default useVoiceInput;
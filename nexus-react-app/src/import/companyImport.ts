@@ -0,0 +1,89 @@
+/**
+ * Company Import Configuration.
+ *
+ * Imports companies from CSV into the fields of `CompanyForm`. Rows are checked with the
+ * form's own schema (`companySchema`): a name is required, and the email, website, postal code
+ * and default flat fee must be valid. The status may also be written as a word, e.g. 'Active'.
+ * Companies are duplicates when their name or document number is already taken
+ * (by an existing company or an earlier row of the file).
+ */
+import { CompanyInput } from '../api/types';
+import { CompanyFormValues, companySchema } from '../forms/companySchema';
+import { validateForm } from '../forms/schema';
+import { ImportConfig, ImportValues } from './types';
+
+// Status values accepted in the CSV, lowercase.
+const ACTIVE_VALUES = ['1', 'active', 'yes', 'true'];
+const INACTIVE_VALUES = ['0', 'inactive', 'no', 'false'];
+
+/**
+ * Returns a trimmed value, or null if it is empty.
+ * @param {string} value - The CSV value.
+ */
+const orNull = (value: string): string | null => value.trim() || null;
+
+export const companyImport: ImportConfig<CompanyInput> = {
+  resource: 'companies',
+  title: 'Companies',
+  fields: [
+    { key: 'name', label: 'Name', required: true, aliases: ['company', 'company name', 'client', 'client name'] },
+    { key: 'legal_name', label: 'Legal Name', aliases: ['legal name', 'registered name'] },
+    { key: 'document_number', label: 'Document Number', aliases: ['document', 'tax id', 'vat', 'vat number', 'cnpj', 'ein'] },
+    { key: 'contact_person', label: 'Contact Person', aliases: ['contact', 'contact name'] },
+    { key: 'email', label: 'Email', aliases: ['e-mail', 'email address'] },
+    { key: 'phone', label: 'Phone', aliases: ['telephone', 'phone number'] },
+    { key: 'address_1', label: 'Address Line 1', aliases: ['address', 'street'] },
+    { key: 'address_2', label: 'Address Line 2' },
+    { key: 'city', label: 'City' },
+    { key: 'state', label: 'State', aliases: ['province', 'region'] },
+    { key: 'postal_code', label: 'Postal Code', aliases: ['zip', 'zip code', 'postcode'] },
+    { key: 'country', label: 'Country' },
+    { key: 'website', label: 'Website', aliases: ['url', 'web'] },
+    { key: 'default_flat_fee', label: 'Default Flat Fee', aliases: ['flat fee', 'fee'] },
+    { key: 'status', label: 'Status', aliases: ['active'] },
+    { key: 'notes', label: 'Notes', aliases: ['comments'] },
+  ],
+  duplicateKeys: ['name', 'document_number'],
+
+  validate: (values: ImportValues) => {
+    // The row has a value (maybe '') for every field, as the form does.
+    const errors = validateForm(companySchema, values as CompanyFormValues);
+    const status = values.status.trim().toLowerCase();
+    if (status && !ACTIVE_VALUES.includes(status) && !INACTIVE_VALUES.includes(status)) {
+      errors.status = 'Must be Active or Inactive (or 1/0).';
+    }
+    return errors;
+  },
+
+  toInput: (values: ImportValues): CompanyInput => {
+    const website = values.website.trim();
+    return {
+      name: values.name.trim(),
+      legal_name: orNull(values.legal_name),
+      document_number: orNull(values.document_number),
+      contact_person: orNull(values.contact_person),
+      email: orNull(values.email),
+      phone: orNull(values.phone),
+      address_1: orNull(values.address_1),
+      address_2: orNull(values.address_2),
+      city: orNull(values.city),
+      state: orNull(values.state),
+      postal_code: orNull(values.postal_code),
+      country: orNull(values.country),
+      // Spreadsheets often leave out the scheme, e.g. 'example.com'.
+      website: website ? (/^https?:\/\//i.test(website) ? website : `https://${website}`) : null,
+      notes: orNull(values.notes),
+      // Same defaults as a new company in CompanyForm: active, with a 0.00 flat fee.
+      status: INACTIVE_VALUES.includes(values.status.trim().toLowerCase()) ? 0 : 1,
+      default_flat_fee: values.default_flat_fee.trim() ? Number(values.default_flat_fee).toFixed(2) : '0.00',
+    };
+  },
+
+  fetchExisting: async (api) => {
+    // `list` reads every page, so companies past the first page are checked too.
+    const companies = await api.companies.list();
+    return companies.map((company) => ({ name: company.name, document_number: company.document_number ?? '' }));
+  },
+
+  create: (api, input) => api.companies.create(input),
+};
@@ -0,0 +1,37 @@
+/**
+ * Import Configuration Types.
+ *
+ * The ImportWizard component is generic: everything specific to one kind of record
+ * (its fields, validation, duplicate rules and how to create it) comes from an `ImportConfig`.
+ * Each importable resource has its own config module in this folder, e.g. ./companyImport.ts.
+ */
+import { ApiClient } from '../api/client';
+
+// The values of one CSV row, by field key, after mapping the CSV columns to fields. Unmapped fields are ''.
+export type ImportValues = Record<string, string>;
+
+// A field records can be imported into.
+export interface ImportField {
+  key: string; // The field's name in the API, e.g. 'legal_name'
+  label: string; // The label shown in the mapping step, e.g. 'Legal Name'
+  required?: boolean; // Rows without a value are rejected, and the field must be mapped
+  aliases?: string[]; // Other CSV header names mapped to the field automatically, e.g. ['company']
+}
+
+// Everything the import wizard needs to import one kind of record.
+export interface ImportConfig<TInput> {
+  resource: string; // The resource being imported, e.g. 'companies'; used in file names, and invalidated in the query cache after the import
+  title: string; // Plural display name, e.g. 'Companies'
+  fields: ImportField[];
+  // Fields whose values identify a record, e.g. ['name', 'document_number']. A row is a duplicate
+  // if any of them (ignoring case and spaces) matches an existing record or an earlier row.
+  duplicateKeys: string[];
+  // Returns validation messages for a row, keyed by field; empty if the row is valid.
+  validate: (values: ImportValues) => Record<string, string>;
+  // Turns a valid row into the request payload.
+  toInput: (values: ImportValues) => TInput;
+  // Fetches the existing records' values of the duplicate keys, from every page of a paginated list.
+  fetchExisting: (api: ApiClient) => Promise<ImportValues[]>;
+  // Creates one record. The client passed in doesn't invalidate the cache; the wizard does once at the end.
+  create: (api: ApiClient, input: TInput) => Promise<unknown>;
+}
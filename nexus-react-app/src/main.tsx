@@ -5,11 +5,13 @@
  * It finds the root DOM element (usually <div id="root"></div> in public/index.html)
  * and renders the main App component into it.
  * It uses React 18's createRoot for better performance.
+ * Before rendering, it loads the runtime config JSON, so every API URL points at the configured site.
  */
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx'; // Import the main App component
 import './index.css'; // Import global styles
+import { loadRuntimeConfig } from './config'; // Import the runtime config loader
 
 // Find the root element where the React app will be mounted
 const container = document.getElementById('root');
@@ -20,12 +22,15 @@ if (container) {
     const root = ReactDOM.createRoot(container);
 
     // Render the App component inside React's StrictMode (for development checks)
+    // once the runtime config is loaded (a missing config file keeps the build-time values).
     // The App component contains the Router and AuthProvider.
-    root.render(
-        <React.StrictMode>
-            <App />
-        </React.StrictMode>
-    );
+    loadRuntimeConfig().finally(() => {
+        root.render(
+            <React.StrictMode>
+                <App />
+            </React.StrictMode>
+        );
+    });
 } else {
     // Log an error if the root element is not found, which means the app can't start
     console.error('Root element #root not found in the DOM.');
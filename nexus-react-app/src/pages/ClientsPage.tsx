@@ -0,0 +1,60 @@
+/**
+ * Clients Page Component.
+ *
+ * Renders every client view under '/clients/*' with nested routes:
+ * - '/clients'                 the client list
+ * - '/clients/new'             the form to add a client
+ * - '/clients/:clientId/edit'  the form to edit a client
+ */
+import React from 'react';
+import { Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import useQuery from '../hooks/useQuery'; // Import the cached read hook to load the client being edited
+import ClientTable from '../components/ClientTable';
+import ClientForm from '../components/ClientForm';
+import NotFoundPage from './NotFoundPage';
+import { parseRecordId } from '../utils/navigation';
+
+/**
+ * Loads the client in the URL and renders the form to edit it.
+ */
+const ClientEditRoute: React.FC = () => {
+  const { clientId } = useParams();
+  const navigate = useNavigate();
+  const id = parseRecordId(clientId);
+  // The fetcher only runs while the key is set, i.e. when the ID is valid.
+  const { data: client, loading, error } = useQuery(id === null ? null : ['clients', id], (api) => api.clients.get(id!));
+
+  if (id === null) {
+    return <NotFoundPage />;
+  }
+  if (loading) {
+    return <p>Loading client...</p>;
+  }
+  if (error || !client) {
+    return <p style={{ color: 'red' }}>Error: {error || 'Client not found.'}</p>;
+  }
+
+  return (
+    <ClientForm
+      key={`edit-client-form-${client.ID}`}
+      client={client}
+      onClientSaved={() => navigate('/clients')}
+      onCancel={() => navigate('/clients')}
+    />
+  );
+};
+
+const ClientsPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route index element={<ClientTable onEditClient={(client) => navigate(`/clients/${client.ID}/edit`)} />} />
+      <Route path="new" element={<ClientForm onClientSaved={() => navigate('/clients')} onCancel={() => navigate('/clients')} />} />
+      <Route path=":clientId/edit" element={<ClientEditRoute />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default ClientsPage;
@@ -0,0 +1,96 @@
+/**
+ * Companies Page Component.
+ *
+ * Renders every company view under '/companies/*' with nested routes:
+ * - '/companies'                  the company list
+ * - '/companies/new'              the form to add a company
+ * - '/companies/import'           the wizard to import companies from a CSV file
+ * - '/companies/:companyId'       the company detail view
+ * - '/companies/:companyId/edit'  the form to edit a company
+ * Each view has its own URL, so it can be bookmarked, shared and reloaded.
+ */
+import React from 'react';
+import { Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import useQuery from '../hooks/useQuery'; // Import the cached read hook to load the company being edited
+import CompanyTable from '../components/CompanyTable';
+import CompanyForm from '../components/CompanyForm';
+import CompanyDetail from '../components/CompanyDetail';
+import ImportWizard from '../components/ImportWizard';
+import { companyImport } from '../import/companyImport';
+import NotFoundPage from './NotFoundPage';
+import { parseRecordId } from '../utils/navigation';
+
+/**
+ * Renders the detail view of the company in the URL.
+ */
+const CompanyDetailRoute: React.FC = () => {
+  const { companyId } = useParams();
+  const navigate = useNavigate();
+  const id = parseRecordId(companyId);
+
+  if (id === null) {
+    return <NotFoundPage />;
+  }
+
+  return (
+    <CompanyDetail
+      key={`company-detail-${id}`}
+      companyId={id}
+      onEdit={(company) => navigate(`/companies/${company.ID}/edit`)}
+      onDeleted={() => navigate('/companies')}
+      onBack={() => navigate('/companies')}
+      onEditClient={(client) => navigate(`/clients/${client.ID}/edit`)}
+    />
+  );
+};
+
+/**
+ * Loads the company in the URL and renders the form to edit it.
+ */
+const CompanyEditRoute: React.FC = () => {
+  const { companyId } = useParams();
+  const navigate = useNavigate();
+  const id = parseRecordId(companyId);
+  // The fetcher only runs while the key is set, i.e. when the ID is valid.
+  const { data: company, loading, error } = useQuery(id === null ? null : ['companies', id], (api) => api.companies.get(id!));
+
+  if (id === null) {
+    return <NotFoundPage />;
+  }
+  if (loading) {
+    return <p>Loading company...</p>;
+  }
+  if (error || !company) {
+    return <p style={{ color: 'red' }}>Error: {error || 'Company not found.'}</p>;
+  }
+
+  // Saving or cancelling returns to the company's detail view.
+  return (
+    <CompanyForm
+      key={`edit-company-form-${company.ID}`}
+      company={company}
+      onCompanyUpdated={(updated) => navigate(`/companies/${updated.ID}`)}
+      onCancel={() => navigate(`/companies/${company.ID}`)}
+    />
+  );
+};
+
+const CompaniesPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route
+        index
+        element={<CompanyTable onSelectCompany={(id) => navigate(`/companies/${id}`)} onImport={() => navigate('/companies/import')} />}
+      />
+      <Route path="new" element={<CompanyForm onCompanyCreated={() => navigate('/companies')} onCancel={() => navigate('/companies')} />} />
+      <Route path="import" element={<ImportWizard config={companyImport} onDone={() => navigate('/companies')} onCancel={() => navigate('/companies')} />} />
+      <Route path=":companyId" element={<CompanyDetailRoute />} />
+      <Route path=":companyId/edit" element={<CompanyEditRoute />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default CompaniesPage;
@@ -0,0 +1,26 @@
+/**
+ * Expenses Page Component.
+ *
+ * Renders every expense view under '/expenses/*' with nested routes:
+ * - '/expenses'      the expense list with totals and receipt thumbnails
+ * - '/expenses/new'  the form to add an expense with a receipt
+ */
+import React from 'react';
+import { Route, Routes, useNavigate } from 'react-router-dom';
+import ExpenseTable from '../components/ExpenseTable';
+import ExpenseForm from '../components/ExpenseForm';
+import NotFoundPage from './NotFoundPage';
+
+const ExpensesPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route index element={<ExpenseTable />} />
+      <Route path="new" element={<ExpenseForm onExpenseCreated={() => navigate('/expenses')} onCancel={() => navigate('/expenses')} />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default ExpensesPage;
@@ -9,12 +9,15 @@
 import React, { useEffect } from 'react';
 import LoginForm from '../components/LoginForm'; // Import the LoginForm component
 import { useAuth } from '../context/AuthContext'; // Import useAuth hook to check auth status
-import { useNavigate } from 'react-router-dom'; // Import useNavigate for redirection
+import { useLocation, useNavigate } from 'react-router-dom'; // Import useNavigate and useLocation for redirection
+import { getPostLoginPath } from '../utils/navigation'; // Import helper to return to the requested page
 
 const LoginPage: React.FC = () => {
   // Access user and loadingUser from the AuthContext
   const { user, loadingUser } = useAuth();
   const navigate = useNavigate(); // Get the navigate function from react-router-dom
+  // The location carries the page the user originally requested, if PrivateRoute redirected them here.
+  const location = useLocation();
 
   // useEffect hook to handle redirection if the user is already authenticated.
   // This runs when the component mounts or when user/loadingUser state changes.
@@ -22,14 +25,14 @@ const LoginPage: React.FC = () => {
     // Only attempt to redirect if we are NOT currently loading/checking auth status
     // and if the user object exists (meaning they are logged in).
     if (!loadingUser && user) {
-      console.log('User detected on login page, redirecting to dashboard.');
-      // Redirect to the dashboard page.
+      console.log('User detected on login page, redirecting to the requested page.');
+      // Redirect to the page the user originally requested, or the dashboard.
       // 'replace: true' replaces the current entry in the browser history,
       // so the user can't use the back button to return to the login page after logging in.
-      navigate('/dashboard', { replace: true });
+      navigate(getPostLoginPath(location.state), { replace: true });
     }
      // Note: navigate is stable, but adding it as a dependency is standard practice in newer React/linters
-  }, [user, loadingUser, navigate]); // Dependencies: Rerun effect if user, loadingUser, or navigate changes.
+  }, [user, loadingUser, navigate, location.state]); // Dependencies: Rerun effect if user, loadingUser, navigate or the requested page changes.
 
   // If currently loading authentication status, show a simple loading message.
   // The full loading spinner for the entire app is handled in AuthProvider.
@@ -0,0 +1,20 @@
+/**
+ * Not Found Page Component.
+ *
+ * Rendered by the catch-all routes for URLs that don't match any page,
+ * and by entity pages when the ID in the URL is not a valid record ID.
+ */
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+const NotFoundPage: React.FC = () => {
+  return (
+    <div className="message-display">
+      <h2>404 Not Found</h2>
+      <p>The page you requested does not exist.</p>
+      <Link to="/dashboard">Return to Overview</Link>
+    </div>
+  );
+};
+
+export default NotFoundPage;
@@ -0,0 +1,96 @@
+/**
+ * Overview Page Component.
+ *
+ * The landing page of the dashboard (route '/dashboard').
+ * - It greets the user.
+ * - It renders the Quick Actions grid: registry actions are run by useActions, custom
+ *   actions run their query. The user can reorder, hide and add actions; their arrangement is
+ *   saved with the overview layout.
+ * - It renders the user's overview cards (hours this week, the timer, top projects, pinned
+ *   queries, ...). "Customize" lets the user add, arrange, resize and remove them; the layout
+ *   is saved per user on the backend (see useOverviewLayout).
+ */
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext'; // Import useAuth hook to greet the user
+import useOverviewLayout, { QuickAction } from '../hooks/useOverviewLayout'; // Import the overview layout hook
+import useActions from '../hooks/useActions'; // Import the registry hook to run and permission-check actions
+import useDashboardContext from '../hooks/useDashboardContext'; // Import the dashboard's shared state, for the query history and to run custom actions
+import ActionGridSection from '../components/ActionGridSection';
+import OverviewWidgetGrid from '../components/OverviewWidgetGrid';
+import OverviewWidgetPicker from '../components/OverviewWidgetPicker';
+
+const OverviewPage: React.FC = () => {
+  const { user } = useAuth();
+  const { can, run } = useActions();
+  const { queryHistory, runQuery } = useDashboardContext();
+  const layout = useOverviewLayout();
+  // Whether the cards show the controls to add, arrange, resize and remove them.
+  // Not before the stored layout has loaded, since changes are ignored until then.
+  const [editingState, setEditing] = useState(false);
+  const editing = editingState && layout.ready;
+
+  // The queries the user ran before, offered for custom actions and pinned query cards.
+  const queries = queryHistory.entries.map((entry) => entry.query);
+
+  // Function to handle clicks on the action square buttons in the grid.
+  const handleActionClick = (item: QuickAction) => {
+    if (item.action) {
+      run(item.action);
+    } else if (item.query) {
+      runQuery(item.query);
+    }
+  };
+
+  return (
+    <>
+      <ActionGridSection
+        title="Quick Actions"
+        actions={layout.quickActions}
+        queries={queries}
+        canRun={can}
+        locked={!layout.ready}
+        onActionClick={handleActionClick} // Pass the action square click handler
+        onMove={layout.moveAction}
+        onToggleHidden={layout.toggleActionHidden}
+        onAddCustom={layout.addCustomAction}
+        onRemoveCustom={layout.removeCustomAction}
+        onReset={layout.resetActions}
+      />
+
+      <div className="data-table-toolbar overview-toolbar">
+        <h2>Dashboard Overview</h2>
+        <div className="data-table-toolbar-actions">
+          {layout.saving && <span className="overview-detail">Saving layout...</span>}
+          {editing && (
+            <button type="button" onClick={() => window.confirm('Restore the default cards?') && layout.resetLayout()}>
+              Reset layout
+            </button>
+          )}
+          <button type="button" onClick={() => setEditing((prev) => !prev)} aria-pressed={editing} disabled={!layout.ready}>
+            {editing ? 'Done' : 'Customize'}
+          </button>
+        </div>
+      </div>
+      {user && <p>Welcome back, {user.name}!</p>}
+      <p>Select an action above or type a natural language query below.</p>
+      {layout.error && <p style={{ color: 'red' }}>Error: {layout.error}</p>}
+
+      {editing && (
+        <OverviewWidgetPicker onAdd={layout.addWidget} queries={queries} />
+      )}
+      {layout.loading ? (
+        <p>Loading your overview...</p>
+      ) : (
+        <OverviewWidgetGrid
+          widgets={layout.widgets}
+          editing={editing}
+          onMove={layout.moveWidget}
+          onResize={layout.updateWidget}
+          onRemove={layout.removeWidget}
+        />
+      )}
+    </>
+  );
+};
+
+export default OverviewPage;
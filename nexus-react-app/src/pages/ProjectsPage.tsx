@@ -0,0 +1,60 @@
+/**
+ * Projects Page Component.
+ *
+ * Renders every project view under '/projects/*' with nested routes:
+ * - '/projects'                  the project list
+ * - '/projects/new'              the form to add a project
+ * - '/projects/:projectId/edit'  the form to edit a project
+ */
+import React from 'react';
+import { Route, Routes, useNavigate, useParams } from 'react-router-dom';
+import useQuery from '../hooks/useQuery'; // Import the cached read hook to load the project being edited
+import ProjectTable from '../components/ProjectTable';
+import ProjectForm from '../components/ProjectForm';
+import NotFoundPage from './NotFoundPage';
+import { parseRecordId } from '../utils/navigation';
+
+/**
+ * Loads the project in the URL and renders the form to edit it.
+ */
+const ProjectEditRoute: React.FC = () => {
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const id = parseRecordId(projectId);
+  // The fetcher only runs while the key is set, i.e. when the ID is valid.
+  const { data: project, loading, error } = useQuery(id === null ? null : ['projects', id], (api) => api.projects.get(id!));
+
+  if (id === null) {
+    return <NotFoundPage />;
+  }
+  if (loading) {
+    return <p>Loading project...</p>;
+  }
+  if (error || !project) {
+    return <p style={{ color: 'red' }}>Error: {error || 'Project not found.'}</p>;
+  }
+
+  return (
+    <ProjectForm
+      key={`edit-project-form-${project.ID}`}
+      project={project}
+      onProjectSaved={() => navigate('/projects')}
+      onCancel={() => navigate('/projects')}
+    />
+  );
+};
+
+const ProjectsPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route index element={<ProjectTable onEditProject={(project) => navigate(`/projects/${project.ID}/edit`)} />} />
+      <Route path="new" element={<ProjectForm onProjectSaved={() => navigate('/projects')} onCancel={() => navigate('/projects')} />} />
+      <Route path=":projectId/edit" element={<ProjectEditRoute />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default ProjectsPage;
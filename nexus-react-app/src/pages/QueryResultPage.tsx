@@ -0,0 +1,70 @@
+/**
+ * Query Result Page Component.
+ *
+ * Displays the natural language query conversation (route '/query') as a chat-style panel:
+ * the thread of questions and answers of the current conversation, next to the searchable
+ * history of past queries.
+ * The queries themselves are submitted from the NexusInputBar (or re-run from the history);
+ * DashboardPage sends them to the backend, navigates here and shares the conversation
+ * through the outlet context. Each answer is rendered by QueryResultView according to its kind.
+ * Answers can be pinned to the overview as cards (see useOverviewLayout).
+ */
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import useDashboardContext from '../hooks/useDashboardContext'; // Import the dashboard's shared query state
+import useOverviewLayout from '../hooks/useOverviewLayout'; // Import the overview layout hook, to pin answers
+import QueryThread from '../components/QueryThread'; // Import the conversation thread
+import QueryHistoryPanel from '../components/QueryHistoryPanel'; // Import the query history list
+import { QueryHistoryTurn } from '../api/types';
+
+const QueryResultPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { conversation, queryHistory, runQuery } = useDashboardContext();
+  const overview = useOverviewLayout();
+  // Whether a query has a card on the overview, asked after the same earlier turns.
+  const isPinned = (query: string, history: QueryHistoryTurn[]) =>
+    overview.widgets.some(
+      (widget) => widget.type === 'pinned-query' && widget.query === query && JSON.stringify(widget.history ?? []) === JSON.stringify(history)
+    );
+
+  return (
+    <div className="query-result-display">
+      <div className="query-panel-header">
+        <h2>Ask Nexus</h2>
+        {/* Follow-up queries refer to the earlier turns; a new conversation starts without them. */}
+        {conversation.turns.length > 0 && (
+          <button type="button" className="query-new-conversation" onClick={conversation.reset} disabled={conversation.loading}>
+            New conversation
+          </button>
+        )}
+      </div>
+      {/* The overview layout failed to load (pinning is off then) or to save a pin */}
+      {overview.error && <p style={{ color: 'red' }}>Error: {overview.error}</p>}
+
+      <div className="query-panel">
+        <QueryThread
+          turns={conversation.turns}
+          onQuery={runQuery}
+          onTurnResult={conversation.setTurnResult}
+          onCancel={conversation.cancel}
+          onPin={(query, history) => overview.addWidget('pinned-query', query, history)}
+          isPinned={isPinned}
+          pinDisabled={!overview.ready}
+        />
+        <QueryHistoryPanel
+          entries={queryHistory.entries}
+          onRun={runQuery}
+          onTogglePin={queryHistory.togglePin}
+          onRemove={queryHistory.remove}
+          onClear={queryHistory.clear}
+          disabled={conversation.loading}
+        />
+      </div>
+
+      {/* Add a button to return to the overview page. */}
+      <button onClick={() => navigate('/dashboard')}>Back to Overview</button>
+    </div>
+  );
+};
+
+export default QueryResultPage;
@@ -0,0 +1,46 @@
+/**
+ * Reports Page Component.
+ *
+ * Renders every report view under '/reports/*' with nested routes:
+ * - '/reports'            the list of prebuilt reports
+ * - '/reports/:reportId'  a report, e.g. '/reports/utilization?from=2026-01-01&to=2026-03-31'
+ * The filters are kept in the query string, and carried over when switching between reports,
+ * so comparing reports of the same period takes no re-entering.
+ */
+import React from 'react';
+import { Route, Routes, useLocation, useNavigate, useParams } from 'react-router-dom';
+import ReportList from '../components/ReportList';
+import ReportView from '../components/ReportView';
+import NotFoundPage from './NotFoundPage';
+import { getReport } from '../reports/definitions';
+
+/**
+ * Renders the report in the URL.
+ */
+const ReportRoute: React.FC = () => {
+  const { reportId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const report = getReport(reportId);
+
+  if (!report) {
+    return <NotFoundPage />;
+  }
+
+  return <ReportView key={report.id} report={report} onBack={() => navigate({ pathname: '/reports', search: location.search })} />;
+};
+
+const ReportsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  return (
+    <Routes>
+      <Route index element={<ReportList onOpen={(report) => navigate({ pathname: `/reports/${report.id}`, search: location.search })} />} />
+      <Route path=":reportId" element={<ReportRoute />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default ReportsPage;
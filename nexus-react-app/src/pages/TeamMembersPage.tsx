@@ -0,0 +1,26 @@
+/**
+ * Team Members Page Component.
+ *
+ * Renders every team view under '/team/*' with nested routes:
+ * - '/team'         the team member list (admins can edit roles and rates)
+ * - '/team/invite'  the form to invite a team member
+ */
+import React from 'react';
+import { Route, Routes, useNavigate } from 'react-router-dom';
+import TeamMemberTable from '../components/TeamMemberTable';
+import TeamMemberInviteForm from '../components/TeamMemberInviteForm';
+import NotFoundPage from './NotFoundPage';
+
+const TeamMembersPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route index element={<TeamMemberTable onInvite={() => navigate('/team/invite')} />} />
+      <Route path="invite" element={<TeamMemberInviteForm onInvited={() => navigate('/team')} onCancel={() => navigate('/team')} />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default TeamMembersPage;
@@ -0,0 +1,26 @@
+/**
+ * Time Entries Page Component.
+ *
+ * Renders every time entry view under '/time-entries/*' with nested routes:
+ * - '/time-entries'      the filtered time entry list
+ * - '/time-entries/new'  the form to add a time entry manually
+ */
+import React from 'react';
+import { Route, Routes, useNavigate } from 'react-router-dom';
+import TimeEntryTable from '../components/TimeEntryTable';
+import TimeEntryForm from '../components/TimeEntryForm';
+import NotFoundPage from './NotFoundPage';
+
+const TimeEntriesPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <Routes>
+      <Route index element={<TimeEntryTable />} />
+      <Route path="new" element={<TimeEntryForm onTimeEntryCreated={() => navigate('/time-entries')} onCancel={() => navigate('/time-entries')} />} />
+      <Route path="*" element={<NotFoundPage />} />
+    </Routes>
+  );
+};
+
+export default TimeEntriesPage;
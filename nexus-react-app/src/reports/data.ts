@@ -0,0 +1,190 @@
+/**
+ * Report Data Helpers.
+ *
+ * Shared by the report definitions (./definitions.ts), ReportView and the overview cards:
+ * - the default filters and the narrowing of the loaded records to them;
+ * - names of the records a report groups by, and what logged time earns and costs;
+ * - the datasets listing the time entries and expenses behind a row, for the drill-down.
+ */
+import { Expense, QueryDataset, TimeEntry } from '../api/types';
+import { toDateInputValue } from '../utils/format';
+import { ReportData, ReportFilters } from './types';
+
+/**
+ * Returns the filters a report opens with: the current month, everything included.
+ */
+export const defaultReportFilters = (): ReportFilters => {
+  const today = new Date();
+  return {
+    from: toDateInputValue(new Date(today.getFullYear(), today.getMonth(), 1)),
+    to: toDateInputValue(today),
+    company: '',
+    project: '',
+    member: '',
+  };
+};
+
+/**
+ * Narrows the loaded records to the filters. Time entries belong to a company through their project.
+ * The backend already filters time entries by date, project and member; expenses only by date.
+ * @param {ReportData} data - The loaded records.
+ * @param {ReportFilters} filters - The report's filters.
+ */
+export const narrowReportData = (data: ReportData, filters: ReportFilters): ReportData => {
+  const companyOf = new Map(data.projects.map((project) => [project.ID, project.company_id]));
+  const matches = (projectId: number | null, companyId: number | null, userId: number) =>
+    (!filters.project || String(projectId) === filters.project) &&
+    (!filters.company || String(companyId) === filters.company) &&
+    (!filters.member || String(userId) === filters.member);
+
+  return {
+    ...data,
+    timeEntries: data.timeEntries.filter((entry) => matches(entry.project_id, companyOf.get(entry.project_id) ?? null, entry.user_id)),
+    expenses: data.expenses.filter((expense) =>
+      matches(expense.project_id, expense.company_id ?? (expense.project_id === null ? null : companyOf.get(expense.project_id) ?? null), expense.user_id)
+    ),
+  };
+};
+
+/**
+ * Parses a DECIMAL string (e.g. a rate), treating a missing or invalid value as zero.
+ * @param {string | null | undefined} value - The DECIMAL string.
+ */
+export const toAmount = (value: string | null | undefined): number => Number(value) || 0;
+
+/**
+ * Returns the name of a project, or its ID if it isn't loaded.
+ * @param {ReportData} data - The loaded records.
+ * @param {number | null} projectId - The project's ID.
+ */
+export const projectName = (data: ReportData, projectId: number | null): string => {
+  if (projectId === null) return '-';
+  return data.projects.find((project) => project.ID === projectId)?.name ?? `Project #${projectId}`;
+};
+
+/**
+ * Returns the name of a company, or its ID if it isn't loaded.
+ * @param {ReportData} data - The loaded records.
+ * @param {number | null} companyId - The company's ID.
+ */
+export const companyName = (data: ReportData, companyId: number | null): string => {
+  if (companyId === null) return 'No company';
+  return data.companies.find((company) => company.ID === companyId)?.name ?? `Company #${companyId}`;
+};
+
+/**
+ * Returns the name of a team member: from the member list, else as joined into a time entry, else the user ID.
+ * @param {ReportData} data - The loaded records.
+ * @param {number} userId - The member's user ID.
+ * @param {string | null} fallback - The name joined into a record, if any.
+ */
+export const memberName = (data: ReportData, userId: number, fallback: string | null = null): string =>
+  data.members.find((member) => member.ID === userId)?.name ?? fallback ?? `User #${userId}`;
+
+/**
+ * Returns what time entries earn: their billable hours on hourly projects at the project's rate
+ * (or the team member's billable rate), and the fee of each flat-fee project they were logged on
+ * (or its company's default flat fee), once. Missing rates count as zero.
+ * @param {TimeEntry[]} entries - The time entries.
+ * @param {ReportData} data - The loaded records, for the rates.
+ */
+export const timeRevenue = (entries: TimeEntry[], data: ReportData): number => {
+  let revenue = 0;
+  entries.forEach((entry) => {
+    const project = data.projects.find((item) => item.ID === entry.project_id);
+    if (project?.billing_mode === 'hourly' && entry.billable === 1) {
+      const member = data.members.find((item) => item.ID === entry.user_id);
+      revenue += (Number(entry.duration_minutes) / 60) * toAmount(project.hourly_rate ?? member?.billable_rate);
+    }
+  });
+  new Set(entries.map((entry) => entry.project_id)).forEach((projectId) => {
+    const project = data.projects.find((item) => item.ID === projectId);
+    if (project?.billing_mode === 'flat_fee') {
+      const company = data.companies.find((item) => item.ID === project.company_id);
+      revenue += toAmount(project.flat_fee ?? company?.default_flat_fee);
+    }
+  });
+  return revenue;
+};
+
+/**
+ * Returns what time entries cost: every hour at the team member's hourly cost rate. Missing rates count as zero.
+ * @param {TimeEntry[]} entries - The time entries.
+ * @param {ReportData} data - The loaded records, for the rates.
+ */
+export const timeCost = (entries: TimeEntry[], data: ReportData): number =>
+  entries.reduce((sum, entry) => {
+    const member = data.members.find((item) => item.ID === entry.user_id);
+    return sum + (Number(entry.duration_minutes) / 60) * toAmount(member?.hourly_cost_rate);
+  }, 0);
+
+/**
+ * Returns the Monday of a date's week as a 'YYYY-MM-DD' string.
+ * @param {string} date - A 'YYYY-MM-DD' date.
+ */
+export const startOfWeek = (date: string): string => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7)); // Monday = 0
+  return toDateInputValue(day);
+};
+
+/**
+ * Returns the first day of a date's month as a 'YYYY-MM-DD' string.
+ * @param {string} date - A 'YYYY-MM-DD' date.
+ */
+export const startOfMonth = (date: string): string => `${date.slice(0, 7)}-01`;
+
+/**
+ * Lists time entries as a dataset, newest first, for a drill-down.
+ * @param {TimeEntry[]} entries - The time entries.
+ * @param {ReportData} data - The loaded records, for project and member names.
+ */
+export const timeEntryDataset = (entries: TimeEntry[], data: ReportData): QueryDataset => ({
+  columns: [
+    { key: 'date', label: 'Date', type: 'date' },
+    { key: 'project', label: 'Project' },
+    { key: 'member', label: 'Team Member' },
+    { key: 'duration', label: 'Duration', type: 'duration' },
+    { key: 'billable', label: 'Billable' },
+    { key: 'description', label: 'Description' },
+  ],
+  rows: [...entries]
+    .sort((a, b) => b.entry_date.localeCompare(a.entry_date))
+    .map((entry) => ({
+      date: entry.entry_date,
+      project: projectName(data, entry.project_id),
+      member: memberName(data, entry.user_id, entry.user_name),
+      duration: Number(entry.duration_minutes),
+      billable: entry.billable === 1 ? 'Yes' : 'No',
+      description: entry.description,
+    })),
+});
+
+/**
+ * Lists expenses as a dataset, newest first, for a drill-down.
+ * @param {Expense[]} expenses - The expenses.
+ * @param {ReportData} data - The loaded records, for project and member names.
+ */
+export const expenseDataset = (expenses: Expense[], data: ReportData): QueryDataset => ({
+  columns: [
+    { key: 'date', label: 'Date', type: 'date' },
+    { key: 'category', label: 'Category' },
+    { key: 'amount', label: 'Amount', type: 'money' },
+    { key: 'project', label: 'Project' },
+    { key: 'member', label: 'Team Member' },
+    { key: 'billable', label: 'Billable' },
+    { key: 'notes', label: 'Notes' },
+  ],
+  rows: [...expenses]
+    .sort((a, b) => b.expense_date.localeCompare(a.expense_date))
+    .map((expense) => ({
+      date: expense.expense_date,
+      category: expense.category,
+      amount: toAmount(expense.amount),
+      currency: expense.currency,
+      project: projectName(data, expense.project_id),
+      member: memberName(data, expense.user_id),
+      billable: expense.billable === 1 ? 'Yes' : 'No',
+      notes: expense.notes,
+    })),
+});
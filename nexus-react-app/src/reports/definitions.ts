@@ -0,0 +1,292 @@
+/**
+ * Report Definitions.
+ *
+ * The prebuilt reports of the reports section ('/reports'), in the order they are listed.
+ * Each one is computed in the browser from the time entries (and expenses) of its filters,
+ * using the project, company and team member lists for names and rates.
+ * Every row carries a 'key' naming what it sums up, so `drillDown` can list the records behind it.
+ * To add a report, add a `ReportDefinition` to `REPORTS`; ReportView renders it.
+ */
+import { Expense, TimeEntry } from '../api/types';
+import { toDateInputValue } from '../utils/format';
+import { companyName, expenseDataset, memberName, projectName, startOfMonth, startOfWeek, timeCost, timeEntryDataset, timeRevenue, toAmount } from './data';
+import { ReportData, ReportDefinition, ReportRow } from './types';
+
+/**
+ * Groups records by a key, keeping the order in which keys first appear.
+ * @param {T[]} items - The records.
+ * @param {(item: T) => string | number} keyOf - Returns a record's group.
+ */
+const groupBy = <T>(items: T[], keyOf: (item: T) => string | number): Map<string | number, T[]> => {
+  const groups = new Map<string | number, T[]>();
+  items.forEach((item) => {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+};
+
+/**
+ * Sums the minutes of time entries.
+ * @param {TimeEntry[]} entries - The time entries.
+ * @param {boolean} billableOnly - Whether to count only billable entries.
+ */
+const sumMinutes = (entries: TimeEntry[], billableOnly = false): number =>
+  entries.reduce((sum, entry) => (billableOnly && entry.billable !== 1 ? sum : sum + Number(entry.duration_minutes)), 0);
+
+/**
+ * Rounds a ratio to a percentage with one decimal, or null if there is nothing to divide by.
+ * @param {number} part - The part.
+ * @param {number} whole - The whole.
+ */
+const percent = (part: number, whole: number): number | null => (whole === 0 ? null : Math.round((part / whole) * 1000) / 10);
+
+/**
+ * Returns the time entries behind a row of a report grouped by `keyOf`.
+ * @param {ReportRow} row - The row.
+ * @param {ReportData} data - The loaded records.
+ * @param {(entry: TimeEntry) => string | number} keyOf - Returns an entry's group, as the report did.
+ */
+const entriesOf = (row: ReportRow, data: ReportData, keyOf: (entry: TimeEntry) => string | number): TimeEntry[] =>
+  data.timeEntries.filter((entry) => String(keyOf(entry)) === String(row.key));
+
+// Returns the company a time entry's project belongs to, or 'none' if the project isn't loaded.
+const entryCompany = (data: ReportData) => {
+  const companyOf = new Map(data.projects.map((project) => [project.ID, project.company_id]));
+  return (entry: TimeEntry): number | string => companyOf.get(entry.project_id) ?? 'none';
+};
+
+// The most weeks 'hours-by-week' shows one by one; longer ranges are summed per month, so the
+// chart and table stay readable (a year and a half of weeks is already 78 rows).
+const MAX_WEEKS = 26;
+
+// The category and currency of an expense; amounts in different currencies are summed apart.
+const expenseGroup = (expense: Expense): string => `${expense.category}|${expense.currency}`;
+
+export const REPORTS: ReportDefinition[] = [
+  {
+    id: 'hours-by-project',
+    title: 'Hours by project',
+    description: 'Hours logged on each project, and how many of them are billable.',
+    filters: ['company', 'project', 'member'],
+    build: (data) => ({
+      columns: [
+        { key: 'project', label: 'Project' },
+        { key: 'company', label: 'Company' },
+        { key: 'hours', label: 'Hours', type: 'duration' },
+        { key: 'billable', label: 'Billable', type: 'duration' },
+      ],
+      rows: [...groupBy(data.timeEntries, (entry) => entry.project_id)]
+        .map(([projectId, entries]) => ({
+          key: projectId,
+          project: projectName(data, Number(projectId)),
+          company: companyName(data, data.projects.find((project) => project.ID === projectId)?.company_id ?? null),
+          hours: sumMinutes(entries),
+          billable: sumMinutes(entries, true),
+        }))
+        .sort((a, b) => b.hours - a.hours),
+      chart: { chart_type: 'bar', x: 'project', y: ['hours', 'billable'] },
+    }),
+    drillDown: (row, data) => ({
+      title: `Time entries: ${row.project}`,
+      dataset: timeEntryDataset(entriesOf(row, data, (entry) => entry.project_id), data),
+    }),
+  },
+  {
+    id: 'hours-by-member',
+    title: 'Hours by team member',
+    description: 'Hours each team member logged, and how many of them are billable.',
+    filters: ['company', 'project', 'member'],
+    build: (data) => ({
+      columns: [
+        { key: 'member', label: 'Team Member' },
+        { key: 'hours', label: 'Hours', type: 'duration' },
+        { key: 'billable', label: 'Billable', type: 'duration' },
+      ],
+      rows: [...groupBy(data.timeEntries, (entry) => entry.user_id)]
+        .map(([userId, entries]) => ({
+          key: userId,
+          member: memberName(data, Number(userId), entries[0].user_name),
+          hours: sumMinutes(entries),
+          billable: sumMinutes(entries, true),
+        }))
+        .sort((a, b) => b.hours - a.hours),
+      chart: { chart_type: 'bar', x: 'member', y: ['hours', 'billable'] },
+    }),
+    drillDown: (row, data) => ({
+      title: `Time entries: ${row.member}`,
+      dataset: timeEntryDataset(entriesOf(row, data, (entry) => entry.user_id), data),
+    }),
+  },
+  {
+    id: 'hours-by-week',
+    title: 'Hours by week',
+    description: `Hours logged per week (Monday to Sunday), to spot busy and quiet weeks. Ranges of more than ${MAX_WEEKS} weeks are shown per month.`,
+    filters: ['company', 'project', 'member'],
+    build: (data, filters) => {
+      const logged = data.timeEntries.map((entry) => entry.entry_date).sort();
+      const from = filters.from || logged[0];
+      const to = filters.to || logged[logged.length - 1];
+      const weekCount = from && to ? (new Date(`${to}T00:00:00`).getTime() - new Date(`${startOfWeek(from)}T00:00:00`).getTime()) / (7 * 86400000) + 1 : 0;
+      const monthly = weekCount > MAX_WEEKS;
+      const periodOf = monthly ? startOfMonth : startOfWeek;
+      const periods = groupBy(data.timeEntries, (entry) => periodOf(entry.entry_date));
+      // Every week (or month) of the range gets a row, so quiet ones show as dips in the line.
+      const keys: string[] = [];
+      if (from && to) {
+        for (const day = new Date(`${periodOf(from)}T00:00:00`); toDateInputValue(day) <= to; monthly ? day.setMonth(day.getMonth() + 1) : day.setDate(day.getDate() + 7)) {
+          keys.push(toDateInputValue(day));
+        }
+      }
+      // Monthly rows name their period 'month', which tells drillDown how they were grouped.
+      const period = monthly ? 'month' : 'week';
+      return {
+        columns: [
+          { key: period, label: monthly ? 'Month of' : 'Week of', type: 'date' },
+          { key: 'hours', label: 'Hours', type: 'duration' },
+          { key: 'billable', label: 'Billable', type: 'duration' },
+        ],
+        rows: keys.map((key) => ({
+          key,
+          [period]: key,
+          hours: sumMinutes(periods.get(key) ?? []),
+          billable: sumMinutes(periods.get(key) ?? [], true),
+        })),
+        chart: { chart_type: 'line', x: period, y: ['hours', 'billable'] },
+        note: monthly ? `The range is longer than ${MAX_WEEKS} weeks, so the hours are summed per month.` : undefined,
+      };
+    },
+    drillDown: (row, data) => {
+      const monthly = typeof row.month === 'string';
+      const entries = entriesOf(row, data, (entry) => (monthly ? startOfMonth : startOfWeek)(entry.entry_date));
+      if (entries.length === 0) return null;
+      const start = new Date(`${row.key}T00:00:00`);
+      return {
+        title: monthly
+          ? `Time entries: ${start.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}`
+          : `Time entries: week of ${start.toLocaleDateString()}`,
+        dataset: timeEntryDataset(entries, data),
+      };
+    },
+  },
+  {
+    id: 'utilization',
+    title: 'Billable utilization',
+    description: 'Billable and non-billable hours of each team member, and the billable share of their time.',
+    filters: ['company', 'project', 'member'],
+    build: (data) => ({
+      columns: [
+        { key: 'member', label: 'Team Member' },
+        { key: 'billable', label: 'Billable', type: 'duration' },
+        { key: 'non_billable', label: 'Non-billable', type: 'duration' },
+        { key: 'hours', label: 'Total', type: 'duration' },
+        { key: 'utilization', label: 'Billable %', type: 'number' },
+      ],
+      rows: [...groupBy(data.timeEntries, (entry) => entry.user_id)]
+        .map(([userId, entries]) => {
+          const hours = sumMinutes(entries);
+          const billable = sumMinutes(entries, true);
+          return {
+            key: userId,
+            member: memberName(data, Number(userId), entries[0].user_name),
+            billable,
+            non_billable: hours - billable,
+            hours,
+            utilization: percent(billable, hours),
+          };
+        })
+        .sort((a, b) => (b.utilization ?? 0) - (a.utilization ?? 0)),
+      chart: { chart_type: 'bar', x: 'member', y: ['billable', 'non_billable'] },
+    }),
+    drillDown: (row, data) => ({
+      title: `Time entries: ${row.member}`,
+      dataset: timeEntryDataset(entriesOf(row, data, (entry) => entry.user_id), data),
+    }),
+  },
+  {
+    id: 'expenses-by-category',
+    title: 'Expenses by category',
+    description: 'Expense totals per category, and their billable part. Each currency is totalled separately.',
+    filters: ['company', 'project', 'member'],
+    needsExpenses: true,
+    build: (data) => {
+      const groups = [...groupBy(data.expenses, expenseGroup)];
+      // Only name the currency in the category when there are several.
+      const multiCurrency = new Set(data.expenses.map((expense) => expense.currency)).size > 1;
+      return {
+        columns: [
+          { key: 'category', label: 'Category' },
+          { key: 'total', label: 'Total', type: 'money' },
+          { key: 'billable', label: 'Billable', type: 'money' },
+          { key: 'count', label: 'Expenses', type: 'number' },
+        ],
+        rows: groups
+          .map(([key, expenses]) => ({
+            key,
+            category: multiCurrency ? `${expenses[0].category} (${expenses[0].currency})` : expenses[0].category,
+            currency: expenses[0].currency,
+            total: expenses.reduce((sum, expense) => sum + toAmount(expense.amount), 0),
+            billable: expenses.reduce((sum, expense) => sum + (expense.billable === 1 ? toAmount(expense.amount) : 0), 0),
+            count: expenses.length,
+          }))
+          .sort((a, b) => b.total - a.total),
+        chart: { chart_type: 'bar', x: 'category', y: ['total', 'billable'] },
+        note: multiCurrency ? 'Chart bars in different currencies are not converted, so compare them within a currency only.' : undefined,
+      };
+    },
+    drillDown: (row, data) => ({
+      title: `Expenses: ${row.category}`,
+      dataset: expenseDataset(
+        data.expenses.filter((expense) => expenseGroup(expense) === row.key),
+        data
+      ),
+    }),
+  },
+  {
+    id: 'profitability',
+    title: 'Revenue vs cost by company',
+    description: 'What the logged time earns against what it costs, per company, from the project fees and team member rates.',
+    filters: ['company', 'project', 'member'],
+    build: (data) => {
+      const companyOf = entryCompany(data);
+      const rows = [...groupBy(data.timeEntries, companyOf)].map(([companyId, entries]) => {
+        const revenue = timeRevenue(entries, data);
+        const cost = timeCost(entries, data);
+        const margin = revenue - cost;
+        return {
+          key: companyId,
+          company: companyName(data, companyId === 'none' ? null : Number(companyId)),
+          revenue: Math.round(revenue * 100) / 100,
+          cost: Math.round(cost * 100) / 100,
+          margin: Math.round(margin * 100) / 100,
+          margin_pct: percent(margin, revenue),
+        };
+      });
+      return {
+        columns: [
+          { key: 'company', label: 'Company' },
+          { key: 'revenue', label: 'Revenue', type: 'money' },
+          { key: 'cost', label: 'Cost', type: 'money' },
+          { key: 'margin', label: 'Margin', type: 'money' },
+          { key: 'margin_pct', label: 'Margin %', type: 'number' },
+        ],
+        rows: rows.sort((a, b) => b.revenue - a.revenue),
+        chart: { chart_type: 'bar', x: 'company', y: ['revenue', 'cost'] },
+        note:
+          "Revenue counts the billable hours of hourly projects at the project's rate (or the team member's billable rate), " +
+          "and the fee of each flat-fee project with time in this period (or its company's default flat fee) once. " +
+          "Cost counts every hour at the team member's hourly cost rate. Missing rates count as zero.",
+      };
+    },
+    drillDown: (row, data) => ({
+      title: `Time entries: ${row.company}`,
+      dataset: timeEntryDataset(entriesOf(row, data, entryCompany(data)), data),
+    }),
+  },
+];
+
+/**
+ * Returns the report with an ID, or undefined if there is none.
+ * @param {string | undefined} id - The report's ID, e.g. from the URL.
+ */
+export const getReport = (id: string | undefined): ReportDefinition | undefined => REPORTS.find((report) => report.id === id);
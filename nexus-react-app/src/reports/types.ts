@@ -0,0 +1,60 @@
+/**
+ * Report Types.
+ *
+ * The reports section is generic: ReportView renders any report from a `ReportDefinition`
+ * (see ./definitions.ts). A report turns the records loaded for its filters (`ReportData`)
+ * into rows, which are shown as a chart and a table with the same components as the
+ * tabular answers of natural language queries (`QueryDataset`, `QueryChartOptions`).
+ * Clicking a bar of the chart drills down to the time entries (or expenses) behind it,
+ * listed as another dataset.
+ */
+import { Company, Expense, Project, QueryCell, QueryChartOptions, QueryDataset, TeamMember, TimeEntry } from '../api/types';
+
+// The filters a report can offer, besides the date range every report has.
+export type ReportFilterName = 'company' | 'project' | 'member';
+
+// The filter values of a report, as kept in the URL. Dates are 'YYYY-MM-DD' and inclusive; '' means "all".
+export interface ReportFilters {
+  from: string;
+  to: string;
+  company: string; // Company ID
+  project: string; // Project ID
+  member: string; // Team member (user) ID
+}
+
+// The records a report is built from, already narrowed to the filters.
+export interface ReportData {
+  timeEntries: TimeEntry[];
+  expenses: Expense[];
+  projects: Project[]; // Every project, for names, companies and rates
+  companies: Company[]; // Every company
+  members: TeamMember[]; // Every team member, for names and rates
+}
+
+// A row of a report. Besides the columns' values, it carries a 'key' identifying what it
+// sums up (e.g. the project ID), for the drill-down, and may carry its own 'currency'.
+export type ReportRow = Record<string, QueryCell>;
+
+// The records behind a row, shown when its bar is clicked.
+export interface ReportDrillDown {
+  title: string; // e.g. 'Time entries: Website redesign'
+  dataset: QueryDataset;
+}
+
+// The rows of a report and how to plot them.
+export interface ReportResult extends QueryDataset {
+  chart: QueryChartOptions;
+  note?: string; // How the numbers were worked out, shown under the table
+}
+
+// A prebuilt report.
+export interface ReportDefinition {
+  id: string; // Used in the URL, e.g. 'hours-by-project'
+  title: string;
+  description: string;
+  filters: ReportFilterName[]; // The filters offered besides the date range
+  needsExpenses?: boolean; // Whether the expenses of the date range are loaded
+  build: (data: ReportData, filters: ReportFilters) => ReportResult;
+  // Returns the records behind a row, or null if the row has none to show.
+  drillDown: (row: ReportRow, data: ReportData) => ReportDrillDown | null;
+}
@@ -0,0 +1,149 @@
+/**
+ * Mock Speech Recognizer.
+ *
+ * A `SpeechRecognizer` (see ./types.ts) that plays a script instead of listening, so every state
+ * of the NexusInputBar's voice input can be tried without a microphone or a transcription backend.
+ * A script lists what is reported after `start()` (interim transcripts, an error, the end) and
+ * what is reported after `stop()` (by default the last transcript as final, then the end).
+ * `abort()` drops the rest of the script and ends, like the real recognizers.
+ *
+ * In development, setting `VITE_MOCK_SPEECH` to the name of one of `MOCK_SPEECH_SCRIPTS`
+ * (or to 'unsupported') makes the dashboard's input bar use it (see `getMockRecognizerFactory`).
+ */
+import { SpeechRecognizer, SpeechRecognizerFactory, SpeechRecognizerHandlers } from './types';
+
+// One event of a script, reported `delay` milliseconds after the previous one (400 if not set).
+export type MockSpeechStep =
+  | { type: 'transcript'; text: string; isFinal?: boolean; delay?: number }
+  | { type: 'error'; message: string; delay?: number }
+  | { type: 'end'; delay?: number };
+
+// What a mock recognizer reports.
+export interface MockSpeechScript {
+  mode?: SpeechRecognizer['mode']; // Defaults to 'speech'
+  listening: MockSpeechStep[]; // Played after start(); ends with an 'end' step if the recognizer stops by itself
+  stopped?: MockSpeechStep[]; // Played after stop(); defaults to the last transcript as final, then 'end'
+}
+
+// The delay of a step without one.
+const DEFAULT_DELAY = 400;
+
+// Scripts for each state of voice input, selectable with VITE_MOCK_SPEECH.
+export const MOCK_SPEECH_SCRIPTS: Record<string, MockSpeechScript> = {
+  // Live transcript while listening, completed when the user stops.
+  speech: {
+    listening: [
+      { type: 'transcript', text: 'show' },
+      { type: 'transcript', text: 'show my hours' },
+      { type: 'transcript', text: 'show my hours this week' },
+    ],
+  },
+  // Nothing while recording; the transcript arrives after a transcription delay.
+  recording: {
+    mode: 'recording',
+    listening: [],
+    stopped: [
+      { type: 'transcript', text: 'log 2 hours to website redesign', isFinal: true, delay: 1500 },
+      { type: 'end', delay: 0 },
+    ],
+  },
+  // The microphone permission is denied as listening starts.
+  denied: {
+    listening: [
+      { type: 'error', message: 'Microphone access was denied.', delay: 200 },
+      { type: 'end', delay: 0 },
+    ],
+  },
+  // The user says nothing, and the recognizer gives up by itself.
+  silence: {
+    listening: [
+      { type: 'error', message: 'No speech was detected.', delay: 3000 },
+      { type: 'transcript', text: '', isFinal: true, delay: 0 },
+      { type: 'end', delay: 0 },
+    ],
+  },
+  // The recording can't be transcribed, e.g. the backend is down.
+  'transcribe-error': {
+    mode: 'recording',
+    listening: [],
+    stopped: [
+      { type: 'error', message: 'Failed to transcribe the recording.', delay: 1500 },
+      { type: 'end', delay: 0 },
+    ],
+  },
+};
+
+/**
+ * Creates a recognizer that plays a script.
+ * @param {MockSpeechScript} script - What the recognizer reports.
+ */
+export const createMockRecognizer = (script: MockSpeechScript): SpeechRecognizer => {
+  let handlers: SpeechRecognizerHandlers | null = null;
+  let timer: number | undefined;
+  let transcript = '';
+
+  /**
+   * Reports the steps one after the other, each after its delay.
+   * @param {MockSpeechStep[]} steps - The steps left.
+   */
+  const play = (steps: MockSpeechStep[]) => {
+    const [step, ...rest] = steps;
+    if (!step || !handlers) return;
+    timer = window.setTimeout(() => {
+      const current = handlers;
+      if (!current) return;
+      switch (step.type) {
+        case 'transcript':
+          transcript = step.text;
+          current.onTranscript(step.text, step.isFinal ?? false);
+          break;
+        case 'error':
+          current.onError(step.message);
+          break;
+        case 'end':
+          handlers = null;
+          current.onEnd();
+          return;
+      }
+      play(rest);
+    }, step.delay ?? DEFAULT_DELAY);
+  };
+
+  return {
+    mode: script.mode ?? 'speech',
+    start: (next: SpeechRecognizerHandlers) => {
+      window.clearTimeout(timer);
+      handlers = next;
+      transcript = '';
+      play(script.listening);
+    },
+    stop: () => {
+      if (!handlers) return;
+      window.clearTimeout(timer);
+      play(
+        script.stopped ?? [
+          { type: 'transcript', text: transcript, isFinal: true, delay: 0 },
+          { type: 'end', delay: 0 },
+        ]
+      );
+    },
+    abort: () => {
+      window.clearTimeout(timer);
+      const current = handlers;
+      handlers = null;
+      current?.onEnd();
+    },
+  };
+};
+
+/**
+ * Returns a factory of the mock recognizer with the given script name, a factory that reports
+ * voice input as unsupported for 'unsupported', or undefined for no (or an unknown) name.
+ * @param {string | undefined} name - The script name, e.g. from VITE_MOCK_SPEECH.
+ */
+export const getMockRecognizerFactory = (name: string | undefined): SpeechRecognizerFactory | undefined => {
+  if (name === 'unsupported') return () => null;
+  const script = name && Object.prototype.hasOwnProperty.call(MOCK_SPEECH_SCRIPTS, name) ? MOCK_SPEECH_SCRIPTS[name] : undefined;
+  if (name && !script) console.warn(`Unknown VITE_MOCK_SPEECH script "${name}".`);
+  return script ? () => createMockRecognizer(script) : undefined;
+};
@@ -0,0 +1,160 @@
+/**
+ * Speech Recognizers.
+ *
+ * The two implementations of `SpeechRecognizer` (see ./types.ts):
+ * - `createBrowserRecognizer` uses the Web Speech API (`SpeechRecognition`, prefixed as
+ *   `webkitSpeechRecognition` in Chrome and Safari), which reports interim results as the user speaks.
+ * - `createRecordingRecognizer` records audio with `MediaRecorder` and, when the user stops,
+ *   sends it to a transcription function, e.g. `api.speech.transcribe`.
+ * `createDefaultRecognizer` picks the first of the two this browser supports.
+ */
+import { SpeechRecognizer, SpeechRecognizerFactory, SpeechRecognizerHandlers } from './types';
+
+// The parts of the Web Speech API's SpeechRecognition used here (it isn't in TypeScript's DOM types).
+interface BrowserSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+// Messages of the Web Speech API's error codes.
+const SPEECH_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied.',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser.',
+  'audio-capture': 'No microphone was found.',
+  network: 'Speech recognition needs a network connection.',
+  'no-speech': 'No speech was detected.',
+};
+
+/**
+ * Returns the browser's SpeechRecognition constructor, or null if it has none.
+ */
+const getSpeechRecognition = (): BrowserSpeechRecognitionConstructor | null => {
+  const speechWindow = window as unknown as Record<string, BrowserSpeechRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+/**
+ * Creates a recognizer using the browser's Web Speech API, or returns null if it isn't supported.
+ * @param {string} lang - The language spoken, e.g. 'en-US'; the browser's language if not set.
+ */
+export const createBrowserRecognizer = (lang: string = navigator.language): SpeechRecognizer | null => {
+  const SpeechRecognition = getSpeechRecognition();
+  if (!SpeechRecognition) return null;
+
+  let recognition: BrowserSpeechRecognition | null = null;
+  let aborted = false;
+
+  return {
+    mode: 'speech',
+    start: (handlers: SpeechRecognizerHandlers) => {
+      aborted = false;
+      let transcript = '';
+      recognition = new SpeechRecognition();
+      recognition.lang = lang;
+      recognition.continuous = true; // Keep listening through pauses, until stopped
+      recognition.interimResults = true; // Report words before they are final
+
+      recognition.onresult = (event) => {
+        transcript = Array.from(event.results, (result) => result[0]?.transcript ?? '').join('').trim();
+        handlers.onTranscript(transcript, false);
+      };
+      recognition.onerror = (event) => {
+        // 'aborted' is the result of abort(), not a failure.
+        if (event.error !== 'aborted') {
+          handlers.onError(SPEECH_ERRORS[event.error] ?? `Speech recognition failed (${event.error}).`);
+        }
+      };
+      recognition.onend = () => {
+        if (!aborted) handlers.onTranscript(transcript, true);
+        recognition = null;
+        handlers.onEnd();
+      };
+      recognition.start();
+    },
+    stop: () => recognition?.stop(),
+    abort: () => {
+      aborted = true;
+      recognition?.abort();
+    },
+  };
+};
+
+/**
+ * Creates a recognizer that records audio and transcribes it when stopped, or returns null
+ * if the browser can't record audio.
+ * @param {(audio: Blob) => Promise<string>} transcribe - Turns the recording into text.
+ */
+export const createRecordingRecognizer = (transcribe: (audio: Blob) => Promise<string>): SpeechRecognizer | null => {
+  if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) return null;
+
+  let recorder: MediaRecorder | null = null;
+  let aborted = false;
+
+  return {
+    mode: 'recording',
+    start: (handlers: SpeechRecognizerHandlers) => {
+      aborted = false;
+      navigator.mediaDevices
+        .getUserMedia({ audio: true })
+        .then((stream) => {
+          // Cancelled while the browser asked for the microphone.
+          if (aborted) {
+            stream.getTracks().forEach((track) => track.stop());
+            handlers.onEnd();
+            return;
+          }
+          const chunks: Blob[] = [];
+          recorder = new MediaRecorder(stream);
+          recorder.ondataavailable = (event) => chunks.push(event.data);
+          recorder.onstop = async () => {
+            // Release the microphone.
+            stream.getTracks().forEach((track) => track.stop());
+            recorder = null;
+            if (!aborted) {
+              try {
+                const text = await transcribe(new Blob(chunks, { type: chunks[0]?.type || 'audio/webm' }));
+                // Cancelled while the recording was transcribed: discard the transcript.
+                if (!aborted) handlers.onTranscript(text.trim(), true);
+              } catch (err) {
+                console.error('Error transcribing recording:', err);
+                if (!aborted) handlers.onError(err instanceof Error ? err.message : 'Failed to transcribe the recording.');
+              }
+            }
+            handlers.onEnd();
+          };
+          recorder.start();
+        })
+        .catch((err) => {
+          console.error('Error starting audio recording:', err);
+          handlers.onError(err instanceof DOMException && err.name === 'NotAllowedError' ? SPEECH_ERRORS['not-allowed'] : 'Failed to start recording.');
+          handlers.onEnd();
+        });
+    },
+    stop: () => {
+      // Stopped before the recording started: there is nothing to transcribe.
+      if (!recorder) aborted = true;
+      recorder?.stop();
+    },
+    abort: () => {
+      aborted = true;
+      recorder?.stop();
+    },
+  };
+};
+
+/**
+ * Returns a factory for the best recognizer this browser supports: speech recognition,
+ * else recording and transcribing.
+ * @param {(audio: Blob) => Promise<string>} transcribe - Turns a recording into text.
+ */
+export const createDefaultRecognizer = (transcribe: (audio: Blob) => Promise<string>): SpeechRecognizerFactory => () =>
+  createBrowserRecognizer() ?? createRecordingRecognizer(transcribe);
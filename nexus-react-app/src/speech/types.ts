@@ -0,0 +1,31 @@
+/**
+ * Speech Input Types.
+ *
+ * The NexusInputBar's microphone mode talks to a `SpeechRecognizer`, not to the browser directly.
+ * This keeps the two ways of turning speech into text interchangeable (see ./recognizers.ts):
+ * - 'speech': the browser's Web Speech API, with a live transcript while the user speaks;
+ * - 'recording': recording audio and sending it to the backend's 'transcribe' endpoint
+ *   when the user stops, for browsers without speech recognition.
+ * It also lets a mocked recognizer be passed to the input bar (see ./mockRecognizer.ts).
+ */
+
+// The callbacks a recognizer reports to while it listens.
+export interface SpeechRecognizerHandlers {
+  // The transcript so far. `isFinal` is true for the complete transcript, after which no more follow.
+  onTranscript: (text: string, isFinal: boolean) => void;
+  // The recognizer stopped listening (and transcribing): after `stop()`, `abort()`, an error or silence.
+  onEnd: () => void;
+  // Listening failed, e.g. the microphone permission was denied. `onEnd` follows.
+  onError: (message: string) => void;
+}
+
+// Turns speech into text.
+export interface SpeechRecognizer {
+  mode: 'speech' | 'recording'; // Whether a live transcript is reported while listening
+  start: (handlers: SpeechRecognizerHandlers) => void; // Starts listening
+  stop: () => void; // Stops listening and reports the final transcript
+  abort: () => void; // Stops listening and discards the transcript
+}
+
+// Creates a recognizer, or returns null if speech input isn't possible in this browser.
+export type SpeechRecognizerFactory = () => SpeechRecognizer | null;
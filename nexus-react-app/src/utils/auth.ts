@@ -0,0 +1,123 @@
+/**
+ * Authentication helpers shared by the AuthContext, the login form and the re-login dialog.
+ * - Decoding the JWT payload to find out when the token expires.
+ * - Requesting a token with credentials, and refreshing a token before it expires.
+ */
+import { jwtUrl } from '../config'; // Import URL builder for the JWT authentication endpoints
+
+// Local Storage key holding the JWT. Other tabs listen for changes to it.
+export const TOKEN_STORAGE_KEY = 'wp_jwt_token';
+
+// The claims of the JWT payload the app reads.
+interface JwtPayload {
+  exp?: number; // Expiry, in seconds since the epoch
+  iat?: number; // Issue time, in seconds since the epoch
+}
+
+// Thrown by refreshToken when the backend has no refresh endpoint.
+export class TokenRefreshUnsupportedError extends Error {
+  constructor() {
+    super('The backend does not support token refresh.');
+    this.name = 'TokenRefreshUnsupportedError';
+  }
+}
+
+/**
+ * Decodes the payload of a JWT. The signature is not verified; that is the backend's job.
+ * @param {string} token - The JWT.
+ * @returns {JwtPayload | null} The payload, or null if the token is not a readable JWT.
+ */
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const part = token.split('.')[1];
+  if (!part) return null;
+
+  try {
+    // JWTs use base64url without padding; atob expects standard base64.
+    const base64 = part.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(part.length / 4) * 4, '=');
+    return JSON.parse(atob(base64));
+  } catch (err) {
+    console.error('Failed to decode JWT payload:', err);
+    return null;
+  }
+};
+
+/**
+ * Returns when the token expires.
+ * @param {string} token - The JWT.
+ * @returns {number | null} The expiry as a timestamp in milliseconds, or null if the token has no expiry.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = decodeJwtPayload(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+/**
+ * Reads the token from a JWT endpoint response. Depending on the plugin version,
+ * it is either at the top level or nested in `data`.
+ * @param {unknown} body - The parsed response body.
+ */
+const readToken = (body: unknown): string | null => {
+  const data = body as { token?: string; data?: { token?: string } } | null;
+  return data?.token || data?.data?.token || null;
+};
+
+/**
+ * Requests a new token from the JWT authentication endpoint with the user's credentials.
+ * @param {string} username - The WordPress username or email.
+ * @param {string} password - The application password.
+ * @returns {Promise<string>} The token.
+ */
+export const requestToken = async (username: string, password: string): Promise<string> => {
+  const response = await fetch(jwtUrl('auth'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, application_password: password }),
+  });
+
+  if (!response.ok) {
+    // The JWT plugin returns error details as JSON; fall back to a generic message otherwise.
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.message || 'Login failed. Please check your credentials.');
+  }
+
+  const token = readToken(await response.json());
+  if (!token) {
+    throw new Error('Invalid token.');
+  }
+  return token;
+};
+
+/**
+ * Exchanges a token that is about to expire for a new one.
+ * The refresh endpoint authenticates with the current token and, where the plugin uses one,
+ * the refresh token cookie it set at login (hence `credentials: 'include'`).
+ * @param {string} token - The current JWT.
+ * @returns {Promise<string>} The new token.
+ * @throws {TokenRefreshUnsupportedError} If the backend has no refresh endpoint.
+ */
+export const refreshToken = async (token: string): Promise<string> => {
+  const response = await fetch(jwtUrl('auth/refresh'), {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // WordPress answers unknown routes with 404 'rest_no_route'.
+  if (response.status === 404) {
+    throw new TokenRefreshUnsupportedError();
+  }
+  if (!response.ok) {
+    throw new Error(`Token refresh failed (${response.status}).`);
+  }
+
+  const newToken = readToken(await response.json());
+  if (!newToken) {
+    throw new Error('Token refresh returned no token.');
+  }
+  return newToken;
+};
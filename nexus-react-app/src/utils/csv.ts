@@ -0,0 +1,87 @@
+/**
+ * CSV Helpers.
+ *
+ * Small, dependency-free helpers to read and write CSV (RFC 4180):
+ * - Fields are separated by commas (or semicolons, as spreadsheets in many locales save them),
+ *   and quoted when they contain a separator, a quote or a line break.
+ * - Quotes inside quoted fields are doubled.
+ * Used by the list exports and the import wizard.
+ */
+
+/**
+ * Guesses the separator of a CSV file from its first line: a semicolon if it has more semicolons
+ * than commas (outside quotes), otherwise a comma.
+ * @param {string} text - The CSV text.
+ */
+const detectSeparator = (text: string): string => {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char === ',') commas++;
+    else if (!inQuotes && char === ';') semicolons++;
+  }
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Parses CSV text into rows of fields. A leading byte order mark is ignored,
+ * and empty lines are skipped.
+ * @param {string} text - The CSV text.
+ * @returns {string[][]} The rows, each an array of field values.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const separator = detectSeparator(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Ends the current row, unless it is an empty line.
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  // The last line may not end with a line break.
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Writes rows of fields as CSV text, with CRLF line breaks.
+ * @param {string[][]} rows - The rows, each an array of field values.
+ */
+export const toCsv = (rows: string[][]): string => {
+  const escape = (text: string) => (/[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return rows.map((row) => row.map(escape).join(',')).join('\r\n');
+};
@@ -0,0 +1,263 @@
+/**
+ * List Export Helpers.
+ *
+ * Turn the rows of a list into a downloaded CSV, Excel (XLSX) or PDF file.
+ * Each column says how its values are typed, so every format gets proper values:
+ * - 'date' values ('YYYY-MM-DD' or DATETIME strings) become real dates in XLSX, and 'YYYY-MM-DD' elsewhere.
+ * - 'money' values become numbers with two decimals, formatted with their currency in XLSX and PDF.
+ * - 'number' values stay numbers; 'text' values are written as they are, except that in CSV a text
+ *   value a spreadsheet would run as a formula (starting with =, +, -, @, a tab or a CR) gets a ' prefix.
+ * The XLSX and PDF libraries are only loaded when such an export is started, so they
+ * don't add to the size of the app for users who never export.
+ */
+import { formatMoney, toDateInputValue } from './format';
+import { toCsv } from './csv';
+
+// The file formats a list can be exported to.
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+// How the values of an export column are typed.
+export type ExportCellType = 'text' | 'number' | 'money' | 'date';
+
+// A raw cell value: DECIMAL strings for money, 'YYYY-MM-DD' or DATETIME strings for dates.
+export type ExportValue = string | number | null | undefined;
+
+// One column of an export.
+export interface ExportColumn<T> {
+  label: string; // Header of the column
+  type?: ExportCellType; // Defaults to 'text'
+  value: (row: T) => ExportValue;
+  currency?: (row: T) => string; // ISO 4217 code of a 'money' value; money without it has no symbol
+}
+
+// What the exported file is named after, e.g. 'acme-inc_time-entries_2026-10-01_to_2026-10-19.csv'.
+export interface ExportFileNameParts {
+  list: string; // The list being exported, e.g. 'time-entries'
+  company?: string | null; // The company the list is restricted to, if any
+  from?: string; // Start of the date range ('YYYY-MM-DD'), if the list is filtered by date
+  to?: string; // End of the date range ('YYYY-MM-DD')
+}
+
+// Everything needed to export a list.
+export interface ExportOptions<T> {
+  title: string; // Heading of the PDF and name of the XLSX sheet, e.g. 'Time Entries'
+  fileName: ExportFileNameParts;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+/**
+ * Turns text into a lowercase, file-name-safe slug, e.g. 'Acme, Inc.' into 'acme-inc'.
+ * @param {string} value - The text.
+ */
+const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Builds the name of an export file from the company, the list and the date range.
+ * Without a date range, the export date is used, so monthly exports don't overwrite each other.
+ * @param {ExportFileNameParts} parts - What the file is named after.
+ * @param {ExportFormat} format - The file format, used as the extension.
+ */
+export const buildExportFileName = ({ list, company, from, to }: ExportFileNameParts, format: ExportFormat): string => {
+  const range = from && to ? `${from}_to_${to}` : from ? `from_${from}` : to ? `until_${to}` : toDateInputValue(new Date());
+  const parts = [company ? slugify(company) : '', slugify(list), range].filter(Boolean);
+  return `${parts.join('_')}.${format}`;
+};
+
+/**
+ * Returns the 'YYYY-MM-DD' part of a DATE or DATETIME string, or null if it has none.
+ * @param {ExportValue} value - The raw value.
+ */
+const toDatePart = (value: ExportValue): string | null => {
+  const match = typeof value === 'string' ? /^\d{4}-\d{2}-\d{2}/.exec(value) : null;
+  return match ? match[0] : null;
+};
+
+/**
+ * Returns a numeric value as a number, or null if it is empty or not a number.
+ * @param {ExportValue} value - The raw value, e.g. a DECIMAL string.
+ */
+const toNumber = (value: ExportValue): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Formats a cell as text, for CSV (`forDisplay` false) and PDF (`forDisplay` true).
+ * CSV keeps numbers machine-readable (e.g. '1234.50'); the PDF shows them formatted (e.g. '$1,234.50').
+ * @param {ExportColumn<T>} column - The column.
+ * @param {T} row - The row.
+ * @param {boolean} forDisplay - Whether to format numbers for reading rather than for spreadsheets.
+ */
+const formatCell = <T,>(column: ExportColumn<T>, row: T, forDisplay: boolean): string => {
+  const value = column.value(row);
+  switch (column.type) {
+    case 'date':
+      return toDatePart(value) ?? '';
+    case 'money': {
+      const amount = toNumber(value);
+      if (amount === null) return '';
+      const currency = column.currency?.(row);
+      if (!forDisplay) return amount.toFixed(2);
+      return currency ? formatMoney(amount, currency) : amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    case 'number': {
+      const number = toNumber(value);
+      return number === null ? '' : forDisplay ? number.toLocaleString() : String(number);
+    }
+    default:
+      return value === null || value === undefined ? '' : String(value);
+  }
+};
+
+// The first characters that make a spreadsheet read a CSV cell as a formula.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes a text cell with ' if a spreadsheet opening the CSV would run it as a formula,
+ * e.g. '=HYPERLINK(...)' typed into a company name. Only for text columns: numbers and money
+ * are written by formatCell and may start with '-' legitimately.
+ * @param {string} text - The formatted cell.
+ */
+const escapeFormula = (text: string): string => (FORMULA_PREFIX.test(text) ? `'${text}` : text);
+
+/**
+ * Starts a browser download of a Blob.
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The name of the downloaded file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Writes the rows as CSV: comma-separated, quoted where needed, with a BOM so Excel reads UTF-8.
+ * Text cells that look like formulas are escaped (see escapeFormula).
+ * @param {ExportOptions<T>} options - The export options.
+ * @param {string} fileName - The file name.
+ */
+const exportCsv = <T,>({ columns, rows }: ExportOptions<T>, fileName: string): void => {
+  const csv = toCsv([
+    columns.map((column) => column.label),
+    ...rows.map((row) =>
+      columns.map((column) => {
+        const cell = formatCell(column, row, false);
+        return !column.type || column.type === 'text' ? escapeFormula(cell) : cell;
+      })
+    ),
+  ]);
+  downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+/**
+ * Writes the rows as an Excel workbook with typed cells: dates as dates, money and numbers as numbers.
+ * @param {ExportOptions<T>} options - The export options.
+ * @param {string} fileName - The file name.
+ */
+const exportXlsx = async <T,>({ title, columns, rows }: ExportOptions<T>, fileName: string): Promise<void> => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+
+  const header = columns.map((column) => ({ value: column.label, fontWeight: 'bold' as const }));
+  const body = rows.map((row) =>
+    columns.map((column) => {
+      const value = column.value(row);
+      switch (column.type) {
+        case 'date': {
+          const date = toDatePart(value);
+          // Excel dates have no time zone; build the date in UTC so it is not shifted a day.
+          return date
+            ? { value: new Date(`${date}T00:00:00Z`), type: Date, format: 'yyyy-mm-dd' }
+            : null;
+        }
+        case 'money': {
+          const amount = toNumber(value);
+          const currency = column.currency?.(row);
+          return amount === null ? null : { value: amount, type: Number, format: currency ? `#,##0.00 "${currency}"` : '#,##0.00' };
+        }
+        case 'number': {
+          const number = toNumber(value);
+          return number === null ? null : { value: number, type: Number };
+        }
+        default:
+          return value === null || value === undefined || value === '' ? null : { value: String(value), type: String };
+      }
+    })
+  );
+
+  // Sheet names are limited to 31 characters and some punctuation.
+  const sheet = title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+  await writeXlsxFile([header, ...body], { sheet, stickyRowsCount: 1 }).toFile(fileName);
+};
+
+/**
+ * Writes the rows as a printable landscape PDF with a heading, the date range and page numbers.
+ * @param {ExportOptions<T>} options - The export options.
+ * @param {string} fileName - The file name.
+ */
+const exportPdf = async <T,>({ title, fileName: parts, columns, rows }: ExportOptions<T>, fileName: string): Promise<void> => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const heading = parts.company ? `${title} – ${parts.company}` : title;
+  const range = parts.from || parts.to ? `${parts.from ?? '…'} to ${parts.to ?? '…'}` : null;
+  const subheading = [range, `Exported ${toDateInputValue(new Date())}`].filter(Boolean).join(' · ');
+
+  doc.setFontSize(14);
+  doc.text(heading, 40, 40);
+  doc.setFontSize(9);
+  doc.text(subheading, 40, 56);
+
+  autoTable(doc, {
+    startY: 70,
+    head: [columns.map((column) => column.label)],
+    body: rows.map((row) => columns.map((column) => formatCell(column, row, true))),
+    styles: { fontSize: 8, cellPadding: 4 },
+    headStyles: { fillColor: [52, 73, 94] },
+    // Right-align numbers, so the decimals line up.
+    columnStyles: Object.fromEntries(
+      columns.map((column, index) => [index, { halign: column.type === 'money' || column.type === 'number' ? 'right' : 'left' }])
+    ),
+    didDrawPage: () => {
+      const page = doc.getCurrentPageInfo().pageNumber;
+      doc.setFontSize(8);
+      doc.text(`Page ${page}`, doc.internal.pageSize.getWidth() - 40, doc.internal.pageSize.getHeight() - 20, { align: 'right' });
+    },
+  });
+
+  doc.save(fileName);
+};
+
+/**
+ * Exports rows to a file in the given format and starts its download.
+ * @param {ExportFormat} format - The file format.
+ * @param {ExportOptions<T>} options - The title, file name parts, columns and rows.
+ */
+export const exportRows = async <T,>(format: ExportFormat, options: ExportOptions<T>): Promise<void> => {
+  const fileName = buildExportFileName(options.fileName, format);
+  switch (format) {
+    case 'csv':
+      exportCsv(options, fileName);
+      break;
+    case 'xlsx':
+      await exportXlsx(options, fileName);
+      break;
+    case 'pdf':
+      await exportPdf(options, fileName);
+      break;
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Formatting Helpers.
+ *
+ * Small, dependency-free helpers for displaying and serializing
+ * durations and dates consistently across components.
+ */
+
+/**
+ * Formats a number of milliseconds as a running clock, e.g. "1:05:09".
+ * @param {number} ms - The elapsed time in milliseconds.
+ */
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+/**
+ * Formats a number of minutes as hours and minutes, e.g. "2h 15m".
+ * @param {number} minutes - The duration in minutes.
+ */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Returns a date as a local 'YYYY-MM-DD' string, the format used by DATE columns and date inputs.
+ * @param {Date} date - The date to format.
+ */
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Formats an amount as money in the given currency, e.g. "$1,234.50".
+ * DECIMAL columns arrive as strings, so both strings and numbers are accepted.
+ * Falls back to the plain amount and code if the currency code is not recognized.
+ * @param {number | string} amount - The amount to format.
+ * @param {string} currency - The ISO 4217 currency code (e.g., 'USD').
+ */
+export const formatMoney = (amount: number | string, currency: string = 'USD'): string => {
+  const value = Number(amount);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
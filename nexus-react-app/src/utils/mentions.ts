@@ -0,0 +1,80 @@
+/**
+ * Query Mention Helpers.
+ *
+ * An @-mention names a specific record in a natural language query, e.g. "show expenses for @Acme".
+ * While the user types, the input shows the plain `@Acme`; when the query is submitted, each
+ * mention is replaced by a token carrying the record's stable id, `@[Acme](company:12)`,
+ * so the backend doesn't have to guess which "Acme" was meant. Queries from the history
+ * are shown with their mentions turned back into plain `@names`.
+ */
+
+// The kinds of records that can be mentioned.
+export type MentionResource = 'company' | 'project' | 'client';
+
+// A record mentioned in a query.
+export interface QueryMention {
+  resource: MentionResource;
+  id: number;
+  label: string; // The record's name, as shown after the '@'
+}
+
+// Matches a mention token: '@[label](resource:id)'.
+const MENTION_TOKEN = /@\[([^\]]+)\]\((company|project|client):(\d+)\)/g;
+
+/**
+ * Replaces the plain mentions of a query with tokens carrying their ids. Longer labels
+ * are replaced first, so '@Acme Labs' isn't taken for '@Acme'.
+ * @param {string} text - The query as typed.
+ * @param {QueryMention[]} mentions - The mentions picked while typing.
+ */
+export const encodeMentions = (text: string, mentions: QueryMention[]): string =>
+  [...mentions]
+    .sort((a, b) => b.label.length - a.label.length)
+    .reduce(
+      (encoded, mention) => encoded.split(`@${mention.label}`).join(`@[${mention.label}](${mention.resource}:${mention.id})`),
+      text
+    );
+
+/**
+ * Turns the mention tokens of a query back into plain mentions.
+ * @param {string} query - The submitted query.
+ * @returns {{ text: string, mentions: QueryMention[] }} The query as typed, and its mentions.
+ */
+export const decodeMentions = (query: string): { text: string; mentions: QueryMention[] } => {
+  const mentions: QueryMention[] = [];
+  const text = query.replace(MENTION_TOKEN, (_, label: string, resource: MentionResource, id: string) => {
+    mentions.push({ resource, id: Number(id), label });
+    return `@${label}`;
+  });
+  return { text, mentions };
+};
+
+/**
+ * Returns a submitted query as the user typed it, e.g. for the history.
+ * @param {string} query - The submitted query.
+ */
+export const displayQuery = (query: string): string => decodeMentions(query).text;
+
+/**
+ * Finds the mention being typed before the caret: an '@' at the start of the query or after
+ * a space, followed by the search term. Mentions already picked don't count.
+ * @param {string} text - The query as typed.
+ * @param {number} caret - The caret position.
+ * @param {QueryMention[]} mentions - The mentions picked so far.
+ * @returns {{ start: number, term: string } | null} Where the '@' is and the term after it, or null.
+ */
+export const findMentionTrigger = (
+  text: string,
+  caret: number,
+  mentions: QueryMention[]
+): { start: number; term: string } | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1 || (start > 0 && !/\s/.test(before[start - 1]))) return null;
+
+  const term = before.slice(start + 1);
+  // Names have spaces, but a mention isn't that long.
+  if (term.length > 40 || /[\n@]/.test(term)) return null;
+  if (mentions.some((mention) => text.startsWith(`@${mention.label}`, start))) return null;
+  return { start, term };
+};
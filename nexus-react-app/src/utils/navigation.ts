@@ -0,0 +1,40 @@
+/**
+ * Navigation helpers shared by the router components.
+ */
+
+// The path users land on after logging in when no other page was requested.
+export const DEFAULT_AUTHENTICATED_PATH = '/dashboard';
+
+// The location state PrivateRoute attaches when it redirects to the login page.
+export interface RedirectState {
+  from?: {
+    pathname: string;
+    search?: string;
+    hash?: string;
+  };
+}
+
+/**
+ * Returns the path to navigate to after a successful login.
+ * This is the page the user originally requested (kept in `state.from` by PrivateRoute,
+ * including its query string and hash), or the dashboard if there is none.
+ * @param {unknown} state - The `location.state` of the login page.
+ */
+export const getPostLoginPath = (state: unknown): string => {
+  const from = (state as RedirectState | null)?.from;
+  if (!from || !from.pathname || from.pathname === '/login') {
+    return DEFAULT_AUTHENTICATED_PATH;
+  }
+  return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+};
+
+/**
+ * Parses a record ID route parameter (e.g. the ':companyId' of '/companies/:companyId').
+ * @param {string | undefined} value - The raw route parameter.
+ * @returns {number | null} The ID, or null if the parameter is not a positive integer.
+ */
+export const parseRecordId = (value: string | undefined): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const id = Number(value);
+  return id > 0 ? id : null;
+};
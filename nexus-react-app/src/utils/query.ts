@@ -0,0 +1,186 @@
+/**
+ * Query Answer Helpers.
+ *
+ * Helpers for the answers of the natural language query endpoint (see `QueryResponse` in
+ * src/api/types.ts): reading responses safely, formatting their values, linking to
+ * the records they mention, and describing them as context for follow-up queries.
+ * Used by QueryResultView and its renderers, by useQueryConversation, and by pinned query cards.
+ */
+import { QueryCell, QueryColumn, QueryHistoryTurn, QueryResource, QueryResponse, QueryStreamEvent, QueryValueType } from '../api/types';
+import { formatMinutes, formatMoney } from './format';
+
+type QueryBody = Record<string, unknown>;
+
+/**
+ * Whether a value is a chart's plotting options (`QueryChartOptions`).
+ * @param {unknown} value - The value.
+ */
+const isChartOptions = (value: unknown): boolean =>
+  Boolean(value) && typeof value === 'object' && typeof (value as QueryBody).x === 'string' && Array.isArray((value as QueryBody).y);
+
+// The answer kinds this app can render, with a check of the fields their renderers rely on.
+const QUERY_KIND_CHECKS: Record<QueryResponse['kind'], (body: QueryBody) => boolean> = {
+  table: (body) => Array.isArray(body.columns) && Array.isArray(body.rows),
+  chart: (body) => Array.isArray(body.columns) && Array.isArray(body.rows) && isChartOptions(body),
+  aggregate: (body) => Array.isArray(body.metrics),
+  record: (body) => typeof body.resource === 'string' && typeof body.id === 'number' && Array.isArray(body.fields),
+  mutation_preview: (body) => typeof body.resource === 'string' && Array.isArray(body.changes) && typeof body.confirm_token === 'string',
+  clarification: (body) => typeof body.question === 'string' && Array.isArray(body.options),
+  message: (body) => typeof body.message === 'string',
+};
+
+/**
+ * Reads a response of 'query' as a typed answer. Responses without a known `kind`
+ * (e.g. `{ message }` from older backends), or missing fields their kind needs, become
+ * a 'message' answer, so they still show instead of breaking the renderers.
+ * @param {unknown} raw - The parsed response body.
+ */
+export const toQueryResponse = (raw: unknown): QueryResponse => {
+  const body = (raw && typeof raw === 'object' ? raw : {}) as QueryBody;
+  const known = typeof body.kind === 'string' && Object.prototype.hasOwnProperty.call(QUERY_KIND_CHECKS, body.kind);
+  const check = known ? QUERY_KIND_CHECKS[body.kind as QueryResponse['kind']] : undefined;
+  if (check?.(body)) {
+    // A table's chart options are optional; ones that can't be plotted are dropped.
+    if (body.kind === 'table' && body.chart !== undefined && !isChartOptions(body.chart)) {
+      const { chart, ...table } = body;
+      console.warn('Ignoring invalid chart options of a query answer:', chart);
+      return table as unknown as QueryResponse;
+    }
+    return body as unknown as QueryResponse;
+  }
+  if (check) console.error('Query answer is missing fields of its kind:', raw);
+  const message = typeof body.message === 'string' ? body.message : JSON.stringify(raw, null, 2);
+  return { kind: 'message', message };
+};
+
+/**
+ * Reads a message of a streamed 'query' answer. Plain text becomes a 'delta', and a message
+ * without a known `type` is read as the complete answer, so backends that don't stream still work.
+ * @param {unknown} raw - The parsed message.
+ */
+export const toQueryStreamEvent = (raw: unknown): QueryStreamEvent => {
+  const message = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  switch (message.type) {
+    case 'status':
+      return { type: 'status', step: String(message.step ?? ''), label: typeof message.label === 'string' ? message.label : undefined };
+    case 'delta':
+    case 'text':
+      return { type: 'delta', text: String(message.text ?? '') };
+    case 'result':
+      return { type: 'result', result: toQueryResponse(message.result) };
+    case 'error':
+      return { type: 'error', message: typeof message.message === 'string' ? message.message : 'Failed to process query.', code: typeof message.code === 'string' ? message.code : undefined };
+    default:
+      return { type: 'result', result: toQueryResponse(raw) };
+  }
+};
+
+// Labels of the steps the backend reports while answering.
+const QUERY_STEP_LABELS: Record<string, string> = {
+  interpreting: 'Interpreting your question',
+  running_report: 'Running report',
+  formatting: 'Formatting the answer',
+};
+
+/**
+ * Returns how to show a step of a streamed answer: its own label, a known label,
+ * or the step name made readable ('looking_up_rates' becomes 'Looking up rates').
+ * @param {string} step - The step name.
+ * @param {string} label - The label the backend sent, if any.
+ */
+export const queryStepLabel = (step: string, label?: string): string => {
+  if (label) return label;
+  if (QUERY_STEP_LABELS[step]) return QUERY_STEP_LABELS[step];
+  const words = step.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Describes an answer in a sentence, for the `history` sent with follow-up queries.
+ * @param {QueryResponse} result - The answer.
+ */
+export const describeQueryAnswer = (result: QueryResponse): string => {
+  if (result.summary) return result.summary;
+  switch (result.kind) {
+    case 'table':
+    case 'chart':
+      return `${result.title} (${result.rows.length} rows)`;
+    case 'clarification':
+      return result.question;
+    case 'message':
+      return result.message;
+    default:
+      return result.title;
+  }
+};
+
+// How many earlier turns are sent with a query; older ones rarely matter for a follow-up.
+const MAX_CONTEXT_TURNS = 10;
+
+/**
+ * Builds the `history` sent with a query from the earlier turns of its conversation:
+ * the answered ones, oldest first, and at most the last MAX_CONTEXT_TURNS.
+ * @param {{ query: string; result: QueryResponse | null }[]} turns - The earlier turns, oldest first.
+ */
+export const buildQueryHistory = (turns: { query: string; result: QueryResponse | null }[]): QueryHistoryTurn[] =>
+  turns
+    .flatMap(({ query, result }) => (result ? [{ query, kind: result.kind, answer: describeQueryAnswer(result) }] : []))
+    .slice(-MAX_CONTEXT_TURNS);
+
+/**
+ * Formats a value of a query answer for display.
+ * @param {QueryCell} value - The value.
+ * @param {QueryValueType} type - How to format it; plain text if not set.
+ * @param {string} currency - The currency of money values.
+ */
+export const formatQueryValue = (value: QueryCell, type: QueryValueType = 'text', currency?: string): string => {
+  if (value === null || value === '') return '-';
+  switch (type) {
+    case 'money':
+      return formatMoney(value, currency);
+    case 'duration':
+      return formatMinutes(Number(value));
+    case 'number':
+      return Number(value).toLocaleString();
+    case 'date': {
+      // DATE strings are shown as local dates; anything unparseable is shown as it came.
+      const date = new Date(typeof value === 'string' && value.length === 10 ? `${value}T00:00:00` : value);
+      return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Formats a cell of tabular query data, using the row's own currency for money if it has one.
+ * @param {Record<string, QueryCell>} row - The row.
+ * @param {QueryColumn} column - The column.
+ */
+export const formatQueryCell = (row: Record<string, QueryCell>, column: QueryColumn): string =>
+  formatQueryValue(row[column.key], column.type, typeof row.currency === 'string' ? row.currency : column.currency);
+
+/**
+ * Whether a column holds numbers that can be summed and plotted.
+ * @param {QueryColumn} column - The column.
+ */
+export const isNumericColumn = (column: QueryColumn): boolean =>
+  column.type === 'number' || column.type === 'money' || column.type === 'duration';
+
+/**
+ * Returns the app path of a record: its detail page, or its edit form for resources without one
+ * (clients and projects). Null for resources that have neither.
+ * @param {QueryResource} resource - The record's resource.
+ * @param {number} id - The record's ID.
+ */
+export const recordPath = (resource: QueryResource, id: number): string | null => {
+  switch (resource) {
+    case 'companies':
+      return `/companies/${id}`;
+    case 'clients':
+    case 'projects':
+      return `/${resource}/${id}/edit`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Streamed Response Reader.
+ *
+ * Reads the body of a streamed response as a sequence of JSON messages, as they arrive.
+ * Two formats are understood, told apart by the response's Content-Type:
+ * - Server-Sent Events ('text/event-stream'): each event's `data` is a JSON message. An event
+ *   name (`event: status`) is added to the message as its `type`, unless it has one.
+ * - Newline-delimited JSON ('application/x-ndjson' or 'application/jsonl'): one message per line.
+ * Any other response (e.g. plain 'application/json' from a backend that doesn't stream)
+ * is read whole and yields its body as a single message.
+ * Used by `useApi().apiFetchStream`.
+ */
+
+/**
+ * Parses one JSON message of a stream. Messages that aren't JSON are yielded as
+ * `{ type: 'text', text }`, so no content is lost.
+ * @param {string} text - The message text.
+ * @param {string} eventName - The Server-Sent Event name, if any.
+ */
+const parseMessage = (text: string, eventName?: string): unknown => {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return { type: eventName ?? 'text', text };
+  }
+  if (eventName && message && typeof message === 'object' && !('type' in message)) {
+    return { type: eventName, ...message };
+  }
+  return message;
+};
+
+/**
+ * Reads the body of a response as text chunks, as they arrive.
+ * @param {Response} response - The response.
+ */
+async function* readChunks(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    yield await response.text();
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+    finished = true;
+    yield decoder.decode();
+  } finally {
+    // Stops the download if the reader of the stream gives up early.
+    if (!finished) {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Reads a Server-Sent Events body. Events are separated by blank lines; only the
+ * `event` and `data` fields are used (comments, `id` and `retry` are ignored).
+ * @param {Response} response - The response.
+ */
+async function* readEventStream(response: Response): AsyncGenerator<unknown> {
+  let buffer = '';
+  for await (const chunk of readChunks(response)) {
+    buffer += chunk.replace(/\r\n?/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let eventName: string | undefined;
+      const data: string[] = [];
+      block.split('\n').forEach((line) => {
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'event') eventName = value;
+        if (field === 'data') data.push(value);
+      });
+      if (data.length > 0) {
+        yield parseMessage(data.join('\n'), eventName);
+      }
+    }
+  }
+}
+
+/**
+ * Reads a newline-delimited JSON body.
+ * @param {Response} response - The response.
+ */
+async function* readJsonLines(response: Response): AsyncGenerator<unknown> {
+  let buffer = '';
+  for await (const chunk of readChunks(response)) {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? ''; // The last line may be incomplete
+    for (const line of lines) {
+      if (line.trim()) yield parseMessage(line.trim());
+    }
+  }
+  if (buffer.trim()) yield parseMessage(buffer.trim());
+}
+
+/**
+ * Reads the messages of a streamed (or plain JSON) response, as they arrive.
+ * @param {Response} response - A successful response.
+ */
+export async function* readStream(response: Response): AsyncGenerator<unknown> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes('text/event-stream')) {
+    yield* readEventStream(response);
+  } else if (contentType.includes('ndjson') || contentType.includes('jsonl')) {
+    yield* readJsonLines(response);
+  } else if (response.status !== 204) {
+    yield parseMessage(await response.text());
+  }
+}
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+// Env variables read by src/config.ts and, in development, src/components/DashboardLayout.tsx. All are optional; see .env.example.
+interface ImportMetaEnv {
+  readonly VITE_WP_API_URL?: string;
+  readonly VITE_NEXUS_NAMESPACE?: string;
+  readonly VITE_JWT_NAMESPACE?: string;
+  readonly VITE_CONFIG_URL?: string;
+  readonly VITE_MOCK_SPEECH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}